@@ -1,7 +1,5 @@
-import express, { Request, Response } from 'express';
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
-import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
-import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { startMcpServer, UnauthorizedError } from '@klavis-ai/mcp-runtime';
 import {
     Tool,
     CallToolRequestSchema,
@@ -928,140 +926,20 @@ function formatGraphQLType(type: GraphQLTypeRef): string {
     return type.name || 'Unknown';
 }
 
-const app = express();
-
-//=============================================================================
-// STREAMABLE HTTP TRANSPORT (PROTOCOL VERSION 2025-03-26)
-//=============================================================================
-
-app.post('/mcp', async (req: Request, res: Response) => {
-    // Get API token from header
-    const apiToken = req.headers.authorization?.replace('Bearer ', '') || 
-                     req.headers['x-auth-token'] as string;
-    const email = req.headers['x-auth-email'] as string;
-
-    if (!apiToken) {
-        console.error('Error: API token is missing. Provide it via Authorization header or x-auth-token header.');
-        res.status(401).json({
-            jsonrpc: '2.0',
-            error: {
-                code: -32000,
-                message: 'API token is required'
-            },
-            id: null
-        });
-        return;
-    }
-
-    const server = getGraphQLMcpServer();
-    try {
-        const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
-            sessionIdGenerator: undefined,
-        });
-        await server.connect(transport);
-        asyncLocalStorage.run({ apiToken, email }, async () => {
-            await transport.handleRequest(req, res, req.body);
-        });
-        res.on('close', () => {
-            console.log('Request closed');
-            transport.close();
-            server.close();
-        });
-    } catch (error) {
-        console.error('Error handling MCP request:', error);
-        if (!res.headersSent) {
-            res.status(500).json({
-                jsonrpc: '2.0',
-                error: {
-                    code: -32603,
-                    message: 'Internal server error',
-                },
-                id: null,
-            });
-        }
-    }
-});
-
-app.get('/mcp', async (req: Request, res: Response) => {
-    console.log('Received GET MCP request');
-    res.writeHead(405).end(JSON.stringify({
-        jsonrpc: "2.0",
-        error: {
-            code: -32000,
-            message: "Method not allowed."
-        },
-        id: null
-    }));
-});
-
-app.delete('/mcp', async (req: Request, res: Response) => {
-    console.log('Received DELETE MCP request');
-    res.writeHead(405).end(JSON.stringify({
-        jsonrpc: "2.0",
-        error: {
-            code: -32000,
-            message: "Method not allowed."
-        },
-        id: null
-    }));
-});
-
-//=============================================================================
-// DEPRECATED HTTP+SSE TRANSPORT (PROTOCOL VERSION 2024-11-05)
-//=============================================================================
-
-// to support multiple simultaneous connections we have a lookup object from
-// sessionId to transport
-const transports = new Map<string, SSEServerTransport>();
-
-app.get("/sse", async (req, res) => {
-    const transport = new SSEServerTransport(`/messages`, res);
-
-    // Set up cleanup when connection closes
-    res.on('close', async () => {
-        console.log(`SSE connection closed for transport: ${transport.sessionId}`);
-        try {
-            transports.delete(transport.sessionId);
-        } finally {
-        }
-    });
-
-    transports.set(transport.sessionId, transport);
-
-    const server = getGraphQLMcpServer();
-    await server.connect(transport);
-
-    console.log(`SSE connection established with transport: ${transport.sessionId}`);
-});
-
-app.post("/messages", async (req, res) => {
-    const sessionId = req.query.sessionId as string;
-    const transport = transports.get(sessionId);
-    if (transport) {
+startMcpServer({
+    name: 'cloudflare-graphql-mcp-server',
+    createServer: getGraphQLMcpServer,
+    asyncLocalStorage,
+    port: Number(process.env.PORT) || 8787,
+    extractContext: (req) => {
         // Get API token from header
-        const apiToken = req.headers.authorization?.replace('Bearer ', '') || 
-                       req.headers['x-auth-token'] as string;
+        const apiToken = req.headers.authorization?.replace('Bearer ', '') ||
+                         req.headers['x-auth-token'] as string;
         const email = req.headers['x-auth-email'] as string;
 
         if (!apiToken) {
-            console.error('Error: API token is missing. Provide it via Authorization header or x-auth-token header.');
-            res.status(401).json({
-                error: "API token is required"
-            });
-            return;
+            throw new UnauthorizedError('API token is required');
         }
-
-        // Run handler within AsyncLocalStorage context
-        asyncLocalStorage.run({ apiToken, email }, async () => {
-            await transport.handlePostMessage(req, res);
-        });
-    } else {
-        console.error(`Transport not found for session ID: ${sessionId}`);
-        res.status(404).send({ error: "Transport not found" });
-    }
+        return { apiToken, email };
+    },
 });
-
-const PORT = process.env.PORT || 8787;
-app.listen(PORT, () => {
-    console.log(`GraphQL MCP server running on port ${PORT}`);
-}); 
\ No newline at end of file
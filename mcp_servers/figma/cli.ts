@@ -1,10 +1,11 @@
 #!/usr/bin/env node
 
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { startMcpServer } from "@klavis-ai/mcp-runtime";
+import { AsyncLocalStorage } from "async_hooks";
 import { config } from "dotenv";
 import { resolve } from "path";
 import { getServerConfig } from "./config.js";
-import { startHttpServer } from "./server.js";
 import { createServer } from "./mcp.js";
 
 // Load .env from the current working directory
@@ -16,14 +17,29 @@ export async function startServer(): Promise<void> {
 
   const config = getServerConfig(isStdioMode);
 
-  const server = createServer(config.figmaApiKey, { isHTTP: !isStdioMode });
-
   if (isStdioMode) {
+    const server = createServer(config.figmaApiKey);
     const transport = new StdioServerTransport();
     await server.connect(transport);
   } else {
     console.log(`Initializing Figma MCP Server in HTTP mode on port ${config.port}...`);
-    await startHttpServer(config.port, server);
+    // Requests may bring their own API key; the configured one is the fallback
+    const asyncLocalStorage = new AsyncLocalStorage<{ figmaApiKey: string }>();
+    startMcpServer({
+      name: "figma-mcp-server",
+      createServer: () =>
+        createServer(() => asyncLocalStorage.getStore()?.figmaApiKey || config.figmaApiKey, {
+          isHTTP: true,
+        }),
+      asyncLocalStorage,
+      extractContext: (req) => ({
+        figmaApiKey:
+          (req.headers["x-auth-token"] as string) ||
+          (req.headers["access_token"] as string) ||
+          config.figmaApiKey,
+      }),
+      port: config.port,
+    });
   }
 }
 
@@ -14,7 +14,10 @@ const serverOptions = {
   capabilities: { logging: {}, tools: {} },
 };
 
-function createServer(figmaApiKey: string, { isHTTP = false }: { isHTTP?: boolean } = {}) {
+function createServer(
+  figmaApiKey: string | (() => string),
+  { isHTTP = false }: { isHTTP?: boolean } = {},
+) {
   const server = new McpServer(serverInfo);
   const figmaService = new FigmaService(figmaApiKey);
   registerTools(server, figmaService);
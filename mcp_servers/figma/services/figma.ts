@@ -38,10 +38,11 @@ type FetchImageFillParams = Omit<FetchImageParams, "fileType"> & {
 };
 
 export class FigmaService {
-  private readonly apiKey: string;
+  private readonly apiKey: string | (() => string);
   private readonly baseUrl = "https://api.figma.com/v1";
 
-  constructor(apiKey: string) {
+  /** Takes the API key, or a function returning the key of the current request. */
+  constructor(apiKey: string | (() => string)) {
     this.apiKey = apiKey;
   }
 
@@ -55,7 +56,7 @@ export class FigmaService {
       Logger.log(`Calling ${this.baseUrl}${endpoint}`);
       const response = await fetch(`${this.baseUrl}${endpoint}`, {
         headers: {
-          "X-Figma-Token": this.apiKey,
+          "X-Figma-Token": typeof this.apiKey === "function" ? this.apiKey() : this.apiKey,
         },
       });
 
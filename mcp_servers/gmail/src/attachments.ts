@@ -0,0 +1,159 @@
+import { ResponseTooLargeError, fetchPublicUrl } from '@klavis-ai/mcp-runtime';
+import { z } from 'zod';
+
+/** Largest attachment returned inline by download_attachment. */
+export const MAX_DOWNLOAD_BYTES =
+  Number(process.env.GMAIL_MAX_ATTACHMENT_BYTES) || 10 * 1024 * 1024;
+
+/** Gmail refuses messages whose attachments add up to more than 25 MB. */
+export const MAX_SEND_BYTES = 25 * 1024 * 1024;
+
+export const AttachmentInputSchema = z
+  .object({
+    filename: z
+      .string()
+      .optional()
+      .describe('File name; required with content, taken from the URL otherwise'),
+    content: z.string().optional().describe('Base64-encoded file content'),
+    url: z.string().optional().describe('http(s) URL to download the file from'),
+    mimeType: z
+      .string()
+      .optional()
+      .describe('MIME type of the file (e.g., application/pdf); detected when omitted'),
+  })
+  .refine((input) => !input.content !== !input.url, {
+    message: 'Each attachment needs exactly one of content or url',
+  })
+  .refine((input) => !input.content || input.filename, {
+    message: 'filename is required for attachments given as content',
+  });
+
+/** A file to attach, given inline as base64 or as a URL to download it from. */
+export type AttachmentInput = z.infer<typeof AttachmentInputSchema>;
+
+export interface LoadedAttachment {
+  filename: string;
+  mimeType: string;
+  data: Buffer;
+}
+
+// Text types are returned as text resources, everything else as base64 blobs.
+const TEXT_TYPES = /^text\/|^application\/(json|xml|x-yaml|yaml|javascript|csv)\b|\+(json|xml)\b/;
+
+const MIME_TYPES: Record<string, string> = {
+  pdf: 'application/pdf',
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  txt: 'text/plain',
+  csv: 'text/csv',
+  html: 'text/html',
+  json: 'application/json',
+  zip: 'application/zip',
+  doc: 'application/msword',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  xls: 'application/vnd.ms-excel',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  ppt: 'application/vnd.ms-powerpoint',
+  pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+};
+
+function mimeTypeOf(filename: string) {
+  const extension = filename.split('.').pop()?.toLowerCase() ?? '';
+  return MIME_TYPES[extension] ?? 'application/octet-stream';
+}
+
+function tooLarge(filename: string, size: number | undefined, limit: number) {
+  return new Error(
+    size === undefined
+      ? `Attachment ${filename} is larger than the limit of ${limit} bytes`
+      : `Attachment ${filename} is ${size} bytes, more than the limit of ${limit} bytes`,
+  );
+}
+
+function filenameFromUrl(url: URL) {
+  const name = decodeURIComponent(url.pathname.split('/').pop() ?? '');
+  return name || 'attachment';
+}
+
+/** Decodes or downloads the file of an attachment input, refusing files over `limit` bytes. */
+export async function loadAttachment(
+  input: AttachmentInput,
+  limit: number,
+): Promise<LoadedAttachment> {
+  if (input.content !== undefined) {
+    const filename = input.filename ?? 'attachment';
+    const data = Buffer.from(input.content, 'base64');
+    if (data.length === 0) {
+      throw new Error(`Attachment ${filename} is empty`);
+    }
+    if (data.length > limit) {
+      throw tooLarge(filename, data.length, limit);
+    }
+    return { filename, mimeType: input.mimeType ?? mimeTypeOf(filename), data };
+  }
+
+  let url: URL;
+  try {
+    url = new URL(input.url ?? '');
+  } catch {
+    throw new Error(`Invalid attachment URL "${input.url}"`);
+  }
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    throw new Error(`Attachment URLs must use http or https: ${input.url}`);
+  }
+
+  // The URL comes from the client, so it may only point at public hosts and
+  // the download stops as soon as it passes the size limit.
+  const filename = input.filename ?? filenameFromUrl(url);
+  let response;
+  try {
+    response = await fetchPublicUrl(url, { maxBytes: limit });
+  } catch (error) {
+    if (error instanceof ResponseTooLargeError) {
+      throw tooLarge(filename, error.size, limit);
+    }
+    throw new Error(`Failed to download attachment from ${url}: ${(error as Error).message}`);
+  }
+  const served = response.contentType?.split(';')[0].trim();
+  return {
+    filename,
+    mimeType:
+      input.mimeType ??
+      (served && served !== 'application/octet-stream' ? served : mimeTypeOf(filename)),
+    data: response.data,
+  };
+}
+
+/** Loads all attachments of a message, keeping them within Gmail's size limit together. */
+export async function loadAttachments(inputs: AttachmentInput[]): Promise<LoadedAttachment[]> {
+  const loaded: LoadedAttachment[] = [];
+  let total = 0;
+  for (const input of inputs) {
+    const attachment = await loadAttachment(input, MAX_SEND_BYTES);
+    total += attachment.data.length;
+    if (total > MAX_SEND_BYTES) {
+      throw new Error(
+        `Attachments add up to more than Gmail's limit of ${MAX_SEND_BYTES} bytes per message`,
+      );
+    }
+    loaded.push(attachment);
+  }
+  return loaded;
+}
+
+/** The file of an attachment as an MCP embedded resource. */
+export function attachmentResource(
+  messageId: string,
+  partId: string,
+  attachment: LoadedAttachment,
+) {
+  const uri = `gmail-attachment://${messageId}/${partId}/${encodeURIComponent(attachment.filename)}`;
+  return {
+    type: 'resource' as const,
+    resource: TEXT_TYPES.test(attachment.mimeType)
+      ? { uri, mimeType: attachment.mimeType, text: attachment.data.toString('utf8') }
+      : { uri, mimeType: attachment.mimeType, blob: attachment.data.toString('base64') },
+  };
+}
@@ -0,0 +1,107 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { cleanUrl, normalizeBody } from './content.js';
+
+const text = (body: string) => ({ text: body, html: '' });
+const html = (body: string) => ({ text: '', html: body });
+
+describe('cleanUrl', () => {
+  it('should drop tracking parameters and keep the rest', () => {
+    assert.deepEqual(cleanUrl('https://example.com/post?utm_source=news&id=1&fbclid=abc'), {
+      url: 'https://example.com/post?id=1',
+      tracking: false,
+    });
+  });
+
+  it('should unwrap redirectors and recognize click trackers', () => {
+    const target = encodeURIComponent('https://example.com/a?utm_medium=email');
+    assert.equal(
+      cleanUrl(`https://eur01.safelinks.protection.outlook.com/?url=${target}&data=x`).url,
+      'https://example.com/a',
+    );
+    assert.equal(cleanUrl('https://acme.us1.list-manage.com/track/click?u=1&id=2').tracking, true);
+    assert.equal(cleanUrl('mailto:jane@example.com').tracking, false);
+  });
+});
+
+describe('normalizeBody', () => {
+  it('should strip quoted replies', () => {
+    const body =
+      'Sounds good.\n\nOn Mon, 1 Jan 2024, Jane <jane@example.com> wrote:\n> Lunch?\n> At noon';
+    assert.deepEqual(normalizeBody(text(body), 'clean'), {
+      body: 'Sounds good.',
+      removed: ['quoted reply (3 lines)'],
+    });
+    assert.deepEqual(normalizeBody(text(body), 'markdown'), { body, removed: [] });
+  });
+
+  it('should strip Outlook headers and trailing quote blocks', () => {
+    const outlook =
+      'Done.\n\n________________________________\nFrom: Jane\nSent: Monday\nTo: Bob\n\nPlease review.';
+    assert.equal(normalizeBody(text(outlook), 'clean').body, 'Done.');
+    assert.equal(normalizeBody(text('Yes.\n\n> Coming?\n>\n> J'), 'clean').body, 'Yes.');
+  });
+
+  it('should keep forwarded messages and messages that are only a quote', () => {
+    const forwarded =
+      'FYI\n\n---------- Forwarded message ---------\nFrom: Jane <jane@example.com>\nDate: Monday\nSubject: Plans\nTo: Bob';
+    assert.deepEqual(normalizeBody(text(forwarded), 'clean'), { body: forwarded, removed: [] });
+    assert.deepEqual(normalizeBody(text('> Lunch?'), 'clean'), { body: '> Lunch?', removed: [] });
+  });
+
+  it('should strip signatures', () => {
+    assert.deepEqual(normalizeBody(text('See you there.\n\n-- \nJane Doe\nAcme Inc.'), 'clean'), {
+      body: 'See you there.',
+      removed: ['signature (3 lines)'],
+    });
+    assert.equal(
+      normalizeBody(text('On my way.\n\nSent from my iPhone'), 'clean').body,
+      'On my way.',
+    );
+  });
+
+  it('should strip tracking links from plain text', () => {
+    const body =
+      'New post: https://example.com/post?utm_source=news\nhttps://acme.us1.list-manage.com/track/click?u=1\nThanks';
+    assert.deepEqual(normalizeBody(text(body), 'clean'), {
+      body: 'New post: https://example.com/post\nThanks',
+      removed: ['1 tracking link'],
+    });
+  });
+
+  it('should strip Gmail quotes, signatures and tracking from HTML', () => {
+    const result = normalizeBody(
+      html(
+        '<div>See <a href="https://acme.us1.list-manage.com/track/click?u=1">the offer</a>' +
+          ' and <a href="https://example.com/?utm_campaign=x">our site</a>.</div>' +
+          '<div class="gmail_signature">Jane<br>Acme</div>' +
+          '<img src="https://example.com/open.gif" width="1" height="1">' +
+          '<div class="gmail_quote">On Monday, Bob wrote:<blockquote>Hi</blockquote></div>',
+      ),
+      'clean',
+    );
+    assert.equal(result.body, 'See the offer and [our site](https://example.com/).');
+    assert.deepEqual(result.removed, [
+      'quoted reply (2 lines)',
+      'signature (2 lines)',
+      '1 tracking link',
+      '1 tracking image',
+    ]);
+  });
+
+  it('should render deeply nested unclosed tags', () => {
+    const lines = Array.from({ length: 4000 }, (_, i) => `line ${i}`);
+    const result = normalizeBody(
+      html(lines.map((line) => `<font size=2>${line}<br>`).join('\n')),
+      'clean',
+    );
+    assert.deepEqual(result.body.split('\n'), lines);
+  });
+
+  it('should return the plain text part as is for raw', () => {
+    assert.deepEqual(normalizeBody({ text: 'Hi\r\n', html: '<p>Hi</p>' }, 'raw'), {
+      body: 'Hi\r\n',
+      removed: [],
+    });
+  });
+});
@@ -0,0 +1,708 @@
+/**
+ * How message bodies are returned: `clean` is Markdown without quoted replies,
+ * signatures and tracking links; `markdown` converts HTML to Markdown but keeps
+ * everything; `raw` is the plain text part, or the HTML part when there is none.
+ */
+export type BodyFormat = 'clean' | 'markdown' | 'raw';
+
+export interface NormalizedBody {
+  body: string;
+  /** What was left out of a `clean` body, e.g. `quoted reply (12 lines)`. */
+  removed: string[];
+}
+
+interface HtmlElement {
+  tag: string;
+  attrs: Record<string, string>;
+  children: HtmlNode[];
+}
+
+type HtmlNode = HtmlElement | string;
+
+const VOID_TAGS = new Set([
+  'area',
+  'base',
+  'br',
+  'col',
+  'embed',
+  'hr',
+  'img',
+  'input',
+  'link',
+  'meta',
+  'source',
+  'track',
+  'wbr',
+]);
+const RAW_TEXT_TAGS = new Set(['script', 'style', 'textarea', 'title']);
+const SKIPPED_TAGS = new Set([
+  'head',
+  'script',
+  'style',
+  'title',
+  'meta',
+  'link',
+  'noscript',
+  'template',
+  'svg',
+  'object',
+  'iframe',
+]);
+const BLOCK_TAGS = new Set([
+  'p',
+  'div',
+  'section',
+  'article',
+  'header',
+  'footer',
+  'main',
+  'nav',
+  'aside',
+  'center',
+  'address',
+  'figure',
+  'figcaption',
+  'form',
+  'fieldset',
+  'dl',
+  'dt',
+  'dd',
+]);
+
+// An open tag that is implicitly closed by another of the same kind, unless
+// one of these containers comes first.
+const IMPLICIT_CLOSE: Record<string, string[]> = {
+  li: ['ul', 'ol'],
+  tr: ['table', 'tbody', 'thead', 'tfoot'],
+  td: ['tr', 'table'],
+  th: ['tr', 'table'],
+  p: ['div', 'td', 'th', 'li', 'blockquote', 'section', 'article', 'body', 'table'],
+  option: ['select'],
+};
+
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  ensp: ' ',
+  emsp: ' ',
+  thinsp: ' ',
+  zwnj: '',
+  zwj: '',
+  shy: '',
+  copy: '©',
+  reg: '®',
+  trade: '™',
+  hellip: '…',
+  mdash: '—',
+  ndash: '–',
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”',
+  bull: '•',
+  middot: '·',
+  euro: '€',
+  pound: '£',
+  yen: '¥',
+  cent: '¢',
+  times: '×',
+  rarr: '→',
+  larr: '←',
+};
+
+// Zero-width and soft hyphen characters that newsletters pad preview text with.
+const INVISIBLE = /\u034f|[\u00ad\u200b-\u200f\u2060\ufeff]/g;
+
+// Stands in for indentation while lines are trimmed, so list nesting and code survive.
+const INDENT = '\ue000';
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z][a-z0-9]*);/gi, (entity, name: string) => {
+    if (name[0] === '#') {
+      const code =
+        name[1] === 'x' || name[1] === 'X' ? parseInt(name.slice(2), 16) : Number(name.slice(1));
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+    }
+    return ENTITIES[name.toLowerCase()] ?? entity;
+  });
+}
+
+function parseAttributes(source: string) {
+  const attrs: Record<string, string> = {};
+  const pattern = /([^\s=/>]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+  for (const match of source.matchAll(pattern)) {
+    attrs[match[1].toLowerCase()] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '');
+  }
+  return attrs;
+}
+
+// Older mailers leave tags such as <font> unclosed on every line; past this depth,
+// elements are kept as siblings so rendering does not recurse once per line.
+const MAX_DEPTH = 200;
+
+/** Parses HTML into a tree, tolerating the unclosed and stray tags common in email. */
+function parseHtml(html: string): HtmlElement {
+  // Only ASCII is lowercased so indexes still match the original
+  const lowerHtml = html.replace(/[A-Z]+/g, (letters) => letters.toLowerCase());
+  const root: HtmlElement = { tag: '#root', attrs: {}, children: [] };
+  const stack: HtmlElement[] = [root];
+  const current = () => stack[stack.length - 1];
+  const tagPattern =
+    /<!--[\s\S]*?(?:-->|$)|<![^>]*>|<\/([a-zA-Z][\w:-]*)\s*>|<([a-zA-Z][\w:-]*)((?:"[^"]*"|'[^']*'|[^'">])*)>/g;
+
+  let index = 0;
+  let match: RegExpExecArray | null;
+  while ((match = tagPattern.exec(html))) {
+    if (match.index > index) {
+      current().children.push(decodeEntities(html.slice(index, match.index)));
+    }
+    index = tagPattern.lastIndex;
+
+    const [, endTag, startTag, attributes] = match;
+    if (endTag) {
+      const tag = endTag.toLowerCase();
+      const open = stack.map((element) => element.tag).lastIndexOf(tag);
+      if (open > 0) {
+        stack.length = open;
+      }
+    } else if (startTag) {
+      const tag = startTag.toLowerCase();
+      const boundaries = IMPLICIT_CLOSE[tag];
+      if (boundaries) {
+        for (let i = stack.length - 1; i > 0; i--) {
+          if (boundaries.includes(stack[i].tag)) {
+            break;
+          }
+          if (stack[i].tag === tag) {
+            stack.length = i;
+            break;
+          }
+        }
+      }
+      const element: HtmlElement = { tag, attrs: parseAttributes(attributes), children: [] };
+      current().children.push(element);
+      if (RAW_TEXT_TAGS.has(tag)) {
+        const end = lowerHtml.indexOf(`</${tag}`, index);
+        const close = end === -1 ? html.length : end;
+        element.children.push(html.slice(index, close));
+        tagPattern.lastIndex = end === -1 ? html.length : html.indexOf('>', end) + 1 || html.length;
+        index = tagPattern.lastIndex;
+      } else if (
+        !VOID_TAGS.has(tag) &&
+        !attributes.trim().endsWith('/') &&
+        stack.length < MAX_DEPTH
+      ) {
+        stack.push(element);
+      }
+    }
+  }
+  if (index < html.length) {
+    current().children.push(decodeEntities(html.slice(index)));
+  }
+  return root;
+}
+
+function textContent(node: HtmlNode): string {
+  return typeof node === 'string' ? node : node.children.map(textContent).join('');
+}
+
+function hasClass(element: HtmlElement, name: string) {
+  return (element.attrs.class ?? '').split(/\s+/).includes(name);
+}
+
+function isHidden(element: HtmlElement) {
+  const style = (element.attrs.style ?? '').toLowerCase().replace(/\s+/g, '');
+  return (
+    'hidden' in element.attrs ||
+    /display:none|visibility:hidden|max-height:0(px)?(;|$)|font-size:0(px)?(;|$)/.test(style)
+  );
+}
+
+const TRACKING_PARAMS =
+  /^(utm_\w+|mc_[ce]id|fbclid|gclid|dclid|msclkid|yclid|igshid|_hsenc|_hsmi|mkt_tok|oly_(enc|anon)_id|vero_(id|conv)|ck_subscriber_id|trk\w*|sc_\w+|s_cid|ref_src|__s)$/i;
+const TRACKING_HOSTS =
+  /(^|\.)(list-manage\.com|mailchi\.mp|sendgrid\.net|mandrillapp\.com|hubspotlinks\.com|hubspotemail\.net|mcsv\.net|rs6\.net|exct\.net|mailgun\.org|sparkpostmail\.com|cmail\d+\.com|createsend\d*\.com|mlsend\.com|klclick\d*\.com)$/i;
+const TRACKING_SUBDOMAIN =
+  /^(click|clicks|link|links|track|tracking|trk|email|em|e|t|r|go|l|ablink|url\d+|ct|cl)\./i;
+
+/** A link with redirect wrappers and tracking parameters removed; `tracking` when it only goes through a click tracker. */
+export function cleanUrl(href: string): { url: string; tracking: boolean } {
+  let url: URL;
+  try {
+    url = new URL(href);
+  } catch {
+    return { url: href, tracking: false };
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    return { url: href, tracking: false };
+  }
+
+  // Unwrap redirectors that carry the target in a parameter
+  const wrapped =
+    (url.hostname.endsWith('safelinks.protection.outlook.com') && url.searchParams.get('url')) ||
+    (/^(www\.)?google\.[a-z.]+$/.test(url.hostname) &&
+      url.pathname === '/url' &&
+      (url.searchParams.get('q') || url.searchParams.get('url'))) ||
+    (url.hostname === 'l.facebook.com' && url.searchParams.get('u'));
+  if (wrapped) {
+    return cleanUrl(wrapped);
+  }
+
+  for (const name of [...url.searchParams.keys()]) {
+    if (TRACKING_PARAMS.test(name)) {
+      url.searchParams.delete(name);
+    }
+  }
+  const opaquePath = url.pathname
+    .split('/')
+    .some((segment) => segment.length > 40 && /^[\w=-]+$/.test(segment));
+  const tracking =
+    TRACKING_HOSTS.test(url.hostname) ||
+    (TRACKING_SUBDOMAIN.test(url.hostname) && (opaquePath || url.search.length > 40));
+  return { url: url.toString(), tracking };
+}
+
+interface RenderContext {
+  clean: boolean;
+  removed: { quote: number; signature: number; trackingLinks: number; trackingImages: number };
+  /** Set when the rest of the document is a quoted message, as Outlook lays it out. */
+  stop: boolean;
+}
+
+function wrapInline(marker: string, content: string) {
+  const trimmed = content.trim();
+  if (!trimmed) {
+    return content;
+  }
+  const leading = content.match(/^\s*/)?.[0] ?? '';
+  const trailing = content.match(/\s*$/)?.[0] ?? '';
+  return `${leading}${marker}${trimmed}${marker}${trailing}`;
+}
+
+function renderChildren(element: HtmlElement, context: RenderContext) {
+  return element.children.map((child) => render(child, context)).join('');
+}
+
+function block(content: string, separator = '\n\n') {
+  const trimmed = content.trim();
+  return trimmed ? `${separator}${trimmed}${separator}` : '';
+}
+
+function prefixLines(content: string, first: string, rest: string) {
+  return content
+    .split('\n')
+    .map((line, index) => (index === 0 ? first : line ? rest : '') + line)
+    .join('\n');
+}
+
+function renderList(element: HtmlElement, context: RenderContext) {
+  const ordered = element.tag === 'ol';
+  let number = Number(element.attrs.start) || 1;
+  const items = element.children
+    .filter((child): child is HtmlElement => typeof child !== 'string' && child.tag === 'li')
+    .map((item) => {
+      const content = normalizeLines(renderChildren(item, context)).trim();
+      const marker = ordered ? `${number++}. ` : '- ';
+      return prefixLines(content, marker, INDENT.repeat(marker.length));
+    })
+    .filter((item) => item.trim() !== '-' && item.trim() !== '');
+  return items.length > 0 ? `\n\n${items.join('\n')}\n\n` : '';
+}
+
+function cells(row: HtmlElement) {
+  return row.children.filter(
+    (child): child is HtmlElement =>
+      typeof child !== 'string' && (child.tag === 'td' || child.tag === 'th'),
+  );
+}
+
+function rows(table: HtmlElement): HtmlElement[] {
+  return table.children.flatMap((child) => {
+    if (typeof child === 'string') {
+      return [];
+    }
+    if (child.tag === 'tr') {
+      return [child];
+    }
+    return ['thead', 'tbody', 'tfoot'].includes(child.tag) ? rows(child) : [];
+  });
+}
+
+function containsTag(node: HtmlNode, tags: Set<string>): boolean {
+  return (
+    typeof node !== 'string' &&
+    node.children.some(
+      (child) => typeof child !== 'string' && (tags.has(child.tag) || containsTag(child, tags)),
+    )
+  );
+}
+
+const LAYOUT_TAGS = new Set(['table', 'div', 'p', 'ul', 'ol', 'h1', 'h2', 'h3', 'blockquote']);
+
+// Data tables with a header row become Markdown tables. Layout tables, which
+// most newsletters are built from, are flattened into blocks.
+function renderTable(element: HtmlElement, context: RenderContext) {
+  const tableRows = rows(element);
+  const firstRow = tableRows[0] ? cells(tableRows[0]) : [];
+  const isDataTable =
+    firstRow.length > 1 &&
+    firstRow.every((cell) => cell.tag === 'th') &&
+    !containsTag(element, new Set(['table']));
+  if (isDataTable) {
+    const line = (row: HtmlElement) =>
+      `| ${cells(row)
+        .map((cell) =>
+          normalizeLines(renderChildren(cell, context))
+            .trim()
+            .replace(/\n+/g, '<br>')
+            .replace(/\|/g, '\\|'),
+        )
+        .join(' | ')} |`;
+    const [header, ...body] = tableRows;
+    return `\n\n${[line(header), `|${' --- |'.repeat(firstRow.length)}`, ...body.map(line)].join('\n')}\n\n`;
+  }
+
+  return tableRows
+    .map((row) => {
+      const rowCells = cells(row);
+      // Rows of short inline cells, like items and prices on a receipt, stay on one line
+      if (rowCells.length > 1 && rowCells.every((cell) => !containsTag(cell, LAYOUT_TAGS))) {
+        const values = rowCells
+          .map((cell) => normalizeLines(renderChildren(cell, context)).trim().replace(/\n+/g, ' '))
+          .filter((value) => value !== '');
+        return block(values.join(' | '), '\n');
+      }
+      return rowCells.map((cell) => block(renderChildren(cell, context), '\n')).join('');
+    })
+    .join('');
+}
+
+function renderLink(element: HtmlElement, context: RenderContext) {
+  const content = renderChildren(element, context);
+  const text = content.trim();
+  const href = (element.attrs.href ?? '').trim();
+  if (!href || href.startsWith('#') || /^javascript:/i.test(href)) {
+    return content;
+  }
+  if (/^mailto:/i.test(href)) {
+    const address = decodeURIComponent(href.slice(7).split('?')[0]);
+    return !text || text.includes(address) ? address : `${content} (${address})`;
+  }
+
+  const { url, tracking } = cleanUrl(href);
+  if (context.clean && tracking) {
+    context.removed.trackingLinks++;
+    return content;
+  }
+  if (!text) {
+    return context.clean ? '' : `<${url}>`;
+  }
+  if (text === href || text === url) {
+    return url;
+  }
+  const leading = content.match(/^\s*/)?.[0] ?? '';
+  const trailing = content.match(/\s*$/)?.[0] ?? '';
+  return `${leading}[${text.replace(/\s*\n\s*/g, ' ')}](${url})${trailing}`;
+}
+
+function renderImage(element: HtmlElement, context: RenderContext) {
+  const alt = (element.attrs.alt ?? '').trim();
+  const src = element.attrs.src ?? '';
+  const tiny =
+    Number(element.attrs.width) <= 2 &&
+    Number(element.attrs.height) <= 2 &&
+    ('width' in element.attrs || 'height' in element.attrs);
+  if (tiny || (src && cleanUrl(src).tracking && !alt)) {
+    context.removed.trackingImages++;
+    return '';
+  }
+  if (context.clean) {
+    return alt;
+  }
+  return src && !src.startsWith('cid:') ? `![${alt}](${src})` : alt ? `[image: ${alt}]` : '';
+}
+
+// Gmail, Apple Mail and Outlook mark up quoted messages differently.
+function isQuote(element: HtmlElement) {
+  if (
+    hasClass(element, 'gmail_quote') ||
+    (element.tag === 'blockquote' && element.attrs.type === 'cite')
+  ) {
+    // Forwarded messages are content, not history
+    return !/forwarded message|begin forwarded message/i.test(textContent(element).slice(0, 300));
+  }
+  return false;
+}
+
+function startsOutlookQuote(element: HtmlElement) {
+  return (
+    element.attrs.id === 'divRplyFwdMsg' ||
+    element.attrs.id === 'appendonsend' ||
+    hasClass(element, 'OutlookMessageHeader')
+  );
+}
+
+function countLines(markdown: string) {
+  return markdown.split('\n').filter((line) => line.trim() !== '').length;
+}
+
+// The number of lines an element takes up when nothing is left out.
+function renderedLines(node: HtmlElement) {
+  return countLines(convertTree(node, false).markdown);
+}
+
+function render(node: HtmlNode, context: RenderContext): string {
+  if (context.stop) {
+    return '';
+  }
+  if (typeof node === 'string') {
+    return node.replace(INVISIBLE, '').replace(/\s+/g, ' ');
+  }
+  const { tag } = node;
+  if (SKIPPED_TAGS.has(tag) || isHidden(node)) {
+    return '';
+  }
+
+  if (context.clean) {
+    if (isQuote(node)) {
+      context.removed.quote += renderedLines(node);
+      return '';
+    }
+    if (hasClass(node, 'gmail_signature')) {
+      context.removed.signature += renderedLines(node);
+      return '';
+    }
+    if (startsOutlookQuote(node)) {
+      context.stop = true;
+      context.removed.quote += 1;
+      return '';
+    }
+  }
+
+  switch (tag) {
+    case 'br':
+      return '\n';
+    case 'hr':
+      return '\n\n---\n\n';
+    case 'h1':
+    case 'h2':
+    case 'h3':
+    case 'h4':
+    case 'h5':
+    case 'h6': {
+      const heading = normalizeLines(renderChildren(node, context)).trim().replace(/\n+/g, ' ');
+      return heading ? `\n\n${'#'.repeat(Number(tag[1]))} ${heading}\n\n` : '';
+    }
+    case 'ul':
+    case 'ol':
+      return renderList(node, context);
+    case 'blockquote': {
+      const quoted = normalizeLines(renderChildren(node, context)).trim();
+      return quoted
+        ? `\n\n${quoted
+            .split('\n')
+            .map((line) => (line ? `> ${line}` : '>'))
+            .join('\n')}\n\n`
+        : '';
+    }
+    case 'pre': {
+      const code = textContent(node)
+        .replace(/^\n/, '')
+        .trimEnd()
+        .replace(/^[ \t]+/gm, (indent) => INDENT.repeat(indent.length));
+      return code ? `\n\n\`\`\`\n${code}\n\`\`\`\n\n` : '';
+    }
+    case 'table':
+      return renderTable(node, context);
+    case 'a':
+      return renderLink(node, context);
+    case 'img':
+      return renderImage(node, context);
+    case 'strong':
+    case 'b':
+      return wrapInline('**', renderChildren(node, context));
+    case 'em':
+    case 'i':
+      return wrapInline('*', renderChildren(node, context));
+    case 's':
+    case 'strike':
+    case 'del':
+      return wrapInline('~~', renderChildren(node, context));
+    case 'code':
+      return wrapInline('`', renderChildren(node, context));
+    case 'p':
+      return block(renderChildren(node, context));
+    case 'li':
+      return block(renderChildren(node, context), '\n');
+    default:
+      return BLOCK_TAGS.has(tag)
+        ? block(renderChildren(node, context), '\n')
+        : renderChildren(node, context);
+  }
+}
+
+// Trims the ends of lines and keeps at most one blank line in a row.
+function normalizeLines(text: string) {
+  return text
+    .split('\n')
+    .map((line) => line.trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n');
+}
+
+// Like normalizeLines, but keeps indentation.
+function trimLineEnds(text: string) {
+  return text
+    .split('\n')
+    .map((line) => line.trimEnd())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+function plural(count: number, noun: string) {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+/** Converts an HTML email body to Markdown. */
+export function htmlToMarkdown(html: string): string {
+  return convertHtml(html, false).markdown;
+}
+
+function convertTree(root: HtmlElement, clean: boolean) {
+  const context: RenderContext = {
+    clean,
+    removed: { quote: 0, signature: 0, trackingLinks: 0, trackingImages: 0 },
+    stop: false,
+  };
+  const markdown = normalizeLines(render(root, context)).trim();
+  return { markdown: markdown.replaceAll(INDENT, ' '), removed: context.removed };
+}
+
+function convertHtml(html: string, clean: boolean) {
+  return convertTree(parseHtml(html), clean);
+}
+
+const ATTRIBUTION =
+  /^(On\b.{0,300}\bwrote:|Le\b.{0,300}\ba écrit\s?:|Am\b.{0,300}\bschrieb\b.{0,100}:|El\b.{0,300}\bescribió:)\s*$/i;
+const ORIGINAL_MESSAGE =
+  /^-{2,}\s*(Original Message|Ursprüngliche Nachricht|Message d'origine)\s*-{2,}/i;
+const OUTLOOK_HEADER = /^\**(From|De|Von):\**\s/i;
+const OUTLOOK_NEXT = /^\**(Sent|Date|Envoyé|Gesendet|To):\**\s/i;
+const MOBILE_SIGNATURE =
+  /^(Sent from my \w+|Sent from (Mail|Outlook|Yahoo Mail) for \w+|Get Outlook for \w+)/i;
+
+// The line where the quoted history of a reply starts, if there is one.
+function quoteStart(lines: string[]) {
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    const twoLines = `${line} ${lines[i + 1]?.trim() ?? ''}`;
+    if (ATTRIBUTION.test(line) || (/^On\b/.test(line) && ATTRIBUTION.test(twoLines))) {
+      return i;
+    }
+    if (ORIGINAL_MESSAGE.test(line)) {
+      return i;
+    }
+    if (
+      OUTLOOK_HEADER.test(line) &&
+      lines.slice(i + 1, i + 4).some((next) => OUTLOOK_NEXT.test(next.trim()))
+    ) {
+      // Forwarded messages start the same way, but are content
+      const before = lines.slice(Math.max(0, i - 2), i).join(' ');
+      const after = lines.slice(i + 1, i + 6).join(' ');
+      if (!/forwarded message/i.test(before) && !/\bSubject:\**\s*(FW|Fwd):/i.test(after)) {
+        // Outlook puts a rule of underscores above the header
+        return i > 0 && /^(_{10,}|-{10,})$/.test(lines[i - 1].trim()) ? i - 1 : i;
+      }
+    }
+  }
+  // Otherwise, a block of quoted lines that runs to the end
+  let start = lines.length;
+  for (let i = lines.length - 1; i >= 0; i--) {
+    const line = lines[i].trim();
+    if (line.startsWith('>')) {
+      start = i;
+    } else if (line !== '') {
+      break;
+    }
+  }
+  return start < lines.length ? start : -1;
+}
+
+// The line where the signature starts: after an RFC 3676 "-- " delimiter or at a mobile sign-off.
+function signatureStart(lines: string[]) {
+  for (let i = lines.length - 1; i >= Math.max(0, lines.length - 20); i--) {
+    const line = lines[i];
+    if (line === '-- ' || line === '--' || line === '\\--' || MOBILE_SIGNATURE.test(line.trim())) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+function stripTrackingUrls(text: string, removed: RenderContext['removed']) {
+  return text.replace(/\(?\s*<?(https?:\/\/[^\s<>()"]+)>?\s*\)?/g, (match, href: string) => {
+    const { url, tracking } = cleanUrl(href);
+    if (tracking) {
+      removed.trackingLinks++;
+      return match.startsWith(' ') ? ' ' : '';
+    }
+    return match.replace(href, url);
+  });
+}
+
+/** Converts a message body to the requested format, reporting what a `clean` body left out. */
+export function normalizeBody(
+  content: { text: string; html: string },
+  format: BodyFormat,
+): NormalizedBody {
+  if (format === 'raw') {
+    return { body: content.text || content.html || '', removed: [] };
+  }
+
+  const clean = format === 'clean';
+  const isHtml = content.html.trim() !== '';
+  let body: string;
+  let removed: RenderContext['removed'] = {
+    quote: 0,
+    signature: 0,
+    trackingLinks: 0,
+    trackingImages: 0,
+  };
+  if (isHtml) {
+    ({ markdown: body, removed } = convertHtml(content.html, clean));
+  } else {
+    body = trimLineEnds(content.text.replace(/\r\n/g, '\n').replace(INVISIBLE, ''));
+  }
+  if (!clean) {
+    return { body, removed: [] };
+  }
+
+  let lines = body.split('\n');
+  const quote = quoteStart(lines);
+  // Keep messages that are nothing but a quote, such as inline replies
+  if (quote > 0 && lines.slice(0, quote).some((line) => line.trim() !== '')) {
+    removed.quote += countLines(lines.slice(quote).join('\n'));
+    lines = lines.slice(0, quote);
+  }
+  const signature = signatureStart(lines);
+  if (signature > 0) {
+    removed.signature += countLines(lines.slice(signature).join('\n'));
+    lines = lines.slice(0, signature);
+  }
+  body = trimLineEnds(lines.join('\n'));
+  if (!isHtml) {
+    body = stripTrackingUrls(body, removed);
+  }
+
+  const report: string[] = [];
+  if (removed.quote > 0) report.push(`quoted reply (${plural(removed.quote, 'line')})`);
+  if (removed.signature > 0) report.push(`signature (${plural(removed.signature, 'line')})`);
+  if (removed.trackingLinks > 0) report.push(plural(removed.trackingLinks, 'tracking link'));
+  if (removed.trackingImages > 0) report.push(plural(removed.trackingImages, 'tracking image'));
+  return { body, removed: report };
+}
@@ -0,0 +1,145 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { DigestMessage, isAddressedTo, isBulk, summarizeMessages } from './digest.js';
+
+const NOW = Date.parse('2024-01-10T12:00:00Z');
+const DAY = 24 * 60 * 60 * 1000;
+
+function message(
+  id: string,
+  threadId: string,
+  daysAgo: number,
+  headers: Record<string, string>,
+  labelIds = ['INBOX'],
+): DigestMessage {
+  return {
+    id,
+    threadId,
+    labelIds,
+    internalDate: NOW - daysAgo * DAY,
+    headers: Object.entries(headers).map(([name, value]) => ({ name, value })),
+  };
+}
+
+describe('isBulk', () => {
+  it('should recognize mailing lists and automated senders', () => {
+    const from = { From: 'Jane <jane@example.com>', To: 'me@example.com' };
+    assert.equal(isBulk(message('m1', 't1', 0, from)), false);
+    assert.equal(
+      isBulk(message('m1', 't1', 0, { ...from, 'List-Id': '<news.example.com>' })),
+      true,
+    );
+    assert.equal(
+      isBulk(message('m1', 't1', 0, { ...from, 'List-Unsubscribe': '<mailto:u@example.com>' })),
+      true,
+    );
+    assert.equal(isBulk(message('m1', 't1', 0, { ...from, Precedence: 'Bulk' })), true);
+    assert.equal(isBulk(message('m1', 't1', 0, { From: 'no-reply@example.com' })), true);
+    assert.equal(isBulk(message('m1', 't1', 0, { From: 'notifications+x@github.com' })), true);
+  });
+});
+
+describe('isAddressedTo', () => {
+  it('should require the user in To, from someone else, and not bulk', () => {
+    const own = 'Me@Example.com';
+    const direct = { From: 'jane@example.com', To: 'Bob <bob@example.com>, me@example.com' };
+    assert.equal(isAddressedTo(message('m1', 't1', 0, direct), own), true);
+    assert.equal(
+      isAddressedTo(
+        message('m1', 't1', 0, { From: 'jane@example.com', Cc: 'me@example.com' }),
+        own,
+      ),
+      false,
+    );
+    assert.equal(
+      isAddressedTo(message('m1', 't1', 0, { From: 'me@example.com', To: 'me@example.com' }), own),
+      false,
+    );
+    assert.equal(isAddressedTo(message('m1', 't1', 0, { ...direct, 'List-Id': 'x' }), own), false);
+  });
+});
+
+describe('summarizeMessages', () => {
+  const messages = [
+    message('m1', 't1', 3, {
+      From: 'Jane <jane@example.com>',
+      To: 'me@example.com',
+      Subject: 'Old',
+    }),
+    message(
+      'm2',
+      't1',
+      1,
+      { From: 'Jane <JANE@example.com>', To: 'me@example.com', Subject: 'Re: Old' },
+      ['INBOX', 'UNREAD', 'Label_1'],
+    ),
+    message('m3', 't2', 2, { From: 'news@example.com', To: 'me@example.com', 'List-Id': 'n' }, [
+      'INBOX',
+      'UNREAD',
+    ]),
+    message('m4', 't3', 5, { From: 'Bob <bob@example.com>', To: 'me@example.com', Subject: 'Q' }),
+  ];
+  const digest = summarizeMessages(
+    messages,
+    {
+      ownAddress: 'me@example.com',
+      labels: [{ id: 'Label_1', name: 'Work' }],
+      latestMessageIds: new Map([
+        ['t1', 'm2'],
+        ['t3', 'm5'],
+      ]),
+      top: 10,
+      idsPerGroup: 1,
+    },
+    NOW,
+  );
+
+  it('should count messages, unread messages and threads', () => {
+    assert.equal(digest.messages, 4);
+    assert.equal(digest.unread, 2);
+    assert.equal(digest.threads, 3);
+  });
+
+  it('should group senders case-insensitively, newest message first', () => {
+    assert.deepEqual(digest.by_sender[0], {
+      sender: 'Jane',
+      address: 'JANE@example.com',
+      messages: 2,
+      unread: 1,
+      message_ids: ['m2'],
+    });
+    assert.deepEqual(
+      digest.by_sender.map(({ address }) => address),
+      ['JANE@example.com', 'news@example.com', 'bob@example.com'],
+    );
+  });
+
+  it('should group threads and labels', () => {
+    const { participants: _participants, ...thread } = digest.by_thread[0];
+    assert.deepEqual(thread, {
+      thread_id: 't1',
+      subject: 'Re: Old',
+      messages: 2,
+      unread: 1,
+      latest_message_id: 'm2',
+    });
+    assert.deepEqual(digest.by_label, [
+      { label: 'INBOX', label_id: 'INBOX', messages: 4, unread: 2 },
+      { label: 'Work', label_id: 'Label_1', messages: 1, unread: 1 },
+    ]);
+  });
+
+  it('should list threads waiting for a reply, longest waiting first', () => {
+    // t2 is bulk mail and the user already answered t3
+    assert.deepEqual(digest.needs_reply, [
+      {
+        thread_id: 't1',
+        message_id: 'm2',
+        from: 'Jane <JANE@example.com>',
+        subject: 'Re: Old',
+        received: new Date(NOW - DAY).toISOString(),
+        waiting_days: 1,
+      },
+    ]);
+  });
+});
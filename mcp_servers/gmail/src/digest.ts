@@ -0,0 +1,197 @@
+import { GmailLabel, labelNames } from './labels.js';
+import { MessageHeader, getHeader, parseAddresses } from './thread.js';
+
+/** The metadata of a message that the digest is built from. */
+export interface DigestMessage {
+  id: string;
+  threadId: string;
+  labelIds: string[];
+  internalDate: number;
+  headers: MessageHeader[];
+}
+
+export interface DigestOptions {
+  ownAddress: string;
+  labels: GmailLabel[];
+  /**
+   * The ID of the latest message of each thread with a message addressed
+   * directly to the user, counting messages outside the window such as sent replies.
+   */
+  latestMessageIds: Map<string, string>;
+  /** How many senders and threads to list. */
+  top: number;
+  /** How many message IDs to list per group. */
+  idsPerGroup: number;
+}
+
+export interface InboxDigest {
+  messages: number;
+  unread: number;
+  threads: number;
+  by_sender: {
+    sender: string;
+    address: string;
+    messages: number;
+    unread: number;
+    message_ids: string[];
+  }[];
+  by_thread: {
+    thread_id: string;
+    subject: string;
+    messages: number;
+    unread: number;
+    participants: string[];
+    latest_message_id: string;
+  }[];
+  by_label: { label: string; label_id: string; messages: number; unread: number }[];
+  needs_reply: {
+    thread_id: string;
+    message_id: string;
+    from: string;
+    subject: string;
+    received: string;
+    waiting_days: number;
+  }[];
+}
+
+// Senders whose messages never expect a reply.
+const AUTOMATED_SENDER =
+  /^(no-?reply|do-?not-?reply|notifications?|mailer-daemon|postmaster|bounce[s]?|alerts?)([+.@-]|$)/i;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+function isUnread(message: DigestMessage) {
+  return message.labelIds.includes('UNREAD');
+}
+
+function sender(message: DigestMessage) {
+  const [from] = parseAddresses(getHeader(message.headers, 'From'));
+  return from ?? { address: getHeader(message.headers, 'From') };
+}
+
+/** Whether a message came from a mailing list or an automated sender. */
+export function isBulk(message: DigestMessage): boolean {
+  const precedence = getHeader(message.headers, 'Precedence').toLowerCase();
+  return (
+    getHeader(message.headers, 'List-Id') !== '' ||
+    getHeader(message.headers, 'List-Unsubscribe') !== '' ||
+    precedence === 'bulk' ||
+    precedence === 'list' ||
+    AUTOMATED_SENDER.test(sender(message).address)
+  );
+}
+
+/** Whether a message was written to the user personally: the user is in To and it is not bulk mail. */
+export function isAddressedTo(message: DigestMessage, ownAddress: string): boolean {
+  const own = ownAddress.toLowerCase();
+  return (
+    sender(message).address.toLowerCase() !== own &&
+    parseAddresses(getHeader(message.headers, 'To')).some(
+      ({ address }) => address.toLowerCase() === own,
+    ) &&
+    !isBulk(message)
+  );
+}
+
+function increment<T extends { messages: number; unread: number }>(
+  groups: Map<string, T>,
+  key: string,
+  message: DigestMessage,
+  create: () => T,
+) {
+  const group = groups.get(key) ?? create();
+  groups.set(key, group);
+  group.messages++;
+  if (isUnread(message)) {
+    group.unread++;
+  }
+  return group;
+}
+
+function byCount<T extends { messages: number; unread: number }>(a: T, b: T) {
+  return b.messages - a.messages || b.unread - a.unread;
+}
+
+/**
+ * Groups messages by sender, thread and label, and finds the threads that
+ * wait for a reply: the latest message was addressed directly to the user
+ * and the user has not answered since.
+ */
+export function summarizeMessages(
+  messages: DigestMessage[],
+  options: DigestOptions,
+  now = Date.now(),
+): InboxDigest {
+  const senders = new Map<string, InboxDigest['by_sender'][number]>();
+  const threads = new Map<string, InboxDigest['by_thread'][number]>();
+  const labels = new Map<string, InboxDigest['by_label'][number]>();
+
+  // Newest first, so message IDs and thread subjects come from recent messages
+  const sorted = [...messages].sort((a, b) => b.internalDate - a.internalDate);
+  for (const message of sorted) {
+    const from = sender(message);
+    const senderGroup = increment(senders, from.address.toLowerCase(), message, () => ({
+      sender: from.name ?? from.address,
+      address: from.address,
+      messages: 0,
+      unread: 0,
+      message_ids: [],
+    }));
+    if (senderGroup.message_ids.length < options.idsPerGroup) {
+      senderGroup.message_ids.push(message.id);
+    }
+
+    const thread = increment(threads, message.threadId, message, () => ({
+      thread_id: message.threadId,
+      subject: getHeader(message.headers, 'Subject'),
+      messages: 0,
+      unread: 0,
+      participants: [],
+      latest_message_id: message.id,
+    }));
+    if (!thread.participants.includes(from.address)) {
+      thread.participants.push(from.address);
+    }
+
+    for (const labelId of message.labelIds) {
+      if (labelId === 'UNREAD') {
+        continue;
+      }
+      increment(labels, labelId, message, () => ({
+        label: labelNames(options.labels, [labelId])[0],
+        label_id: labelId,
+        messages: 0,
+        unread: 0,
+      }));
+    }
+  }
+
+  const needsReply: InboxDigest['needs_reply'] = [];
+  for (const message of sorted) {
+    if (
+      options.latestMessageIds.get(message.threadId) === message.id &&
+      isAddressedTo(message, options.ownAddress)
+    ) {
+      needsReply.push({
+        thread_id: message.threadId,
+        message_id: message.id,
+        from: getHeader(message.headers, 'From'),
+        subject: getHeader(message.headers, 'Subject'),
+        received: new Date(message.internalDate).toISOString(),
+        waiting_days: Math.floor((now - message.internalDate) / DAY),
+      });
+    }
+  }
+  // Longest waiting first
+  needsReply.sort((a, b) => a.received.localeCompare(b.received));
+
+  return {
+    messages: messages.length,
+    unread: messages.filter(isUnread).length,
+    threads: threads.size,
+    by_sender: [...senders.values()].sort(byCount).slice(0, options.top),
+    by_thread: [...threads.values()].sort(byCount).slice(0, options.top),
+    by_label: [...labels.values()].sort(byCount),
+    needs_reply: needsReply,
+  };
+}
@@ -1,17 +1,20 @@
 #!/usr/bin/env node
 
-import express, { Request, Response } from 'express';
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
-import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
-import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { startMcpServer } from "@klavis-ai/mcp-runtime";
 import {
     CallToolRequestSchema,
     ListToolsRequestSchema,
 } from "@modelcontextprotocol/sdk/types.js";
-import { google } from 'googleapis';
+import { gmail_v1, google } from 'googleapis';
 import { z } from "zod";
 import { zodToJsonSchema } from "zod-to-json-schema";
 import { createEmailMessage } from "./utl.js";
+import { BodyFormat, normalizeBody } from "./content.js";
+import { AttachmentInput, AttachmentInputSchema, MAX_DOWNLOAD_BYTES, attachmentResource, loadAttachments } from "./attachments.js";
+import { DigestMessage, isAddressedTo, summarizeMessages } from "./digest.js";
+import { GmailLabel, findLabel, labelNames, resolveLabelIds } from "./labels.js";
+import { OriginalMessage, composeForward, composeReply, getHeader, parseAddresses, replyRecipients } from "./thread.js";
 import { AsyncLocalStorage } from 'async_hooks';
 
 // Create AsyncLocalStorage for request context
@@ -38,6 +41,7 @@ interface GmailMessagePart {
 
 interface EmailAttachment {
     id: string;
+    partId: string;
     filename: string;
     mimeType: string;
     size: number;
@@ -87,6 +91,58 @@ function extractEmailContent(messagePart: GmailMessagePart): EmailContent {
     return { text: textContent, html: htmlContent };
 }
 
+/**
+ * Recursively collect attachment metadata from MIME message parts
+ */
+function collectAttachments(messagePart: GmailMessagePart): EmailAttachment[] {
+    const attachments: EmailAttachment[] = [];
+    if (messagePart.body && messagePart.body.attachmentId) {
+        attachments.push({
+            id: messagePart.body.attachmentId,
+            partId: messagePart.partId || '',
+            filename: messagePart.filename || `attachment-${messagePart.body.attachmentId}`,
+            mimeType: messagePart.mimeType || 'application/octet-stream',
+            size: messagePart.body.size || 0
+        });
+    }
+    for (const part of messagePart.parts || []) {
+        attachments.push(...collectAttachments(part));
+    }
+    return attachments;
+}
+
+function formatAttachments(attachments: EmailAttachment[]): string {
+    return attachments.length > 0 ?
+        `\n\nAttachments (${attachments.length}):\n` +
+        attachments.map(a => `- ${a.filename} (${a.mimeType}, ${Math.round(a.size / 1024)} KB, part ${a.partId})`).join('\n') : '';
+}
+
+/**
+ * Format a message body for output, noting what a clean body left out
+ */
+function formatBody(content: { text: string; html: string }, format: BodyFormat): string {
+    const { body, removed } = normalizeBody(content, format);
+    const contentTypeNote = format === 'raw' && !content.text && content.html ?
+        '[Note: This email is HTML-formatted. Plain text version not available.]\n\n' : '';
+    const removedNote = removed.length > 0 ?
+        `\n\n[Removed: ${removed.join(', ')}. Use format "markdown" to see the full message.]` : '';
+    return `${contentTypeNote}${body}${removedNote}`;
+}
+
+/**
+ * Recursively find a MIME message part by its part ID
+ */
+function findPart(messagePart: GmailMessagePart, partId: string): GmailMessagePart | undefined {
+    if (messagePart.partId === partId) {
+        return messagePart;
+    }
+    for (const part of messagePart.parts || []) {
+        const found = findPart(part, partId);
+        if (found) return found;
+    }
+    return undefined;
+}
+
 // Schema definitions
 const SendEmailSchema = z.object({
     to: z.array(z.string()).describe("List of recipient email addresses"),
@@ -98,10 +154,82 @@ const SendEmailSchema = z.object({
     bcc: z.array(z.string()).optional().describe("List of BCC recipients"),
     threadId: z.string().optional().describe("Thread ID to reply to"),
     inReplyTo: z.string().optional().describe("Message ID being replied to"),
+    attachments: z.array(AttachmentInputSchema).optional().describe("Files to attach, each given as base64 content or as an http(s) URL to download"),
 });
 
+// Replies and draft updates also set the draft to replace and the References header
+type EmailActionArgs = z.infer<typeof SendEmailSchema> & {
+    draftId?: string;
+    references?: string;
+};
+
 const ReadEmailSchema = z.object({
     messageId: z.string().describe("ID of the email message to retrieve"),
+    format: z.enum(["clean", "markdown", "raw"]).optional().default("clean").describe("How to return message bodies: 'clean' converts HTML to Markdown and leaves out quoted replies, signatures and tracking links; 'markdown' converts HTML to Markdown and keeps everything; 'raw' returns the plain text part, or the HTML when there is none"),
+});
+
+const GetThreadSchema = z.object({
+    threadId: z.string().describe("ID of the email thread to retrieve"),
+    format: z.enum(["clean", "markdown", "raw"]).optional().default("clean").describe("How to return message bodies: 'clean' converts HTML to Markdown and leaves out quoted replies, signatures and tracking links; 'markdown' converts HTML to Markdown and keeps everything; 'raw' returns the plain text part, or the HTML when there is none"),
+});
+
+const ReplyToThreadSchema = z.object({
+    threadId: z.string().describe("ID of the thread to reply in"),
+    messageId: z.string().optional().describe("ID of the message to reply to (defaults to the latest message in the thread)"),
+    body: z.string().describe("Reply text; the message replied to is quoted below it"),
+    htmlBody: z.string().optional().describe("HTML version of the reply text"),
+    replyAll: z.boolean().optional().default(false).describe("Reply to all recipients of the message instead of just the sender"),
+    cc: z.array(z.string()).optional().describe("Additional CC recipients"),
+    bcc: z.array(z.string()).optional().describe("List of BCC recipients"),
+    attachments: z.array(AttachmentInputSchema).optional().describe("Files to attach, each given as base64 content or as an http(s) URL to download"),
+    draft: z.boolean().optional().default(false).describe("Save the reply as a draft instead of sending it"),
+});
+
+const ForwardEmailSchema = z.object({
+    messageId: z.string().describe("ID of the email message to forward"),
+    to: z.array(z.string()).describe("List of recipient email addresses"),
+    body: z.string().optional().default('').describe("Text to add above the forwarded message"),
+    htmlBody: z.string().optional().describe("HTML version of the text above the forwarded message"),
+    cc: z.array(z.string()).optional().describe("List of CC recipients"),
+    bcc: z.array(z.string()).optional().describe("List of BCC recipients"),
+    includeAttachments: z.boolean().optional().default(true).describe("Forward the attachments of the original message"),
+    attachments: z.array(AttachmentInputSchema).optional().describe("Additional files to attach, each given as base64 content or as an http(s) URL to download"),
+    draft: z.boolean().optional().default(false).describe("Save the forward as a draft instead of sending it"),
+});
+
+const DownloadAttachmentSchema = z.object({
+    messageId: z.string().describe("ID of the email message the attachment belongs to"),
+    partId: z.string().describe("Part ID of the attachment, as listed by read_email or get_thread"),
+});
+
+const ListDraftsSchema = z.object({
+    query: z.string().optional().describe("Gmail search query to filter drafts (e.g., 'to:example@gmail.com')"),
+    maxResults: z.number().optional().describe("Maximum number of drafts to return"),
+});
+
+const GetDraftSchema = z.object({
+    draftId: z.string().describe("ID of the draft to retrieve"),
+    format: z.enum(["clean", "markdown", "raw"]).optional().default("markdown").describe("How to return the draft body: 'markdown' converts HTML to Markdown and keeps everything, including quoted text; 'clean' leaves out quoted replies, signatures and tracking links; 'raw' returns the plain text part, or the HTML when there is none"),
+});
+
+const UpdateDraftSchema = z.object({
+    draftId: z.string().describe("ID of the draft to update"),
+    to: z.array(z.string()).optional().describe("New list of recipient email addresses"),
+    subject: z.string().optional().describe("New email subject"),
+    body: z.string().optional().describe("New email body content, replacing the whole body including any quoted text; replaces the HTML version too unless htmlBody is given"),
+    htmlBody: z.string().optional().describe("New HTML version of the email body"),
+    cc: z.array(z.string()).optional().describe("New list of CC recipients"),
+    bcc: z.array(z.string()).optional().describe("New list of BCC recipients"),
+    attachments: z.array(AttachmentInputSchema).optional().describe("Files that replace the attachments of the draft, each given as base64 content or as an http(s) URL to download"),
+});
+
+const SendDraftSchema = z.object({
+    draftId: z.string().describe("ID of the draft to send"),
+    messageId: z.string().optional().describe("Message ID of the draft as it was reviewed, as shown by get_draft; the draft is not sent if it has been changed since"),
+});
+
+const DeleteDraftSchema = z.object({
+    draftId: z.string().describe("ID of the draft to delete permanently"),
 });
 
 const SearchEmailsSchema = z.object({
@@ -109,11 +237,22 @@ const SearchEmailsSchema = z.object({
     maxResults: z.number().optional().describe("Maximum number of results to return"),
 });
 
+// summarize_inbox reads at most this many messages, fetching their metadata a few requests at a time
+const MAX_DIGEST_MESSAGES = 2000;
+const DIGEST_CONCURRENCY = 25;
+
+const SummarizeInboxSchema = z.object({
+    query: z.string().optional().default("in:inbox").describe("Gmail search query selecting the messages to summarize (e.g., 'in:inbox', 'label:work')"),
+    days: z.number().int().positive().optional().default(7).describe("Summarize messages received in this many past days"),
+    maxMessages: z.number().int().positive().max(MAX_DIGEST_MESSAGES).optional().default(500).describe(`Maximum number of messages to read (at most ${MAX_DIGEST_MESSAGES})`),
+    top: z.number().int().positive().optional().default(10).describe("Number of senders and threads to list"),
+});
+
 // Updated schema to include removeLabelIds
 const ModifyEmailSchema = z.object({
     messageId: z.string().describe("ID of the email message to modify"),
-    addLabelIds: z.array(z.string()).optional().describe("List of label IDs to add to the message"),
-    removeLabelIds: z.array(z.string()).optional().describe("List of label IDs to remove from the message"),
+    addLabelIds: z.array(z.string()).optional().describe("List of label IDs or names to add to the message"),
+    removeLabelIds: z.array(z.string()).optional().describe("List of label IDs or names to remove from the message"),
 });
 
 const DeleteEmailSchema = z.object({
@@ -123,8 +262,8 @@ const DeleteEmailSchema = z.object({
 // Schemas for batch operations
 const BatchModifyEmailsSchema = z.object({
     messageIds: z.array(z.string()).describe("List of message IDs to modify"),
-    addLabelIds: z.array(z.string()).optional().describe("List of label IDs to add to all messages"),
-    removeLabelIds: z.array(z.string()).optional().describe("List of label IDs to remove from all messages"),
+    addLabelIds: z.array(z.string()).optional().describe("List of label IDs or names to add to all messages"),
+    removeLabelIds: z.array(z.string()).optional().describe("List of label IDs or names to remove from all messages"),
     batchSize: z.number().optional().default(50).describe("Number of messages to process in each batch (default: 50)"),
 });
 
@@ -133,6 +272,54 @@ const BatchDeleteEmailsSchema = z.object({
     batchSize: z.number().optional().default(50).describe("Number of messages to process in each batch (default: 50)"),
 });
 
+// Schemas for labels and filters
+const LabelVisibilitySchema = {
+    messageListVisibility: z.enum(['show', 'hide']).optional().describe("Whether messages with the label are shown with it in the message list"),
+    labelListVisibility: z.enum(['labelShow', 'labelShowIfUnread', 'labelHide']).optional().describe("Whether the label is shown in the label list"),
+    backgroundColor: z.string().optional().describe("Background color as a hex code from Gmail's label palette (e.g., '#16a765'); give textColor too"),
+    textColor: z.string().optional().describe("Text color as a hex code from Gmail's label palette (e.g., '#ffffff'); give backgroundColor too"),
+};
+
+const ListLabelsSchema = z.object({
+    includeCounts: z.boolean().optional().default(false).describe("Include total and unread message counts (one extra request per label)"),
+});
+
+const CreateLabelSchema = z.object({
+    name: z.string().describe("Label name; use '/' to nest it under another label (e.g., 'Clients/Acme')"),
+    ...LabelVisibilitySchema,
+});
+
+const UpdateLabelSchema = z.object({
+    label: z.string().describe("ID or name of the label to update"),
+    name: z.string().optional().describe("New name for the label"),
+    ...LabelVisibilitySchema,
+});
+
+const DeleteLabelSchema = z.object({
+    label: z.string().describe("ID or name of the label to delete; messages keep existing but lose the label"),
+});
+
+const ListFiltersSchema = z.object({});
+
+const CreateFilterSchema = z.object({
+    from: z.string().optional().describe("Match messages from this sender"),
+    to: z.string().optional().describe("Match messages to this recipient"),
+    subject: z.string().optional().describe("Match messages whose subject contains this text"),
+    query: z.string().optional().describe("Match messages for this Gmail search query (e.g., 'has:attachment larger:5M')"),
+    negatedQuery: z.string().optional().describe("Match messages that do not match this Gmail search query"),
+    hasAttachment: z.boolean().optional().describe("Match only messages with attachments"),
+    excludeChats: z.boolean().optional().describe("Do not match chats"),
+    size: z.number().optional().describe("Message size in bytes to compare against, with sizeComparison"),
+    sizeComparison: z.enum(['larger', 'smaller']).optional().describe("How to compare the message size"),
+    addLabelIds: z.array(z.string()).optional().describe("Label IDs or names to add to matching messages (e.g., ['Receipts', 'STARRED'])"),
+    removeLabelIds: z.array(z.string()).optional().describe("Label IDs or names to remove from matching messages (e.g., ['INBOX'] to skip the inbox, ['UNREAD'] to mark as read)"),
+    forward: z.string().optional().describe("Forward matching messages to this address; it must be a verified forwarding address"),
+});
+
+const DeleteFilterSchema = z.object({
+    filterId: z.string().describe("ID of the filter to delete, as listed by list_filters"),
+});
+
 // Get Gmail MCP Server
 const getGmailMcpServer = () => {
     // Server implementation
@@ -158,21 +345,106 @@ const getGmailMcpServer = () => {
                 description: "Draft a new email",
                 inputSchema: zodToJsonSchema(SendEmailSchema),
             },
+            {
+                name: "list_drafts",
+                description: "Lists drafts with their recipients and subjects",
+                inputSchema: zodToJsonSchema(ListDraftsSchema),
+            },
+            {
+                name: "get_draft",
+                description: "Retrieves the recipients, content and attachments of a draft",
+                inputSchema: zodToJsonSchema(GetDraftSchema),
+            },
+            {
+                name: "update_draft",
+                description: "Edits a draft. Only the given fields change; the rest of the draft, including its thread and attachments, is kept. Each edit gives the draft a new message ID",
+                inputSchema: zodToJsonSchema(UpdateDraftSchema),
+            },
+            {
+                name: "send_draft",
+                description: "Sends a draft as it is. Pass the message ID shown by get_draft to make sure the draft sent is the one that was reviewed",
+                inputSchema: zodToJsonSchema(SendDraftSchema),
+            },
+            {
+                name: "delete_draft",
+                description: "Permanently deletes a draft",
+                inputSchema: zodToJsonSchema(DeleteDraftSchema),
+            },
             {
                 name: "read_email",
                 description: "Retrieves the content of a specific email",
                 inputSchema: zodToJsonSchema(ReadEmailSchema),
             },
+            {
+                name: "get_thread",
+                description: "Retrieves all messages of an email thread in order, with their content",
+                inputSchema: zodToJsonSchema(GetThreadSchema),
+            },
+            {
+                name: "reply_to_thread",
+                description: "Replies to a message in a thread, quoting it and keeping the reply in the same conversation",
+                inputSchema: zodToJsonSchema(ReplyToThreadSchema),
+            },
+            {
+                name: "forward_email",
+                description: "Forwards an email to new recipients, including the original message below the added text",
+                inputSchema: zodToJsonSchema(ForwardEmailSchema),
+            },
+            {
+                name: "download_attachment",
+                description: `Downloads an email attachment and returns it as an embedded resource: text files as text, everything else base64 encoded. Attachments larger than ${MAX_DOWNLOAD_BYTES} bytes are refused.`,
+                inputSchema: zodToJsonSchema(DownloadAttachmentSchema),
+            },
             {
                 name: "search_emails",
                 description: "Searches for emails using Gmail search syntax",
                 inputSchema: zodToJsonSchema(SearchEmailsSchema),
             },
+            {
+                name: "summarize_inbox",
+                description: "Summarizes the messages of a recent time window: counts by sender, thread and label, and the threads addressed directly to the user that are still waiting for a reply, with message IDs to act on",
+                inputSchema: zodToJsonSchema(SummarizeInboxSchema),
+            },
             {
                 name: "modify_email",
                 description: "Modifies email labels (move to different folders)",
                 inputSchema: zodToJsonSchema(ModifyEmailSchema),
             },
+            {
+                name: "list_labels",
+                description: "Lists all labels of the mailbox, system and user labels, with their IDs",
+                inputSchema: zodToJsonSchema(ListLabelsSchema),
+            },
+            {
+                name: "create_label",
+                description: "Creates a new label",
+                inputSchema: zodToJsonSchema(CreateLabelSchema),
+            },
+            {
+                name: "update_label",
+                description: "Renames a label or changes its visibility or color",
+                inputSchema: zodToJsonSchema(UpdateLabelSchema),
+            },
+            {
+                name: "delete_label",
+                description: "Permanently deletes a user label and removes it from all messages",
+                inputSchema: zodToJsonSchema(DeleteLabelSchema),
+            },
+            {
+                name: "list_filters",
+                description: "Lists the filters that sort incoming mail, with their criteria and actions",
+                inputSchema: zodToJsonSchema(ListFiltersSchema),
+            },
+            {
+                name: "create_filter",
+                description: "Creates a filter that labels, archives, marks or forwards incoming mail matching the given criteria",
+                inputSchema: zodToJsonSchema(CreateFilterSchema),
+            },
+            {
+                name: "delete_filter",
+                description: "Deletes a filter. Filters cannot be edited, so to change one create a new filter and delete the old one.",
+                inputSchema: zodToJsonSchema(DeleteFilterSchema),
+            },
             {
                 name: "delete_email",
                 description: "Permanently deletes an email",
@@ -195,8 +467,9 @@ const getGmailMcpServer = () => {
         const { name, arguments: args } = request.params;
         const gmail = getGmailClient();
 
-        async function handleEmailAction(action: "send" | "draft", validatedArgs: any) {
-            const message = createEmailMessage(validatedArgs);
+        async function handleEmailAction(action: "send" | "draft" | "update", validatedArgs: EmailActionArgs) {
+            const attachments = await loadAttachments(validatedArgs.attachments || []);
+            const message = createEmailMessage({ ...validatedArgs, attachments });
 
             const encodedMessage = Buffer.from(message).toString('base64')
                 .replace(/\+/g, '-')
@@ -205,11 +478,15 @@ const getGmailMcpServer = () => {
 
             // Define the type for messageRequest
             interface GmailMessageRequest {
-                raw: string;
+                raw?: string;
                 threadId?: string;
             }
 
-            const messageRequest: GmailMessageRequest = {
+            // Messages with attachments are uploaded as media, which allows larger messages than the request body
+            const upload = attachments.length > 0 ?
+                { media: { mimeType: 'message/rfc822', body: message } } : undefined;
+
+            const messageRequest: GmailMessageRequest = upload ? {} : {
                 raw: encodedMessage,
             };
 
@@ -222,6 +499,7 @@ const getGmailMcpServer = () => {
                 const response = await gmail.users.messages.send({
                     userId: 'me',
                     requestBody: messageRequest,
+                    ...upload,
                 });
                 return {
                     content: [
@@ -231,12 +509,30 @@ const getGmailMcpServer = () => {
                         },
                     ],
                 };
+            } else if (action === "update") {
+                const response = await gmail.users.drafts.update({
+                    userId: 'me',
+                    id: validatedArgs.draftId,
+                    requestBody: {
+                        message: messageRequest,
+                    },
+                    ...upload,
+                });
+                return {
+                    content: [
+                        {
+                            type: "text",
+                            text: `Draft ${response.data.id} updated successfully. New message ID: ${response.data.message?.id}`,
+                        },
+                    ],
+                };
             } else {
                 const response = await gmail.users.drafts.create({
                     userId: 'me',
                     requestBody: {
                         message: messageRequest,
                     },
+                    ...upload,
                 });
                 return {
                     content: [
@@ -249,6 +545,104 @@ const getGmailMcpServer = () => {
             }
         }
 
+        // Helper function to load a message with the headers and content replies and forwards need
+        async function getOriginalMessage(messageId: string): Promise<OriginalMessage & { payload: GmailMessagePart }> {
+            const response = await gmail.users.messages.get({
+                userId: 'me',
+                id: messageId,
+                format: 'full',
+            });
+            const payload = response.data.payload as GmailMessagePart || {};
+            return {
+                threadId: response.data.threadId || '',
+                headers: payload.headers || [],
+                payload,
+                ...extractEmailContent(payload),
+            };
+        }
+
+        // Helper function to get a draft with its full message
+        async function getDraft(draftId: string) {
+            const response = await gmail.users.drafts.get({
+                userId: 'me',
+                id: draftId,
+                format: 'full',
+            });
+            const message = response.data.message || {};
+            return {
+                messageId: message.id || '',
+                threadId: message.threadId || '',
+                payload: message.payload as GmailMessagePart || {},
+            };
+        }
+
+        // Helper function to download the data of an attachment part
+        async function getAttachmentData(messageId: string, part: GmailMessagePart): Promise<Buffer> {
+            if (!part.body?.attachmentId) {
+                return Buffer.from(part.body?.data || '', 'base64');
+            }
+            const response = await gmail.users.messages.attachments.get({
+                userId: 'me',
+                messageId,
+                id: part.body.attachmentId,
+            });
+            return Buffer.from(response.data.data || '', 'base64');
+        }
+
+        // Helper function to list the labels of the mailbox
+        async function getLabels(): Promise<GmailLabel[]> {
+            const response = await gmail.users.labels.list({ userId: 'me' });
+            return response.data.labels || [];
+        }
+
+        // Helper function to resolve label IDs or names of add/remove arguments, listing labels only when needed
+        async function resolveLabelChanges(addLabelIds?: string[], removeLabelIds?: string[]) {
+            const requestBody: { addLabelIds?: string[], removeLabelIds?: string[] } = {};
+            if (!addLabelIds?.length && !removeLabelIds?.length) {
+                return requestBody;
+            }
+            const labels = await getLabels();
+            if (addLabelIds?.length) {
+                requestBody.addLabelIds = resolveLabelIds(labels, addLabelIds);
+            }
+            if (removeLabelIds?.length) {
+                requestBody.removeLabelIds = resolveLabelIds(labels, removeLabelIds);
+            }
+            return requestBody;
+        }
+
+        // Helper function to build the label properties of a create or update request
+        function labelProperties(validatedArgs: Omit<z.infer<typeof UpdateLabelSchema>, "label">) {
+            if (!validatedArgs.backgroundColor !== !validatedArgs.textColor) {
+                throw new Error("Give both backgroundColor and textColor to set a label color");
+            }
+            const requestBody: gmail_v1.Schema$Label = {};
+            if (validatedArgs.name) requestBody.name = validatedArgs.name;
+            if (validatedArgs.messageListVisibility) requestBody.messageListVisibility = validatedArgs.messageListVisibility;
+            if (validatedArgs.labelListVisibility) requestBody.labelListVisibility = validatedArgs.labelListVisibility;
+            if (validatedArgs.backgroundColor) {
+                requestBody.color = { backgroundColor: validatedArgs.backgroundColor, textColor: validatedArgs.textColor };
+            }
+            return requestBody;
+        }
+
+        function formatLabel(label: GmailLabel): string {
+            const counts = label.messagesTotal !== undefined ?
+                `\nMessages: ${label.messagesTotal} (${label.messagesUnread || 0} unread)` : '';
+            const color = label.color?.backgroundColor ?
+                `\nColor: ${label.color.backgroundColor} / ${label.color.textColor}` : '';
+            return `ID: ${label.id}\nName: ${label.name}\nType: ${label.type || 'user'}${counts}${color}\n`;
+        }
+
+        // Helper function to run requests a few at a time, keeping within Gmail's rate limits
+        async function mapInChunks<T, U>(items: T[], size: number, fn: (item: T) => Promise<U>): Promise<U[]> {
+            const results: U[] = [];
+            for (let i = 0; i < items.length; i += size) {
+                results.push(...await Promise.all(items.slice(i, i + size).map(fn)));
+            }
+            return results;
+        }
+
         // Helper function to process operations in batches
         async function processBatches<T, U>(
             items: T[],
@@ -289,6 +683,158 @@ const getGmailMcpServer = () => {
                     return await handleEmailAction(action, validatedArgs);
                 }
 
+                case "list_drafts": {
+                    const validatedArgs = ListDraftsSchema.parse(args);
+                    const response = await gmail.users.drafts.list({
+                        userId: 'me',
+                        q: validatedArgs.query,
+                        maxResults: validatedArgs.maxResults || 10,
+                    });
+
+                    const drafts: gmail_v1.Schema$Draft[] = response.data.drafts || [];
+                    const draftIds = drafts.flatMap(draft => draft.id ? [draft.id] : []);
+                    const results = await Promise.all(
+                        draftIds.map(async (draftId) => {
+                            const detail = await gmail.users.drafts.get({
+                                userId: 'me',
+                                id: draftId,
+                                format: 'metadata',
+                            });
+                            const headers = detail.data.message?.payload?.headers || [];
+                            return `Draft ID: ${draftId}\nMessage ID: ${detail.data.message?.id}\n` +
+                                `Subject: ${getHeader(headers, 'Subject')}\nTo: ${getHeader(headers, 'To')}\n` +
+                                `Date: ${getHeader(headers, 'Date')}\nSnippet: ${detail.data.message?.snippet || ''}\n`;
+                        })
+                    );
+
+                    return {
+                        content: [
+                            {
+                                type: "text",
+                                text: results.length > 0 ? results.join('\n') : 'No drafts found',
+                            },
+                        ],
+                    };
+                }
+
+                case "get_draft": {
+                    const validatedArgs = GetDraftSchema.parse(args);
+                    const draft = await getDraft(validatedArgs.draftId);
+                    const headers = draft.payload.headers || [];
+                    const cc = getHeader(headers, 'Cc');
+                    const bcc = getHeader(headers, 'Bcc');
+                    const body = formatBody(extractEmailContent(draft.payload), validatedArgs.format);
+
+                    return {
+                        content: [
+                            {
+                                type: "text",
+                                text: `Draft ID: ${validatedArgs.draftId}\nMessage ID: ${draft.messageId}\nThread ID: ${draft.threadId}\n` +
+                                    `Subject: ${getHeader(headers, 'Subject')}\nTo: ${getHeader(headers, 'To')}\n` +
+                                    `${cc ? `Cc: ${cc}\n` : ''}${bcc ? `Bcc: ${bcc}\n` : ''}\n` +
+                                    `${body}${formatAttachments(collectAttachments(draft.payload))}`,
+                            },
+                        ],
+                    };
+                }
+
+                case "update_draft": {
+                    const validatedArgs = UpdateDraftSchema.parse(args);
+                    const draft = await getDraft(validatedArgs.draftId);
+                    const headers = draft.payload.headers || [];
+                    const addresses = (name: string) => parseAddresses(getHeader(headers, name)).map(({ address }) => address);
+                    const content = extractEmailContent(draft.payload);
+
+                    // A new plain text body replaces the old HTML version, which would no longer match it
+                    const body = validatedArgs.body ?? content.text;
+                    const htmlBody = validatedArgs.htmlBody ?? (validatedArgs.body === undefined ? content.html : undefined);
+
+                    // The attachments of the draft are kept as base64 content unless new ones are given
+                    let attachments: AttachmentInput[] | undefined = validatedArgs.attachments;
+                    if (!attachments) {
+                        attachments = [];
+                        for (const attachment of collectAttachments(draft.payload)) {
+                            const part = findPart(draft.payload, attachment.partId);
+                            if (!part) continue;
+                            const data = await getAttachmentData(draft.messageId, part);
+                            attachments.push({
+                                filename: attachment.filename,
+                                content: data.toString('base64'),
+                                mimeType: attachment.mimeType,
+                            });
+                        }
+                    }
+
+                    const cc = validatedArgs.cc ?? addresses('Cc');
+                    const bcc = validatedArgs.bcc ?? addresses('Bcc');
+                    const inReplyTo = getHeader(headers, 'In-Reply-To');
+                    return await handleEmailAction("update", {
+                        draftId: validatedArgs.draftId,
+                        to: validatedArgs.to ?? addresses('To'),
+                        subject: validatedArgs.subject ?? getHeader(headers, 'Subject'),
+                        body,
+                        htmlBody: htmlBody || undefined,
+                        cc: cc.length > 0 ? cc : undefined,
+                        bcc: bcc.length > 0 ? bcc : undefined,
+                        mimeType: htmlBody ? 'multipart/alternative' : 'text/plain',
+                        inReplyTo: inReplyTo || undefined,
+                        references: getHeader(headers, 'References') || undefined,
+                        threadId: draft.threadId || undefined,
+                        attachments,
+                    });
+                }
+
+                case "send_draft": {
+                    const validatedArgs = SendDraftSchema.parse(args);
+                    if (validatedArgs.messageId) {
+                        const current = await gmail.users.drafts.get({
+                            userId: 'me',
+                            id: validatedArgs.draftId,
+                            format: 'minimal',
+                        });
+                        if (current.data.message?.id !== validatedArgs.messageId) {
+                            throw new Error(
+                                `Draft ${validatedArgs.draftId} has changed since it was reviewed ` +
+                                `(message ID ${current.data.message?.id}, expected ${validatedArgs.messageId}). ` +
+                                'Review it again with get_draft before sending.'
+                            );
+                        }
+                    }
+
+                    const response = await gmail.users.drafts.send({
+                        userId: 'me',
+                        requestBody: {
+                            id: validatedArgs.draftId,
+                        },
+                    });
+
+                    return {
+                        content: [
+                            {
+                                type: "text",
+                                text: `Draft ${validatedArgs.draftId} sent successfully as message ${response.data.id} in thread ${response.data.threadId}`,
+                            },
+                        ],
+                    };
+                }
+
+                case "delete_draft": {
+                    const validatedArgs = DeleteDraftSchema.parse(args);
+                    await gmail.users.drafts.delete({
+                        userId: 'me',
+                        id: validatedArgs.draftId,
+                    });
+
+                    return {
+                        content: [
+                            {
+                                type: "text",
+                                text: `Draft ${validatedArgs.draftId} deleted successfully`,
+                            },
+                        ],
+                    };
+                }
+
                 case "read_email": {
                     const validatedArgs = ReadEmailSchema.parse(args);
                     const response = await gmail.users.messages.get({
@@ -307,49 +853,150 @@ const getGmailMcpServer = () => {
                     // Extract email content using the recursive function
                     const { text, html } = extractEmailContent(response.data.payload as GmailMessagePart || {});
 
-                    // Use plain text content if available, otherwise use HTML content
-                    // (optionally, you could implement HTML-to-text conversion here)
-                    let body = text || html || '';
+                    const body = formatBody({ text, html }, validatedArgs.format);
 
-                    // If we only have HTML content, add a note for the user
-                    const contentTypeNote = !text && html ?
-                        '[Note: This email is HTML-formatted. Plain text version not available.]\n\n' : '';
+                    // Add attachment info to output if any are present
+                    const attachments = collectAttachments(response.data.payload as GmailMessagePart || {});
+                    const attachmentInfo = formatAttachments(attachments);
+
+                    return {
+                        content: [
+                            {
+                                type: "text",
+                                text: `Thread ID: ${threadId}\nSubject: ${subject}\nFrom: ${from}\nTo: ${to}\nDate: ${date}\n\n${body}${attachmentInfo}`,
+                            },
+                        ],
+                    };
+                }
+
+                case "get_thread": {
+                    const validatedArgs = GetThreadSchema.parse(args);
+                    const response = await gmail.users.threads.get({
+                        userId: 'me',
+                        id: validatedArgs.threadId,
+                        format: 'full',
+                    });
+
+                    const messages: gmail_v1.Schema$Message[] = response.data.messages || [];
+                    const formatted = messages.map((message, index) => {
+                        const payload = message.payload as GmailMessagePart || {};
+                        const headers = payload.headers || [];
+                        const { text, html } = extractEmailContent(payload);
+                        const cc = getHeader(headers, 'Cc');
+
+                        return `--- Message ${index + 1} of ${messages.length} ---\n` +
+                            `ID: ${message.id}\nSubject: ${getHeader(headers, 'Subject')}\nFrom: ${getHeader(headers, 'From')}\n` +
+                            `To: ${getHeader(headers, 'To')}\n${cc ? `Cc: ${cc}\n` : ''}Date: ${getHeader(headers, 'Date')}\n` +
+                            `Labels: ${(message.labelIds || []).join(', ')}\n\n` +
+                            `${formatBody({ text, html }, validatedArgs.format)}${formatAttachments(collectAttachments(payload))}`;
+                    });
+
+                    return {
+                        content: [
+                            {
+                                type: "text",
+                                text: `Thread ID: ${response.data.id}\nMessages: ${messages.length}\n\n${formatted.join('\n\n')}`,
+                            },
+                        ],
+                    };
+                }
+
+                case "reply_to_thread": {
+                    const validatedArgs = ReplyToThreadSchema.parse(args);
+
+                    let messageId = validatedArgs.messageId;
+                    if (!messageId) {
+                        const thread = await gmail.users.threads.get({
+                            userId: 'me',
+                            id: validatedArgs.threadId,
+                            format: 'minimal',
+                        });
+                        const messages = thread.data.messages || [];
+                        messageId = messages[messages.length - 1]?.id;
+                        if (!messageId) {
+                            throw new Error(`Thread ${validatedArgs.threadId} has no messages`);
+                        }
+                    }
+
+                    const original = await getOriginalMessage(messageId);
+                    if (original.threadId !== validatedArgs.threadId) {
+                        throw new Error(`Message ${messageId} is not part of thread ${validatedArgs.threadId}`);
+                    }
+
+                    const profile = await gmail.users.getProfile({ userId: 'me' });
+                    const recipients = replyRecipients(original.headers, profile.data.emailAddress || '', validatedArgs.replyAll);
+                    const reply = composeReply(original, validatedArgs.body, validatedArgs.htmlBody);
+                    const cc = [...recipients.cc, ...(validatedArgs.cc || [])];
+
+                    return await handleEmailAction(validatedArgs.draft ? "draft" : "send", {
+                        ...reply,
+                        to: recipients.to,
+                        cc: cc.length > 0 ? cc : undefined,
+                        bcc: validatedArgs.bcc,
+                        mimeType: reply.htmlBody ? 'multipart/alternative' : 'text/plain',
+                        attachments: validatedArgs.attachments,
+                    });
+                }
 
-                    // Get attachment information
-                    const attachments: EmailAttachment[] = [];
-                    const processAttachmentParts = (part: GmailMessagePart, path: string = '') => {
-                        if (part.body && part.body.attachmentId) {
-                            const filename = part.filename || `attachment-${part.body.attachmentId}`;
+                case "forward_email": {
+                    const validatedArgs = ForwardEmailSchema.parse(args);
+                    const original = await getOriginalMessage(validatedArgs.messageId);
+                    const forward = composeForward(original, validatedArgs.body, validatedArgs.htmlBody);
+
+                    // Original attachments are passed on as base64 content along with any new ones
+                    const attachments: AttachmentInput[] = [];
+                    if (validatedArgs.includeAttachments) {
+                        for (const attachment of collectAttachments(original.payload)) {
+                            const part = findPart(original.payload, attachment.partId);
+                            if (!part) continue;
+                            const data = await getAttachmentData(validatedArgs.messageId, part);
                             attachments.push({
-                                id: part.body.attachmentId,
-                                filename: filename,
-                                mimeType: part.mimeType || 'application/octet-stream',
-                                size: part.body.size || 0
+                                filename: attachment.filename,
+                                content: data.toString('base64'),
+                                mimeType: attachment.mimeType,
                             });
                         }
+                    }
+                    attachments.push(...(validatedArgs.attachments || []));
+
+                    return await handleEmailAction(validatedArgs.draft ? "draft" : "send", {
+                        ...forward,
+                        to: validatedArgs.to,
+                        cc: validatedArgs.cc,
+                        bcc: validatedArgs.bcc,
+                        mimeType: forward.htmlBody ? 'multipart/alternative' : 'text/plain',
+                        attachments,
+                    });
+                }
 
-                        if (part.parts) {
-                            part.parts.forEach((subpart: GmailMessagePart) =>
-                                processAttachmentParts(subpart, `${path}/parts`)
-                            );
-                        }
-                    };
+                case "download_attachment": {
+                    const validatedArgs = DownloadAttachmentSchema.parse(args);
+                    const response = await gmail.users.messages.get({
+                        userId: 'me',
+                        id: validatedArgs.messageId,
+                        format: 'full',
+                    });
 
-                    if (response.data.payload) {
-                        processAttachmentParts(response.data.payload as GmailMessagePart);
+                    const part = findPart(response.data.payload as GmailMessagePart || {}, validatedArgs.partId);
+                    if (!part || !(part.body?.attachmentId || part.filename)) {
+                        throw new Error(`Message ${validatedArgs.messageId} has no attachment with part ID ${validatedArgs.partId}`);
+                    }
+                    const filename = part.filename || `attachment-${validatedArgs.partId}`;
+                    const size = part.body?.size || 0;
+                    if (size > MAX_DOWNLOAD_BYTES) {
+                        throw new Error(`Attachment ${filename} is ${size} bytes, more than the limit of ${MAX_DOWNLOAD_BYTES} bytes`);
                     }
 
-                    // Add attachment info to output if any are present
-                    const attachmentInfo = attachments.length > 0 ?
-                        `\n\nAttachments (${attachments.length}):\n` +
-                        attachments.map(a => `- ${a.filename} (${a.mimeType}, ${Math.round(a.size / 1024)} KB)`).join('\n') : '';
+                    const data = await getAttachmentData(validatedArgs.messageId, part);
+                    const mimeType = part.mimeType || 'application/octet-stream';
 
                     return {
                         content: [
                             {
                                 type: "text",
-                                text: `Thread ID: ${threadId}\nSubject: ${subject}\nFrom: ${from}\nTo: ${to}\nDate: ${date}\n\n${contentTypeNote}${body}${attachmentInfo}`,
+                                text: `Attachment: ${filename}\nType: ${mimeType}\nSize: ${data.length} bytes`,
                             },
+                            attachmentResource(validatedArgs.messageId, validatedArgs.partId, { filename, mimeType, data }),
                         ],
                     };
                 }
@@ -393,19 +1040,91 @@ const getGmailMcpServer = () => {
                     };
                 }
 
-                case "modify_email": {
-                    const validatedArgs = ModifyEmailSchema.parse(args);
+                case "summarize_inbox": {
+                    const validatedArgs = SummarizeInboxSchema.parse(args);
+                    const now = Date.now();
+                    const after = new Date(now - validatedArgs.days * 24 * 60 * 60 * 1000);
+                    const query = `${validatedArgs.query} after:${Math.floor(after.getTime() / 1000)}`;
+
+                    // Page through the search results
+                    const messageIds: string[] = [];
+                    let pageToken: string | undefined;
+                    do {
+                        const response = await gmail.users.messages.list({
+                            userId: 'me',
+                            q: query,
+                            maxResults: Math.min(500, validatedArgs.maxMessages - messageIds.length),
+                            pageToken,
+                        });
+                        const page: gmail_v1.Schema$Message[] = response.data.messages || [];
+                        messageIds.push(...page
+                            .flatMap(message => message.id ? [message.id] : [])
+                            .slice(0, validatedArgs.maxMessages - messageIds.length));
+                        pageToken = response.data.nextPageToken || undefined;
+                    } while (pageToken && messageIds.length < validatedArgs.maxMessages);
+
+                    const messages: DigestMessage[] = await mapInChunks(messageIds, DIGEST_CONCURRENCY, async (id) => {
+                        const detail = await gmail.users.messages.get({
+                            userId: 'me',
+                            id,
+                            format: 'metadata',
+                            metadataHeaders: ['From', 'To', 'Subject', 'Date', 'List-Id', 'List-Unsubscribe', 'Precedence'],
+                        });
+                        return {
+                            id,
+                            threadId: detail.data.threadId || '',
+                            labelIds: detail.data.labelIds || [],
+                            internalDate: Number(detail.data.internalDate) || 0,
+                            headers: detail.data.payload?.headers || [],
+                        };
+                    });
 
-                    // Prepare request body
-                    const requestBody: any = {};
+                    const [profile, labels] = await Promise.all([gmail.users.getProfile({ userId: 'me' }), getLabels()]);
+                    const ownAddress = profile.data.emailAddress || '';
+
+                    // Whether the user answered shows in the thread, which also holds sent messages outside the search
+                    const candidates = [...new Set(messages
+                        .filter(message => isAddressedTo(message, ownAddress))
+                        .map(message => message.threadId))];
+                    const latestMessageIds = new Map(await mapInChunks(candidates, DIGEST_CONCURRENCY, async (threadId) => {
+                        const thread = await gmail.users.threads.get({
+                            userId: 'me',
+                            id: threadId,
+                            format: 'minimal',
+                        });
+                        const threadMessages: gmail_v1.Schema$Message[] = thread.data.messages || [];
+                        const sent = threadMessages.filter(message => !message.labelIds?.includes('DRAFT'));
+                        return [threadId, sent[sent.length - 1]?.id || ''] as [string, string];
+                    }));
+
+                    const digest = summarizeMessages(messages, {
+                        ownAddress,
+                        labels,
+                        latestMessageIds,
+                        top: validatedArgs.top,
+                        idsPerGroup: 20,
+                    }, now);
 
-                    if (validatedArgs.addLabelIds) {
-                        requestBody.addLabelIds = validatedArgs.addLabelIds;
-                    }
+                    return {
+                        content: [
+                            {
+                                type: "text",
+                                text: JSON.stringify({
+                                    query,
+                                    window: { from: after.toISOString(), to: new Date(now).toISOString() },
+                                    truncated: pageToken !== undefined,
+                                    ...digest,
+                                }, null, 2),
+                            },
+                        ],
+                    };
+                }
 
-                    if (validatedArgs.removeLabelIds) {
-                        requestBody.removeLabelIds = validatedArgs.removeLabelIds;
-                    }
+                case "modify_email": {
+                    const validatedArgs = ModifyEmailSchema.parse(args);
+
+                    // Prepare request body, resolving label names to IDs
+                    const requestBody = await resolveLabelChanges(validatedArgs.addLabelIds, validatedArgs.removeLabelIds);
 
                     await gmail.users.messages.modify({
                         userId: 'me',
@@ -423,6 +1142,180 @@ const getGmailMcpServer = () => {
                     };
                 }
 
+                case "list_labels": {
+                    const validatedArgs = ListLabelsSchema.parse(args);
+                    let labels = await getLabels();
+
+                    if (validatedArgs.includeCounts) {
+                        labels = await Promise.all(labels.map(async (label) => {
+                            const response = await gmail.users.labels.get({ userId: 'me', id: label.id });
+                            return response.data as GmailLabel;
+                        }));
+                    }
+
+                    // System labels first, then user labels by name
+                    labels.sort((a, b) => (a.type === 'system' ? 0 : 1) - (b.type === 'system' ? 0 : 1) || a.name.localeCompare(b.name));
+
+                    return {
+                        content: [
+                            {
+                                type: "text",
+                                text: `Labels (${labels.length}):\n\n${labels.map(formatLabel).join('\n')}`,
+                            },
+                        ],
+                    };
+                }
+
+                case "create_label": {
+                    const validatedArgs = CreateLabelSchema.parse(args);
+                    const response = await gmail.users.labels.create({
+                        userId: 'me',
+                        requestBody: labelProperties(validatedArgs),
+                    });
+
+                    return {
+                        content: [
+                            {
+                                type: "text",
+                                text: `Label created successfully:\n${formatLabel(response.data)}`,
+                            },
+                        ],
+                    };
+                }
+
+                case "update_label": {
+                    const validatedArgs = UpdateLabelSchema.parse(args);
+                    const label = findLabel(await getLabels(), validatedArgs.label);
+                    if (label.type === 'system') {
+                        throw new Error(`System label ${label.name} cannot be changed`);
+                    }
+
+                    const requestBody = labelProperties(validatedArgs);
+                    if (Object.keys(requestBody).length === 0) {
+                        throw new Error("At least one of name, messageListVisibility, labelListVisibility or a color must be provided");
+                    }
+
+                    const response = await gmail.users.labels.patch({
+                        userId: 'me',
+                        id: label.id,
+                        requestBody,
+                    });
+
+                    return {
+                        content: [
+                            {
+                                type: "text",
+                                text: `Label updated successfully:\n${formatLabel(response.data)}`,
+                            },
+                        ],
+                    };
+                }
+
+                case "delete_label": {
+                    const validatedArgs = DeleteLabelSchema.parse(args);
+                    const label = findLabel(await getLabels(), validatedArgs.label);
+                    if (label.type === 'system') {
+                        throw new Error(`System label ${label.name} cannot be deleted`);
+                    }
+
+                    await gmail.users.labels.delete({
+                        userId: 'me',
+                        id: label.id,
+                    });
+
+                    return {
+                        content: [
+                            {
+                                type: "text",
+                                text: `Label ${label.name} (${label.id}) deleted successfully`,
+                            },
+                        ],
+                    };
+                }
+
+                case "list_filters": {
+                    ListFiltersSchema.parse(args || {});
+                    const [response, labels] = await Promise.all([
+                        gmail.users.settings.filters.list({ userId: 'me' }),
+                        getLabels(),
+                    ]);
+                    const filters: gmail_v1.Schema$Filter[] = response.data.filter || [];
+
+                    const formatted = filters.map((filter) => {
+                        const criteria = Object.entries(filter.criteria || {})
+                            .map(([key, value]) => `${key}: ${value}`);
+                        const actions: string[] = [];
+                        if (filter.action?.addLabelIds?.length) {
+                            actions.push(`add labels: ${labelNames(labels, filter.action.addLabelIds).join(', ')}`);
+                        }
+                        if (filter.action?.removeLabelIds?.length) {
+                            actions.push(`remove labels: ${labelNames(labels, filter.action.removeLabelIds).join(', ')}`);
+                        }
+                        if (filter.action?.forward) {
+                            actions.push(`forward to: ${filter.action.forward}`);
+                        }
+                        return `ID: ${filter.id}\nCriteria: ${criteria.join('; ')}\nActions: ${actions.join('; ')}\n`;
+                    });
+
+                    return {
+                        content: [
+                            {
+                                type: "text",
+                                text: `Filters (${filters.length}):\n\n${formatted.join('\n')}`,
+                            },
+                        ],
+                    };
+                }
+
+                case "create_filter": {
+                    const validatedArgs = CreateFilterSchema.parse(args);
+                    const { addLabelIds, removeLabelIds, forward, ...criteria } = validatedArgs;
+
+                    if (Object.values(criteria).every((value) => value === undefined)) {
+                        throw new Error("At least one filter criterion must be provided");
+                    }
+                    if (!addLabelIds?.length && !removeLabelIds?.length && !forward) {
+                        throw new Error("At least one action (addLabelIds, removeLabelIds or forward) must be provided");
+                    }
+                    if ((criteria.size === undefined) !== (criteria.sizeComparison === undefined)) {
+                        throw new Error("Give size and sizeComparison together");
+                    }
+
+                    const action: gmail_v1.Schema$FilterAction = await resolveLabelChanges(addLabelIds, removeLabelIds);
+                    if (forward) action.forward = forward;
+
+                    const response = await gmail.users.settings.filters.create({
+                        userId: 'me',
+                        requestBody: { criteria, action },
+                    });
+
+                    return {
+                        content: [
+                            {
+                                type: "text",
+                                text: `Filter created successfully with ID: ${response.data.id}`,
+                            },
+                        ],
+                    };
+                }
+
+                case "delete_filter": {
+                    const validatedArgs = DeleteFilterSchema.parse(args);
+                    await gmail.users.settings.filters.delete({
+                        userId: 'me',
+                        id: validatedArgs.filterId,
+                    });
+
+                    return {
+                        content: [
+                            {
+                                type: "text",
+                                text: `Filter ${validatedArgs.filterId} deleted successfully`,
+                            },
+                        ],
+                    };
+                }
+
                 case "delete_email": {
                     const validatedArgs = DeleteEmailSchema.parse(args);
                     await gmail.users.messages.delete({
@@ -445,16 +1338,8 @@ const getGmailMcpServer = () => {
                     const messageIds = validatedArgs.messageIds;
                     const batchSize = validatedArgs.batchSize || 50;
 
-                    // Prepare request body
-                    const requestBody: any = {};
-
-                    if (validatedArgs.addLabelIds) {
-                        requestBody.addLabelIds = validatedArgs.addLabelIds;
-                    }
-
-                    if (validatedArgs.removeLabelIds) {
-                        requestBody.removeLabelIds = validatedArgs.removeLabelIds;
-                    }
+                    // Prepare request body, resolving label names to IDs
+                    const requestBody = await resolveLabelChanges(validatedArgs.addLabelIds, validatedArgs.removeLabelIds);
 
                     // Process messages in batches
                     const { successes, failures } = await processBatches(
@@ -562,136 +1447,19 @@ const getGmailMcpServer = () => {
     return server;
 };
 
-// Create Express App
-const app = express();
-
-//=============================================================================
-// STREAMABLE HTTP TRANSPORT (PROTOCOL VERSION 2025-03-26)
-//=============================================================================
-
-app.post('/mcp', async (req: Request, res: Response) => {
-    const accessToken = req.headers['x-auth-token'] as string;
-    if (!accessToken) {
-        console.error('Error: Access token is missing. Provide it via x-auth-token header.');
-    }
-
-    // Initialize Gmail client with the access token
-    const auth = new google.auth.OAuth2();
-    auth.setCredentials({ access_token: accessToken });
-    const gmailClient = google.gmail({ version: 'v1', auth });
-
-    const server = getGmailMcpServer();
-    try {
-        const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
-            sessionIdGenerator: undefined,
-        });
-        await server.connect(transport);
-        asyncLocalStorage.run({ gmailClient }, async () => {
-            await transport.handleRequest(req, res, req.body);
-        });
-        res.on('close', () => {
-            console.log('Request closed');
-            transport.close();
-            server.close();
-        });
-    } catch (error) {
-        console.error('Error handling MCP request:', error);
-        if (!res.headersSent) {
-            res.status(500).json({
-                jsonrpc: '2.0',
-                error: {
-                    code: -32603,
-                    message: 'Internal server error',
-                },
-                id: null,
-            });
+startMcpServer({
+    name: "gmail-mcp-server",
+    createServer: getGmailMcpServer,
+    asyncLocalStorage,
+    extractContext: (req) => {
+        const accessToken = req.headers['x-auth-token'] as string;
+        if (!accessToken) {
+            console.error('Error: Access token is missing. Provide it via x-auth-token header.');
         }
-    }
-});
-
-app.get('/mcp', async (req: Request, res: Response) => {
-    console.log('Received GET MCP request');
-    res.writeHead(405).end(JSON.stringify({
-        jsonrpc: "2.0",
-        error: {
-            code: -32000,
-            message: "Method not allowed."
-        },
-        id: null
-    }));
-});
 
-app.delete('/mcp', async (req: Request, res: Response) => {
-    console.log('Received DELETE MCP request');
-    res.writeHead(405).end(JSON.stringify({
-        jsonrpc: "2.0",
-        error: {
-            code: -32000,
-            message: "Method not allowed."
-        },
-        id: null
-    }));
-});
-
-//=============================================================================
-// DEPRECATED HTTP+SSE TRANSPORT (PROTOCOL VERSION 2024-11-05)
-//=============================================================================
-
-// Map to store SSE transports
-const transports = new Map<string, SSEServerTransport>();
-
-app.get("/sse", async (req: Request, res: Response) => {
-    const accessToken = req.headers['x-auth-token'] as string;
-    if (!accessToken) {
-        console.error('Error: Access token is missing. Provide it via x-auth-token header.');
-    }
-
-    const transport = new SSEServerTransport(`/messages`, res);
-
-    // Set up cleanup when connection closes
-    res.on('close', async () => {
-        console.log(`SSE connection closed for transport: ${transport.sessionId}`);
-        try {
-            transports.delete(transport.sessionId);
-        } finally {
-        }
-    });
-
-    transports.set(transport.sessionId, transport);
-
-    const server = getGmailMcpServer();
-    await server.connect(transport);
-
-    console.log(`SSE connection established with transport: ${transport.sessionId}`);
-});
-
-app.post("/messages", async (req: Request, res: Response) => {
-    const sessionId = req.query.sessionId as string;
-    const accessToken = req.headers['x-auth-token'] as string;
-    if (!accessToken) {
-        console.error('Error: Access token is missing. Provide it via x-auth-token header.');
-    }
-
-    let transport: SSEServerTransport | undefined;
-    transport = sessionId ? transports.get(sessionId) : undefined;
-    if (transport) {
         // Initialize Gmail client with the access token
         const auth = new google.auth.OAuth2();
         auth.setCredentials({ access_token: accessToken });
-        const gmailClient = google.gmail({ version: 'v1', auth });
-
-        asyncLocalStorage.run({ gmailClient }, async () => {
-            await transport!.handlePostMessage(req, res);
-        });
-    } else {
-        console.error(`Transport not found for session ID: ${sessionId}`);
-        res.status(404).send({ error: "Transport not found" });
-    }
+        return { gmailClient: google.gmail({ version: 'v1', auth }) };
+    },
 });
-
-// Start the server
-const PORT = process.env.PORT || 5000;
-app.listen(PORT, () => {
-    console.log(`Server running on port ${PORT}`);
-});
-
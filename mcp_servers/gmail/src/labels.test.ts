@@ -0,0 +1,57 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { GmailLabel, findLabel, labelNames, resolveLabelIds } from './labels.js';
+
+const labels: GmailLabel[] = [
+  { id: 'INBOX', name: 'INBOX', type: 'system' },
+  { id: 'STARRED', name: 'STARRED', type: 'system' },
+  { id: 'Label_1', name: 'Work', type: 'user' },
+  { id: 'Label_2', name: 'Work/Projects', type: 'user' },
+  { id: 'Label_3', name: 'Work/Projects/Archive', type: 'user' },
+  // A user label whose name is another label's ID
+  { id: 'Label_4', name: 'Label_1', type: 'user' },
+];
+
+describe('findLabel', () => {
+  it('should prefer IDs over names', () => {
+    assert.equal(findLabel(labels, 'Label_1').name, 'Work');
+    assert.equal(findLabel(labels, 'STARRED').id, 'STARRED');
+  });
+
+  it('should match full nested names case-insensitively', () => {
+    assert.equal(findLabel(labels, 'work/projects').id, 'Label_2');
+    assert.equal(findLabel(labels, ' WORK/Projects/archive ').id, 'Label_3');
+    assert.equal(findLabel(labels, 'inbox').id, 'INBOX');
+  });
+
+  it('should suggest similar labels for unknown ones', () => {
+    assert.throws(() => findLabel(labels, 'projects'), {
+      message:
+        'Unknown label "projects". Similar labels: Work/Projects (Label_2), ' +
+        'Work/Projects/Archive (Label_3). Use list_labels to look labels up.',
+    });
+    assert.throws(() => findLabel(labels, 'Receipts'), {
+      message: 'Unknown label "Receipts". Use list_labels to look labels up.',
+    });
+  });
+});
+
+describe('resolveLabelIds', () => {
+  it('should resolve IDs and names without duplicates', () => {
+    assert.deepEqual(resolveLabelIds(labels, ['work', 'Label_1', 'Work/Projects', 'INBOX']), [
+      'Label_1',
+      'Label_2',
+      'INBOX',
+    ]);
+    assert.throws(() => resolveLabelIds(labels, ['Work', 'Missing']), /Unknown label "Missing"/);
+  });
+});
+
+describe('labelNames', () => {
+  it('should name known IDs and keep unknown ones', () => {
+    assert.deepEqual(labelNames(labels, ['Label_2', 'CATEGORY_UPDATES']), [
+      'Work/Projects',
+      'CATEGORY_UPDATES',
+    ]);
+  });
+});
@@ -0,0 +1,50 @@
+/** A label as returned by users.labels.list and users.labels.get. */
+export interface GmailLabel {
+  id: string;
+  name: string;
+  type?: 'system' | 'user';
+  messageListVisibility?: string;
+  labelListVisibility?: string;
+  messagesTotal?: number;
+  messagesUnread?: number;
+  threadsTotal?: number;
+  threadsUnread?: number;
+  color?: { textColor?: string; backgroundColor?: string };
+}
+
+/**
+ * Finds a label given by ID (`Label_12`, `INBOX`) or by name. Names are
+ * matched case-insensitively; nested labels use their full `Parent/Child` name.
+ */
+export function findLabel(labels: GmailLabel[], idOrName: string): GmailLabel {
+  const byId = labels.find((label) => label.id === idOrName);
+  if (byId) {
+    return byId;
+  }
+
+  const wanted = idOrName.trim().toLowerCase();
+  const byName = labels.find((label) => label.name.toLowerCase() === wanted);
+  if (byName) {
+    return byName;
+  }
+
+  const similar = labels
+    .filter((label) => label.name.toLowerCase().includes(wanted))
+    .slice(0, 5)
+    .map((label) => `${label.name} (${label.id})`);
+  throw new Error(
+    `Unknown label "${idOrName}".` +
+      (similar.length > 0 ? ` Similar labels: ${similar.join(', ')}.` : '') +
+      ' Use list_labels to look labels up.',
+  );
+}
+
+/** Resolves label IDs or names to label IDs. */
+export function resolveLabelIds(labels: GmailLabel[], idsOrNames: string[]): string[] {
+  return [...new Set(idsOrNames.map((idOrName) => findLabel(labels, idOrName).id))];
+}
+
+/** The names of label IDs, for output; unknown IDs are kept as they are. */
+export function labelNames(labels: GmailLabel[], ids: string[]): string[] {
+  return ids.map((id) => labels.find((label) => label.id === id)?.name ?? id);
+}
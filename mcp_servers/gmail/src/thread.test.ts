@@ -0,0 +1,129 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  composeReply,
+  forwardSubject,
+  parseAddresses,
+  replyRecipients,
+  replyReferences,
+  replySubject,
+} from './thread.js';
+
+const headers = (values: Record<string, string>) =>
+  Object.entries(values).map(([name, value]) => ({ name, value }));
+
+describe('parseAddresses', () => {
+  it('should parse names, quoted names with commas and bare addresses', () => {
+    assert.deepEqual(
+      parseAddresses('"Doe, Jane" <jane@example.com>, Bob <bob@example.com>,carol@example.com'),
+      [
+        { name: 'Doe, Jane', address: 'jane@example.com' },
+        { name: 'Bob', address: 'bob@example.com' },
+        { address: 'carol@example.com' },
+      ],
+    );
+  });
+
+  it('should skip entries without an address', () => {
+    assert.deepEqual(parseAddresses('undisclosed-recipients:;, <dave@example.com>'), [
+      { address: 'dave@example.com' },
+    ]);
+    assert.deepEqual(parseAddresses(''), []);
+  });
+});
+
+describe('replyReferences', () => {
+  it('should append the Message-ID to the existing references', () => {
+    assert.equal(
+      replyReferences(
+        headers({ References: '<a@x> <b@x>', 'In-Reply-To': '<b@x>', 'Message-ID': '<c@x>' }),
+      ),
+      '<a@x> <b@x> <c@x>',
+    );
+  });
+
+  it('should fall back to In-Reply-To and not repeat the Message-ID', () => {
+    assert.equal(
+      replyReferences(headers({ 'In-Reply-To': '<a@x>', 'message-id': '<b@x>' })),
+      '<a@x> <b@x>',
+    );
+    assert.equal(
+      replyReferences(headers({ References: '<a@x>\r\n <b@x>', 'Message-ID': '<b@x>' })),
+      '<a@x> <b@x>',
+    );
+    assert.equal(replyReferences(headers({ 'Message-ID': '<a@x>' })), '<a@x>');
+  });
+});
+
+describe('subjects', () => {
+  it('should add a single prefix', () => {
+    assert.equal(replySubject('Plans'), 'Re: Plans');
+    assert.equal(replySubject('RE: Plans'), 'RE: Plans');
+    assert.equal(forwardSubject('Plans'), 'Fwd: Plans');
+    assert.equal(forwardSubject('Fw: Plans'), 'Fw: Plans');
+  });
+});
+
+describe('replyRecipients', () => {
+  const original = headers({
+    From: 'Jane <jane@example.com>',
+    To: 'me@example.com, bob@example.com',
+    Cc: 'Carol <carol@example.com>',
+  });
+
+  it('should reply to the sender, or to everyone without the user', () => {
+    assert.deepEqual(replyRecipients(original, 'ME@example.com', false), {
+      to: ['jane@example.com'],
+      cc: [],
+    });
+    assert.deepEqual(replyRecipients(original, 'me@example.com', true), {
+      to: ['jane@example.com'],
+      cc: ['bob@example.com', 'carol@example.com'],
+    });
+  });
+
+  it('should prefer Reply-To and answer the recipients of messages the user sent', () => {
+    assert.deepEqual(
+      replyRecipients(
+        [...original, ...headers({ 'Reply-To': 'list@example.com' })],
+        'me@example.com',
+        false,
+      ).to,
+      ['list@example.com'],
+    );
+    assert.deepEqual(
+      replyRecipients(
+        headers({ From: 'me@example.com', To: 'jane@example.com' }),
+        'me@example.com',
+        false,
+      ),
+      { to: ['jane@example.com'], cc: [] },
+    );
+  });
+});
+
+describe('composeReply', () => {
+  it('should quote the original and continue its thread', () => {
+    const reply = composeReply(
+      {
+        threadId: 't1',
+        headers: headers({
+          From: 'Jane <jane@example.com>',
+          Date: 'Mon, 1 Jan 2024 10:00:00 +0000',
+          Subject: 'Plans',
+          'Message-ID': '<a@x>',
+        }),
+        text: 'Lunch?\n> earlier',
+        html: '',
+      },
+      'Sure',
+    );
+    assert.deepEqual(reply, {
+      subject: 'Re: Plans',
+      body: 'Sure\n\nOn Mon, 1 Jan 2024 10:00:00 +0000, Jane <jane@example.com> wrote:\n> Lunch?\n>> earlier',
+      inReplyTo: '<a@x>',
+      references: '<a@x>',
+      threadId: 't1',
+    });
+  });
+});
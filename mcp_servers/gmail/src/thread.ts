@@ -0,0 +1,233 @@
+import { htmlToMarkdown } from './content.js';
+
+/** A header of a Gmail message part. */
+export interface MessageHeader {
+  name?: string | null;
+  value?: string | null;
+}
+
+export interface EmailAddress {
+  name?: string;
+  address: string;
+}
+
+/** The headers and content of a message that replies and forwards build on. */
+export interface OriginalMessage {
+  threadId: string;
+  headers: MessageHeader[];
+  text: string;
+  html: string;
+}
+
+/** Reply or forward headers and bodies, ready for createEmailMessage. */
+export interface ComposedMessage {
+  subject: string;
+  body: string;
+  htmlBody?: string;
+  inReplyTo?: string;
+  references?: string;
+  threadId?: string;
+}
+
+/** The value of a header, matched case-insensitively. */
+export function getHeader(headers: MessageHeader[], name: string): string {
+  const wanted = name.toLowerCase();
+  return headers.find((header) => header.name?.toLowerCase() === wanted)?.value ?? '';
+}
+
+/** Parses an address list header such as `"Doe, Jane" <jane@example.com>, bob@example.com`. */
+export function parseAddresses(header: string): EmailAddress[] {
+  const addresses: EmailAddress[] = [];
+  let current = '';
+  let quoted = false;
+  let angle = false;
+  for (const char of `${header},`) {
+    if (char === '"') {
+      quoted = !quoted;
+    } else if (!quoted && char === '<') {
+      angle = true;
+    } else if (!quoted && char === '>') {
+      angle = false;
+    }
+    if (char === ',' && !quoted && !angle) {
+      const match = /^(.*?)<([^>]+)>\s*$/.exec(current.trim());
+      const address = (match ? match[2] : current).trim();
+      const name = match?.[1].trim().replace(/^"|"$/g, '');
+      if (address.includes('@')) {
+        addresses.push(name ? { name, address } : { address });
+      }
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  return addresses;
+}
+
+function withPrefix(prefix: string, subject: string) {
+  const trimmed = subject.trim();
+  return new RegExp(`^${prefix}:`, 'i').test(trimmed) ? trimmed : `${prefix}: ${trimmed}`;
+}
+
+/** The subject of a reply: the original subject with a single `Re:` prefix. */
+export function replySubject(subject: string): string {
+  return withPrefix('Re', subject);
+}
+
+/** The subject of a forward: the original subject with a single `Fwd:` prefix. */
+export function forwardSubject(subject: string): string {
+  return /^fw:/i.test(subject.trim()) ? subject.trim() : withPrefix('Fwd', subject);
+}
+
+/**
+ * The `References` header of a reply: the original message's references
+ * followed by its own Message-ID, as RFC 5322 describes.
+ */
+export function replyReferences(headers: MessageHeader[]): string {
+  const messageId = getHeader(headers, 'Message-ID');
+  const references = getHeader(headers, 'References') || getHeader(headers, 'In-Reply-To');
+  const ids = references.split(/\s+/).filter((id) => id !== '');
+  if (messageId && !ids.includes(messageId)) {
+    ids.push(messageId);
+  }
+  return ids.join(' ');
+}
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function textToHtml(text: string) {
+  return escapeHtml(text).replace(/\r?\n/g, '<br>\n');
+}
+
+function plainText(message: OriginalMessage) {
+  return message.text || htmlToMarkdown(message.html);
+}
+
+function quoteLines(text: string) {
+  return text
+    .replace(/\r\n/g, '\n')
+    .trimEnd()
+    .split('\n')
+    .map((line) => (line.startsWith('>') ? `>${line}` : `> ${line}`).trimEnd())
+    .join('\n');
+}
+
+// Builds the plain text and HTML bodies of a reply or forward. An HTML body is
+// only written when the new text or the original message has one.
+function composeBodies(
+  body: string,
+  htmlBody: string | undefined,
+  original: OriginalMessage,
+  quote: { text: string; html: string },
+) {
+  const text = body.trim() ? `${body.trimEnd()}\n\n${quote.text}` : quote.text;
+  if (!htmlBody && !original.html) {
+    return { body: text };
+  }
+  const html = htmlBody ?? (body.trim() ? textToHtml(body.trimEnd()) : '');
+  return {
+    body: text,
+    htmlBody: html ? `<div>${html}</div>\n<br>\n${quote.html}` : quote.html,
+  };
+}
+
+/** A reply that quotes the original message and continues its thread. */
+export function composeReply(
+  original: OriginalMessage,
+  body: string,
+  htmlBody?: string,
+): ComposedMessage {
+  const from = getHeader(original.headers, 'From');
+  const date = getHeader(original.headers, 'Date');
+  const attribution = date ? `On ${date}, ${from} wrote:` : `${from} wrote:`;
+  const originalHtml = original.html || textToHtml(original.text);
+  const messageId = getHeader(original.headers, 'Message-ID');
+  return {
+    subject: replySubject(getHeader(original.headers, 'Subject')),
+    ...composeBodies(body, htmlBody, original, {
+      text: `${attribution}\n${quoteLines(plainText(original))}`,
+      html:
+        `<div class="gmail_quote"><div>${escapeHtml(attribution)}<br></div>\n` +
+        '<blockquote class="gmail_quote" style="margin:0 0 0 .8ex;border-left:1px #ccc solid;padding-left:1ex">\n' +
+        `${originalHtml}\n</blockquote></div>`,
+    }),
+    ...(messageId ? { inReplyTo: messageId, references: replyReferences(original.headers) } : {}),
+    threadId: original.threadId,
+  };
+}
+
+/** A forward that includes the original message below a forwarded-message header. */
+export function composeForward(
+  original: OriginalMessage,
+  body: string,
+  htmlBody?: string,
+): ComposedMessage {
+  const summary = ['From', 'Date', 'Subject', 'To', 'Cc']
+    .map((name) => [name, getHeader(original.headers, name)])
+    .filter(([, value]) => value !== '');
+  const heading = '---------- Forwarded message ---------';
+  return {
+    subject: forwardSubject(getHeader(original.headers, 'Subject')),
+    ...composeBodies(body, htmlBody, original, {
+      text: [
+        heading,
+        ...summary.map(([name, value]) => `${name}: ${value}`),
+        '',
+        plainText(original),
+      ]
+        .join('\n')
+        .trimEnd(),
+      html:
+        `<div class="gmail_quote"><div>${heading}<br>\n` +
+        summary.map(([name, value]) => `${name}: ${escapeHtml(value)}<br>\n`).join('') +
+        `</div><br>\n${original.html || textToHtml(original.text)}\n</div>`,
+    }),
+  };
+}
+
+/**
+ * The recipients of a reply. Replies go to Reply-To or From; when the user
+ * sent the original message, they go to its recipients instead. Reply-all
+ * adds the other To and Cc recipients, leaving out the user.
+ */
+export function replyRecipients(
+  headers: MessageHeader[],
+  ownAddress: string,
+  replyAll: boolean,
+): { to: string[]; cc: string[] } {
+  const own = ownAddress.toLowerCase();
+  const sender = parseAddresses(getHeader(headers, 'From'));
+  const sentByUser = sender.some(({ address }) => address.toLowerCase() === own);
+  const originalTo = parseAddresses(getHeader(headers, 'To'));
+  const replyTo = parseAddresses(getHeader(headers, 'Reply-To'));
+
+  const to = sentByUser ? originalTo : replyTo.length > 0 ? replyTo : sender;
+  const cc = replyAll
+    ? [...(sentByUser ? [] : originalTo), ...parseAddresses(getHeader(headers, 'Cc'))]
+    : [];
+
+  const seen = new Set([own]);
+  const unique = (addresses: EmailAddress[]) =>
+    addresses
+      .map(({ address }) => address)
+      .filter((address) => {
+        const key = address.toLowerCase();
+        if (seen.has(key)) {
+          return false;
+        }
+        seen.add(key);
+        return true;
+      });
+  const toAddresses = unique(to);
+  // Replying to a message the user sent to themselves
+  if (toAddresses.length === 0) {
+    toAddresses.push(...sender.map(({ address }) => address));
+  }
+  return { to: toAddresses, cc: unique(cc) };
+}
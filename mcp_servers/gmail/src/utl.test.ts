@@ -0,0 +1,43 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { createEmailMessage } from './utl.js';
+
+const message = (attachment: { filename: string; mimeType: string }) =>
+  createEmailMessage({
+    to: ['jane@example.com'],
+    subject: 'Report',
+    body: 'Attached.',
+    attachments: [{ ...attachment, data: Buffer.from('hello') }],
+  }).split('\r\n');
+
+describe('createEmailMessage', () => {
+  it('should attach files as parts of a multipart/mixed message', () => {
+    const lines = message({ filename: 'report "q1".txt', mimeType: 'text/plain' });
+    assert.ok(lines.some((line) => line.startsWith('Content-Type: multipart/mixed; boundary=')));
+    assert.ok(lines.includes('Content-Type: text/plain; name="report \\"q1\\".txt"'));
+    assert.ok(lines.includes(Buffer.from('hello').toString('base64')));
+  });
+
+  it('should encode non-ASCII file names', () => {
+    const lines = message({ filename: 'résumé.pdf', mimeType: 'application/pdf' });
+    const encoded = `=?UTF-8?B?${Buffer.from('résumé.pdf').toString('base64')}?=`;
+    assert.ok(
+      lines.includes(
+        `Content-Disposition: attachment; filename="${encoded}"; filename*=UTF-8''r%C3%A9sum%C3%A9.pdf`,
+      ),
+    );
+  });
+
+  it('should not let file names or types add headers', () => {
+    const lines = message({
+      filename: 'a.txt\r\nBcc: attacker@example.com',
+      mimeType: 'text/plain\r\nX-Injected: yes',
+    });
+    assert.ok(!lines.some((line) => /^(Bcc|X-Injected):/.test(line)));
+    assert.ok(
+      lines.includes(
+        'Content-Type: text/plainX-Injected: yes; name="a.txtBcc: attacker@example.com"',
+      ),
+    );
+  });
+});
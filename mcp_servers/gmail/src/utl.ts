@@ -1,16 +1,46 @@
+import type { LoadedAttachment } from './attachments.js';
+
+// Every character outside ASCII takes more than one byte in UTF-8
+function hasNonAscii(text: string): boolean {
+    return Buffer.byteLength(text) !== text.length;
+}
+
 /**
  * Helper function to encode email headers containing non-ASCII characters
  * according to RFC 2047 MIME specification
  */
 function encodeEmailHeader(text: string): string {
     // Only encode if the text contains non-ASCII characters
-    if (/[^\x00-\x7F]/.test(text)) {
+    if (hasNonAscii(text)) {
         // Use MIME Words encoding (RFC 2047)
         return '=?UTF-8?B?' + Buffer.from(text).toString('base64') + '?=';
     }
     return text;
 }
 
+/**
+ * Helper function to build the MIME part of an attachment. File names are
+ * given in RFC 2231 form as well when they contain non-ASCII characters.
+ */
+function createAttachmentPart(attachment: LoadedAttachment): string[] {
+    // Line breaks would let a file name or type add headers of its own
+    const filename = attachment.filename.replace(/[\r\n]/g, '');
+    const mimeType = attachment.mimeType.replace(/[\r\n]/g, '');
+    const quoted = encodeEmailHeader(filename).replace(/["\\]/g, '\\$&');
+    const extended = hasNonAscii(filename)
+        ? `; filename*=UTF-8''${encodeURIComponent(filename)}`
+        : '';
+
+    return [
+        `Content-Type: ${mimeType}; name="${quoted}"`,
+        `Content-Disposition: attachment; filename="${quoted}"${extended}`,
+        'Content-Transfer-Encoding: base64',
+        '',
+        // Base64 lines are limited to 76 characters (RFC 2045)
+        ...(attachment.data.toString('base64').match(/.{1,76}/g) || []),
+    ];
+}
+
 export const validateEmail = (email: string): boolean => {
     const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
     return emailRegex.test(email);
@@ -46,10 +76,19 @@ export function createEmailMessage(validatedArgs: any): string {
         `Subject: ${encodedSubject}`,
         // Add thread-related headers if specified
         validatedArgs.inReplyTo ? `In-Reply-To: ${validatedArgs.inReplyTo}` : '',
-        validatedArgs.inReplyTo ? `References: ${validatedArgs.inReplyTo}` : '',
+        validatedArgs.inReplyTo ? `References: ${validatedArgs.references || validatedArgs.inReplyTo}` : '',
         'MIME-Version: 1.0',
     ].filter(Boolean);
 
+    // Attachments go into a multipart/mixed message, with the body as its first part
+    const attachments: LoadedAttachment[] = validatedArgs.attachments || [];
+    const mixedBoundary = `----=_MixedPart_${Math.random().toString(36).substring(2)}`;
+    if (attachments.length > 0) {
+        emailParts.push(`Content-Type: multipart/mixed; boundary="${mixedBoundary}"`);
+        emailParts.push('');
+        emailParts.push(`--${mixedBoundary}`);
+    }
+
     // Construct the email based on the content type
     if (mimeType === 'multipart/alternative') {
         // Multipart email with both plain text and HTML
@@ -88,5 +127,15 @@ export function createEmailMessage(validatedArgs: any): string {
         emailParts.push(validatedArgs.body);
     }
 
+    if (attachments.length > 0) {
+        emailParts.push('');
+        for (const attachment of attachments) {
+            emailParts.push(`--${mixedBoundary}`);
+            emailParts.push(...createAttachmentPart(attachment));
+            emailParts.push('');
+        }
+        emailParts.push(`--${mixedBoundary}--`);
+    }
+
     return emailParts.join('\r\n');
 }
\ No newline at end of file
@@ -0,0 +1,392 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { AdfDocument, AdfNode, adfToMarkdown, markdownToAdf } from './adf.js';
+
+const doc = (...content: AdfNode[]): AdfDocument => ({ type: 'doc', version: 1, content });
+const p = (...content: AdfNode[]): AdfNode => ({ type: 'paragraph', content });
+const t = (text: string, ...marks: AdfNode['marks'] & object): AdfNode =>
+  marks.length > 0 ? { type: 'text', text, marks } : { type: 'text', text };
+const li = (...content: AdfNode[]): AdfNode => ({ type: 'listItem', content });
+
+// Markdown in the form adfToMarkdown writes it, so it must survive a round trip unchanged.
+function assertMarkdownRoundTrip(markdown: string) {
+  assert.equal(adfToMarkdown(markdownToAdf(markdown)), markdown);
+}
+
+function assertAdfRoundTrip(adf: AdfDocument) {
+  assert.deepEqual(markdownToAdf(adfToMarkdown(adf)), adf);
+}
+
+describe('markdownToAdf', () => {
+  it('should convert headings and inline marks', () => {
+    assert.deepEqual(
+      markdownToAdf('## Release *notes*\n\nShip **now**, ~~later~~ or `never`.'),
+      doc(
+        {
+          type: 'heading',
+          attrs: { level: 2 },
+          content: [t('Release '), t('notes', { type: 'em' })],
+        },
+        p(
+          t('Ship '),
+          t('now', { type: 'strong' }),
+          t(', '),
+          t('later', { type: 'strike' }),
+          t(' or '),
+          t('never', { type: 'code' }),
+          t('.'),
+        ),
+      ),
+    );
+  });
+
+  it('should keep single line breaks as hard breaks', () => {
+    assert.deepEqual(
+      markdownToAdf('first line\nsecond line'),
+      doc(p(t('first line'), { type: 'hardBreak' }, t('second line'))),
+    );
+  });
+
+  it('should convert links, autolinks and mentions', () => {
+    assert.deepEqual(
+      markdownToAdf(
+        'See [the **docs**](https://example.com/docs), <https://example.com/card> and ask [@Jane Doe](accountid:5b10ac8d82e05b22cc7d4ef5)',
+      ),
+      doc(
+        p(
+          t('See '),
+          t('the ', { type: 'link', attrs: { href: 'https://example.com/docs' } }),
+          t(
+            'docs',
+            { type: 'link', attrs: { href: 'https://example.com/docs' } },
+            { type: 'strong' },
+          ),
+          t(', '),
+          { type: 'inlineCard', attrs: { url: 'https://example.com/card' } },
+          t(' and ask '),
+          { type: 'mention', attrs: { id: '5b10ac8d82e05b22cc7d4ef5', text: '@Jane Doe' } },
+        ),
+      ),
+    );
+  });
+
+  it('should turn bare URLs into links', () => {
+    assert.deepEqual(
+      markdownToAdf('Logs at https://example.com/logs.'),
+      doc(
+        p(
+          t('Logs at '),
+          t('https://example.com/logs', {
+            type: 'link',
+            attrs: { href: 'https://example.com/logs' },
+          }),
+          t('.'),
+        ),
+      ),
+    );
+  });
+
+  it('should not treat underscores inside words as emphasis', () => {
+    assert.deepEqual(
+      markdownToAdf('set MAX_RETRIES and _retry_'),
+      doc(p(t('set MAX_RETRIES and '), t('retry', { type: 'em' }))),
+    );
+  });
+
+  it('should keep dunder names and underscores inside words as text', () => {
+    assert.deepEqual(
+      markdownToAdf('call __init__ from __main__.py, foo__bar__baz and __really bold__'),
+      doc(
+        p(
+          t('call __init__ from __main__.py, foo__bar__baz and '),
+          t('really bold', { type: 'strong' }),
+        ),
+      ),
+    );
+  });
+
+  it('should keep the exclamation mark of images', () => {
+    assert.deepEqual(
+      markdownToAdf('See ![chart](https://example.com/c.png)'),
+      doc(
+        p(t('See !'), t('chart', { type: 'link', attrs: { href: 'https://example.com/c.png' } })),
+      ),
+    );
+  });
+
+  it('should keep items numbered with a parenthesis as text', () => {
+    assert.deepEqual(
+      markdownToAdf('1) first\n2) second'),
+      doc(p(t('1) first'), { type: 'hardBreak' }, t('2) second'))),
+    );
+  });
+
+  it('should convert nested and ordered lists', () => {
+    assert.deepEqual(
+      markdownToAdf('3. three\n4. four\n   - nested\n   - items'),
+      doc({
+        type: 'orderedList',
+        attrs: { order: 3 },
+        content: [
+          li(p(t('three'))),
+          li(p(t('four')), {
+            type: 'bulletList',
+            content: [li(p(t('nested'))), li(p(t('items')))],
+          }),
+        ],
+      }),
+    );
+  });
+
+  it('should convert task lists', () => {
+    assert.deepEqual(
+      markdownToAdf('- [x] write tests\n- [ ] ship'),
+      doc({
+        type: 'taskList',
+        attrs: { localId: '' },
+        content: [
+          { type: 'taskItem', attrs: { localId: '', state: 'DONE' }, content: [t('write tests')] },
+          { type: 'taskItem', attrs: { localId: '', state: 'TODO' }, content: [t('ship')] },
+        ],
+      }),
+    );
+  });
+
+  it('should convert fenced code blocks without parsing their content', () => {
+    assert.deepEqual(
+      markdownToAdf('```ts\nconst a = **b**;\n\n# not a heading\n```'),
+      doc({
+        type: 'codeBlock',
+        attrs: { language: 'ts' },
+        content: [t('const a = **b**;\n\n# not a heading')],
+      }),
+    );
+  });
+
+  it('should convert GitHub-style alerts into panels', () => {
+    assert.deepEqual(
+      markdownToAdf('> [!WARNING]\n> Do **not** deploy on Fridays.\n\n> [!TIP]\n> Use staging.'),
+      doc(
+        {
+          type: 'panel',
+          attrs: { panelType: 'warning' },
+          content: [p(t('Do '), t('not', { type: 'strong' }), t(' deploy on Fridays.'))],
+        },
+        { type: 'panel', attrs: { panelType: 'success' }, content: [p(t('Use staging.'))] },
+      ),
+    );
+  });
+
+  it('should convert tables with a header row', () => {
+    assert.deepEqual(
+      markdownToAdf('| Name | Value |\n| --- | :-: |\n| a \\| b | `x` |\n| c<br>d |'),
+      doc({
+        type: 'table',
+        content: [
+          {
+            type: 'tableRow',
+            content: [
+              { type: 'tableHeader', content: [p(t('Name'))] },
+              { type: 'tableHeader', content: [p(t('Value'))] },
+            ],
+          },
+          {
+            type: 'tableRow',
+            content: [
+              { type: 'tableCell', content: [p(t('a | b'))] },
+              { type: 'tableCell', content: [p(t('x', { type: 'code' }))] },
+            ],
+          },
+          {
+            type: 'tableRow',
+            content: [
+              { type: 'tableCell', content: [p(t('c'), { type: 'hardBreak' }, t('d'))] },
+              { type: 'tableCell', content: [{ type: 'paragraph' }] },
+            ],
+          },
+        ],
+      }),
+    );
+  });
+
+  it('should keep list items valid ADF when they contain other blocks', () => {
+    const adf = markdownToAdf('- > quoted\n  ## heading');
+    assert.deepEqual(
+      adf,
+      doc({
+        type: 'bulletList',
+        content: [li(p(t('quoted')), p(t('heading')))],
+      }),
+    );
+  });
+
+  it('should return an empty document for empty input', () => {
+    assert.deepEqual(markdownToAdf(''), doc());
+  });
+});
+
+describe('adfToMarkdown', () => {
+  it('should escape text that would otherwise read as Markdown', () => {
+    assert.equal(
+      adfToMarkdown(doc(p(t('# 1. *not* [a](link) snake_case _x_')))),
+      '\\# 1. \\*not\\* \\[a\\](link) snake_case \\_x\\_',
+    );
+  });
+
+  it('should only escape underscores that could read as emphasis', () => {
+    assert.equal(
+      adfToMarkdown(doc(p(t('__init__, foo__bar and __private')))),
+      '__init__, foo__bar and \\_\\_private',
+    );
+  });
+
+  it('should move whitespace outside of emphasis', () => {
+    assert.equal(
+      adfToMarkdown(doc(p(t('bold ', { type: 'strong' }), t('plain')))),
+      '**bold** plain',
+    );
+  });
+
+  it('should render nodes without a Markdown equivalent as text', () => {
+    assert.equal(
+      adfToMarkdown(
+        doc(
+          p(
+            { type: 'emoji', attrs: { shortName: ':tada:', text: '🎉' } },
+            t(' '),
+            { type: 'status', attrs: { text: 'IN REVIEW', color: 'blue' } },
+            t(' due '),
+            { type: 'date', attrs: { timestamp: '1714521600000' } },
+          ),
+          {
+            type: 'mediaSingle',
+            content: [{ type: 'media', attrs: { id: 'abc', type: 'file', collection: '' } }],
+          },
+        ),
+      ),
+      '🎉 [IN REVIEW] due 2024-05-01\n\n![attachment](media:abc)',
+    );
+  });
+
+  it('should fall back to the text of unknown nodes', () => {
+    assert.equal(
+      adfToMarkdown(doc({ type: 'somethingNew', content: [p(t('still readable'))] })),
+      'still readable',
+    );
+  });
+
+  it('should accept empty documents', () => {
+    assert.equal(adfToMarkdown(doc()), '');
+    assert.equal(adfToMarkdown(null), '');
+  });
+});
+
+describe('round trips', () => {
+  it('should round-trip Markdown', () => {
+    assertMarkdownRoundTrip(
+      [
+        '# Incident report',
+        'The **checkout** service failed for *some* users; see [runbook](https://example.com/runbook) and <https://example.com/INC-1>.',
+        'Owner: [@Jane Doe](accountid:5b10ac8d82e05b22cc7d4ef5)\nBackup: [@John Roe](accountid:712020:2ac5d8c8-3d1a-4b5e-9f1c-4d7c6b1a0e21)',
+        '## Timeline',
+        '1. Deploy at 10:00\n2. Errors at 10:05\n   - `502` from the gateway\n   - retries ***exhausted***\n3. Rollback',
+        '- [x] Roll back\n- [ ] Write postmortem',
+        "```sql\nSELECT *\nFROM orders\nWHERE status = 'failed';\n```",
+        '> Customers saw a blank page.',
+        '> [!ERROR]\n> Payments were not captured.\n>\n> - Refund manually',
+        '| Region | Errors |\n| --- | --- |\n| eu-west-1 | 1\\|204 |\n| us-east-1 | 3<br>pending |',
+        '---',
+        'Done ~~maybe~~.',
+      ].join('\n\n'),
+    );
+  });
+
+  it('should round-trip ADF', () => {
+    assertAdfRoundTrip(
+      doc(
+        { type: 'heading', attrs: { level: 3 }, content: [t('Steps '), t('to', { type: 'em' })] },
+        {
+          type: 'bulletList',
+          content: [
+            li(p(t('Open '), t('settings', { type: 'strong' }, { type: 'em' }))),
+            li(p(t('Click '), t('Save', { type: 'code' })), {
+              type: 'codeBlock',
+              attrs: { language: 'json' },
+              content: [t('{"a": 1}')],
+            }),
+          ],
+        },
+        p(
+          t('Ping '),
+          { type: 'mention', attrs: { id: '5b10ac8d82e05b22cc7d4ef5', text: '@Jane' } },
+          t(' about '),
+          t('PROJ-1', {
+            type: 'link',
+            attrs: { href: 'https://acme.atlassian.net/browse/PROJ-1' },
+          }),
+          { type: 'hardBreak' },
+          t('Thanks!'),
+        ),
+        { type: 'panel', attrs: { panelType: 'info' }, content: [p(t('Heads up'))] },
+        {
+          type: 'blockquote',
+          content: [p(t('quote with '), t('em', { type: 'em' }))],
+        },
+        { type: 'rule' },
+        {
+          type: 'table',
+          content: [
+            {
+              type: 'tableRow',
+              content: [
+                { type: 'tableHeader', content: [p(t('A'))] },
+                { type: 'tableHeader', content: [p(t('B'))] },
+              ],
+            },
+            {
+              type: 'tableRow',
+              content: [
+                { type: 'tableCell', content: [p(t('1'))] },
+                { type: 'tableCell', content: [p(t('two', { type: 'strong' }))] },
+              ],
+            },
+          ],
+        },
+      ),
+    );
+  });
+
+  it('should round-trip text full of Markdown syntax', () => {
+    assertAdfRoundTrip(
+      doc(
+        p(t('a*b* _c_ `d` [e](f) <https://g> ~~h~~ \\ | # 1) x')),
+        p(t('- not a list')),
+        p(t('2. not a list either')),
+        p(t('> not a quote')),
+      ),
+    );
+  });
+
+  it('should round-trip dunder names, images and parenthesized numbers', () => {
+    assertMarkdownRoundTrip('Override __init__ as in ![the docs](https://example.com/d.png)');
+    assertMarkdownRoundTrip('1) first\n2) second');
+    assertAdfRoundTrip(
+      doc(p(t('__init__, foo__bar__baz, __x and _y')), p(t('1) not a list')), p(t('3. nor this'))),
+    );
+  });
+
+  it('should round-trip adjacent and nested marks', () => {
+    assertAdfRoundTrip(
+      doc(
+        p(
+          t('a', { type: 'em' }),
+          t('b', { type: 'strong' }, { type: 'em' }),
+          t(' '),
+          t('c', { type: 'strike' }),
+          t(' '),
+          t('d', { type: 'link', attrs: { href: 'https://example.com' } }, { type: 'code' }),
+        ),
+      ),
+    );
+  });
+});
@@ -0,0 +1,957 @@
+/**
+ * Conversion between Markdown and the Atlassian Document Format (ADF) that
+ * Jira Cloud uses for descriptions and comments, see
+ * https://developer.atlassian.com/cloud/jira/platform/apis/document/structure/
+ *
+ * Besides CommonMark basics and GFM tables and task lists, two extensions map
+ * ADF nodes that have no Markdown equivalent:
+ * - mentions are links to `accountid:`, e.g. `[@Jane Doe](accountid:5b10ac8d82e05b22cc7d4ef5)`
+ * - panels are GitHub-style alerts, e.g. `> [!WARNING]` followed by the panel content
+ *
+ * Single line breaks inside a paragraph are kept as hard breaks, as in Jira's editor.
+ * ADF lists have no delimiter style, so only `1.` starts an ordered list and
+ * `1)` stays text. Dunder names like `__init__` also stay text instead of
+ * becoming bold, and images, which have to be uploaded as attachments, are
+ * kept as `!` followed by a link.
+ */
+
+export interface AdfMark {
+  type: string;
+  attrs?: Record<string, unknown>;
+}
+
+export interface AdfNode {
+  type: string;
+  attrs?: Record<string, unknown>;
+  content?: AdfNode[];
+  marks?: AdfMark[];
+  text?: string;
+}
+
+export interface AdfDocument {
+  type: 'doc';
+  version: 1;
+  content: AdfNode[];
+}
+
+const PANEL_TYPES = ['info', 'note', 'warning', 'success', 'error'];
+// GitHub alert names without an ADF panel of the same name
+const PANEL_ALIASES: Record<string, string> = {
+  tip: 'success',
+  important: 'note',
+  caution: 'error',
+};
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})\s*([^`\s]*)[^`]*$/;
+const HEADING = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/;
+const RULE = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+const BLOCKQUOTE = /^ {0,3}>/;
+const LIST_ITEM = /^([ \t]*)([-*+]|\d{1,9}\.)(?:[ \t]+(.*))?$/;
+const TASK = /^\[([ xX])\](?:[ \t]+|$)(.*)$/;
+const TABLE_DELIMITER = /^[ \t]*\|?[ \t]*:?-+:?[ \t]*(\|[ \t]*:?-+:?[ \t]*)*\|?[ \t]*$/;
+const ESCAPABLE = /[!"#$%&'()*+,\-./:;<=>?@[\\\]^_`{|}~]/;
+const DUNDER = /^__[\p{L}\p{N}](?:[\p{L}\p{N}_]*[\p{L}\p{N}])?__(?![\p{L}\p{N}_])/u;
+
+// Markdown to ADF
+
+function text(value: string, marks: AdfMark[] = []): AdfNode {
+  return marks.length > 0 ? { type: 'text', text: value, marks } : { type: 'text', text: value };
+}
+
+function paragraph(content: AdfNode[]): AdfNode {
+  return content.length > 0 ? { type: 'paragraph', content } : { type: 'paragraph' };
+}
+
+function indentation(line: string) {
+  const match = /^[ \t]*/.exec(line)?.[0] ?? '';
+  return match.replace(/\t/g, '    ').length;
+}
+
+// Removes up to `width` columns of leading whitespace.
+function dedent(line: string, width: number) {
+  let columns = 0;
+  let index = 0;
+  while (index < line.length && columns < width && (line[index] === ' ' || line[index] === '\t')) {
+    columns += line[index] === '\t' ? 4 : 1;
+    index++;
+  }
+  return line.slice(index);
+}
+
+function isBlank(line: string) {
+  return line.trim() === '';
+}
+
+function splitRow(line: string): string[] {
+  const cells: string[] = [];
+  let current = '';
+  let inCode = false;
+  const trimmed = line.trim().replace(/^\|/, '');
+  for (let index = 0; index < trimmed.length; index++) {
+    const char = trimmed[index];
+    if (char === '\\' && trimmed[index + 1] === '|') {
+      current += '|';
+      index++;
+    } else if (char === '`') {
+      inCode = !inCode;
+      current += char;
+    } else if (char === '|' && !inCode) {
+      cells.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  if (current.trim() !== '' || !trimmed.endsWith('|')) {
+    cells.push(current.trim());
+  }
+  return cells;
+}
+
+function startsBlock(lines: string[], index: number) {
+  const line = lines[index];
+  return (
+    FENCE.test(line) ||
+    HEADING.test(line) ||
+    RULE.test(line) ||
+    BLOCKQUOTE.test(line) ||
+    (LIST_ITEM.test(line) && LIST_ITEM.exec(line)?.[3] !== undefined) ||
+    (line.includes('|') && index + 1 < lines.length && TABLE_DELIMITER.test(lines[index + 1]))
+  );
+}
+
+// ADF only allows some nodes inside list items; others are unwrapped.
+function listItemContent(blocks: AdfNode[]): AdfNode[] {
+  const allowed = ['paragraph', 'bulletList', 'orderedList', 'codeBlock', 'mediaSingle'];
+  const content = blocks.flatMap((block): AdfNode[] => {
+    if (allowed.includes(block.type)) {
+      return [block];
+    }
+    if (block.type === 'heading') {
+      return [paragraph(block.content ?? [])];
+    }
+    if (block.type === 'taskList') {
+      return [{ type: 'bulletList', content: block.content?.map(taskToListItem) ?? [] }];
+    }
+    return block.content ? listItemContent(block.content) : [];
+  });
+  // A list item must start with a paragraph.
+  return content[0]?.type === 'paragraph' ? content : [paragraph([]), ...content];
+}
+
+function taskToListItem(item: AdfNode): AdfNode {
+  if (item.type !== 'taskItem') {
+    return { type: 'listItem', content: listItemContent([item]) };
+  }
+  const box = item.attrs?.state === 'DONE' ? '[x] ' : '[ ] ';
+  return { type: 'listItem', content: [paragraph([text(box), ...(item.content ?? [])])] };
+}
+
+class BlockParser {
+  private index = 0;
+
+  constructor(private readonly lines: string[]) {}
+
+  parse(): AdfNode[] {
+    const blocks: AdfNode[] = [];
+    while (this.index < this.lines.length) {
+      const line = this.lines[this.index];
+      if (isBlank(line)) {
+        this.index++;
+        continue;
+      }
+      blocks.push(this.block(line));
+    }
+    return blocks;
+  }
+
+  private block(line: string): AdfNode {
+    const fence = FENCE.exec(line);
+    if (fence) {
+      return this.codeBlock(fence[1], fence[2]);
+    }
+    const heading = HEADING.exec(line);
+    if (heading) {
+      this.index++;
+      const content = parseInline(heading[2] ?? '');
+      return {
+        type: 'heading',
+        attrs: { level: heading[1].length },
+        ...(content.length > 0 ? { content } : {}),
+      };
+    }
+    if (RULE.test(line)) {
+      this.index++;
+      return { type: 'rule' };
+    }
+    if (BLOCKQUOTE.test(line)) {
+      return this.blockquote();
+    }
+    const item = LIST_ITEM.exec(line);
+    if (item && item[3] !== undefined) {
+      return this.list(item);
+    }
+    if (
+      line.includes('|') &&
+      this.index + 1 < this.lines.length &&
+      TABLE_DELIMITER.test(this.lines[this.index + 1])
+    ) {
+      return this.table();
+    }
+    return this.paragraph();
+  }
+
+  private codeBlock(marker: string, language: string): AdfNode {
+    const indent = indentation(this.lines[this.index]);
+    const body: string[] = [];
+    this.index++;
+    while (this.index < this.lines.length) {
+      const line = this.lines[this.index++];
+      const trimmed = line.trim();
+      if (trimmed.startsWith(marker[0].repeat(marker.length)) && /^(`+|~+)$/.test(trimmed)) {
+        break;
+      }
+      body.push(dedent(line, indent));
+    }
+    const code = body.join('\n');
+    return {
+      type: 'codeBlock',
+      ...(language ? { attrs: { language } } : {}),
+      ...(code ? { content: [text(code)] } : {}),
+    };
+  }
+
+  private blockquote(): AdfNode {
+    const inner: string[] = [];
+    while (this.index < this.lines.length && BLOCKQUOTE.test(this.lines[this.index])) {
+      inner.push(this.lines[this.index++].replace(/^ {0,3}> ?/, ''));
+    }
+    const alert = /^\[!(\w+)\][ \t]*$/.exec(inner[0] ?? '');
+    const name = alert?.[1].toLowerCase();
+    const panelType = name && (PANEL_TYPES.includes(name) ? name : PANEL_ALIASES[name]);
+    if (panelType) {
+      return {
+        type: 'panel',
+        attrs: { panelType },
+        content: new BlockParser(inner.slice(1)).parse(),
+      };
+    }
+    return { type: 'blockquote', content: new BlockParser(inner).parse() };
+  }
+
+  private list(first: RegExpExecArray): AdfNode {
+    const indent = indentation(first[1]);
+    const ordered = /\d/.test(first[2]);
+    const items: { lines: string[]; task?: boolean }[] = [];
+
+    while (this.index < this.lines.length) {
+      const item = LIST_ITEM.exec(this.lines[this.index]);
+      if (
+        !item ||
+        item[3] === undefined ||
+        indentation(item[1]) !== indent ||
+        /\d/.test(item[2]) !== ordered
+      ) {
+        break;
+      }
+      const contentIndent = indent + item[2].length + 1;
+      const lines = [item[3]];
+      this.index++;
+
+      while (this.index < this.lines.length) {
+        const line = this.lines[this.index];
+        if (isBlank(line)) {
+          // A blank line continues the item only if indented content follows.
+          let next = this.index + 1;
+          while (next < this.lines.length && isBlank(this.lines[next])) {
+            next++;
+          }
+          if (next < this.lines.length && indentation(this.lines[next]) > indent) {
+            lines.push(...this.lines.slice(this.index, next).map(() => ''));
+            this.index = next;
+            continue;
+          }
+          break;
+        }
+        if (indentation(line) > indent) {
+          lines.push(dedent(line, contentIndent));
+          this.index++;
+          continue;
+        }
+        // Lazy continuation of the item's paragraph
+        if (
+          lines.length > 0 &&
+          !isBlank(lines[lines.length - 1]) &&
+          !startsBlock(this.lines, this.index)
+        ) {
+          lines.push(line.trim());
+          this.index++;
+          continue;
+        }
+        break;
+      }
+      items.push({ lines });
+
+      // Blank lines between items keep the list going.
+      let next = this.index;
+      while (next < this.lines.length && isBlank(this.lines[next])) {
+        next++;
+      }
+      const sibling = next < this.lines.length ? LIST_ITEM.exec(this.lines[next]) : null;
+      if (sibling && indentation(sibling[1]) === indent) {
+        this.index = next;
+      }
+    }
+
+    const isTaskList = !ordered && items.every((item) => TASK.test(item.lines[0]));
+    if (isTaskList) {
+      return {
+        type: 'taskList',
+        attrs: { localId: '' },
+        content: items.map((item) => this.taskItem(item.lines)),
+      };
+    }
+    const order = ordered ? parseInt(first[2], 10) : 1;
+    return {
+      type: ordered ? 'orderedList' : 'bulletList',
+      ...(ordered && order !== 1 ? { attrs: { order } } : {}),
+      content: items.map((item) => ({
+        type: 'listItem',
+        content: listItemContent(new BlockParser(item.lines).parse()),
+      })),
+    };
+  }
+
+  private taskItem(lines: string[]): AdfNode {
+    const task = TASK.exec(lines[0]);
+    const rest = new BlockParser([task?.[2] ?? '', ...lines.slice(1)]).parse();
+    // Task items hold inline content; nested task lists follow as siblings.
+    const inline = rest[0]?.type === 'paragraph' ? (rest.shift()?.content ?? []) : [];
+    return {
+      type: 'taskItem',
+      attrs: { localId: '', state: task?.[1] === ' ' ? 'TODO' : 'DONE' },
+      content: [
+        ...inline,
+        ...rest.flatMap((block) =>
+          block.type === 'paragraph' ? [{ type: 'hardBreak' }, ...(block.content ?? [])] : [],
+        ),
+      ],
+    };
+  }
+
+  private table(): AdfNode {
+    const header = splitRow(this.lines[this.index]);
+    this.index += 2;
+    const rows = [header];
+    while (
+      this.index < this.lines.length &&
+      !isBlank(this.lines[this.index]) &&
+      this.lines[this.index].includes('|')
+    ) {
+      rows.push(splitRow(this.lines[this.index++]));
+    }
+    const width = header.length;
+    return {
+      type: 'table',
+      content: rows.map((cells, rowIndex) => ({
+        type: 'tableRow',
+        content: Array.from({ length: width }, (_, column) => ({
+          type: rowIndex === 0 ? 'tableHeader' : 'tableCell',
+          content: [paragraph(parseInline((cells[column] ?? '').replace(/<br\s*\/?>/gi, '\n')))],
+        })),
+      })),
+    };
+  }
+
+  private paragraph(): AdfNode {
+    const lines = [this.lines[this.index++]];
+    while (
+      this.index < this.lines.length &&
+      !isBlank(this.lines[this.index]) &&
+      !startsBlock(this.lines, this.index)
+    ) {
+      lines.push(this.lines[this.index++]);
+    }
+    // Trailing backslashes and double spaces mark hard breaks in Markdown;
+    // here every line break is one.
+    const source = lines
+      .map((line, index) =>
+        index < lines.length - 1 ? line.trim().replace(/\\$/, '') : line.trim(),
+      )
+      .join('\n');
+    return paragraph(parseInline(source));
+  }
+}
+
+// Pushes text, merging it into the previous node when the marks are the same.
+function pushText(nodes: AdfNode[], value: string, marks: AdfMark[]) {
+  if (!value) {
+    return;
+  }
+  const last = nodes[nodes.length - 1];
+  if (last?.type === 'text' && sameMarks(last.marks ?? [], marks)) {
+    last.text += value;
+    return;
+  }
+  nodes.push(text(value, marks));
+}
+
+function sameMarks(a: AdfMark[], b: AdfMark[]) {
+  return a.length === b.length && a.every((mark, index) => sameMark(mark, b[index]));
+}
+
+function sameMark(a: AdfMark, b: AdfMark) {
+  return a.type === b.type && JSON.stringify(a.attrs ?? {}) === JSON.stringify(b.attrs ?? {});
+}
+
+// Marks are kept in a fixed order, so equal formatting compares equal.
+function withMark(marks: AdfMark[], mark: AdfMark) {
+  return marks.some((existing) => existing.type === mark.type)
+    ? marks
+    : sortedMarks([...marks, mark]);
+}
+
+const isWordChar = (char: string | undefined) => char !== undefined && /[\p{L}\p{N}]/u.test(char);
+const isSpace = (char: string | undefined) => char === undefined || /\s/.test(char);
+
+function runLength(source: string, index: number, char: string) {
+  let end = index;
+  while (source[end] === char) {
+    end++;
+  }
+  return end - index;
+}
+
+// Finds the closing delimiter of an emphasis run whose content starts at
+// `from`. Nested emphasis opened inside is skipped as a whole.
+function findClosing(source: string, delimiter: string, from: number): number {
+  const char = delimiter[0];
+  let index = from;
+  while (index < source.length) {
+    const current = source[index];
+    if (current === '\\') {
+      index += 2;
+      continue;
+    }
+    if (current === '`') {
+      const run = runLength(source, index, '`');
+      const end = source.indexOf('`'.repeat(run), index + run);
+      index = end === -1 ? index + run : end + run;
+      continue;
+    }
+    if (current !== char) {
+      index++;
+      continue;
+    }
+    const run = runLength(source, index, char);
+    const before = source[index - 1];
+    const after = source[index + run];
+    const canClose =
+      index > from &&
+      !isSpace(before) &&
+      run >= delimiter.length &&
+      // `_` only closes at the end of a word, so snake_case stays intact.
+      (char !== '_' || !isWordChar(after));
+    const canOpen = !isSpace(after) && (char !== '_' || !isWordChar(before));
+    // A run between two words, like `**` in `*a**b***`, opens nested
+    // emphasis unless it is exactly the closing delimiter.
+    if (canOpen && (!canClose || run !== delimiter.length)) {
+      const nested = char.repeat(Math.min(run, 2));
+      const close = findClosing(source, nested, index + nested.length);
+      if (close !== -1) {
+        index = close + nested.length;
+        continue;
+      }
+    }
+    if (canClose) {
+      return index;
+    }
+    index += run;
+  }
+  return -1;
+}
+
+// Finds the end of a link's text, allowing nested brackets.
+function findLinkEnd(source: string, from: number) {
+  let depth = 0;
+  for (let index = from; index < source.length; index++) {
+    const char = source[index];
+    if (char === '\\') {
+      index++;
+    } else if (char === '[') {
+      depth++;
+    } else if (char === ']') {
+      if (depth === 0) {
+        return index;
+      }
+      depth--;
+    }
+  }
+  return -1;
+}
+
+const EMPHASIS: [string, string][] = [
+  ['**', 'strong'],
+  ['__', 'strong'],
+  ['~~', 'strike'],
+  ['*', 'em'],
+  ['_', 'em'],
+];
+
+/** Parses inline Markdown into ADF inline nodes. */
+export function parseInline(source: string, marks: AdfMark[] = []): AdfNode[] {
+  const nodes: AdfNode[] = [];
+  let buffer = '';
+  const flush = () => {
+    pushText(nodes, buffer, marks);
+    buffer = '';
+  };
+
+  let index = 0;
+  outer: while (index < source.length) {
+    const char = source[index];
+    const rest = source.slice(index);
+
+    if (char === '\\' && index + 1 < source.length && ESCAPABLE.test(source[index + 1])) {
+      buffer += source[index + 1];
+      index += 2;
+      continue;
+    }
+
+    if (char === '\n') {
+      flush();
+      nodes.push({ type: 'hardBreak' });
+      index++;
+      continue;
+    }
+
+    if (char === '`') {
+      const run = /^`+/.exec(rest)?.[0] ?? '`';
+      const end = source.indexOf(run, index + run.length);
+      if (end !== -1 && source[end + run.length] !== '`') {
+        flush();
+        let code = source.slice(index + run.length, end).replace(/\n/g, ' ');
+        if (/^ .*[^ ].* $/.test(code)) {
+          code = code.slice(1, -1);
+        }
+        const link = marks.find((mark) => mark.type === 'link');
+        pushText(nodes, code, [...(link ? [link] : []), { type: 'code' }]);
+        index = end + run.length;
+        continue;
+      }
+      buffer += run;
+      index += run.length;
+      continue;
+    }
+
+    // Autolinks become smart links
+    const autolink = /^<(https?:\/\/[^\s<>]+)>/i.exec(rest);
+    if (autolink) {
+      flush();
+      nodes.push({ type: 'inlineCard', attrs: { url: autolink[1] } });
+      index += autolink[0].length;
+      continue;
+    }
+
+    const image = char === '!' && source[index + 1] === '[';
+    if (char === '[' || image) {
+      const start = index + (image ? 2 : 1);
+      const end = findLinkEnd(source, start);
+      const target =
+        end === -1
+          ? null
+          : /^\(\s*<?([^\s()<>]*(?:\([^\s()]*\)[^\s()<>]*)*)>?(?:\s+"[^"]*")?\s*\)/.exec(
+              source.slice(end + 1),
+            );
+      if (target) {
+        flush();
+        const label = source.slice(start, end);
+        const href = target[1];
+        if (href.toLowerCase().startsWith('accountid:')) {
+          const name = label.replace(/\\(.)/g, '$1');
+          nodes.push({
+            type: 'mention',
+            attrs: {
+              id: href.slice('accountid:'.length),
+              text: name.startsWith('@') ? name : `@${name}`,
+            },
+          });
+        } else if (image) {
+          // Images need to be uploaded as attachments; keep them as links.
+          pushText(nodes, '!', marks);
+          pushText(nodes, label || href, withMark(marks, { type: 'link', attrs: { href } }));
+        } else {
+          for (const node of parseInline(
+            label,
+            withMark(marks, { type: 'link', attrs: { href } }),
+          )) {
+            if (node.type === 'text') {
+              pushText(nodes, node.text ?? '', node.marks ?? []);
+            } else {
+              nodes.push(node);
+            }
+          }
+        }
+        index = end + 1 + target[0].length;
+        continue;
+      }
+    }
+
+    // Bare URLs, unless already inside a link
+    const url = /^https?:\/\/[^\s<>]*[^\s<>.,;:!?)'"*_~]/i.exec(rest);
+    if (url && !isWordChar(source[index - 1]) && !marks.some((mark) => mark.type === 'link')) {
+      flush();
+      pushText(nodes, url[0], withMark(marks, { type: 'link', attrs: { href: url[0] } }));
+      index += url[0].length;
+      continue;
+    }
+
+    const dunder = char === '_' && !isWordChar(source[index - 1]) ? DUNDER.exec(rest) : null;
+    if (dunder) {
+      buffer += dunder[0];
+      index += dunder[0].length;
+      continue;
+    }
+
+    for (const [delimiter, type] of EMPHASIS) {
+      if (!rest.startsWith(delimiter) || isSpace(source[index + delimiter.length])) {
+        continue;
+      }
+      if (delimiter[0] === '_' && isWordChar(source[index - 1])) {
+        continue;
+      }
+      const close = findClosing(source, delimiter, index + delimiter.length);
+      if (close === -1) {
+        continue;
+      }
+      flush();
+      for (const node of parseInline(
+        source.slice(index + delimiter.length, close),
+        withMark(marks, { type }),
+      )) {
+        if (node.type === 'text') {
+          pushText(nodes, node.text ?? '', node.marks ?? []);
+        } else {
+          nodes.push(node);
+        }
+      }
+      index = close + delimiter.length;
+      continue outer;
+    }
+
+    // Literal runs of delimiters are kept whole, so `**` is not read as two `*`.
+    const literal = /^(\*+|_+|~+)/.exec(rest)?.[0] ?? char;
+    buffer += literal;
+    index += literal.length;
+  }
+  flush();
+  return nodes;
+}
+
+/** Converts Markdown into an ADF document. */
+export function markdownToAdf(markdown: string): AdfDocument {
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+  return { type: 'doc', version: 1, content: new BlockParser(lines).parse() };
+}
+
+// ADF to Markdown
+
+const MARK_ORDER = ['link', 'strong', 'em', 'strike', 'code'];
+
+function sortedMarks(marks: AdfMark[] = []) {
+  return marks
+    .filter((mark) => MARK_ORDER.includes(mark.type))
+    .sort((a, b) => MARK_ORDER.indexOf(a.type) - MARK_ORDER.indexOf(b.type));
+}
+
+function openMark(mark: AdfMark) {
+  switch (mark.type) {
+    case 'link':
+      return '[';
+    case 'strong':
+      return '**';
+    case 'em':
+      return '*';
+    case 'strike':
+      return '~~';
+    default:
+      return '';
+  }
+}
+
+function closeMark(mark: AdfMark) {
+  if (mark.type === 'link') {
+    const href = String(mark.attrs?.href ?? '');
+    return `](${/[\s()]/.test(href) ? `<${href}>` : href})`;
+  }
+  return openMark(mark);
+}
+
+function escapeText(value: string) {
+  return (
+    value
+      .replace(/[\\`*]/g, '\\$&')
+      .replace(/~~/g, '\\~\\~')
+      .replace(/\[/g, '\\[')
+      .replace(/\]/g, '\\]')
+      .replace(/<(?=https?:\/\/|br\s*\/?>)/gi, '\\<')
+      .replace(
+        /(?<![\p{L}\p{N}_])__[\p{L}\p{N}](?:[\p{L}\p{N}_]*[\p{L}\p{N}])?__(?![\p{L}\p{N}_])|_+/gu,
+        escapeUnderscores,
+      )
+      // Plain text URLs would come back as links
+      .replace(/(https?):\/\//gi, '$1\\://')
+  );
+}
+
+// Underscores inside a word cannot open or close emphasis, and dunder names
+// are read as text, so only other runs of underscores are escaped.
+function escapeUnderscores(match: string, offset: number, value: string) {
+  const insideWord = isWordChar(value[offset - 1]) && isWordChar(value[offset + match.length]);
+  return insideWord || /[^_]/.test(match) ? match : match.replace(/_/g, '\\_');
+}
+
+function codeSpan(value: string) {
+  const longest = Math.max(0, ...(value.match(/`+/g) ?? []).map((run) => run.length));
+  const fence = '`'.repeat(longest + 1);
+  const padded = value.startsWith('`') || value.endsWith('`') ? ` ${value} ` : value;
+  return `${fence}${padded}${fence}`;
+}
+
+function inlineAtom(node: AdfNode, lineBreak: string): string {
+  const attrs = node.attrs ?? {};
+  switch (node.type) {
+    case 'hardBreak':
+      return lineBreak;
+    case 'mention': {
+      const name = String(attrs.text ?? '').replace(/^@/, '') || String(attrs.id);
+      return `[@${escapeText(name)}](accountid:${attrs.id})`;
+    }
+    case 'emoji':
+      return String(attrs.text ?? attrs.shortName ?? '');
+    case 'inlineCard':
+      return attrs.url ? `<${attrs.url}>` : '';
+    case 'date': {
+      const time = Number(attrs.timestamp);
+      return Number.isFinite(time) ? new Date(time).toISOString().slice(0, 10) : '';
+    }
+    case 'status':
+      return `[${escapeText(String(attrs.text ?? ''))}]`;
+    case 'mediaInline':
+      return '[attachment]';
+    default:
+      return node.content ? serializeInline(node.content, lineBreak) : escapeText(node.text ?? '');
+  }
+}
+
+/**
+ * Serializes inline nodes. Marks shared by neighbouring nodes stay open, and
+ * whitespace is moved outside of emphasis, which Markdown requires.
+ */
+function serializeInline(nodes: AdfNode[], lineBreak = '\n'): string {
+  let out = '';
+  let pending = '';
+  const active: AdfMark[] = [];
+
+  for (const node of nodes) {
+    const marks = node.type === 'text' ? sortedMarks(node.marks) : [];
+    // Code spans are written per node; the other marks nest.
+    const nesting = marks.filter((mark) => mark.type !== 'code');
+    let keep = 0;
+    while (keep < active.length && nesting.some((mark) => sameMark(mark, active[keep]))) {
+      keep++;
+    }
+    while (active.length > keep) {
+      out += closeMark(active.pop() as AdfMark);
+    }
+    out += pending;
+    pending = '';
+
+    if (node.type !== 'text') {
+      out += inlineAtom(node, lineBreak);
+      continue;
+    }
+
+    const value = node.text ?? '';
+    const code = nesting.length < marks.length;
+    const [, leading, core, trailing] = code
+      ? ['', '', value, '']
+      : (/^(\s*)([\s\S]*?)(\s*)$/.exec(value) ?? ['', '', value, '']);
+    out += leading.replace(/\n/g, lineBreak);
+    for (const mark of nesting) {
+      if (!active.some((open) => sameMark(open, mark))) {
+        out += openMark(mark);
+        active.push(mark);
+      }
+    }
+    out += code ? codeSpan(core) : escapeText(core).replace(/\n/g, lineBreak);
+    pending = trailing.replace(/\n/g, lineBreak);
+  }
+  while (active.length > 0) {
+    out += closeMark(active.pop() as AdfMark);
+  }
+  return out + pending;
+}
+
+function prefixLines(value: string, first: string, rest: string) {
+  return value
+    .split('\n')
+    .map((line, index) => (index === 0 ? first : line === '' ? rest.trimEnd() : rest) + line)
+    .join('\n');
+}
+
+// Text at the start of a line that Markdown would read as block syntax
+function escapeLineStarts(value: string) {
+  return value
+    .split('\n')
+    .map((line) =>
+      line
+        .replace(/^(#{1,6}(?:\s|$)|>|[-+](?:\s|$)|([-_])(?:\s*\2){2,}\s*$|\|)/, '\\$1')
+        .replace(/^(\d{1,9})\.(?=\s|$)/, '$1\\.'),
+    )
+    .join('\n');
+}
+
+function cellText(cell: AdfNode): string {
+  return (cell.content ?? [])
+    .map((block) =>
+      ['paragraph', 'heading'].includes(block.type)
+        ? serializeInline(block.content ?? [], '<br>')
+        : serializeBlocks([block]).replace(/\n+/g, '<br>'),
+    )
+    .join('<br>')
+    .replace(/\|/g, '\\|');
+}
+
+function serializeTable(node: AdfNode): string {
+  const rows = (node.content ?? []).map((row) => (row.content ?? []).map(cellText));
+  if (rows.length === 0) {
+    return '';
+  }
+  const width = Math.max(...rows.map((row) => row.length));
+  const line = (cells: string[]) =>
+    `| ${Array.from({ length: width }, (_, index) => cells[index] ?? '').join(' | ')} |`;
+  return [
+    line(rows[0]),
+    `| ${Array.from({ length: width }, () => '---').join(' | ')} |`,
+    ...rows.slice(1).map(line),
+  ].join('\n');
+}
+
+function serializeList(node: AdfNode): string {
+  const start = Number(node.attrs?.order ?? 1);
+  return (node.content ?? [])
+    .map((item, index) => {
+      if (node.type === 'taskList' && item.type === 'taskList') {
+        return prefixLines(serializeList(item), '  ', '  ');
+      }
+      const marker =
+        node.type === 'orderedList'
+          ? `${start + index}. `
+          : node.type === 'taskList'
+            ? `- [${item.attrs?.state === 'DONE' ? 'x' : ' '}] `
+            : '- ';
+      const body =
+        item.type === 'taskItem'
+          ? escapeLineStarts(serializeInline(item.content ?? []))
+          : serializeItemBlocks(item.content ?? []);
+      const indent = node.type === 'taskList' ? '  ' : ' '.repeat(marker.length);
+      return prefixLines(body, marker, indent);
+    })
+    .join('\n');
+}
+
+// Paragraphs followed by a nested list stay tight; other blocks get a blank line.
+function serializeItemBlocks(blocks: AdfNode[]): string {
+  let out = '';
+  blocks.forEach((block, index) => {
+    if (index > 0) {
+      const nested = ['bulletList', 'orderedList', 'taskList'].includes(block.type);
+      out += nested && blocks[index - 1].type === 'paragraph' ? '\n' : '\n\n';
+    }
+    out += serializeBlock(block);
+  });
+  return out;
+}
+
+function fence(code: string) {
+  const longest = Math.max(2, ...(code.match(/^`{3,}/gm) ?? []).map((run) => run.length));
+  return '`'.repeat(longest + 1);
+}
+
+function serializeBlock(node: AdfNode): string {
+  const attrs = node.attrs ?? {};
+  switch (node.type) {
+    case 'paragraph':
+      return escapeLineStarts(serializeInline(node.content ?? []));
+    case 'heading':
+      return `${'#'.repeat(Number(attrs.level) || 1)} ${serializeInline(node.content ?? [], ' ')}`;
+    case 'bulletList':
+    case 'orderedList':
+    case 'taskList':
+      return serializeList(node);
+    case 'codeBlock': {
+      const code = (node.content ?? []).map((child) => child.text ?? '').join('');
+      const marker = fence(code);
+      return `${marker}${attrs.language ?? ''}\n${code}\n${marker}`;
+    }
+    case 'blockquote':
+      return prefixLines(serializeBlocks(node.content ?? []), '> ', '> ');
+    case 'panel': {
+      const body = serializeBlocks(node.content ?? []);
+      const type = String(attrs.panelType ?? 'info').toUpperCase();
+      return prefixLines(`[!${type}]${body ? `\n${body}` : ''}`, '> ', '> ');
+    }
+    case 'rule':
+      return '---';
+    case 'table':
+      return serializeTable(node);
+    case 'mediaSingle':
+    case 'mediaGroup':
+      return (node.content ?? []).map(serializeBlock).join('\n');
+    case 'media': {
+      const name = String(attrs.alt ?? '') || 'attachment';
+      return `![${escapeText(name)}](media:${attrs.id ?? ''})`;
+    }
+    case 'expand':
+    case 'nestedExpand': {
+      const title = attrs.title ? `**${escapeText(String(attrs.title))}**\n\n` : '';
+      return title + serializeBlocks(node.content ?? []);
+    }
+    case 'decisionList':
+      return (node.content ?? [])
+        .map((item) => prefixLines(serializeInline(item.content ?? []), '- ', '  '))
+        .join('\n');
+    default:
+      if (node.content) {
+        const inline = node.content.every((child) => child.text !== undefined);
+        return inline ? serializeInline(node.content) : serializeBlocks(node.content);
+      }
+      return escapeText(node.text ?? '');
+  }
+}
+
+function serializeBlocks(blocks: AdfNode[]): string {
+  return blocks
+    .map(serializeBlock)
+    .filter((block) => block !== '')
+    .join('\n\n');
+}
+
+/** Converts an ADF document, or any ADF node, into Markdown. */
+export function adfToMarkdown(node: AdfNode | AdfDocument | null | undefined): string {
+  if (!node) {
+    return '';
+  }
+  return node.type === 'doc' ? serializeBlocks(node.content ?? []) : serializeBlock(node);
+}
+
+/** Whether a value looks like an ADF document rather than a plain string or object. */
+export function isAdfDocument(value: unknown): value is AdfDocument {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    (value as AdfNode).type === 'doc' &&
+    Array.isArray((value as AdfNode).content)
+  );
+}
@@ -0,0 +1,137 @@
+import { ResponseTooLargeError, fetchPublicUrl } from '@klavis-ai/mcp-runtime';
+
+/** Largest attachment uploaded or returned inline. */
+export const MAX_ATTACHMENT_BYTES =
+  Number(process.env.JIRA_MAX_ATTACHMENT_BYTES) || 10 * 1024 * 1024;
+
+/** A file to attach, given inline as base64 or as a URL to download it from. */
+export interface AttachmentInput {
+  filename?: string;
+  content_base64?: string;
+  url?: string;
+  content_type?: string;
+}
+
+export interface LoadedAttachment {
+  filename: string;
+  contentType: string;
+  data: Buffer;
+}
+
+/** Attachment metadata as returned by /rest/api/3/attachment/{id}. */
+export interface JiraAttachment {
+  id: string;
+  filename: string;
+  mimeType?: string;
+  size?: number;
+  content?: string;
+}
+
+// Text types are returned as text resources, everything else as base64 blobs.
+const TEXT_TYPES = /^text\/|^application\/(json|xml|x-yaml|yaml|javascript|csv)\b|\+(json|xml)\b/;
+
+function tooLarge(filename: string, size?: number) {
+  return new Error(
+    size === undefined
+      ? `Attachment ${filename} is larger than the limit of ${MAX_ATTACHMENT_BYTES} bytes`
+      : `Attachment ${filename} is ${size} bytes, more than the limit of ${MAX_ATTACHMENT_BYTES} bytes`,
+  );
+}
+
+/** Parses the `attachments` argument, given as an array or a JSON string. */
+export function parseAttachments(value: unknown): AttachmentInput[] {
+  let parsed = value;
+  if (typeof value === 'string') {
+    try {
+      parsed = JSON.parse(value);
+    } catch (error) {
+      throw new Error(`Invalid JSON in attachments: ${(error as Error).message}`);
+    }
+  }
+  const list = Array.isArray(parsed) ? parsed : [parsed];
+  return list.map((item, index) => {
+    if (!item || typeof item !== 'object') {
+      throw new Error(`attachments[${index}] must be an object with content_base64 or url`);
+    }
+    const input = item as AttachmentInput;
+    if (!input.content_base64 === !input.url) {
+      throw new Error(`attachments[${index}] needs exactly one of content_base64 or url`);
+    }
+    if (input.content_base64 && !input.filename) {
+      throw new Error(`attachments[${index}].filename is required with content_base64`);
+    }
+    return input;
+  });
+}
+
+function filenameFromUrl(url: URL) {
+  const name = decodeURIComponent(url.pathname.split('/').pop() ?? '');
+  return name || 'attachment';
+}
+
+/** Decodes or downloads the file of an attachment input. */
+export async function loadAttachment(input: AttachmentInput): Promise<LoadedAttachment> {
+  if (input.content_base64 !== undefined) {
+    const data = Buffer.from(input.content_base64, 'base64');
+    const filename = input.filename ?? 'attachment';
+    if (data.length === 0) {
+      throw new Error(`Attachment ${filename} is empty`);
+    }
+    if (data.length > MAX_ATTACHMENT_BYTES) {
+      throw tooLarge(filename, data.length);
+    }
+    return {
+      filename,
+      contentType: input.content_type ?? 'application/octet-stream',
+      data,
+    };
+  }
+
+  let url: URL;
+  try {
+    url = new URL(input.url ?? '');
+  } catch {
+    throw new Error(`Invalid attachment URL "${input.url}"`);
+  }
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    throw new Error(`Attachment URLs must use http or https: ${input.url}`);
+  }
+
+  // The URL comes from the client, so it may only point at public hosts and
+  // the download stops as soon as it passes the size limit.
+  const filename = input.filename ?? filenameFromUrl(url);
+  let response;
+  try {
+    response = await fetchPublicUrl(url, { maxBytes: MAX_ATTACHMENT_BYTES });
+  } catch (error) {
+    if (error instanceof ResponseTooLargeError) {
+      throw tooLarge(filename, error.size);
+    }
+    throw new Error(`Failed to download attachment from ${url}: ${(error as Error).message}`);
+  }
+  return {
+    filename,
+    contentType:
+      input.content_type ?? response.contentType?.split(';')[0] ?? 'application/octet-stream',
+    data: response.data,
+  };
+}
+
+/** Checks the size in the attachment metadata before the file is downloaded. */
+export function assertDownloadable(attachment: JiraAttachment) {
+  if (attachment.size !== undefined && attachment.size > MAX_ATTACHMENT_BYTES) {
+    throw tooLarge(attachment.filename, attachment.size);
+  }
+}
+
+/** The file of an attachment as an MCP embedded resource. */
+export function attachmentResource(attachment: JiraAttachment, data: Buffer) {
+  const mimeType = attachment.mimeType ?? 'application/octet-stream';
+  const uri = attachment.content ?? `jira-attachment:${attachment.id}`;
+  return {
+    type: 'resource' as const,
+    resource: TEXT_TYPES.test(mimeType)
+      ? { uri, mimeType, text: data.toString('utf8') }
+      : { uri, mimeType, blob: data.toString('base64') },
+  };
+}
@@ -0,0 +1,116 @@
+import { createHash } from 'node:crypto';
+
+/** A field as returned by /rest/api/3/field. */
+export interface JiraField {
+  id: string;
+  key?: string;
+  name: string;
+  custom: boolean;
+  clauseNames?: string[];
+  description?: string;
+  schema?: { type: string; custom?: string; customId?: number };
+}
+
+const FIELDS_TTL_MS = Number(process.env.JIRA_FIELDS_CACHE_TTL_MS) || 10 * 60 * 1000;
+const MAX_CACHED_SITES = 500;
+
+const cache = new Map<string, { fields: JiraField[]; expiresAt: number }>();
+const inflight = new Map<string, Promise<JiraField[]>>();
+
+// Fields differ per site and, through permissions, per user, so the cache is
+// keyed by both. Tokens are hashed so they are not kept as plain map keys.
+function cacheKey(site: { cloudId: string; authToken: string }) {
+  const token = createHash('sha256').update(site.authToken).digest('base64url');
+  return `${site.cloudId}:${token}`;
+}
+
+/**
+ * The fields of a site. Results are cached per site and token, and
+ * concurrent lookups share one request.
+ */
+export async function getFields(
+  site: { cloudId: string; authToken: string },
+  load: () => Promise<JiraField[]>,
+  refresh = false,
+): Promise<JiraField[]> {
+  const key = cacheKey(site);
+  const cached = cache.get(key);
+  if (!refresh && cached && cached.expiresAt > Date.now()) {
+    return cached.fields;
+  }
+
+  let pending = inflight.get(key);
+  if (!pending) {
+    pending = load()
+      .then((fields) => {
+        cache.delete(key);
+        cache.set(key, { fields, expiresAt: Date.now() + FIELDS_TTL_MS });
+        // Map order is insertion order, so the first entry is the oldest.
+        for (const oldest of cache.keys()) {
+          if (cache.size <= MAX_CACHED_SITES) {
+            break;
+          }
+          cache.delete(oldest);
+        }
+        return fields;
+      })
+      .finally(() => inflight.delete(key));
+    inflight.set(key, pending);
+  }
+  return pending;
+}
+
+// Custom fields are referred to as cf[10010] in JQL; their names need not be unique.
+function clauseName(field: JiraField) {
+  const customId = /^customfield_(\d+)$/.exec(field.id)?.[1];
+  if (customId) {
+    return `cf[${customId}]`;
+  }
+  return field.clauseNames?.[0] ?? field.id;
+}
+
+/**
+ * Finds a field given by ID (`customfield_10016`), JQL clause name or
+ * display name (`Story Points`).
+ */
+export function findField(fields: JiraField[], name: string): JiraField {
+  const wanted = name.trim().toLowerCase();
+  const byId = fields.find(
+    (field) => field.id.toLowerCase() === wanted || field.key?.toLowerCase() === wanted,
+  );
+  if (byId) {
+    return byId;
+  }
+
+  // Clause names include display names, so check those for duplicates first.
+  const byName = fields.filter((field) => field.name.toLowerCase() === wanted);
+  if (byName.length === 1) {
+    return byName[0];
+  }
+  if (byName.length > 1) {
+    const ids = byName.map((field) => field.id).join(', ');
+    throw new Error(`Several fields are named "${name}", use one of their IDs instead: ${ids}`);
+  }
+
+  const byClause = fields.find((field) =>
+    field.clauseNames?.some((clause) => clause.toLowerCase() === wanted),
+  );
+  if (byClause) {
+    return byClause;
+  }
+
+  const similar = fields
+    .filter((field) => field.name.toLowerCase().includes(wanted))
+    .slice(0, 5)
+    .map((field) => `${field.name} (${field.id})`);
+  throw new Error(
+    `Unknown field "${name}".` +
+      (similar.length > 0 ? ` Similar fields: ${similar.join(', ')}.` : '') +
+      ' Use jira_search_fields to look fields up.',
+  );
+}
+
+/** The name to use in JQL for a field given by ID, clause name or display name. */
+export function resolveField(fields: JiraField[], name: string): string {
+  return clauseName(findField(fields, name));
+}
@@ -1,9 +1,7 @@
 #!/usr/bin/env node
 
-import express, { Request, Response } from 'express';
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
-import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
-import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { startMcpServer } from "@klavis-ai/mcp-runtime";
 import {
   CallToolRequest,
   CallToolRequestSchema,
@@ -13,7 +11,21 @@ import {
 import { z } from 'zod';
 import { AsyncLocalStorage } from 'async_hooks';
 import dotenv from 'dotenv';
-import fetch, { RequestInit } from 'node-fetch';
+import fetch, { Blob, FormData, RequestInit, Response } from 'node-fetch';
+import { SiteSelector, getAccessibleSites, selectSite, siteProperties } from './sites.js';
+import {
+  AttachmentInput,
+  JiraAttachment,
+  MAX_ATTACHMENT_BYTES,
+  assertDownloadable,
+  attachmentResource,
+  loadAttachment,
+  parseAttachments,
+} from './attachments.js';
+import { AdfDocument, adfToMarkdown, isAdfDocument, markdownToAdf } from './adf.js';
+import { JiraField, findField, getFields, resolveField } from './fields.js';
+import { JqlQuery, buildJql, combineJql, parseJqlQuery } from './jql.js';
+import { Estimation, JiraSprint, SprintIssue, computeSprintReport } from './sprint-report.js';
 
 // Load environment variables
 dotenv.config();
@@ -35,7 +47,9 @@ const DEFAULT_READ_JIRA_FIELDS = [
 interface JiraClient {
   baseUrl: string;
   cloudId: string;
+  siteName: string;
   authToken: string;
+  request: (path: string, options?: RequestInit) => Promise<Response>;
   fetch: <T>(path: string, options?: RequestInit) => Promise<T>;
 }
 
@@ -90,13 +104,26 @@ interface JiraGetIssueArgs {
 }
 
 interface JiraSearchArgs {
-  jql: string;
+  jql?: string;
+  query?: JqlQuery | string;
   fields?: string;
   limit?: number;
   startAt?: number;
   projects_filter?: string;
 }
 
+interface JiraSearchIssuesArgs {
+  jql?: string;
+  query?: JqlQuery | string;
+  maxResults?: number;
+  fields?: string[];
+}
+
+interface JiraValidateJqlArgs {
+  jql?: string;
+  query?: JqlQuery | string;
+}
+
 interface JiraSearchFieldsArgs {
   keyword?: string;
   limit?: number;
@@ -146,6 +173,42 @@ interface JiraUpdateSprintArgs {
   goal?: string;
 }
 
+interface JiraListBoardsArgs {
+  project_key?: string;
+  name?: string;
+  type?: string;
+  startAt?: number;
+  limit?: number;
+}
+
+interface JiraGetBacklogArgs {
+  board_id: string;
+  jql?: string;
+  fields?: string;
+  startAt?: number;
+  limit?: number;
+}
+
+interface JiraMoveIssuesToSprintArgs {
+  sprint_id: string;
+  issue_keys: string[] | string;
+}
+
+interface JiraMoveIssuesToBacklogArgs {
+  issue_keys: string[] | string;
+}
+
+interface JiraRankIssuesArgs {
+  issue_keys: string[] | string;
+  rank_before_issue?: string;
+  rank_after_issue?: string;
+}
+
+interface JiraGetSprintReportArgs {
+  sprint_id: string;
+  story_points_field?: string;
+}
+
 interface JiraCreateIssueArgs {
   project_key: string;
   summary: string;
@@ -154,13 +217,14 @@ interface JiraCreateIssueArgs {
   description?: string;
   components?: string;
   additional_fields?: string;
+  attachments?: AttachmentInput[] | string;
 }
 
 interface JiraUpdateIssueArgs {
   issue_key: string;
   fields: string;
   additional_fields?: string;
-  attachments?: string;
+  attachments?: AttachmentInput[] | string;
 }
 
 interface JiraDeleteIssueArgs {
@@ -172,85 +236,126 @@ interface JiraAddCommentArgs {
   comment: string;
 }
 
+interface JiraGetTransitionsArgs {
+  issue_key: string;
+}
+
+interface JiraTransitionIssueArgs {
+  issue_key: string;
+  transition: string;
+  resolution?: string;
+  comment?: string;
+  fields?: string;
+}
+
+interface JiraAssignIssueArgs {
+  issue_key: string;
+  assignee: string | null;
+}
+
+interface JiraAddWorklogArgs {
+  issue_key: string;
+  time_spent: string;
+  started?: string;
+  comment?: string;
+  adjust_estimate?: "auto" | "leave" | "new" | "manual";
+  new_estimate?: string;
+  reduce_by?: string;
+}
+
+interface JiraCreateIssueLinkArgs {
+  issue_key: string;
+  relationship: string;
+  target_issue_key: string;
+  comment?: string;
+}
+
+interface JiraRemoveIssueLinkArgs {
+  link_id?: string;
+  issue_key?: string;
+  target_issue_key?: string;
+  relationship?: string;
+}
+
+interface JiraWatcherArgs {
+  issue_key: string;
+  user?: string;
+}
+
+interface JiraAddAttachmentArgs {
+  issue_key: string;
+  attachments: AttachmentInput[] | string;
+}
+
+interface JiraGetAttachmentArgs {
+  attachment_id: string;
+}
+
+interface JiraListSitesArgs {
+  refresh?: boolean;
+}
+
 // Create AsyncLocalStorage for request context
 const asyncLocalStorage = new AsyncLocalStorage<{
   authToken: string;
 }>();
 
-// Helper function to get Jira client from async local storage
-async function getJiraClient(): Promise<JiraClient> {
+// Helper function to get the auth token from async local storage
+function getAuthToken(): string {
   const store = asyncLocalStorage.getStore();
   if (!store) {
     throw new Error('Auth token not found in AsyncLocalStorage');
   }
-  return await createJiraClient(store.authToken);
+  return store.authToken;
 }
 
-// Create a Jira API client
-async function createJiraClient(authToken: string): Promise<JiraClient> {
-  // First, fetch the accessible resources to get the correct baseUrl
-  const accessibleResourcesUrl = 'https://api.atlassian.com/oauth/token/accessible-resources';
+// Helper function to get Jira client from async local storage
+async function getJiraClient(selector: SiteSelector = {}): Promise<JiraClient> {
+  return await createJiraClient(getAuthToken(), selector);
+}
 
+// Create a Jira API client for the selected site
+async function createJiraClient(authToken: string, selector: SiteSelector = {}): Promise<JiraClient> {
   try {
-    const response = await fetch(accessibleResourcesUrl, {
-      headers: {
-        'Authorization': `Bearer ${authToken}`,
+    // Accessible sites are cached per token, so this is usually not a round trip
+    const site = selectSite(await getAccessibleSites(authToken), selector);
+    const cloudId = site.id;
+
+    const request = async (path: string, options: RequestInit = {}): Promise<Response> => {
+      // Construct URL using the proper format
+      const url = path.startsWith('http')
+        ? path
+        : `https://api.atlassian.com/ex/jira/${cloudId}${path.startsWith('/') ? path : '/' + path}`;
+
+      // Multipart bodies set their own Content-Type with the boundary
+      const headers: Record<string, string> = {
+        ...(options.body instanceof FormData ? {} : { 'Content-Type': 'application/json' }),
         'Accept': 'application/json',
-      },
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Failed to fetch accessible resources (${response.status}): ${errorText}`);
-    }
-
-    // Define the type for the resources
-    interface JiraResource {
-      id: string;
-      name: string;
-      url: string;
-      scopes: string[];
-      avatarUrl: string;
-    }
+        ...options.headers as Record<string, string>,
+        'Authorization': `Bearer ${authToken}`
+      };
 
-    const resources = await response.json() as JiraResource[];
+      const response = await fetch(url, {
+        ...options,
+        headers,
+      });
 
-    // If no resources are found, throw an error
-    if (!resources || resources.length === 0) {
-      throw new Error('No accessible Jira resources found for this user');
-    }
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`Jira API error (${response.status}): ${errorText}`);
+      }
 
-    // Use the first resource's cloud ID
-    const cloudId = resources[0].id;
-    // Store the site URL as well for reference
-    const siteUrl = resources[0].url;
+      return response;
+    };
 
     return {
-      baseUrl: siteUrl,
+      baseUrl: site.url,
       cloudId,
+      siteName: site.name,
       authToken,
+      request,
       async fetch<T>(path: string, options: RequestInit = {}): Promise<T> {
-        // Construct URL using the proper format
-        const url = path.startsWith('http')
-          ? path
-          : `https://api.atlassian.com/ex/jira/${cloudId}${path.startsWith('/') ? path : '/' + path}`;
-
-        const headers: Record<string, string> = {
-          ...options.headers as Record<string, string>,
-          'Content-Type': 'application/json',
-          'Accept': 'application/json',
-          'Authorization': `Bearer ${authToken}`
-        };
-
-        const response = await fetch(url, {
-          ...options,
-          headers,
-        });
-
-        if (!response.ok) {
-          const errorText = await response.text();
-          throw new Error(`Jira API error (${response.status}): ${errorText}`);
-        }
+        const response = await request(path, options);
 
         // Handle 204 No Content responses
         if (response.status === 204) {
@@ -266,17 +371,452 @@ async function createJiraClient(authToken: string): Promise<JiraClient> {
   }
 }
 
+// Formats a date the way Jira expects it, e.g. 2024-05-01T09:30:00.000+0000
+function toJiraDateTime(value: string): string {
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) {
+    throw new Error(`Invalid date "${value}". Use an ISO 8601 timestamp.`);
+  }
+  return new Date(time).toISOString().replace('Z', '+0000');
+}
+
+// A value a field accepts, such as a resolution or a priority
+interface JiraAllowedValue {
+  id?: string;
+  key?: string;
+  name?: string;
+  value?: string;
+}
+
+interface JiraUser {
+  accountId: string;
+  accountType?: string;
+  displayName?: string;
+  emailAddress?: string;
+  active?: boolean;
+}
+
+// The fields read back after a transition or an assignment
+interface JiraIssueStatus {
+  key: string;
+  fields?: {
+    status?: { name: string };
+    resolution?: { name: string } | null;
+    assignee?: JiraUser | null;
+  };
+}
+
+interface JiraTransitionPayload {
+  transition: { id: string };
+  fields?: Record<string, unknown>;
+  update?: { comment: { add: { body: AdfDocument } }[] };
+}
+
+interface JiraWorklogPayload {
+  timeSpent: string;
+  started: string;
+  comment?: AdfDocument;
+}
+
+interface JiraWorklog {
+  id: string;
+  self: string;
+  author?: JiraUser;
+  timeSpent: string;
+  timeSpentSeconds: number;
+  started: string;
+  comment?: AdfDocument;
+}
+
+interface JiraTransition {
+  id: string;
+  name: string;
+  hasScreen?: boolean;
+  to?: { name: string; statusCategory?: { name: string } };
+  fields?: Record<string, {
+    required: boolean;
+    name: string;
+    hasDefaultValue?: boolean;
+    schema?: { type: string; items?: string };
+    allowedValues?: JiraAllowedValue[];
+  }>;
+}
+
+function describeAllowedValues(values: JiraAllowedValue[] | undefined): string[] | undefined {
+  return values?.flatMap((value) => value.name ?? value.value ?? value.key ?? value.id ?? []);
+}
+
+// Summarizes a transition and the fields its screen asks for
+function summarizeTransition(transition: JiraTransition) {
+  const fields = Object.entries(transition.fields ?? {}).map(([id, field]) => ({
+    id,
+    name: field.name,
+    required: field.required && !field.hasDefaultValue,
+    type: field.schema?.type,
+    ...(field.allowedValues ? { allowed_values: describeAllowedValues(field.allowedValues) } : {}),
+  }));
+  return {
+    id: transition.id,
+    name: transition.name,
+    to_status: transition.to?.name,
+    to_status_category: transition.to?.statusCategory?.name,
+    has_screen: Boolean(transition.hasScreen),
+    fields,
+  };
+}
+
+async function getTransitions(jira: JiraClient, issueKey: string): Promise<JiraTransition[]> {
+  const response = await jira.fetch<{ transitions: JiraTransition[] }>(
+    `/rest/api/3/issue/${issueKey}/transitions?expand=transitions.fields`
+  );
+  return response.transitions;
+}
+
+// Finds a transition by ID, by name or by the status it leads to
+function findTransition(transitions: JiraTransition[], wanted: string): JiraTransition {
+  const name = wanted.trim().toLowerCase();
+  const transition =
+    transitions.find((candidate) => candidate.id === wanted.trim()) ??
+    transitions.find((candidate) => candidate.name.toLowerCase() === name) ??
+    transitions.find((candidate) => candidate.to?.name.toLowerCase() === name);
+  if (!transition) {
+    const available = transitions
+      .map((candidate) => `"${candidate.name}" (id ${candidate.id}, to ${candidate.to?.name})`)
+      .join(", ");
+    throw new Error(
+      `No transition "${wanted}" is available for this issue. Available transitions: ${available || "none"}`
+    );
+  }
+  return transition;
+}
+
+// Resolves a user given as account ID, e-mail, display name or
+// currentUser() to an account ID. Assignees are searched among the users
+// assignable to the issue, everyone else among all users.
+async function resolveAccountId(
+  jira: JiraClient,
+  user: string,
+  options: { assignableTo?: string; purpose: string },
+): Promise<string> {
+  if (user.trim().toLowerCase() === 'currentuser()') {
+    const currentUser = await jira.fetch<JiraUser>('/rest/api/3/myself');
+    return currentUser.accountId;
+  }
+  if (user.startsWith('user:') || /^[0-9a-f]{24}$|^\d+:[0-9a-f-]{36}$/i.test(user)) {
+    return user.replace(/^user:/, '');
+  }
+
+  const searchParams = new URLSearchParams({ query: user, maxResults: '20' });
+  let path = '/rest/api/3/user/search';
+  if (options.assignableTo) {
+    searchParams.append('issueKey', options.assignableTo);
+    path = '/rest/api/3/user/assignable/search';
+  }
+  const users = (await jira.fetch<JiraUser[]>(`${path}?${searchParams.toString()}`))
+    .filter((candidate) => candidate.accountType !== 'app');
+  const wanted = user.trim().toLowerCase();
+  const exact = users.filter((candidate) =>
+    candidate.emailAddress?.toLowerCase() === wanted || candidate.displayName?.toLowerCase() === wanted
+  );
+  const matches = exact.length > 0 ? exact : users;
+  if (matches.length === 1) {
+    return matches[0].accountId;
+  }
+  if (matches.length === 0) {
+    throw new Error(`No user matching "${user}" can be ${options.purpose}`);
+  }
+  const candidates = matches
+    .slice(0, 10)
+    .map((candidate) => `${candidate.displayName} (${candidate.accountId})`)
+    .join(", ");
+  throw new Error(`"${user}" matches several users, use an account ID instead: ${candidates}`);
+}
+
+// Resolves an assignee to an account ID. Returns null to unassign.
+async function resolveAssignee(jira: JiraClient, issueKey: string, assignee: string | null): Promise<string | null> {
+  if (assignee === null || ['', 'unassigned', 'none'].includes(assignee.trim().toLowerCase())) {
+    return null;
+  }
+  return resolveAccountId(jira, assignee, { assignableTo: issueKey, purpose: `assigned to ${issueKey}` });
+}
+
+interface JiraLinkType {
+  id: string;
+  name: string;
+  inward: string;
+  outward: string;
+}
+
+interface JiraIssueLink {
+  id: string;
+  type?: JiraLinkType;
+  inwardIssue?: { key: string };
+  outwardIssue?: { key: string };
+}
+
+interface JiraIssueLinks {
+  fields?: { issuelinks?: JiraIssueLink[] };
+}
+
+interface JiraIssueLinkPayload {
+  type: { name: string };
+  inwardIssue: { key: string };
+  outwardIssue: { key: string };
+  comment?: { body: AdfDocument };
+}
+
+interface JiraWatchers {
+  watchCount: number;
+  watchers?: JiraUser[];
+}
+
+// Works out the link type and direction for "<issue> <relationship> <target>",
+// where the relationship is a link type's outward description ("blocks"), its
+// inward description ("is blocked by") or its name ("Blocks", read as outward).
+// Jira shows the outward description on the inwardIssue of a link.
+async function resolveLink(jira: JiraClient, relationship: string, issueKey: string, targetKey: string) {
+  const { issueLinkTypes } = await jira.fetch<{ issueLinkTypes: JiraLinkType[] }>('/rest/api/3/issueLinkType');
+  const wanted = relationship.trim().toLowerCase();
+  const outward = issueLinkTypes.find((type) => type.outward.toLowerCase() === wanted)
+    ?? issueLinkTypes.find((type) => type.name.toLowerCase() === wanted || type.id === relationship);
+  if (outward) {
+    return { type: outward, inwardIssue: issueKey, outwardIssue: targetKey };
+  }
+  const inward = issueLinkTypes.find((type) => type.inward.toLowerCase() === wanted);
+  if (inward) {
+    return { type: inward, inwardIssue: targetKey, outwardIssue: issueKey };
+  }
+  const available = issueLinkTypes
+    .map((type) => `"${type.outward}" / "${type.inward}" (${type.name})`)
+    .join(", ");
+  throw new Error(`Unknown link relationship "${relationship}". Available: ${available}`);
+}
+
+// Uploads files to an issue; Jira expects multipart form data for attachments
+async function uploadAttachments(jira: JiraClient, issueKey: string, inputs: AttachmentInput[]): Promise<JiraAttachment[]> {
+  const form = new FormData();
+  for (const input of inputs) {
+    const file = await loadAttachment(input);
+    form.append('file', new Blob([file.data], { type: file.contentType }), file.filename);
+  }
+  return jira.fetch<JiraAttachment[]>(`/rest/api/3/issue/${issueKey}/attachments`, {
+    method: 'POST',
+    headers: { 'X-Atlassian-Token': 'no-check' },
+    body: form,
+  });
+}
+
+interface JiraComment {
+  id: string;
+  self?: string;
+  author?: JiraUser;
+  body?: AdfDocument | string;
+  created?: string;
+  updated?: string;
+}
+
+// Returns a comment with its ADF body converted to Markdown
+function commentToMarkdown(comment: JiraComment): JiraComment {
+  return isAdfDocument(comment.body) ? { ...comment, body: adfToMarkdown(comment.body) } : comment;
+}
+
+// Converts the rich text fields of an issue, such as the description, from ADF to Markdown
+function adfFieldsToMarkdown(fields: Record<string, unknown> | undefined) {
+  if (!fields) {
+    return;
+  }
+  for (const [key, value] of Object.entries(fields)) {
+    if (isAdfDocument(value)) {
+      fields[key] = adfToMarkdown(value);
+    }
+  }
+  const comment = fields.comment as { comments?: JiraComment[] } | undefined;
+  if (comment && Array.isArray(comment.comments)) {
+    comment.comments = comment.comments.map(commentToMarkdown);
+  }
+}
+
+// Fields are cached per site, so resolving field names is usually not a round trip
+async function getJiraFields(jira: JiraClient, refresh = false): Promise<JiraField[]> {
+  return getFields(jira, () => jira.fetch<JiraField[]>('/rest/api/3/field'), refresh);
+}
+
+interface JiraIssue {
+  id: string;
+  key: string;
+  self?: string;
+  fields?: Record<string, unknown>;
+}
+
+interface JiraSearchResponse {
+  startAt?: number;
+  maxResults?: number;
+  total?: number;
+  issues: JiraIssue[];
+}
+
+interface ParsedJqlQuery {
+  query?: string;
+  errors?: string[];
+  warnings?: string[];
+}
+
+// Combines the jql and structured query arguments of a search into one JQL string
+async function searchJql(jira: JiraClient, jql: string | undefined, query: unknown): Promise<string> {
+  if (!jql?.trim() && query === undefined) {
+    throw new Error("Missing required argument: jql or query");
+  }
+  const compiled = query === undefined ? undefined : await buildJql(parseJqlQuery(query), {
+    field: async (name) => resolveField(await getJiraFields(jira), name),
+    user: (user) => resolveAccountId(jira, user, { purpose: "searched for" }),
+  });
+  return combineJql(jql, compiled);
+}
+
+interface JiraBoard {
+  id: number;
+  name: string;
+  type: string;
+  location?: { projectKey?: string; displayName?: string };
+}
+
+interface JiraBoardsResponse {
+  startAt: number;
+  maxResults: number;
+  total?: number;
+  isLast?: boolean;
+  values: JiraBoard[];
+}
+
+interface JiraBoardConfiguration {
+  estimation?: {
+    type: string;
+    field?: { fieldId: string; displayName: string };
+  };
+}
+
+// The body of a 207 answer to a rank request
+interface JiraRankResult {
+  entries?: { issueId: number; issueKey?: string; status: number; errors?: string[] }[];
+}
+
+// The agile API accepts at most 50 issues per request
+const MAX_AGILE_ISSUES_PER_REQUEST = 50;
+// Upper bound on the issues read for a sprint report
+const MAX_SPRINT_REPORT_ISSUES = 1000;
+
+// Accepts issue keys as an array or a comma-separated string
+function parseIssueKeys(value: string[] | string | undefined): string[] {
+  const keys = Array.isArray(value) ? value : (value ?? "").split(",");
+  return [...new Set(keys.map((key) => String(key).trim()).filter((key) => key !== ""))];
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+// Finds the field story points are read from: the given field, or the board's estimation statistic
+async function getSprintEstimation(jira: JiraClient, sprint: JiraSprint, storyPointsField?: string): Promise<Estimation> {
+  if (storyPointsField?.trim()) {
+    const field = findField(await getJiraFields(jira), storyPointsField);
+    return { fieldId: field.id, name: field.name };
+  }
+  if (!sprint.originBoardId) {
+    return {};
+  }
+  const configuration = await jira.fetch<JiraBoardConfiguration>(`/rest/agile/1.0/board/${sprint.originBoardId}/configuration`);
+  const estimation = configuration.estimation;
+  if (estimation?.type !== "field" || !estimation.field?.fieldId) {
+    return {};
+  }
+  return { fieldId: estimation.field.fieldId, name: estimation.field.displayName };
+}
+
+// Reads all issues of a sprint with their changelogs, page by page
+async function getSprintReportIssues(jira: JiraClient, sprintId: string, estimation: Estimation) {
+  const fields = ["summary", "status", "statuscategorychangedate", "sprint"];
+  if (estimation.fieldId) {
+    fields.push(estimation.fieldId);
+  }
+  const issues: SprintIssue[] = [];
+  let total = 0;
+  do {
+    const searchParams = new URLSearchParams({
+      startAt: String(issues.length),
+      maxResults: String(MAX_AGILE_ISSUES_PER_REQUEST),
+      fields: fields.join(","),
+      expand: "changelog",
+    });
+    const page = await jira.fetch<{ issues?: SprintIssue[]; total?: number }>(
+      `/rest/agile/1.0/sprint/${sprintId}/issue?${searchParams}`
+    );
+    const pageIssues: SprintIssue[] = page.issues ?? [];
+    issues.push(...pageIssues);
+    total = page.total ?? issues.length;
+    if (pageIssues.length === 0) {
+      break;
+    }
+  } while (issues.length < total && issues.length < MAX_SPRINT_REPORT_ISSUES);
+  return { issues, total };
+}
+
 // Tool definitions
+const dateRangeProperty = {
+  type: "object",
+  description: "Date range. Values are dates (YYYY-MM-DD), ISO 8601 timestamps, relative offsets like '-7d' or JQL functions like 'startOfWeek()'.",
+  properties: {
+    after: { type: "string", description: "Inclusive lower bound" },
+    before: { type: "string", description: "Exclusive upper bound" },
+  },
+};
+
+const jqlQueryProperty = {
+  type: "object",
+  description: "Structured search criteria, compiled into JQL and combined with jql if both are given. "
+    + "All criteria must match; list values match any of the values. Example: "
+    + '{"project": "PROJ", "status": ["To Do", "In Progress"], "assignee": "currentUser()", "updated": {"after": "-7d"}, "fields": {"Story Points": 5}, "order_by": "updated DESC"}',
+  properties: {
+    project: { type: ["string", "array"], items: { type: "string" }, description: "Project key(s)" },
+    issue_type: { type: ["string", "array"], items: { type: "string" }, description: "Issue type(s), e.g. 'Bug'" },
+    status: { type: ["string", "array"], items: { type: "string" }, description: "Status name(s), e.g. 'In Progress'" },
+    status_category: { type: ["string", "array"], items: { type: "string" }, description: "Status category: 'To Do', 'In Progress' or 'Done'" },
+    assignee: { type: ["string", "array"], items: { type: "string" }, description: "Account ID, e-mail, display name, 'currentUser()' or 'unassigned'" },
+    reporter: { type: ["string", "array"], items: { type: "string" }, description: "Account ID, e-mail, display name or 'currentUser()'" },
+    priority: { type: ["string", "array"], items: { type: "string" }, description: "Priority name(s), e.g. 'High'" },
+    labels: { type: ["string", "array"], items: { type: "string" }, description: "Issues with any of these labels" },
+    sprint: { type: ["string", "number"], description: "Sprint ID or name, or 'open', 'future' or 'closed'" },
+    parent: { type: "string", description: "Parent or epic issue key" },
+    text: { type: "string", description: "Full-text search in summary, description and comments" },
+    created: dateRangeProperty,
+    updated: dateRangeProperty,
+    due: dateRangeProperty,
+    resolved: dateRangeProperty,
+    fields: {
+      type: "object",
+      description: "Other fields by ID or name, e.g. {\"Story Points\": 5, \"Team\": [\"Core\", \"Infra\"]}. Use null to match empty fields.",
+    },
+    order_by: { type: "string", description: "Sort order, e.g. 'updated DESC' or 'priority DESC, created ASC'" },
+  },
+  additionalProperties: false,
+};
+
+
 const searchIssuesTool: Tool = {
   name: "jira_search_issues",
-  description: "Search for Jira issues using JQL",
+  description: "Search for Jira issues using JQL or structured criteria",
   inputSchema: {
     type: "object",
     properties: {
+      ...siteProperties,
       jql: {
         type: "string",
-        description: "JQL query string to search for issues",
+        description: "JQL query string to search for issues. Either jql or query is required.",
       },
+      query: jqlQueryProperty,
       maxResults: {
         type: "number",
         description: "Maximum number of results to return (default: 20)",
@@ -289,7 +829,7 @@ const searchIssuesTool: Tool = {
         description: "Fields to include in the response",
       },
     },
-    required: ["jql"],
+    required: [],
   },
 };
 
@@ -299,6 +839,7 @@ const createIssueTool: Tool = {
   inputSchema: {
     type: "object",
     properties: {
+      ...siteProperties,
       project_key: {
         type: "string",
         description: "The JIRA project key (e.g. 'PROJ', 'DEV', 'SUPPORT'). This is the prefix of issue keys in your project. Never assume what it might be, always ask the user.",
@@ -317,7 +858,7 @@ const createIssueTool: Tool = {
       },
       description: {
         type: "string",
-        description: "Issue description",
+        description: "Issue description in Markdown. Headings, lists, code blocks, tables and links are converted to Jira formatting; mention users with [@Name](accountid:<account ID>) and add panels with '> [!INFO]', '> [!NOTE]', '> [!WARNING]', '> [!SUCCESS]' or '> [!ERROR]'.",
         default: "",
       },
       components: {
@@ -335,6 +876,10 @@ const createIssueTool: Tool = {
           + '- Custom fields: {"customfield_10010": "value"}',
         default: "{}",
       },
+      attachments: {
+        type: "string",
+        description: "Optional JSON array of files to attach, each given inline as base64 or as an http(s) URL to download. Example: '[{\"filename\": \"log.txt\", \"content_base64\": \"aGVsbG8=\", \"content_type\": \"text/plain\"}, {\"url\": \"https://example.com/screenshot.png\"}]'",
+      },
     },
     required: ["project_key", "summary", "issue_type"],
   },
@@ -342,10 +887,11 @@ const createIssueTool: Tool = {
 
 const getIssueTool: Tool = {
   name: "jira_get_issue",
-  description: "Get details of a specific Jira issue including its Epic links and relationship information",
+  description: "Get details of a specific Jira issue including its Epic links and relationship information. The description, comments and other rich text fields are returned as Markdown.",
   inputSchema: {
     type: "object",
     properties: {
+      ...siteProperties,
       issue_key: {
         type: "string",
         description: "Jira issue key (e.g., 'PROJ-123')",
@@ -386,13 +932,14 @@ const updateIssueTool: Tool = {
   inputSchema: {
     type: "object",
     properties: {
+      ...siteProperties,
       issue_key: {
         type: "string",
         description: "Jira issue key (e.g., 'PROJ-123')",
       },
       fields: {
         type: "string",
-        description: "A valid JSON object of fields to update as a string. Example: '{\"summary\": \"New title\", \"description\": \"Updated description\", \"priority\": {\"name\": \"High\"}, \"assignee\": \"john.doe\"}'",
+        description: "A valid JSON object of fields to update as a string. Example: '{\"summary\": \"New title\", \"description\": \"Updated description\", \"priority\": {\"name\": \"High\"}, \"assignee\": \"john.doe\"}'. A string description is read as Markdown.",
       },
       additional_fields: {
         type: "string",
@@ -401,7 +948,7 @@ const updateIssueTool: Tool = {
       },
       attachments: {
         type: "string",
-        description: "Optional JSON string or comma-separated list of file paths to attach to the issue. Example: \"/path/to/file1.txt,/path/to/file2.txt\" or \"[\"/path/to/file1.txt\",\"/path/to/file2.txt\"]\"",
+        description: "Optional JSON array of files to attach, each given inline as base64 or as an http(s) URL to download. Example: '[{\"filename\": \"log.txt\", \"content_base64\": \"aGVsbG8=\", \"content_type\": \"text/plain\"}, {\"url\": \"https://example.com/screenshot.png\"}]'",
       },
     },
     required: ["issue_key", "fields"],
@@ -414,13 +961,14 @@ const addCommentTool: Tool = {
   inputSchema: {
     type: "object",
     properties: {
+      ...siteProperties,
       issue_key: {
         type: "string",
         description: "Jira issue key (e.g., 'PROJ-123')",
       },
       comment: {
         type: "string",
-        description: "Comment text in Markdown format",
+        description: "Comment text in Markdown format. Mention users with [@Name](accountid:<account ID>).",
       },
     },
     required: ["issue_key", "comment"],
@@ -429,10 +977,11 @@ const addCommentTool: Tool = {
 
 const searchTool: Tool = {
   name: "jira_search",
-  description: "Search Jira issues using JQL (Jira Query Language)",
+  description: "Search Jira issues using JQL (Jira Query Language) or structured criteria",
   inputSchema: {
     type: "object",
     properties: {
+      ...siteProperties,
       jql: {
         type: "string",
         description: "JQL query string (Jira Query Language). Examples:\n"
@@ -442,8 +991,10 @@ const searchTool: Tool = {
           + '- Find by assignee: "assignee = currentUser()"\n'
           + '- Find recently updated: "updated >= -7d AND project = PROJ"\n'
           + '- Find by label: "labels = frontend AND project = PROJ"\n'
-          + '- Find by priority: "priority = High AND project = PROJ"',
+          + '- Find by priority: "priority = High AND project = PROJ"\n'
+          + "Either jql or query is required.",
       },
+      query: jqlQueryProperty,
       fields: {
         type: "string",
         description: "Comma-separated fields to return in the results. Use '*all' for all fields, or specify individual fields like 'summary,status,assignee,priority'",
@@ -467,7 +1018,24 @@ const searchTool: Tool = {
         description: "Comma-separated list of project keys to filter results by. Overrides the environment variable JIRA_PROJECTS_FILTER if provided.",
       },
     },
-    required: ["jql"],
+    required: [],
+  },
+};
+
+const validateJqlTool: Tool = {
+  name: "jira_validate_jql",
+  description: "Check a JQL query without running it. Returns the errors Jira reports, such as unknown fields, values or functions. With query, checks the JQL the structured criteria compile into.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      ...siteProperties,
+      jql: {
+        type: "string",
+        description: "JQL query string to check. Either jql or query is required.",
+      },
+      query: jqlQueryProperty,
+    },
+    required: [],
   },
 };
 
@@ -477,6 +1045,7 @@ const searchFieldsTool: Tool = {
   inputSchema: {
     type: "object",
     properties: {
+      ...siteProperties,
       keyword: {
         type: "string",
         description: "Keyword for fuzzy search. If left empty, lists the first 'limit' available fields in their default order.",
@@ -504,6 +1073,7 @@ const getProjectIssuesTool: Tool = {
   inputSchema: {
     type: "object",
     properties: {
+      ...siteProperties,
       project_key: {
         type: "string",
         description: "The project key",
@@ -532,6 +1102,7 @@ const getEpicIssuesTool: Tool = {
   inputSchema: {
     type: "object",
     properties: {
+      ...siteProperties,
       epic_key: {
         type: "string",
         description: "The key of the epic (e.g., 'PROJ-123')",
@@ -560,6 +1131,7 @@ const getSprintsFromBoardTool: Tool = {
   inputSchema: {
     type: "object",
     properties: {
+      ...siteProperties,
       board_id: {
         type: "string",
         description: "The id of board (e.g., '1000')",
@@ -590,6 +1162,7 @@ const createSprintTool: Tool = {
   inputSchema: {
     type: "object",
     properties: {
+      ...siteProperties,
       board_id: {
         type: "string",
         description: "The id of board (e.g., '1000')",
@@ -626,6 +1199,7 @@ const getSprintIssuesTool: Tool = {
   inputSchema: {
     type: "object",
     properties: {
+      ...siteProperties,
       sprint_id: {
         type: "string",
         description: "The id of sprint (e.g., '10001')",
@@ -658,6 +1232,7 @@ const updateSprintTool: Tool = {
   inputSchema: {
     type: "object",
     properties: {
+      ...siteProperties,
       sprint_id: {
         type: "string",
         description: "The id of sprint (e.g., '10001')",
@@ -687,32 +1262,473 @@ const updateSprintTool: Tool = {
   },
 };
 
-const deleteIssueTool: Tool = {
-  name: "jira_delete_issue",
-  description: "Delete an existing Jira issue",
+const listBoardsTool: Tool = {
+  name: "jira_list_boards",
+  description: "List Jira Software boards, optionally filtered by project, name or type",
   inputSchema: {
     type: "object",
     properties: {
-      issue_key: {
+      ...siteProperties,
+      project_key: {
         type: "string",
-        description: "Jira issue key (e.g. PROJ-123)",
+        description: "Optional: Only boards of this project (key or ID, e.g., 'PROJ')",
+      },
+      name: {
+        type: "string",
+        description: "Optional: Only boards whose name contains this text",
+      },
+      type: {
+        type: "string",
+        description: "Optional: Board type (scrum|kanban|simple)",
+      },
+      startAt: {
+        type: "number",
+        description: "Starting index for pagination (0-based)",
+        default: 0,
+      },
+      limit: {
+        type: "number",
+        description: "Maximum number of results (1-50)",
+        default: 10,
+        minimum: 1,
+        maximum: 50,
       },
     },
-    required: ["issue_key"],
   },
 };
 
-const getLinkTypesTool: Tool = {
-  name: "jira_get_link_types",
-  description: "Get all available issue link types",
+const getBacklogTool: Tool = {
+  name: "jira_get_backlog",
+  description: "Get the issues in a board's backlog, in rank order",
   inputSchema: {
     type: "object",
-    properties: {},
-    required: [],
+    properties: {
+      ...siteProperties,
+      board_id: {
+        type: "string",
+        description: "The id of board (e.g., '1000')",
+      },
+      jql: {
+        type: "string",
+        description: "Optional: JQL to further filter the backlog (e.g., 'issuetype = Bug')",
+      },
+      fields: {
+        type: "string",
+        description: "Comma-separated fields to return in the results. Use '*all' for all fields, or specify individual fields like 'summary,status,assignee,priority'",
+        default: DEFAULT_READ_JIRA_FIELDS.join(","),
+      },
+      startAt: {
+        type: "number",
+        description: "Starting index for pagination (0-based)",
+        default: 0,
+      },
+      limit: {
+        type: "number",
+        description: "Maximum number of results (1-50)",
+        default: 10,
+        minimum: 1,
+        maximum: 50,
+      },
+    },
+    required: ["board_id"],
   },
 };
 
-const getJiraMcpServer = () => {
+const moveIssuesToSprintTool: Tool = {
+  name: "jira_move_issues_to_sprint",
+  description: "Move issues into a future or active sprint, taking them out of the sprint they were in",
+  inputSchema: {
+    type: "object",
+    properties: {
+      ...siteProperties,
+      sprint_id: {
+        type: "string",
+        description: "The id of sprint (e.g., '10001')",
+      },
+      issue_keys: {
+        type: "array",
+        items: { type: "string" },
+        description: "Keys of the issues to move (e.g., ['PROJ-1', 'PROJ-2'])",
+      },
+    },
+    required: ["sprint_id", "issue_keys"],
+  },
+};
+
+const moveIssuesToBacklogTool: Tool = {
+  name: "jira_move_issues_to_backlog",
+  description: "Move issues out of their sprints and back to the backlog",
+  inputSchema: {
+    type: "object",
+    properties: {
+      ...siteProperties,
+      issue_keys: {
+        type: "array",
+        items: { type: "string" },
+        description: "Keys of the issues to move (e.g., ['PROJ-1', 'PROJ-2'])",
+      },
+    },
+    required: ["issue_keys"],
+  },
+};
+
+const rankIssuesTool: Tool = {
+  name: "jira_rank_issues",
+  description: "Rank issues before or after another issue. The issues keep the order they are given in.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      ...siteProperties,
+      issue_keys: {
+        type: "array",
+        items: { type: "string" },
+        description: "Keys of the issues to rank (e.g., ['PROJ-1', 'PROJ-2'])",
+      },
+      rank_before_issue: {
+        type: "string",
+        description: "Rank the issues directly above this issue. Give this or rank_after_issue.",
+      },
+      rank_after_issue: {
+        type: "string",
+        description: "Rank the issues directly below this issue. Give this or rank_before_issue.",
+      },
+    },
+    required: ["issue_keys"],
+  },
+};
+
+const getSprintReportTool: Tool = {
+  name: "jira_get_sprint_report",
+  description: "Get a sprint report: committed and completed story points, scope added during the sprint, estimate changes and the issues that were not completed or were carried over to another sprint",
+  inputSchema: {
+    type: "object",
+    properties: {
+      ...siteProperties,
+      sprint_id: {
+        type: "string",
+        description: "The id of sprint (e.g., '10001')",
+      },
+      story_points_field: {
+        type: "string",
+        description: "Optional: Field to read story points from, by ID or name (e.g., 'Story Points'). Defaults to the estimation statistic of the sprint's board; without one, issues are counted instead.",
+      },
+    },
+    required: ["sprint_id"],
+  },
+};
+
+const deleteIssueTool: Tool = {
+  name: "jira_delete_issue",
+  description: "Delete an existing Jira issue",
+  inputSchema: {
+    type: "object",
+    properties: {
+      ...siteProperties,
+      issue_key: {
+        type: "string",
+        description: "Jira issue key (e.g. PROJ-123)",
+      },
+    },
+    required: ["issue_key"],
+  },
+};
+
+const getLinkTypesTool: Tool = {
+  name: "jira_get_link_types",
+  description: "Get all available issue link types",
+  inputSchema: {
+    type: "object",
+    properties: {
+      ...siteProperties,
+    },
+    required: [],
+  },
+};
+
+const listSitesTool: Tool = {
+  name: "jira_list_sites",
+  description: "List the Atlassian sites the current token can access, with their names, URLs and cloud IDs. Pass a site's name or cloudId as the site/cloudId argument of other Jira tools to work with it.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      refresh: {
+        type: "boolean",
+        description: "Whether to reload the list instead of using the cached one",
+        default: false,
+      },
+    },
+    required: [],
+  },
+};
+
+const getTransitionsTool: Tool = {
+  name: "jira_get_transitions",
+  description: "Get the workflow transitions currently available for a Jira issue, with the status each leads to and the fields its screen requires",
+  inputSchema: {
+    type: "object",
+    properties: {
+      ...siteProperties,
+      issue_key: {
+        type: "string",
+        description: "Jira issue key (e.g., 'PROJ-123')",
+      },
+    },
+    required: ["issue_key"],
+  },
+};
+
+const transitionIssueTool: Tool = {
+  name: "jira_transition_issue",
+  description: "Move a Jira issue through its workflow, e.g. to 'In Progress' or 'Done'. Required fields of the transition screen are checked before the transition is made.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      ...siteProperties,
+      issue_key: {
+        type: "string",
+        description: "Jira issue key (e.g., 'PROJ-123')",
+      },
+      transition: {
+        type: "string",
+        description: "The transition to make: its ID, its name (e.g. 'Start Progress') or the name of the status it leads to (e.g. 'Done'). Use jira_get_transitions to see the options.",
+      },
+      resolution: {
+        type: "string",
+        description: "Optional resolution to set, e.g. 'Done', 'Won't Do' or 'Duplicate'. Only possible if the transition screen has a resolution field.",
+      },
+      comment: {
+        type: "string",
+        description: "Optional comment to add with the transition, in Markdown",
+      },
+      fields: {
+        type: "string",
+        description: "Optional JSON string of fields to set on the transition screen. Example: '{\"customfield_10010\": \"value\", \"fixVersions\": [{\"name\": \"1.2\"}]}'",
+        default: "{}",
+      },
+    },
+    required: ["issue_key", "transition"],
+  },
+};
+
+const assignIssueTool: Tool = {
+  name: "jira_assign_issue",
+  description: "Assign a Jira issue to a user, or unassign it",
+  inputSchema: {
+    type: "object",
+    properties: {
+      ...siteProperties,
+      issue_key: {
+        type: "string",
+        description: "Jira issue key (e.g., 'PROJ-123')",
+      },
+      assignee: {
+        type: ["string", "null"],
+        description: "Account ID, e-mail address, display name or 'currentUser()'. Use null or 'unassigned' to remove the assignee.",
+      },
+    },
+    required: ["issue_key", "assignee"],
+  },
+};
+
+const addWorklogTool: Tool = {
+  name: "jira_add_worklog",
+  description: "Log time spent on a Jira issue",
+  inputSchema: {
+    type: "object",
+    properties: {
+      ...siteProperties,
+      issue_key: {
+        type: "string",
+        description: "Jira issue key (e.g., 'PROJ-123')",
+      },
+      time_spent: {
+        type: "string",
+        description: "Time spent in Jira duration format, e.g. '1h 30m', '2d' or '45m'",
+      },
+      started: {
+        type: "string",
+        description: "When the work started (ISO 8601). Defaults to now.",
+      },
+      comment: {
+        type: "string",
+        description: "Optional description of the work, in Markdown",
+      },
+      adjust_estimate: {
+        type: "string",
+        enum: ["auto", "leave", "new", "manual"],
+        description: "How to update the remaining estimate: 'auto' reduces it by the time spent (default), 'leave' keeps it, 'new' sets it to new_estimate, 'manual' reduces it by reduce_by",
+        default: "auto",
+      },
+      new_estimate: {
+        type: "string",
+        description: "The new remaining estimate when adjust_estimate is 'new', e.g. '2d'",
+      },
+      reduce_by: {
+        type: "string",
+        description: "How much to reduce the remaining estimate by when adjust_estimate is 'manual', e.g. '1h'",
+      },
+    },
+    required: ["issue_key", "time_spent"],
+  },
+};
+
+const createIssueLinkTool: Tool = {
+  name: "jira_create_issue_link",
+  description: "Link two Jira issues, e.g. 'PROJ-1 blocks PROJ-2'. Use jira_get_link_types to see the relationships available on the site.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      ...siteProperties,
+      issue_key: {
+        type: "string",
+        description: "The issue the relationship is read from (e.g., 'PROJ-1' in 'PROJ-1 blocks PROJ-2')",
+      },
+      relationship: {
+        type: "string",
+        description: "How issue_key relates to target_issue_key: a link type's outward or inward description (e.g. 'blocks', 'is blocked by', 'relates to', 'duplicates') or its name (e.g. 'Blocks')",
+      },
+      target_issue_key: {
+        type: "string",
+        description: "The other issue (e.g., 'PROJ-2' in 'PROJ-1 blocks PROJ-2')",
+      },
+      comment: {
+        type: "string",
+        description: "Optional comment added to issue_key about the link, in Markdown",
+      },
+    },
+    required: ["issue_key", "relationship", "target_issue_key"],
+  },
+};
+
+const removeIssueLinkTool: Tool = {
+  name: "jira_remove_issue_link",
+  description: "Remove a link between two Jira issues, given by its link ID or by the two issues it connects",
+  inputSchema: {
+    type: "object",
+    properties: {
+      ...siteProperties,
+      link_id: {
+        type: "string",
+        description: "ID of the issue link, as returned by jira_create_issue_link or in the issuelinks field of an issue",
+      },
+      issue_key: {
+        type: "string",
+        description: "One of the linked issues, when link_id is not given",
+      },
+      target_issue_key: {
+        type: "string",
+        description: "The other linked issue, when link_id is not given",
+      },
+      relationship: {
+        type: "string",
+        description: "Optional relationship to narrow down the link when the issues are linked more than once (e.g. 'blocks')",
+      },
+    },
+    required: [],
+  },
+};
+
+const addWatcherTool: Tool = {
+  name: "jira_add_watcher",
+  description: "Add a user as a watcher of a Jira issue",
+  inputSchema: {
+    type: "object",
+    properties: {
+      ...siteProperties,
+      issue_key: {
+        type: "string",
+        description: "Jira issue key (e.g., 'PROJ-123')",
+      },
+      user: {
+        type: "string",
+        description: "The user to add: account ID, e-mail or display name. Defaults to the current user.",
+        default: "currentUser()",
+      },
+    },
+    required: ["issue_key"],
+  },
+};
+
+const removeWatcherTool: Tool = {
+  name: "jira_remove_watcher",
+  description: "Remove a user from the watchers of a Jira issue",
+  inputSchema: {
+    type: "object",
+    properties: {
+      ...siteProperties,
+      issue_key: {
+        type: "string",
+        description: "Jira issue key (e.g., 'PROJ-123')",
+      },
+      user: {
+        type: "string",
+        description: "The user to remove: account ID, e-mail or display name. Defaults to the current user.",
+        default: "currentUser()",
+      },
+    },
+    required: ["issue_key"],
+  },
+};
+
+const addAttachmentTool: Tool = {
+  name: "jira_add_attachment",
+  description: `Attach files to a Jira issue. Each file is given inline as base64 or as an http(s) URL the server downloads. Files may be up to ${MAX_ATTACHMENT_BYTES} bytes.`,
+  inputSchema: {
+    type: "object",
+    properties: {
+      ...siteProperties,
+      issue_key: {
+        type: "string",
+        description: "Jira issue key (e.g., 'PROJ-123')",
+      },
+      attachments: {
+        type: "array",
+        description: "Files to attach",
+        items: {
+          type: "object",
+          properties: {
+            filename: {
+              type: "string",
+              description: "File name shown in Jira. Required with content_base64; defaults to the last part of the URL otherwise.",
+            },
+            content_base64: {
+              type: "string",
+              description: "The file content, base64 encoded",
+            },
+            url: {
+              type: "string",
+              description: "An http(s) URL to download the file from, instead of content_base64",
+            },
+            content_type: {
+              type: "string",
+              description: "MIME type of the file (e.g. 'image/png'). Defaults to the type reported by the URL, or application/octet-stream.",
+            },
+          },
+        },
+        minItems: 1,
+      },
+    },
+    required: ["issue_key", "attachments"],
+  },
+};
+
+const getAttachmentTool: Tool = {
+  name: "jira_get_attachment",
+  description: `Download a Jira attachment. Returns its metadata and the file as an embedded resource: text files as text, everything else base64 encoded. Attachment IDs are listed in the attachment field of an issue. Files larger than ${MAX_ATTACHMENT_BYTES} bytes are refused.`,
+  inputSchema: {
+    type: "object",
+    properties: {
+      ...siteProperties,
+      attachment_id: {
+        type: "string",
+        description: "ID of the attachment (e.g., '10001')",
+      },
+    },
+    required: ["attachment_id"],
+  },
+};
+
+const getJiraMcpServer = () => {
   const server = new Server(
     {
       name: "jira-service",
@@ -730,7 +1746,10 @@ const getJiraMcpServer = () => {
     async () => {
       return {
         tools: [
+          listSitesTool,
           searchTool,
+          searchIssuesTool,
+          validateJqlTool,
           getIssueTool,
           searchFieldsTool,
           getProjectIssuesTool,
@@ -739,11 +1758,27 @@ const getJiraMcpServer = () => {
           createSprintTool,
           getSprintIssuesTool,
           updateSprintTool,
+          listBoardsTool,
+          getBacklogTool,
+          moveIssuesToSprintTool,
+          moveIssuesToBacklogTool,
+          rankIssuesTool,
+          getSprintReportTool,
           createIssueTool,
           updateIssueTool,
           deleteIssueTool,
           addCommentTool,
+          getTransitionsTool,
+          transitionIssueTool,
+          assignIssueTool,
+          addWorklogTool,
           getLinkTypesTool,
+          createIssueLinkTool,
+          removeIssueLinkTool,
+          addWatcherTool,
+          removeWatcherTool,
+          addAttachmentTool,
+          getAttachmentTool,
         ],
       };
     }
@@ -758,7 +1793,29 @@ const getJiraMcpServer = () => {
           throw new Error("Missing tool name");
         }
 
-        const jira = await getJiraClient();
+        if (request.params.name === "jira_list_sites") {
+          const args = (request.params.arguments ?? {}) as unknown as JiraListSitesArgs;
+          const sites = await getAccessibleSites(getAuthToken(), args.refresh);
+          const defaultSite = selectSite(sites);
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  sites.map((site) => ({
+                    cloudId: site.id,
+                    name: site.name,
+                    url: site.url,
+                    scopes: site.scopes,
+                    default: site.id === defaultSite.id,
+                  })),
+                ),
+              },
+            ],
+          };
+        }
+
+        const jira = await getJiraClient(request.params.arguments as SiteSelector | undefined);
 
         console.log("--- request.params.name", request.params.name);
 
@@ -766,12 +1823,9 @@ const getJiraMcpServer = () => {
         switch (request.params.name) {
           case "jira_search": {
             const args = request.params.arguments as unknown as JiraSearchArgs;
-            if (!args.jql) {
-              throw new Error("Missing required argument: jql");
-            }
+            let jql = await searchJql(jira, args.jql, args.query);
 
             const searchParams = new URLSearchParams();
-            searchParams.append('jql', args.jql);
 
             if (args.limit) {
               searchParams.append('maxResults', String(args.limit));
@@ -795,7 +1849,7 @@ const getJiraMcpServer = () => {
 
             // Filter by project if specified
             const projectsFilter = args.projects_filter || process.env.JIRA_PROJECTS_FILTER;
-            if (projectsFilter && !args.jql.toLowerCase().includes("project =")) {
+            if (projectsFilter && !/\bproject\s*(=|in\b)/i.test(jql)) {
               const projects = projectsFilter.split(',').map(p => p.trim());
               let projectCondition = "";
 
@@ -806,10 +1860,10 @@ const getJiraMcpServer = () => {
               }
 
               if (projectCondition) {
-                args.jql = `${args.jql} AND ${projectCondition}`;
-                searchParams.set('jql', args.jql);
+                jql = combineJql(jql, projectCondition);
               }
             }
+            searchParams.set('jql', jql);
 
             const response = await jira.fetch<any>(`/rest/api/3/search?${searchParams.toString()}`);
 
@@ -825,6 +1879,67 @@ const getJiraMcpServer = () => {
             };
           }
 
+          case "jira_search_issues": {
+            const args = request.params.arguments as unknown as JiraSearchIssuesArgs;
+            const jql = await searchJql(jira, args.jql, args.query);
+
+            const searchParams = new URLSearchParams();
+            searchParams.append('jql', jql);
+            searchParams.append('maxResults', String(args.maxResults || 20));
+            searchParams.append('fields', args.fields?.length ? args.fields.join(',') : DEFAULT_READ_JIRA_FIELDS.join(','));
+
+            const response = await jira.fetch<JiraSearchResponse>(`/rest/api/3/search?${searchParams.toString()}`);
+
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify(response),
+                },
+              ],
+            };
+          }
+
+          case "jira_validate_jql": {
+            const args = request.params.arguments as unknown as JiraValidateJqlArgs;
+
+            // Criteria that cannot be compiled are reported like parse errors
+            let jql: string;
+            try {
+              jql = await searchJql(jira, args.jql, args.query);
+            } catch (e) {
+              return {
+                content: [
+                  {
+                    type: "text",
+                    text: JSON.stringify({ valid: false, errors: [(e as Error).message] }),
+                  },
+                ],
+              };
+            }
+
+            const response = await jira.fetch<{ queries?: ParsedJqlQuery[] }>('/rest/api/3/jql/parse?validation=strict', {
+              method: 'POST',
+              body: JSON.stringify({ queries: [jql] }),
+            });
+            const parsed: ParsedJqlQuery = response.queries?.[0] ?? {};
+            const errors: string[] = parsed.errors ?? [];
+
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify({
+                    jql,
+                    valid: errors.length === 0,
+                    errors,
+                    ...(parsed.warnings?.length ? { warnings: parsed.warnings } : {}),
+                  }),
+                },
+              ],
+            };
+          }
+
           case "jira_get_issue": {
             const args = request.params.arguments as unknown as JiraGetIssueArgs;
             if (!args.issue_key) {
@@ -868,9 +1983,11 @@ const getJiraMcpServer = () => {
                 `/rest/api/3/issue/${args.issue_key}/comment?${commentsParams.toString()}`
               );
 
-              response.comments = commentsResponse.comments;
+              response.comments = commentsResponse.comments.map(commentToMarkdown);
             }
 
+            adfFieldsToMarkdown(response.fields);
+
             return {
               content: [
                 {
@@ -885,13 +2002,13 @@ const getJiraMcpServer = () => {
             const args = request.params.arguments as unknown as JiraSearchFieldsArgs;
 
             // Get all fields
-            const response = await jira.fetch<any>('/rest/api/3/field');
+            const response = await getJiraFields(jira, args.refresh);
 
             // Filter and sort by keyword if provided
             let filteredFields = response;
             if (args.keyword && args.keyword.trim() !== '') {
               const keyword = args.keyword.toLowerCase();
-              filteredFields = response.filter((field: any) => {
+              filteredFields = response.filter((field) => {
                 const name = (field.name || '').toLowerCase();
                 const id = (field.id || '').toLowerCase();
                 const desc = (field.description || '').toLowerCase();
@@ -1073,28 +2190,177 @@ const getJiraMcpServer = () => {
               throw new Error("Missing required argument: sprint_id");
             }
 
-            const payload: any = {};
-
-            if (args.sprint_name) payload.name = args.sprint_name;
-            if (args.goal) payload.goal = args.goal;
-            if (args.start_date) payload.startDate = args.start_date;
-            if (args.end_date) payload.endDate = args.end_date;
-            if (args.state) payload.state = args.state;
-
-            if (Object.keys(payload).length === 0) {
-              throw new Error("At least one field must be provided to update");
+            const payload: any = {};
+
+            if (args.sprint_name) payload.name = args.sprint_name;
+            if (args.goal) payload.goal = args.goal;
+            if (args.start_date) payload.startDate = args.start_date;
+            if (args.end_date) payload.endDate = args.end_date;
+            if (args.state) payload.state = args.state;
+
+            if (Object.keys(payload).length === 0) {
+              throw new Error("At least one field must be provided to update");
+            }
+
+            const response = await jira.fetch<any>(`/rest/agile/1.0/sprint/${args.sprint_id}`, {
+              method: 'PUT',
+              body: JSON.stringify(payload),
+            });
+
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify(response),
+                },
+              ],
+            };
+          }
+
+          case "jira_list_boards": {
+            const args = request.params.arguments as unknown as JiraListBoardsArgs;
+            const searchParams = new URLSearchParams();
+
+            if (args.project_key) searchParams.append('projectKeyOrId', args.project_key);
+            if (args.name) searchParams.append('name', args.name);
+            if (args.type) searchParams.append('type', args.type);
+
+            searchParams.append('maxResults', String(args.limit || 10));
+            searchParams.append('startAt', String(args.startAt || 0));
+
+            const response = await jira.fetch<JiraBoardsResponse>(`/rest/agile/1.0/board?${searchParams.toString()}`);
+
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify(response),
+                },
+              ],
+            };
+          }
+
+          case "jira_get_backlog": {
+            const args = request.params.arguments as unknown as JiraGetBacklogArgs;
+            if (!args.board_id) {
+              throw new Error("Missing required argument: board_id");
+            }
+
+            const searchParams = new URLSearchParams();
+
+            if (args.jql) searchParams.append('jql', args.jql);
+            searchParams.append('fields', args.fields || DEFAULT_READ_JIRA_FIELDS.join(','));
+            searchParams.append('maxResults', String(args.limit || 10));
+            searchParams.append('startAt', String(args.startAt || 0));
+
+            const response = await jira.fetch<JiraSearchResponse>(`/rest/agile/1.0/board/${args.board_id}/backlog?${searchParams.toString()}`);
+            (response.issues ?? []).forEach((issue) => adfFieldsToMarkdown(issue.fields));
+
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify(response),
+                },
+              ],
+            };
+          }
+
+          case "jira_move_issues_to_sprint":
+          case "jira_move_issues_to_backlog": {
+            const args = request.params.arguments as unknown as JiraMoveIssuesToSprintArgs & JiraMoveIssuesToBacklogArgs;
+            const toSprint = request.params.name === "jira_move_issues_to_sprint";
+            const issueKeys = parseIssueKeys(args.issue_keys);
+            if ((toSprint && !args.sprint_id) || issueKeys.length === 0) {
+              throw new Error(`Missing required arguments: ${toSprint ? "sprint_id and " : ""}issue_keys`);
+            }
+
+            const path = toSprint ? `/rest/agile/1.0/sprint/${args.sprint_id}/issue` : '/rest/agile/1.0/backlog/issue';
+            for (const issues of chunk(issueKeys, MAX_AGILE_ISSUES_PER_REQUEST)) {
+              await jira.fetch(path, {
+                method: 'POST',
+                body: JSON.stringify({ issues }),
+              });
+            }
+
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify({
+                    moved: issueKeys,
+                    to: toSprint ? { sprint_id: args.sprint_id } : "backlog",
+                  }),
+                },
+              ],
+            };
+          }
+
+          case "jira_rank_issues": {
+            const args = request.params.arguments as unknown as JiraRankIssuesArgs;
+            const issueKeys = parseIssueKeys(args.issue_keys);
+            if (issueKeys.length === 0) {
+              throw new Error("Missing required argument: issue_keys");
+            }
+            if (Boolean(args.rank_before_issue) === Boolean(args.rank_after_issue)) {
+              throw new Error("Give exactly one of rank_before_issue and rank_after_issue");
+            }
+
+            // Each chunk is ranked after the previous one, so the issues keep their order
+            const failed: { issue: string; errors: string[] }[] = [];
+            let anchor = args.rank_before_issue
+              ? { rankBeforeIssue: args.rank_before_issue }
+              : { rankAfterIssue: args.rank_after_issue };
+            for (const issues of chunk(issueKeys, MAX_AGILE_ISSUES_PER_REQUEST)) {
+              const response = await jira.request('/rest/agile/1.0/issue/rank', {
+                method: 'PUT',
+                body: JSON.stringify({ issues, ...anchor }),
+              });
+              // 207 Multi-Status lists the issues that could not be ranked
+              if (response.status === 207) {
+                const result = await response.json() as JiraRankResult;
+                for (const entry of result.entries ?? []) {
+                  if (entry.errors?.length) {
+                    failed.push({ issue: entry.issueKey ?? String(entry.issueId), errors: entry.errors });
+                  }
+                }
+              }
+              anchor = { rankAfterIssue: issues[issues.length - 1] };
+            }
+
+            const failedKeys = new Set(failed.map((entry) => entry.issue));
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify({
+                    ranked: issueKeys.filter((key) => !failedKeys.has(key)),
+                    ...(failed.length > 0 ? { failed } : {}),
+                  }),
+                },
+              ],
+            };
+          }
+
+          case "jira_get_sprint_report": {
+            const args = request.params.arguments as unknown as JiraGetSprintReportArgs;
+            if (!args.sprint_id) {
+              throw new Error("Missing required argument: sprint_id");
+            }
+
+            const sprint = await jira.fetch<JiraSprint>(`/rest/agile/1.0/sprint/${args.sprint_id}`);
+            const estimation = await getSprintEstimation(jira, sprint, args.story_points_field);
+            const { issues, total } = await getSprintReportIssues(jira, args.sprint_id, estimation);
+            const report = computeSprintReport(sprint, issues, estimation);
+            if (issues.length < total) {
+              report.notes.push(`Only the first ${issues.length} of ${total} issues are included.`);
             }
 
-            const response = await jira.fetch<any>(`/rest/agile/1.0/sprint/${args.sprint_id}`, {
-              method: 'PUT',
-              body: JSON.stringify(payload),
-            });
-
             return {
               content: [
                 {
                   type: "text",
-                  text: JSON.stringify(response),
+                  text: JSON.stringify(report),
                 },
               ],
             };
@@ -1121,21 +2387,7 @@ const getJiraMcpServer = () => {
 
             // Add description if provided
             if (args.description) {
-              payload.fields.description = {
-                type: "doc",
-                version: 1,
-                content: [
-                  {
-                    type: "paragraph",
-                    content: [
-                      {
-                        type: "text",
-                        text: args.description,
-                      },
-                    ],
-                  },
-                ],
-              };
+              payload.fields.description = markdownToAdf(args.description);
             }
 
             // Add assignee if provided
@@ -1178,11 +2430,18 @@ const getJiraMcpServer = () => {
               }
             }
 
+            // Parse attachments before creating the issue so bad input fails early
+            const attachments = args.attachments ? parseAttachments(args.attachments) : [];
+
             const response = await jira.fetch<any>('/rest/api/3/issue', {
               method: 'POST',
               body: JSON.stringify(payload),
             });
 
+            if (attachments.length > 0) {
+              response.attachments = await uploadAttachments(jira, response.key, attachments);
+            }
+
             return {
               content: [
                 {
@@ -1231,6 +2490,8 @@ const getJiraMcpServer = () => {
               }
             }
 
+            const attachments = args.attachments ? parseAttachments(args.attachments) : [];
+
             // Construct issue update payload
             const payload: any = {
               fields: fieldsObj,
@@ -1248,23 +2509,9 @@ const getJiraMcpServer = () => {
               }
             }
 
-            // Format description if provided
+            // Format description if provided; ADF objects are passed through as they are
             if (payload.fields.description && typeof payload.fields.description === 'string') {
-              payload.fields.description = {
-                type: "doc",
-                version: 1,
-                content: [
-                  {
-                    type: "paragraph",
-                    content: [
-                      {
-                        type: "text",
-                        text: payload.fields.description,
-                      },
-                    ],
-                  },
-                ],
-              };
+              payload.fields.description = markdownToAdf(payload.fields.description);
             }
 
             // Only send request if there are fields to update
@@ -1278,6 +2525,10 @@ const getJiraMcpServer = () => {
               responseText = JSON.stringify(response);
             }
 
+            if (attachments.length > 0) {
+              await uploadAttachments(jira, args.issue_key, attachments);
+            }
+
             // Get updated issue to return in response
             const updatedIssue = await jira.fetch<any>(`/rest/api/3/issue/${args.issue_key}`);
 
@@ -1323,27 +2574,13 @@ const getJiraMcpServer = () => {
             }
 
             const payload = {
-              body: {
-                type: "doc",
-                version: 1,
-                content: [
-                  {
-                    type: "paragraph",
-                    content: [
-                      {
-                        type: "text",
-                        text: args.comment,
-                      },
-                    ],
-                  },
-                ],
-              },
+              body: markdownToAdf(args.comment),
             };
 
-            const response = await jira.fetch<any>(`/rest/api/3/issue/${args.issue_key}/comment`, {
+            const response = commentToMarkdown(await jira.fetch<JiraComment>(`/rest/api/3/issue/${args.issue_key}/comment`, {
               method: 'POST',
               body: JSON.stringify(payload),
-            });
+            }));
 
             return {
               content: [
@@ -1368,135 +2605,397 @@ const getJiraMcpServer = () => {
             };
           }
 
-          default:
-            throw new Error(`Unknown tool: ${request.params.name}`);
-        }
-      } catch (error) {
-        console.error("Error executing tool:", error);
+          case "jira_get_transitions": {
+            const args = request.params.arguments as unknown as JiraGetTransitionsArgs;
+            if (!args.issue_key) {
+              throw new Error("Missing required argument: issue_key");
+            }
 
-        if (error instanceof z.ZodError) {
-          throw new Error(`Invalid input: ${JSON.stringify(error.errors)}`);
-        }
+            const transitions = await getTransitions(jira, args.issue_key);
 
-        throw error;
-      }
-    }
-  );
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify(transitions.map(summarizeTransition)),
+                },
+              ],
+            };
+          }
 
-  return server;
-};
+          case "jira_transition_issue": {
+            const args = request.params.arguments as unknown as JiraTransitionIssueArgs;
+            if (!args.issue_key || !args.transition) {
+              throw new Error("Missing required arguments: issue_key and transition");
+            }
 
-const app = express();
+            let fields: Record<string, unknown> = {};
+            if (args.fields) {
+              try {
+                fields = JSON.parse(args.fields);
+              } catch (e) {
+                throw new Error(`Invalid JSON in fields: ${(e as Error).message}`);
+              }
+            }
 
+            const transition = findTransition(await getTransitions(jira, args.issue_key), args.transition);
+            const screenFields = transition.fields ?? {};
 
-//=============================================================================
-// STREAMABLE HTTP TRANSPORT (PROTOCOL VERSION 2025-03-26)
-//=============================================================================
+            if (args.resolution) {
+              const resolutionField = screenFields.resolution;
+              if (!resolutionField) {
+                throw new Error(`Transition "${transition.name}" does not allow setting a resolution`);
+              }
+              const wanted = args.resolution.trim().toLowerCase();
+              const allowed = resolutionField.allowedValues;
+              const match = allowed?.find((value) =>
+                value.id === args.resolution || value.name?.toLowerCase() === wanted
+              );
+              if (allowed && !match) {
+                throw new Error(
+                  `Unknown resolution "${args.resolution}". Allowed values: ${describeAllowedValues(allowed)?.join(", ")}`
+                );
+              }
+              fields.resolution = match ? { id: match.id } : { name: args.resolution };
+            }
 
-app.post('/mcp', async (req: Request, res: Response) => {
-  const authToken = req.headers['x-auth-token'] as string;
+            // Check required screen fields up front, so the caller gets their
+            // names and allowed values instead of a bare 400 from Jira
+            const missing = Object.entries(screenFields)
+              .filter(([id, field]) => field.required && !field.hasDefaultValue && fields[id] === undefined)
+              .map(([id, field]) => {
+                const allowed = describeAllowedValues(field.allowedValues);
+                return `${field.name} (${id})${allowed ? `: one of ${allowed.join(", ")}` : ""}`;
+              });
+            if (missing.length > 0) {
+              throw new Error(
+                `Transition "${transition.name}" requires these fields: ${missing.join("; ")}. Pass them in fields${screenFields.resolution?.required ? " or resolution" : ""}.`
+              );
+            }
 
-  if (!authToken) {
-    console.error('Error: Jira API token is missing. Provide it via x-auth-token header.');
-  }
+            const payload: JiraTransitionPayload = {
+              transition: { id: transition.id },
+            };
+            if (Object.keys(fields).length > 0) {
+              payload.fields = fields;
+            }
+            // Comments can only be sent with transitions that have a screen;
+            // otherwise the comment is added separately afterwards
+            if (args.comment && transition.hasScreen) {
+              payload.update = { comment: [{ add: { body: markdownToAdf(args.comment) } }] };
+            }
 
-  const server = getJiraMcpServer();
-  try {
-    const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
-      sessionIdGenerator: undefined,
-    });
-    await server.connect(transport);
-    asyncLocalStorage.run({ authToken }, async () => {
-      await transport.handleRequest(req, res, req.body);
-    });
-    res.on('close', () => {
-      console.log('Request closed');
-      transport.close();
-      server.close();
-    });
-  } catch (error) {
-    console.error('Error handling MCP request:', error);
-    if (!res.headersSent) {
-      res.status(500).json({
-        jsonrpc: '2.0',
-        error: {
-          code: -32603,
-          message: 'Internal server error',
-        },
-        id: null,
-      });
-    }
-  }
-});
+            await jira.fetch<unknown>(`/rest/api/3/issue/${args.issue_key}/transitions`, {
+              method: 'POST',
+              body: JSON.stringify(payload),
+            });
 
-app.get('/mcp', async (req: Request, res: Response) => {
-  console.log('Received GET MCP request');
-  res.writeHead(405).end(JSON.stringify({
-    jsonrpc: "2.0",
-    error: {
-      code: -32000,
-      message: "Method not allowed."
-    },
-    id: null
-  }));
-});
+            if (args.comment && !transition.hasScreen) {
+              await jira.fetch<unknown>(`/rest/api/3/issue/${args.issue_key}/comment`, {
+                method: 'POST',
+                body: JSON.stringify({ body: markdownToAdf(args.comment) }),
+              });
+            }
 
-app.delete('/mcp', async (req: Request, res: Response) => {
-  console.log('Received DELETE MCP request');
-  res.writeHead(405).end(JSON.stringify({
-    jsonrpc: "2.0",
-    error: {
-      code: -32000,
-      message: "Method not allowed."
-    },
-    id: null
-  }));
-});
+            const updatedIssue = await jira.fetch<JiraIssueStatus>(`/rest/api/3/issue/${args.issue_key}?fields=status,resolution`);
 
-//=============================================================================
-// DEPRECATED HTTP+SSE TRANSPORT (PROTOCOL VERSION 2024-11-05)
-//=============================================================================
-const transports = new Map<string, SSEServerTransport>();
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify({
+                    issue_key: args.issue_key,
+                    transition: transition.name,
+                    status: updatedIssue.fields?.status?.name,
+                    resolution: updatedIssue.fields?.resolution?.name ?? null,
+                    comment_added: Boolean(args.comment),
+                  }),
+                },
+              ],
+            };
+          }
 
-app.get("/sse", async (req, res) => {
-  const transport = new SSEServerTransport(`/messages`, res);
+          case "jira_assign_issue": {
+            const args = request.params.arguments as unknown as JiraAssignIssueArgs;
+            if (!args.issue_key || args.assignee === undefined) {
+              throw new Error("Missing required arguments: issue_key and assignee");
+            }
 
-  // Set up cleanup when connection closes
-  res.on('close', async () => {
-    console.log(`SSE connection closed for transport: ${transport.sessionId}`);
-    transports.delete(transport.sessionId);
-  });
+            const accountId = await resolveAssignee(jira, args.issue_key, args.assignee);
 
-  transports.set(transport.sessionId, transport);
+            await jira.fetch<unknown>(`/rest/api/3/issue/${args.issue_key}/assignee`, {
+              method: 'PUT',
+              body: JSON.stringify({ accountId }),
+            });
 
-  const server = getJiraMcpServer();
-  await server.connect(transport);
+            const updatedIssue = await jira.fetch<JiraIssueStatus>(`/rest/api/3/issue/${args.issue_key}?fields=assignee`);
 
-  console.log(`SSE connection established with transport: ${transport.sessionId}`);
-});
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify({
+                    issue_key: args.issue_key,
+                    assignee: updatedIssue.fields?.assignee ?? null,
+                  }),
+                },
+              ],
+            };
+          }
+
+          case "jira_add_worklog": {
+            const args = request.params.arguments as unknown as JiraAddWorklogArgs;
+            if (!args.issue_key || !args.time_spent) {
+              throw new Error("Missing required arguments: issue_key and time_spent");
+            }
 
-app.post("/messages", async (req, res) => {
-  const sessionId = req.query.sessionId as string;
+            const duration = /^\s*(\d+(\.\d+)?\s*[wdhm]\s*)+$/i;
+            if (!duration.test(args.time_spent)) {
+              throw new Error(`Invalid time_spent "${args.time_spent}". Use Jira duration format, e.g. '1h 30m' or '2d'.`);
+            }
 
-  let transport: SSEServerTransport | undefined;
-  transport = sessionId ? transports.get(sessionId) : undefined;
-  if (transport) {
-    const authToken = req.headers['x-auth-token'] as string;
+            const searchParams = new URLSearchParams();
+            const adjustEstimate = args.adjust_estimate || 'auto';
+            searchParams.append('adjustEstimate', adjustEstimate);
+            if (adjustEstimate === 'new') {
+              if (!args.new_estimate) {
+                throw new Error("new_estimate is required when adjust_estimate is 'new'");
+              }
+              searchParams.append('newEstimate', args.new_estimate);
+            }
+            if (adjustEstimate === 'manual') {
+              if (!args.reduce_by) {
+                throw new Error("reduce_by is required when adjust_estimate is 'manual'");
+              }
+              searchParams.append('reduceBy', args.reduce_by);
+            }
+
+            const payload: JiraWorklogPayload = {
+              timeSpent: args.time_spent.trim(),
+              started: toJiraDateTime(args.started ?? new Date().toISOString()),
+            };
+            if (args.comment) {
+              payload.comment = markdownToAdf(args.comment);
+            }
+
+            const response = await jira.fetch<JiraWorklog>(
+              `/rest/api/3/issue/${args.issue_key}/worklog?${searchParams.toString()}`,
+              {
+                method: 'POST',
+                body: JSON.stringify(payload),
+              }
+            );
+
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify(response),
+                },
+              ],
+            };
+          }
+
+          case "jira_create_issue_link": {
+            const args = request.params.arguments as unknown as JiraCreateIssueLinkArgs;
+            if (!args.issue_key || !args.relationship || !args.target_issue_key) {
+              throw new Error("Missing required arguments: issue_key, relationship and target_issue_key");
+            }
+
+            const link = await resolveLink(jira, args.relationship, args.issue_key, args.target_issue_key);
+            const payload: JiraIssueLinkPayload = {
+              type: { name: link.type.name },
+              inwardIssue: { key: link.inwardIssue },
+              outwardIssue: { key: link.outwardIssue },
+            };
+            if (args.comment) {
+              payload.comment = { body: markdownToAdf(args.comment) };
+            }
+
+            // Jira answers 201 without a body, so look the new link up on the issue
+            await jira.request('/rest/api/3/issueLink', {
+              method: 'POST',
+              body: JSON.stringify(payload),
+            });
+            const issue = await jira.fetch<JiraIssueLinks>(`/rest/api/3/issue/${args.issue_key}?fields=issuelinks`);
+            const created = (issue.fields?.issuelinks ?? []).find((issueLink) =>
+              issueLink.type?.id === link.type.id &&
+              (issueLink.outwardIssue?.key ?? issueLink.inwardIssue?.key) === args.target_issue_key.toUpperCase()
+            );
+
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify({
+                    link_id: created?.id ?? null,
+                    type: link.type.name,
+                    description: `${link.inwardIssue} ${link.type.outward} ${link.outwardIssue}`,
+                  }),
+                },
+              ],
+            };
+          }
+
+          case "jira_remove_issue_link": {
+            const args = request.params.arguments as unknown as JiraRemoveIssueLinkArgs;
+            let linkId = args.link_id;
+            if (!linkId) {
+              if (!args.issue_key || !args.target_issue_key) {
+                throw new Error("Missing required arguments: link_id, or issue_key and target_issue_key");
+              }
+              const issue = await jira.fetch<JiraIssueLinks>(`/rest/api/3/issue/${args.issue_key}?fields=issuelinks`);
+              const target = args.target_issue_key.toUpperCase();
+              let links = (issue.fields?.issuelinks ?? []).filter((issueLink) =>
+                (issueLink.outwardIssue?.key ?? issueLink.inwardIssue?.key) === target
+              );
+              if (args.relationship) {
+                const wanted = args.relationship.trim().toLowerCase();
+                links = links.filter((issueLink) =>
+                  [issueLink.type?.name, issueLink.type?.inward, issueLink.type?.outward]
+                    .some((value) => value?.toLowerCase() === wanted)
+                );
+              }
+              if (links.length === 0) {
+                throw new Error(`${args.issue_key} is not linked to ${args.target_issue_key}${args.relationship ? ` by "${args.relationship}"` : ""}`);
+              }
+              if (links.length > 1) {
+                const found = links
+                  .map((issueLink) => `${issueLink.id} (${issueLink.outwardIssue ? issueLink.type?.outward : issueLink.type?.inward})`)
+                  .join(", ");
+                throw new Error(`${args.issue_key} is linked to ${args.target_issue_key} several times, pass relationship or link_id: ${found}`);
+              }
+              linkId = links[0].id;
+            }
+
+            await jira.fetch<unknown>(`/rest/api/3/issueLink/${linkId}`, {
+              method: 'DELETE',
+            });
+
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify({ message: `Issue link ${linkId} removed` }),
+                },
+              ],
+            };
+          }
+
+          case "jira_add_watcher":
+          case "jira_remove_watcher": {
+            const args = request.params.arguments as unknown as JiraWatcherArgs;
+            if (!args.issue_key) {
+              throw new Error("Missing required argument: issue_key");
+            }
+
+            const adding = request.params.name === "jira_add_watcher";
+            const accountId = await resolveAccountId(jira, args.user || 'currentUser()', {
+              purpose: adding ? "added as a watcher" : "removed as a watcher",
+            });
+
+            // The watchers endpoint takes the bare account ID as a JSON string
+            if (adding) {
+              await jira.fetch<unknown>(`/rest/api/3/issue/${args.issue_key}/watchers`, {
+                method: 'POST',
+                body: JSON.stringify(accountId),
+              });
+            } else {
+              const searchParams = new URLSearchParams({ accountId });
+              await jira.fetch<unknown>(`/rest/api/3/issue/${args.issue_key}/watchers?${searchParams.toString()}`, {
+                method: 'DELETE',
+              });
+            }
+
+            const watchers = await jira.fetch<JiraWatchers>(`/rest/api/3/issue/${args.issue_key}/watchers`);
+
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify({
+                    issue_key: args.issue_key,
+                    watchCount: watchers.watchCount,
+                    watchers: (watchers.watchers ?? []).map((watcher) => ({
+                      accountId: watcher.accountId,
+                      displayName: watcher.displayName,
+                    })),
+                  }),
+                },
+              ],
+            };
+          }
+
+          case "jira_add_attachment": {
+            const args = request.params.arguments as unknown as JiraAddAttachmentArgs;
+            if (!args.issue_key || !args.attachments) {
+              throw new Error("Missing required arguments: issue_key and attachments");
+            }
+
+            const response = await uploadAttachments(jira, args.issue_key, parseAttachments(args.attachments));
+
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify(response),
+                },
+              ],
+            };
+          }
+
+          case "jira_get_attachment": {
+            const args = request.params.arguments as unknown as JiraGetAttachmentArgs;
+            if (!args.attachment_id) {
+              throw new Error("Missing required argument: attachment_id");
+            }
+
+            const metadata = await jira.fetch<JiraAttachment>(`/rest/api/3/attachment/${args.attachment_id}`);
+            assertDownloadable(metadata);
+
+            const response = await jira.request(`/rest/api/3/attachment/content/${args.attachment_id}`, {
+              headers: { 'Accept': '*/*' },
+            });
+            const data = Buffer.from(await response.arrayBuffer());
+
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify(metadata),
+                },
+                attachmentResource(metadata, data),
+              ],
+            };
+          }
+
+          default:
+            throw new Error(`Unknown tool: ${request.params.name}`);
+        }
+      } catch (error) {
+        console.error("Error executing tool:", error);
+
+        if (error instanceof z.ZodError) {
+          throw new Error(`Invalid input: ${JSON.stringify(error.errors)}`);
+        }
+
+        throw error;
+      }
+    }
+  );
+
+  return server;
+};
 
+startMcpServer({
+  name: "jira-mcp-server",
+  createServer: getJiraMcpServer,
+  asyncLocalStorage,
+  extractContext: (req) => {
+    const authToken = req.headers['x-auth-token'] as string;
     if (!authToken) {
       console.error('Error: Jira API token is missing. Provide it via x-auth-token header.');
     }
-
-    asyncLocalStorage.run({ authToken }, async () => {
-      await transport!.handlePostMessage(req, res);
-    });
-  } else {
-    console.error(`Transport not found for session ID: ${sessionId}`);
-    res.status(404).send({ error: "Transport not found" });
-  }
+    return { authToken };
+  },
 });
-
-const PORT = process.env.PORT || 5000;
-app.listen(PORT, () => {
-  console.log(`Jira MCP Server running on port ${PORT}`);
-}); 
\ No newline at end of file
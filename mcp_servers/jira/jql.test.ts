@@ -0,0 +1,128 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { JiraField, findField, resolveField } from './fields.js';
+import { JqlQuery, buildJql, combineJql, jqlValue, parseJqlQuery } from './jql.js';
+
+const fields: JiraField[] = [
+  { id: 'summary', name: 'Summary', custom: false, clauseNames: ['summary'] },
+  { id: 'updated', name: 'Updated', custom: false, clauseNames: ['updated', 'updatedDate'] },
+  { id: 'duedate', name: 'Due date', custom: false, clauseNames: ['due', 'duedate'] },
+  {
+    id: 'customfield_10016',
+    name: 'Story Points',
+    custom: true,
+    clauseNames: ['cf[10016]', 'Story Points'],
+  },
+  { id: 'customfield_10020', name: 'Team', custom: true, clauseNames: ['cf[10020]', 'Team'] },
+  { id: 'customfield_10030', name: 'Team', custom: true, clauseNames: ['cf[10030]', 'Team'] },
+];
+
+const resolvers = {
+  field: async (name: string) => resolveField(fields, name),
+  user: async (user: string) => (user === 'jane@example.com' ? '5b10ac8d82e05b22cc7d4ef5' : user),
+};
+
+const jql = (query: JqlQuery) => buildJql(query, resolvers);
+
+describe('jqlValue', () => {
+  it('should quote strings and escape quotes and backslashes', () => {
+    assert.equal(jqlValue('In Progress'), '"In Progress"');
+    assert.equal(jqlValue('say "hi" \\ bye'), '"say \\"hi\\" \\\\ bye"');
+    assert.equal(jqlValue('x" OR project = "SECRET'), '"x\\" OR project = \\"SECRET"');
+    assert.equal(jqlValue(5), '5');
+  });
+
+  it('should pass function calls through', () => {
+    assert.equal(jqlValue(' currentUser() '), 'currentUser()');
+    assert.equal(jqlValue('membersOf("jira-users")'), 'membersOf("jira-users")');
+    assert.equal(jqlValue('not a function()x'), '"not a function()x"');
+  });
+});
+
+describe('buildJql', () => {
+  it('should combine criteria with AND', async () => {
+    assert.equal(
+      await jql({
+        project: 'PROJ',
+        status: ['To Do', 'In Progress'],
+        assignee: 'currentUser()',
+        labels: [' ', 'backend'],
+        order_by: 'updated desc, Story Points',
+      }),
+      'project = "PROJ" AND status in ("To Do", "In Progress") AND labels = "backend" AND ' +
+        'assignee = currentUser() ORDER BY updated DESC, cf[10016]',
+    );
+  });
+
+  it('should look up users and match unassigned issues with is EMPTY', async () => {
+    assert.equal(await jql({ assignee: 'unassigned' }), 'assignee is EMPTY');
+    assert.equal(
+      await jql({ assignee: ['jane@example.com', 'Unassigned'] }),
+      '(assignee = "5b10ac8d82e05b22cc7d4ef5" OR assignee is EMPTY)',
+    );
+  });
+
+  it('should normalize dates', async () => {
+    assert.equal(
+      await jql({
+        created: { after: '-7d', before: 'startOfWeek()' },
+        due: { after: '2024-03-01', before: '2024-03-05T10:30:45+02:00' },
+      }),
+      'created >= -7d AND created < startOfWeek() AND ' +
+        'duedate >= "2024-03-01" AND duedate < "2024-03-05 08:30"',
+    );
+    await assert.rejects(jql({ updated: { after: 'last tuesday' } }), /Invalid updated.after date/);
+  });
+
+  it('should compile sprints, custom fields and empty values', async () => {
+    assert.equal(await jql({ sprint: 'open' }), 'sprint in openSprints()');
+    assert.equal(await jql({ sprint: 42 }), 'sprint = 42');
+    assert.equal(
+      await jql({ fields: { 'Story Points': [3, 5], duedate: null } }),
+      'cf[10016] in (3, 5) AND due is EMPTY',
+    );
+  });
+
+  it('should reject empty queries and ambiguous field names', async () => {
+    await assert.rejects(jql({ project: [] }), /query has no criteria/);
+    await assert.rejects(
+      jql({ fields: { Team: 'Core' } }),
+      /Several fields are named "Team", use one of their IDs instead: customfield_10020, customfield_10030/,
+    );
+  });
+});
+
+describe('parseJqlQuery', () => {
+  it('should accept JSON and reject unknown criteria', () => {
+    assert.deepEqual(parseJqlQuery('{"project": "PROJ"}'), { project: 'PROJ' });
+    assert.throws(() => parseJqlQuery({ projects: 'PROJ' }), /Unknown query criteria: projects/);
+    assert.throws(() => parseJqlQuery('[1]'), /query must be an object/);
+  });
+});
+
+describe('combineJql', () => {
+  it('should parenthesize conditions and keep the first ORDER BY', () => {
+    assert.equal(
+      combineJql('project = A OR project = B order by rank', undefined, 'sprint in openSprints()'),
+      '(project = A OR project = B) AND (sprint in openSprints()) ORDER BY rank',
+    );
+    assert.equal(combineJql(' ', 'status = Done'), 'status = Done');
+    assert.equal(combineJql('ORDER BY created DESC'), 'ORDER BY created DESC');
+  });
+});
+
+describe('findField', () => {
+  it('should find fields by ID, display name or clause name', () => {
+    assert.equal(findField(fields, 'CUSTOMFIELD_10016').name, 'Story Points');
+    assert.equal(findField(fields, ' story points ').id, 'customfield_10016');
+    assert.equal(findField(fields, 'due').id, 'duedate');
+    assert.equal(resolveField(fields, 'customfield_10020'), 'cf[10020]');
+  });
+
+  it('should suggest similar fields for unknown names', () => {
+    assert.throws(
+      () => findField(fields, 'story'),
+      /Unknown field "story". Similar fields: Story Points \(customfield_10016\)\./,
+    );
+  });
+});
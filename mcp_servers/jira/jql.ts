@@ -0,0 +1,282 @@
+/** A date range; values are dates, relative offsets like `-7d` or JQL functions. */
+export interface JqlDateRange {
+  /** Inclusive lower bound. */
+  after?: string;
+  /** Exclusive upper bound. */
+  before?: string;
+}
+
+type OneOrMany = string | string[];
+type FieldValue = string | number | boolean | null | (string | number)[];
+
+/** Structured search criteria that compile into JQL. All criteria must match. */
+export interface JqlQuery {
+  project?: OneOrMany;
+  issue_type?: OneOrMany;
+  status?: OneOrMany;
+  /** 'To Do', 'In Progress' or 'Done'. */
+  status_category?: OneOrMany;
+  /** Account ID, e-mail, display name, `currentUser()` or `unassigned`. */
+  assignee?: OneOrMany;
+  reporter?: OneOrMany;
+  priority?: OneOrMany;
+  /** Issues with any of these labels. */
+  labels?: OneOrMany;
+  /** Sprint ID or name, or `open`, `future` or `closed`. */
+  sprint?: string | number;
+  /** Parent or epic issue key. */
+  parent?: string;
+  /** Full-text search in summary, description and comments. */
+  text?: string;
+  created?: JqlDateRange;
+  updated?: JqlDateRange;
+  due?: JqlDateRange;
+  resolved?: JqlDateRange;
+  /** Other fields by ID or name, e.g. `{"Story Points": 5}`. `null` matches empty fields. */
+  fields?: Record<string, FieldValue>;
+  /** Sort order, e.g. `updated DESC` or `priority DESC, created ASC`. */
+  order_by?: string;
+}
+
+/** Looks up the names the compiled JQL refers to. */
+export interface JqlResolvers {
+  /** Field ID or display name to JQL clause name. */
+  field(name: string): Promise<string>;
+  /** User reference to account ID. */
+  user(user: string): Promise<string>;
+}
+
+const QUERY_KEYS = new Set([
+  'project',
+  'issue_type',
+  'status',
+  'status_category',
+  'assignee',
+  'reporter',
+  'priority',
+  'labels',
+  'sprint',
+  'parent',
+  'text',
+  'created',
+  'updated',
+  'due',
+  'resolved',
+  'fields',
+  'order_by',
+]);
+
+const DATE_FIELDS = {
+  created: 'created',
+  updated: 'updated',
+  due: 'duedate',
+  resolved: 'resolved',
+};
+const SPRINT_FUNCTIONS: Record<string, string> = {
+  open: 'openSprints()',
+  active: 'openSprints()',
+  future: 'futureSprints()',
+  closed: 'closedSprints()',
+};
+const EMPTY_USERS = ['unassigned', 'none', 'empty'];
+const FUNCTION_CALL = /^[A-Za-z]+\([^()]*\)$/;
+const RELATIVE_DATE = /^[-+]?\d+[wdhm]$/;
+
+/** Quotes a value for JQL, leaving function calls such as `currentUser()` as they are. */
+export function jqlValue(value: string | number | boolean): string {
+  if (typeof value !== 'string') {
+    return String(value);
+  }
+  if (FUNCTION_CALL.test(value.trim())) {
+    return value.trim();
+  }
+  return `"${value.replace(/(["\\])/g, '\\$1')}"`;
+}
+
+function list(value: OneOrMany | undefined): string[] {
+  const values = Array.isArray(value) ? value : value === undefined ? [] : [value];
+  return values.map((item) => String(item).trim()).filter((item) => item !== '');
+}
+
+function equalsAny(clause: string, values: (string | number)[]) {
+  return values.length === 1
+    ? `${clause} = ${jqlValue(values[0])}`
+    : `${clause} in (${values.map(jqlValue).join(', ')})`;
+}
+
+function dateValue(value: string, name: string) {
+  const trimmed = value.trim();
+  if (RELATIVE_DATE.test(trimmed) || FUNCTION_CALL.test(trimmed)) {
+    return trimmed;
+  }
+  if (/^\d{4}-\d{2}-\d{2}$/.test(trimmed)) {
+    return `"${trimmed}"`;
+  }
+  const time = Date.parse(trimmed);
+  if (Number.isNaN(time)) {
+    throw new Error(
+      `Invalid ${name} date "${value}". Use YYYY-MM-DD, an ISO 8601 timestamp, ` +
+        "a relative offset like '-7d' or a JQL function like 'startOfWeek()'.",
+    );
+  }
+  // JQL dates have minute precision and no offset; Jira reads them in the
+  // user's time zone, so timestamps are passed on in UTC.
+  return `"${new Date(time).toISOString().slice(0, 16).replace('T', ' ')}"`;
+}
+
+async function userClause(
+  clause: string,
+  users: string[],
+  resolve: JqlResolvers['user'],
+): Promise<string> {
+  const empty = users.some((user) => EMPTY_USERS.includes(user.toLowerCase()));
+  const others = users.filter((user) => !EMPTY_USERS.includes(user.toLowerCase()));
+  const ids = await Promise.all(
+    others.map((user) => (FUNCTION_CALL.test(user) ? user : resolve(user))),
+  );
+  const clauses = ids.length > 0 ? [equalsAny(clause, ids)] : [];
+  if (empty) {
+    clauses.push(`${clause} is EMPTY`);
+  }
+  return clauses.length > 1 ? `(${clauses.join(' OR ')})` : clauses[0];
+}
+
+function fieldClause(clause: string, value: FieldValue) {
+  if (value === null) {
+    return `${clause} is EMPTY`;
+  }
+  if (Array.isArray(value)) {
+    if (value.length === 0) {
+      throw new Error(`No values given for ${clause}`);
+    }
+    return equalsAny(clause, value);
+  }
+  return `${clause} = ${jqlValue(value)}`;
+}
+
+async function orderByClause(orderBy: string, resolve: JqlResolvers['field']) {
+  const keys = await Promise.all(
+    orderBy
+      .split(',')
+      .map((part) => part.trim())
+      .filter((part) => part !== '')
+      .map(async (part) => {
+        const match = /^(.+?)(?:\s+(asc|desc))?$/i.exec(part);
+        const field = match?.[1] ?? part;
+        const direction = match?.[2] ? ` ${match[2].toUpperCase()}` : '';
+        return `${await resolve(field.replace(/^"|"$/g, ''))}${direction}`;
+      }),
+  );
+  return keys.length > 0 ? ` ORDER BY ${keys.join(', ')}` : '';
+}
+
+/** Parses the `query` argument, given as an object or a JSON string. */
+export function parseJqlQuery(value: unknown): JqlQuery {
+  let parsed = value;
+  if (typeof value === 'string') {
+    try {
+      parsed = JSON.parse(value);
+    } catch (error) {
+      throw new Error(`Invalid JSON in query: ${(error as Error).message}`);
+    }
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('query must be an object');
+  }
+  const unknown = Object.keys(parsed).filter((key) => !QUERY_KEYS.has(key));
+  if (unknown.length > 0) {
+    throw new Error(
+      `Unknown query criteria: ${unknown.join(', ')}. ` +
+        `Supported: ${[...QUERY_KEYS].join(', ')}. Use fields for other fields.`,
+    );
+  }
+  return parsed as JqlQuery;
+}
+
+/**
+ * Compiles structured criteria into JQL, e.g. `{"project": "PROJ",
+ * "status": ["To Do", "In Progress"], "assignee": "currentUser()"}` into
+ * `project = "PROJ" AND status in ("To Do", "In Progress") AND assignee = currentUser()`.
+ */
+export async function buildJql(query: JqlQuery, resolvers: JqlResolvers): Promise<string> {
+  const clauses: string[] = [];
+
+  const simple: [keyof JqlQuery, string][] = [
+    ['project', 'project'],
+    ['issue_type', 'issuetype'],
+    ['status', 'status'],
+    ['status_category', 'statusCategory'],
+    ['priority', 'priority'],
+    ['labels', 'labels'],
+  ];
+  for (const [key, clause] of simple) {
+    const values = list(query[key] as OneOrMany | undefined);
+    if (values.length > 0) {
+      clauses.push(equalsAny(clause, values));
+    }
+  }
+
+  for (const key of ['assignee', 'reporter'] as const) {
+    const users = list(query[key]);
+    if (users.length > 0) {
+      clauses.push(await userClause(key, users, resolvers.user));
+    }
+  }
+
+  if (query.sprint !== undefined && String(query.sprint).trim() !== '') {
+    const sprint = String(query.sprint).trim();
+    const sprintFunction = SPRINT_FUNCTIONS[sprint.toLowerCase()];
+    if (sprintFunction) {
+      clauses.push(`sprint in ${sprintFunction}`);
+    } else {
+      clauses.push(`sprint = ${/^\d+$/.test(sprint) ? sprint : jqlValue(sprint)}`);
+    }
+  }
+
+  if (query.parent?.trim()) {
+    clauses.push(`parent = ${jqlValue(query.parent.trim())}`);
+  }
+
+  if (query.text?.trim()) {
+    clauses.push(`text ~ ${jqlValue(query.text.trim())}`);
+  }
+
+  for (const [key, clause] of Object.entries(DATE_FIELDS)) {
+    const range = query[key as keyof typeof DATE_FIELDS];
+    if (range?.after) {
+      clauses.push(`${clause} >= ${dateValue(range.after, `${key}.after`)}`);
+    }
+    if (range?.before) {
+      clauses.push(`${clause} < ${dateValue(range.before, `${key}.before`)}`);
+    }
+  }
+
+  for (const [name, value] of Object.entries(query.fields ?? {})) {
+    clauses.push(fieldClause(await resolvers.field(name), value));
+  }
+
+  const orderBy = query.order_by ? await orderByClause(query.order_by, resolvers.field) : '';
+  if (clauses.length === 0 && !orderBy) {
+    throw new Error('query has no criteria');
+  }
+  return `${clauses.join(' AND ')}${orderBy}`;
+}
+
+function splitOrderBy(jql: string) {
+  const match = /^(.*?)\s*\bORDER\s+BY\s+(.+)$/is.exec(jql.trim());
+  return match
+    ? { where: match[1].trim(), orderBy: match[2].trim() }
+    : { where: jql.trim(), orderBy: '' };
+}
+
+/**
+ * ANDs several JQL queries together. Each condition is parenthesized so `OR`s
+ * keep their meaning, and the first `ORDER BY` is kept.
+ */
+export function combineJql(...queries: (string | undefined)[]): string {
+  const parts = queries.filter((jql): jql is string => Boolean(jql?.trim())).map(splitOrderBy);
+  const wheres = parts.map((part) => part.where).filter((where) => where !== '');
+  const orderBy = parts.find((part) => part.orderBy)?.orderBy;
+  const where = wheres.length === 1 ? wheres[0] : wheres.map((w) => `(${w})`).join(' AND ');
+  return `${where}${orderBy ? `${where ? ' ' : ''}ORDER BY ${orderBy}` : ''}`;
+}
@@ -0,0 +1,89 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import { JiraSite, getAccessibleSites, selectSite } from './sites.js';
+
+const site = (id: string, name: string, url: string): JiraSite => ({
+  id,
+  name,
+  url,
+  scopes: ['read:jira-work'],
+  avatarUrl: '',
+});
+
+const sites = [
+  site('a1b2', 'Acme', 'https://acme.atlassian.net'),
+  site('c3d4', 'Acme Labs', 'https://acme-labs.atlassian.net'),
+  site('e5f6', 'Acme Europe', 'https://acme-eu.atlassian.net'),
+];
+
+describe('selectSite', () => {
+  afterEach(() => {
+    delete process.env.JIRA_DEFAULT_SITE;
+  });
+
+  it('should select by cloud ID, URL, hostname or subdomain', () => {
+    assert.equal(selectSite(sites, { cloudId: 'e5f6', site: 'acme-labs' }).id, 'e5f6');
+    assert.equal(selectSite(sites, { site: 'https://acme-labs.atlassian.net/jira' }).id, 'c3d4');
+    assert.equal(selectSite(sites, { site: 'ACME-EU.atlassian.net' }).id, 'e5f6');
+    assert.equal(selectSite(sites, { site: 'acme' }).id, 'a1b2');
+    assert.equal(selectSite(sites, { site: 'acme labs' }).id, 'c3d4');
+  });
+
+  it('should fall back to JIRA_DEFAULT_SITE, then the first site', () => {
+    assert.equal(selectSite(sites).id, 'a1b2');
+    process.env.JIRA_DEFAULT_SITE = 'acme-labs';
+    assert.equal(selectSite(sites).id, 'c3d4');
+  });
+
+  it('should reject unknown and ambiguous choices', () => {
+    assert.throws(
+      () => selectSite(sites, { cloudId: 'zzzz' }),
+      /No accessible Jira site has cloudId "zzzz"/,
+    );
+    assert.throws(() => selectSite(sites, { site: 'globex' }), /Unknown Jira site "globex"/);
+    const twins = [sites[0], site('g7h8', 'Acme', 'https://acme-us.atlassian.net')];
+    assert.throws(
+      () => selectSite(twins, { site: 'Acme' }),
+      /Several Jira sites match "Acme".*cloudId a1b2.*cloudId g7h8/,
+    );
+    assert.equal(selectSite(twins, { site: 'acme-us.atlassian.net' }).id, 'g7h8');
+  });
+});
+
+describe('getAccessibleSites', () => {
+  beforeEach(() => {
+    mock.timers.enable({ apis: ['Date'] });
+  });
+
+  afterEach(() => {
+    mock.timers.reset();
+  });
+
+  it('should cache sites per token and share concurrent lookups', async () => {
+    const load = mock.fn(async (token: string) => [
+      site(token, token, `https://${token}.atlassian.net`),
+    ]);
+    const [first, concurrent] = await Promise.all([
+      getAccessibleSites('token-1', false, load),
+      getAccessibleSites('token-1', false, load),
+    ]);
+    assert.equal(first, concurrent);
+    assert.equal((await getAccessibleSites('token-2', false, load))[0].id, 'token-2');
+    assert.equal(await getAccessibleSites('token-1', false, load), first);
+    assert.equal(load.mock.callCount(), 2);
+  });
+
+  it('should load again after a refresh or once the cache expires', async () => {
+    const load = mock.fn(async () => sites);
+    await getAccessibleSites('token-3', false, load);
+    await getAccessibleSites('token-3', true, load);
+    assert.equal(load.mock.callCount(), 2);
+
+    mock.timers.tick(10 * 60 * 1000 - 1);
+    await getAccessibleSites('token-3', false, load);
+    assert.equal(load.mock.callCount(), 2);
+    mock.timers.tick(1);
+    await getAccessibleSites('token-3', false, load);
+    assert.equal(load.mock.callCount(), 3);
+  });
+});
@@ -0,0 +1,154 @@
+import { createHash } from 'node:crypto';
+import fetch from 'node-fetch';
+
+const ACCESSIBLE_RESOURCES_URL = 'https://api.atlassian.com/oauth/token/accessible-resources';
+
+/** An Atlassian site the token has access to, as returned by accessible-resources. */
+export interface JiraSite {
+  id: string;
+  name: string;
+  url: string;
+  scopes: string[];
+  avatarUrl: string;
+}
+
+/** Tool arguments that select the site a call goes to. */
+export interface SiteSelector {
+  site?: string;
+  cloudId?: string;
+}
+
+/** Schema properties for `SiteSelector`, shared by every Jira tool. */
+export const siteProperties = {
+  site: {
+    type: 'string',
+    description:
+      "Jira site to use when the token has access to several: its name, URL or hostname (e.g. 'acme' or 'acme.atlassian.net'). " +
+      'Defaults to JIRA_DEFAULT_SITE, then the first accessible site. Use jira_list_sites to see the options.',
+  },
+  cloudId: {
+    type: 'string',
+    description: 'Cloud ID of the Jira site to use. Takes precedence over site.',
+  },
+} as const;
+
+const SITES_TTL_MS = Number(process.env.JIRA_SITES_CACHE_TTL_MS) || 10 * 60 * 1000;
+const MAX_CACHED_TOKENS = 1000;
+
+const cache = new Map<string, { sites: JiraSite[]; expiresAt: number }>();
+const inflight = new Map<string, Promise<JiraSite[]>>();
+
+// Tokens are cached by hash so they are not kept as plain map keys.
+function tokenKey(authToken: string) {
+  return createHash('sha256').update(authToken).digest('base64url');
+}
+
+async function fetchSites(authToken: string): Promise<JiraSite[]> {
+  const response = await fetch(ACCESSIBLE_RESOURCES_URL, {
+    headers: {
+      Authorization: `Bearer ${authToken}`,
+      Accept: 'application/json',
+    },
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Failed to fetch accessible resources (${response.status}): ${errorText}`);
+  }
+
+  const sites = (await response.json()) as JiraSite[];
+  if (!sites || sites.length === 0) {
+    throw new Error('No accessible Jira resources found for this user');
+  }
+  return sites;
+}
+
+/**
+ * The sites the token can access. Results are cached per token, and
+ * concurrent lookups for the same token share one request.
+ */
+export async function getAccessibleSites(
+  authToken: string,
+  refresh = false,
+  load: (authToken: string) => Promise<JiraSite[]> = fetchSites,
+): Promise<JiraSite[]> {
+  const key = tokenKey(authToken);
+  const cached = cache.get(key);
+  if (!refresh && cached && cached.expiresAt > Date.now()) {
+    return cached.sites;
+  }
+
+  let pending = inflight.get(key);
+  if (!pending) {
+    pending = load(authToken)
+      .then((sites) => {
+        cache.delete(key);
+        cache.set(key, { sites, expiresAt: Date.now() + SITES_TTL_MS });
+        // Map order is insertion order, so the first entry is the oldest.
+        for (const oldest of cache.keys()) {
+          if (cache.size <= MAX_CACHED_TOKENS) {
+            break;
+          }
+          cache.delete(oldest);
+        }
+        return sites;
+      })
+      .finally(() => inflight.delete(key));
+    inflight.set(key, pending);
+  }
+  return pending;
+}
+
+function hostname(url: string) {
+  try {
+    return new URL(url.includes('://') ? url : `https://${url}`).hostname.toLowerCase();
+  } catch {
+    return undefined;
+  }
+}
+
+function matchesSite(site: JiraSite, value: string) {
+  const wanted = value.trim().toLowerCase();
+  const host = hostname(site.url);
+  return (
+    site.id === value.trim() ||
+    site.name.toLowerCase() === wanted ||
+    (host !== undefined && (host === hostname(wanted) || host.split('.')[0] === wanted))
+  );
+}
+
+function describeSites(sites: JiraSite[]) {
+  return sites.map((site) => `${site.name} (${site.url}, cloudId ${site.id})`).join(', ');
+}
+
+/**
+ * Picks the site for a call: an explicit `cloudId`, then `site`, then
+ * `JIRA_DEFAULT_SITE`, and otherwise the first accessible site. A `site`
+ * that matches several sites is an error rather than a guess.
+ */
+export function selectSite(sites: JiraSite[], selector: SiteSelector = {}): JiraSite {
+  if (selector.cloudId) {
+    const site = sites.find((candidate) => candidate.id === selector.cloudId);
+    if (!site) {
+      throw new Error(
+        `No accessible Jira site has cloudId "${selector.cloudId}". Accessible sites: ${describeSites(sites)}`,
+      );
+    }
+    return site;
+  }
+
+  const wanted = selector.site || process.env.JIRA_DEFAULT_SITE;
+  if (!wanted) {
+    return sites[0];
+  }
+  const matches = sites.filter((candidate) => matchesSite(candidate, wanted));
+  if (matches.length === 0) {
+    throw new Error(`Unknown Jira site "${wanted}". Accessible sites: ${describeSites(sites)}`);
+  }
+  if (matches.length > 1) {
+    throw new Error(
+      `Several Jira sites match "${wanted}", pass the URL or cloudId of one of them: ${describeSites(matches)}`,
+    );
+  }
+  return matches[0];
+}
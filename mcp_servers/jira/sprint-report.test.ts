@@ -0,0 +1,145 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { JiraSprint, SprintIssue, computeSprintReport } from './sprint-report.js';
+
+const STORY_POINTS = { fieldId: 'customfield_10016', name: 'Story Points' };
+
+const closedSprint: JiraSprint = {
+  id: 5,
+  name: 'Sprint 5',
+  state: 'closed',
+  startDate: '2026-10-01T09:00:00.000Z',
+  endDate: '2026-10-14T17:00:00.000Z',
+  completeDate: '2026-10-14T18:00:00.000Z',
+};
+
+function issue(
+  key: string,
+  points: number | null,
+  options: {
+    doneAt?: string;
+    sprint?: { id: number; name: string };
+    histories?: NonNullable<SprintIssue['changelog']>['histories'];
+  } = {},
+): SprintIssue {
+  return {
+    key,
+    fields: {
+      status: options.doneAt
+        ? { name: 'Done', statusCategory: { key: 'done' } }
+        : { name: 'In Progress', statusCategory: { key: 'indeterminate' } },
+      statuscategorychangedate: options.doneAt,
+      sprint: options.sprint ?? { id: 5, name: 'Sprint 5' },
+      customfield_10016: points,
+    },
+    changelog: { histories: options.histories ?? [] },
+  };
+}
+
+describe('computeSprintReport', () => {
+  it('should separate committed work from work added during the sprint', () => {
+    const report = computeSprintReport(
+      closedSprint,
+      [
+        issue('A-1', 5, { doneAt: '2026-10-10T10:00:00.000Z' }),
+        issue('A-2', 2, {
+          doneAt: '2026-10-12T10:00:00.000Z',
+          histories: [
+            {
+              created: '2026-10-03T10:00:00.000Z',
+              items: [
+                {
+                  field: 'Sprint',
+                  from: '4',
+                  fromString: 'Sprint 4',
+                  to: '4, 5',
+                  toString: 'Sprint 4, Sprint 5',
+                },
+              ],
+            },
+          ],
+        }),
+        issue('A-3', 8),
+      ],
+      STORY_POINTS,
+    );
+
+    assert.deepEqual(report.committed, { issues: 2, points: 13 });
+    assert.deepEqual(report.completed, { issues: 2, points: 7 });
+    assert.deepEqual(report.not_completed, { issues: 1, points: 8, keys: ['A-3'] });
+    assert.deepEqual(report.scope_change.added, { issues: 1, points: 2, keys: ['A-2'] });
+    assert.equal(report.completion_ratio, 0.54);
+  });
+
+  it('should count committed points as estimated when the sprint started', () => {
+    const report = computeSprintReport(
+      closedSprint,
+      [
+        issue('A-1', 5, {
+          doneAt: '2026-10-10T10:00:00.000Z',
+          histories: [
+            {
+              created: '2026-10-05T10:00:00.000Z',
+              items: [
+                {
+                  field: 'Story Points',
+                  fieldId: 'customfield_10016',
+                  from: null,
+                  fromString: '3',
+                  to: null,
+                  toString: '5',
+                },
+              ],
+            },
+          ],
+        }),
+      ],
+      STORY_POINTS,
+    );
+
+    assert.deepEqual(report.committed, { issues: 1, points: 3 });
+    assert.deepEqual(report.completed, { issues: 1, points: 5 });
+    assert.deepEqual(report.scope_change.estimate_changes, {
+      points: 2,
+      issues: [{ key: 'A-1', from: 3, to: 5 }],
+    });
+  });
+
+  it('should report unfinished issues of a closed sprint as carried over', () => {
+    const report = computeSprintReport(
+      closedSprint,
+      [
+        issue('A-1', 3, { sprint: { id: 6, name: 'Sprint 6' } }),
+        issue('A-2', 1, {
+          doneAt: '2026-10-16T10:00:00.000Z',
+          sprint: { id: 6, name: 'Sprint 6' },
+        }),
+      ],
+      STORY_POINTS,
+    );
+
+    assert.deepEqual(
+      report.issues.map(({ key, completed, carried_over_to }) => ({
+        key,
+        completed,
+        carried_over_to,
+      })),
+      [
+        { key: 'A-1', completed: false, carried_over_to: 'Sprint 6' },
+        { key: 'A-2', completed: false, carried_over_to: 'Sprint 6' },
+      ],
+    );
+  });
+
+  it('should count issues when there is no estimation field', () => {
+    const report = computeSprintReport(
+      closedSprint,
+      [issue('A-1', null, { doneAt: '2026-10-10T10:00:00.000Z' }), issue('A-2', null)],
+      {},
+    );
+
+    assert.equal(report.estimation, 'issue count');
+    assert.deepEqual(report.committed, { issues: 2, points: 2 });
+    assert.deepEqual(report.completed, { issues: 1, points: 1 });
+  });
+});
@@ -0,0 +1,251 @@
+/** A sprint as returned by /rest/agile/1.0/sprint/{id}. */
+export interface JiraSprint {
+  id: number;
+  name: string;
+  state: 'future' | 'active' | 'closed';
+  goal?: string;
+  startDate?: string;
+  endDate?: string;
+  completeDate?: string;
+  originBoardId?: number;
+}
+
+interface ChangelogItem {
+  field: string;
+  fieldId?: string;
+  from: string | null;
+  fromString: string | null;
+  to: string | null;
+  toString: string | null;
+}
+
+/** An issue from the agile sprint issue endpoint, with its changelog expanded. */
+export interface SprintIssue {
+  key: string;
+  fields: {
+    summary?: string;
+    status?: { name: string; statusCategory?: { key: string } };
+    statuscategorychangedate?: string;
+    sprint?: { id: number; name: string } | null;
+    [field: string]: unknown;
+  };
+  changelog?: {
+    histories: { created: string; items: ChangelogItem[] }[];
+  };
+}
+
+/** Where story points come from; without a field, issues are counted. */
+export interface Estimation {
+  fieldId?: string;
+  name?: string;
+}
+
+export interface SprintReportIssue {
+  key: string;
+  summary?: string;
+  status?: string;
+  points: number | null;
+  committed: boolean;
+  added_during_sprint: boolean;
+  completed: boolean;
+  carried_over_to?: string;
+}
+
+interface Tally {
+  issues: number;
+  points: number;
+}
+
+export interface SprintReport {
+  sprint: Pick<
+    JiraSprint,
+    'id' | 'name' | 'state' | 'goal' | 'startDate' | 'endDate' | 'completeDate'
+  >;
+  estimation: string;
+  committed: Tally;
+  completed: Tally;
+  not_completed: Tally & { keys: string[] };
+  scope_change: {
+    added: Tally & { keys: string[] };
+    estimate_changes: {
+      points: number;
+      issues: { key: string; from: number | null; to: number | null }[];
+    };
+  };
+  /** Completed points as a share of committed points, when anything was committed. */
+  completion_ratio: number | null;
+  issues: SprintReportIssue[];
+  notes: string[];
+}
+
+function toPoints(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') {
+    return null;
+  }
+  const points = Number(value);
+  return Number.isFinite(points) ? points : null;
+}
+
+function time(value: string | undefined) {
+  return value ? Date.parse(value) : NaN;
+}
+
+function sprintIds(value: string | null) {
+  return (value ?? '')
+    .split(',')
+    .map((id) => id.trim())
+    .filter((id) => id !== '');
+}
+
+// Changelog entries after `since`, newest first.
+function historiesSince(issue: SprintIssue, since: number) {
+  return (issue.changelog?.histories ?? [])
+    .filter((history) => time(history.created) > since)
+    .sort((a, b) => time(b.created) - time(a.created));
+}
+
+function isEstimateItem(item: ChangelogItem, estimation: Estimation) {
+  return (
+    (estimation.fieldId !== undefined && item.fieldId === estimation.fieldId) ||
+    (estimation.name !== undefined && item.field.toLowerCase() === estimation.name.toLowerCase())
+  );
+}
+
+// The estimate at a point in time, found by undoing the later changes.
+function pointsAt(issue: SprintIssue, estimation: Estimation, at: number): number | null {
+  if (!estimation.fieldId) {
+    return 1;
+  }
+  let points = toPoints(issue.fields[estimation.fieldId]);
+  for (const history of historiesSince(issue, at)) {
+    for (const item of history.items) {
+      if (isEstimateItem(item, estimation)) {
+        points = toPoints(item.fromString);
+      }
+    }
+  }
+  return points;
+}
+
+function addedToSprintAfter(issue: SprintIssue, sprintId: string, since: number) {
+  return historiesSince(issue, since).some((history) =>
+    history.items.some(
+      (item) =>
+        item.field.toLowerCase() === 'sprint' &&
+        sprintIds(item.to).includes(sprintId) &&
+        !sprintIds(item.from).includes(sprintId),
+    ),
+  );
+}
+
+const sum = (values: (number | null)[]) =>
+  values.reduce<number>((total, value) => total + (value ?? 0), 0);
+
+/**
+ * Computes a sprint report from the sprint's issues and their changelogs:
+ * committed and completed points, issues added after the start, estimate
+ * changes during the sprint and the issues that were not completed.
+ */
+export function computeSprintReport(
+  sprint: JiraSprint,
+  issues: SprintIssue[],
+  estimation: Estimation,
+): SprintReport {
+  const sprintId = String(sprint.id);
+  const start = time(sprint.startDate);
+  const end = sprint.state === 'closed' ? time(sprint.completeDate ?? sprint.endDate) : Date.now();
+  const notes: string[] = [];
+  if (Number.isNaN(start)) {
+    notes.push('The sprint has not started, so every issue counts as committed.');
+  }
+  notes.push(
+    'Issues removed from the sprint before it ended are not part of the report, ' +
+      'because Jira no longer lists them for the sprint.',
+  );
+
+  const rows = issues.map((issue) => {
+    const addedDuringSprint = !Number.isNaN(start) && addedToSprintAfter(issue, sprintId, start);
+    const done = issue.fields.status?.statusCategory?.key === 'done';
+    const doneAt = time(issue.fields.statuscategorychangedate);
+    // Issues finished after a closed sprint ended were carried over.
+    const completed = done && (Number.isNaN(doneAt) || doneAt <= end);
+    const nextSprint = issue.fields.sprint;
+    const pointsAtEnd = pointsAt(issue, estimation, end);
+    return {
+      issue,
+      pointsAtStart: Number.isNaN(start) ? null : pointsAt(issue, estimation, start),
+      pointsAtEnd,
+      row: {
+        key: issue.key,
+        summary: issue.fields.summary,
+        status: issue.fields.status?.name,
+        points: pointsAtEnd,
+        committed: !addedDuringSprint,
+        added_during_sprint: addedDuringSprint,
+        completed,
+        ...(sprint.state === 'closed' &&
+        !completed &&
+        nextSprint &&
+        String(nextSprint.id) !== sprintId
+          ? { carried_over_to: nextSprint.name }
+          : {}),
+      } satisfies SprintReportIssue,
+    };
+  });
+
+  const committed = rows.filter(({ row }) => row.committed);
+  const completed = rows.filter(({ row }) => row.completed);
+  const notCompleted = rows.filter(({ row }) => !row.completed);
+  const added = rows.filter(({ row }) => row.added_during_sprint);
+  const estimateChanges = committed
+    .filter(({ pointsAtStart, pointsAtEnd }) => pointsAtStart !== pointsAtEnd)
+    .map(({ issue, pointsAtStart, pointsAtEnd }) => ({
+      key: issue.key,
+      from: pointsAtStart,
+      to: pointsAtEnd,
+    }));
+
+  const committedPoints = sum(
+    committed.map(({ pointsAtStart, pointsAtEnd }) =>
+      Number.isNaN(start) ? pointsAtEnd : pointsAtStart,
+    ),
+  );
+  const completedPoints = sum(completed.map(({ pointsAtEnd }) => pointsAtEnd));
+
+  return {
+    sprint: {
+      id: sprint.id,
+      name: sprint.name,
+      state: sprint.state,
+      goal: sprint.goal,
+      startDate: sprint.startDate,
+      endDate: sprint.endDate,
+      completeDate: sprint.completeDate,
+    },
+    estimation: estimation.fieldId
+      ? `${estimation.name ?? estimation.fieldId} (${estimation.fieldId})`
+      : 'issue count',
+    committed: { issues: committed.length, points: committedPoints },
+    completed: { issues: completed.length, points: completedPoints },
+    not_completed: {
+      issues: notCompleted.length,
+      points: sum(notCompleted.map(({ pointsAtEnd }) => pointsAtEnd)),
+      keys: notCompleted.map(({ issue }) => issue.key),
+    },
+    scope_change: {
+      added: {
+        issues: added.length,
+        points: sum(added.map(({ pointsAtEnd }) => pointsAtEnd)),
+        keys: added.map(({ issue }) => issue.key),
+      },
+      estimate_changes: {
+        points: sum(estimateChanges.map(({ from, to }) => (to ?? 0) - (from ?? 0))),
+        issues: estimateChanges,
+      },
+    },
+    completion_ratio:
+      committedPoints > 0 ? Math.round((completedPoints / committedPoints) * 100) / 100 : null,
+    issues: rows.map(({ row }) => row),
+    notes,
+  };
+}
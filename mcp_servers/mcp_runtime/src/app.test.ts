@@ -0,0 +1,277 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AsyncLocalStorage } from 'node:async_hooks';
+import type { AddressInfo } from 'node:net';
+import type { Server as HttpServer } from 'node:http';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { CallToolRequestSchema, ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { createMcpApp, type McpApp } from './app.js';
+import { UnauthorizedError } from './errors.js';
+import type { McpRuntimeOptions } from './types.js';
+
+interface SseEvent {
+  id?: string;
+  data: string;
+}
+
+const ACCEPT = 'application/json, text/event-stream';
+
+// Lets the test decide when the `slow` tool returns.
+let finishSlowTool: () => void = () => {};
+
+function createTestServer(asyncLocalStorage: AsyncLocalStorage<{ user: string }>) {
+  const server = new Server({ name: 'test', version: '1.0.0' }, { capabilities: { tools: {} } });
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({
+    tools: [{ name: 'slow', inputSchema: { type: 'object' } }],
+  }));
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+    const user = asyncLocalStorage.getStore()?.user;
+    await extra.sendNotification({
+      method: 'notifications/progress',
+      params: { progressToken: request.params._meta?.progressToken ?? 0, progress: 1 },
+    });
+    await new Promise<void>((resolve) => {
+      finishSlowTool = resolve;
+    });
+    return { content: [{ type: 'text', text: `done for ${user}` }] };
+  });
+  return server;
+}
+
+async function listen(
+  stateful: McpRuntimeOptions<{ user: string }>['stateful'],
+): Promise<{ mcpApp: McpApp; httpServer: HttpServer; url: string }> {
+  const asyncLocalStorage = new AsyncLocalStorage<{ user: string }>();
+  const mcpApp = createMcpApp({
+    name: 'test-mcp-server',
+    createServer: () => createTestServer(asyncLocalStorage),
+    asyncLocalStorage,
+    stateful,
+    extractContext: (req) => {
+      const user = req.headers['x-auth-token'] as string | undefined;
+      if (!user) {
+        throw new UnauthorizedError('Missing token');
+      }
+      return { user };
+    },
+  });
+  const httpServer = mcpApp.app.listen(0);
+  await new Promise((resolve) => httpServer.once('listening', resolve));
+  const { port } = httpServer.address() as AddressInfo;
+  return { mcpApp, httpServer, url: `http://127.0.0.1:${port}` };
+}
+
+async function stop({ mcpApp, httpServer }: { mcpApp: McpApp; httpServer: HttpServer }) {
+  await mcpApp.close();
+  httpServer.closeAllConnections();
+  await new Promise((resolve) => httpServer.close(resolve));
+}
+
+function post(
+  url: string,
+  body: unknown,
+  headers: Record<string, string> = {},
+  signal?: AbortSignal,
+) {
+  return fetch(`${url}/mcp`, {
+    method: 'POST',
+    headers: {
+      'content-type': 'application/json',
+      accept: ACCEPT,
+      'x-auth-token': 'alice',
+      ...headers,
+    },
+    body: JSON.stringify(body),
+    signal,
+  });
+}
+
+/** Reads server-sent events until `done` returns true or the stream ends. */
+async function readEvents(response: Response, done: (events: SseEvent[]) => boolean = () => false) {
+  assert.ok(response.body);
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  const events: SseEvent[] = [];
+  let buffer = '';
+  while (!done(events)) {
+    const { value, done: ended } = await reader.read();
+    if (ended) {
+      break;
+    }
+    buffer += decoder.decode(value, { stream: true });
+    let end: number;
+    while ((end = buffer.indexOf('\n\n')) !== -1) {
+      const event: SseEvent = { data: '' };
+      for (const line of buffer.slice(0, end).split('\n')) {
+        if (line.startsWith('id: ')) {
+          event.id = line.slice(4);
+        } else if (line.startsWith('data: ')) {
+          event.data += line.slice(6);
+        }
+      }
+      buffer = buffer.slice(end + 2);
+      if (event.data) {
+        events.push(event);
+      }
+    }
+  }
+  await reader.cancel().catch(() => {});
+  return events;
+}
+
+const initialize = {
+  jsonrpc: '2.0',
+  id: 0,
+  method: 'initialize',
+  params: {
+    protocolVersion: '2025-03-26',
+    capabilities: {},
+    clientInfo: { name: 'test-client', version: '1.0.0' },
+  },
+};
+
+const callSlowTool = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'tools/call',
+  params: { name: 'slow', arguments: {}, _meta: { progressToken: 'p1' } },
+};
+
+describe('stateless mode', () => {
+  let app: Awaited<ReturnType<typeof listen>>;
+  before(async () => {
+    app = await listen(false);
+  });
+  after(() => stop(app));
+
+  test('reports health and readiness', async () => {
+    const health = await fetch(`${app.url}/health`);
+    assert.equal(health.status, 200);
+    assert.deepEqual(
+      { ...(await health.json()), uptimeSeconds: 0 },
+      {
+        status: 'ok',
+        name: 'test-mcp-server',
+        uptimeSeconds: 0,
+        sseSessions: 0,
+        streamableSessions: 0,
+      },
+    );
+    assert.deepEqual(await (await fetch(`${app.url}/ready`)).json(), { ready: true });
+  });
+
+  test('answers requests without credentials with 401', async () => {
+    const response = await post(
+      app.url,
+      { jsonrpc: '2.0', id: 1, method: 'tools/list' },
+      { 'x-auth-token': '' },
+    );
+    assert.equal(response.status, 401);
+    assert.equal((await response.json()).error.message, 'Missing token');
+  });
+
+  test('serves requests without a session', async () => {
+    const response = await post(app.url, { jsonrpc: '2.0', id: 1, method: 'tools/list' });
+    assert.equal(response.status, 200);
+    const [event] = await readEvents(response, (events) => events.length > 0);
+    assert.equal(JSON.parse(event.data).result.tools[0].name, 'slow');
+  });
+
+  test('rejects session requests with 405', async () => {
+    assert.equal((await fetch(`${app.url}/mcp`)).status, 405);
+    assert.equal((await fetch(`${app.url}/mcp`, { method: 'DELETE' })).status, 405);
+  });
+});
+
+describe('stateful mode', () => {
+  let app: Awaited<ReturnType<typeof listen>>;
+  before(async () => {
+    app = await listen(true);
+  });
+  after(() => stop(app));
+
+  async function openSession() {
+    const response = await post(app.url, initialize);
+    assert.equal(response.status, 200);
+    const sessionId = response.headers.get('mcp-session-id');
+    assert.ok(sessionId);
+    await readEvents(response);
+    const initialized = await post(
+      app.url,
+      { jsonrpc: '2.0', method: 'notifications/initialized' },
+      { 'mcp-session-id': sessionId },
+    );
+    assert.equal(initialized.status, 202);
+    return sessionId;
+  }
+
+  test('requires a session for anything but initialize', async () => {
+    const response = await post(app.url, { jsonrpc: '2.0', id: 1, method: 'tools/list' });
+    assert.equal(response.status, 400);
+  });
+
+  test('answers unknown sessions with 404', async () => {
+    const response = await post(
+      app.url,
+      { jsonrpc: '2.0', id: 1, method: 'tools/list' },
+      { 'mcp-session-id': 'unknown' },
+    );
+    assert.equal(response.status, 404);
+  });
+
+  test('replays missed events to a client that reconnects with Last-Event-ID', async () => {
+    const sessionId = await openSession();
+
+    // Read the progress notification, then drop the connection mid-call.
+    const controller = new AbortController();
+    const call = await post(
+      app.url,
+      callSlowTool,
+      { 'mcp-session-id': sessionId },
+      controller.signal,
+    );
+    const [progress] = await readEvents(call, (events) => events.length > 0);
+    assert.equal(JSON.parse(progress.data).method, 'notifications/progress');
+    assert.ok(progress.id);
+    controller.abort();
+
+    finishSlowTool();
+
+    const resumed = await fetch(`${app.url}/mcp`, {
+      headers: {
+        accept: 'text/event-stream',
+        'x-auth-token': 'alice',
+        'mcp-session-id': sessionId,
+        'last-event-id': progress.id,
+      },
+    });
+    assert.equal(resumed.status, 200);
+    const events = await readEvents(resumed, (received) =>
+      received.some((event) => JSON.parse(event.data).id === 1),
+    );
+    const result = events
+      .map((event) => JSON.parse(event.data))
+      .find((message) => message.id === 1);
+    assert.deepEqual(result.result.content, [{ type: 'text', text: 'done for alice' }]);
+  });
+
+  test('ends the session on DELETE', async () => {
+    const sessionId = await openSession();
+    const health = async () => (await (await fetch(`${app.url}/health`)).json()).streamableSessions;
+    const before = await health();
+
+    const response = await fetch(`${app.url}/mcp`, {
+      method: 'DELETE',
+      headers: { 'x-auth-token': 'alice', 'mcp-session-id': sessionId },
+    });
+    assert.equal(response.status, 200);
+    assert.equal(await health(), before - 1);
+
+    const stale = await post(
+      app.url,
+      { jsonrpc: '2.0', id: 1, method: 'tools/list' },
+      { 'mcp-session-id': sessionId },
+    );
+    assert.equal(stale.status, 404);
+  });
+});
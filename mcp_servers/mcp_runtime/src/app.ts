@@ -0,0 +1,294 @@
+import { randomUUID } from 'node:crypto';
+import express, { type Express, type Request, type Response } from 'express';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { isUnauthorizedError } from './errors.js';
+import { InMemoryEventStore } from './eventStore.js';
+import { createLogger } from './logger.js';
+import { SessionStore } from './sessions.js';
+import type { McpRuntimeOptions, StatefulOptions } from './types.js';
+
+const DEFAULT_BODY_LIMIT = '4mb';
+const DEFAULT_SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+const DEFAULT_MAX_EVENTS_PER_STREAM = 1000;
+
+export interface McpApp {
+  app: Express;
+  /** Stops accepting MCP traffic; the readiness endpoint starts failing. */
+  drain(): void;
+  /** Closes every open transport and the servers attached to them. */
+  close(): Promise<void>;
+}
+
+export function sendJsonRpcError(res: Response, status: number, code: number, message: string) {
+  if (res.headersSent) {
+    return;
+  }
+  res.status(status).json({
+    jsonrpc: '2.0',
+    error: { code, message },
+    id: null,
+  });
+}
+
+function resolveStatefulOptions(
+  option: boolean | StatefulOptions | undefined,
+): Required<StatefulOptions> | undefined {
+  if (option === false || (!option && process.env.MCP_STATEFUL !== 'true')) {
+    return undefined;
+  }
+  const configured = typeof option === 'object' ? option : {};
+  return {
+    sessionIdleTimeoutMs:
+      configured.sessionIdleTimeoutMs ??
+      (Number(process.env.MCP_SESSION_IDLE_TIMEOUT_MS) || DEFAULT_SESSION_IDLE_TIMEOUT_MS),
+    maxEventsPerStream: configured.maxEventsPerStream ?? DEFAULT_MAX_EVENTS_PER_STREAM,
+  };
+}
+
+/**
+ * Builds the express app shared by all MCP servers: the Streamable HTTP
+ * transport on `/mcp`, the deprecated HTTP+SSE transport on `/sse` and
+ * `/messages`, and `/health` + `/ready` probes. In stateful mode `/mcp` keeps
+ * one transport per `Mcp-Session-Id` instead of one per request.
+ */
+export function createMcpApp<TContext>(options: McpRuntimeOptions<TContext>): McpApp {
+  const { name, createServer, asyncLocalStorage, extractContext } = options;
+  const log = createLogger(name);
+  const sseTransports = new Map<string, SSEServerTransport>();
+  const stateful = resolveStatefulOptions(options.stateful);
+  const sessions = stateful ? new SessionStore(stateful.sessionIdleTimeoutMs, log) : undefined;
+  const startedAt = Date.now();
+  let draining = false;
+
+  const app = express();
+  const jsonBody = express.json({ limit: options.bodyLimit ?? DEFAULT_BODY_LIMIT });
+
+  // Resolves the request context, answering the request itself when that fails.
+  async function resolveContext(
+    req: Request,
+    res: Response,
+  ): Promise<{ context: TContext } | undefined> {
+    try {
+      return { context: await extractContext(req) };
+    } catch (error) {
+      if (isUnauthorizedError(error)) {
+        log.error(`Error: ${error.message}`);
+        sendJsonRpcError(res, 401, -32000, error.message);
+      } else {
+        log.error('Error resolving request context:', error);
+        sendJsonRpcError(res, 500, -32603, 'Internal server error');
+      }
+      return undefined;
+    }
+  }
+
+  app.get('/health', (_req: Request, res: Response) => {
+    res.json({
+      status: 'ok',
+      name,
+      uptimeSeconds: Math.round((Date.now() - startedAt) / 1000),
+      sseSessions: sseTransports.size,
+      streamableSessions: sessions?.size ?? 0,
+    });
+  });
+
+  app.get('/ready', (_req: Request, res: Response) => {
+    res.status(draining ? 503 : 200).json({ ready: !draining });
+  });
+
+  options.routes?.(app);
+
+  app.use(['/mcp', '/sse', '/messages'], (_req: Request, res: Response, next) => {
+    if (draining) {
+      sendJsonRpcError(res, 503, -32000, 'Server is shutting down');
+      return;
+    }
+    next();
+  });
+
+  //=============================================================================
+  // STREAMABLE HTTP TRANSPORT (PROTOCOL VERSION 2025-03-26)
+  //=============================================================================
+
+  app.post('/mcp', jsonBody, async (req: Request, res: Response) => {
+    if (sessions) {
+      await handleStatefulPost(sessions, req, res);
+      return;
+    }
+
+    const resolved = await resolveContext(req, res);
+    if (!resolved) {
+      return;
+    }
+
+    const server = createServer();
+    try {
+      const transport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: undefined,
+      });
+      res.on('close', () => {
+        transport.close();
+        server.close();
+      });
+      await server.connect(transport);
+      await asyncLocalStorage.run(resolved.context, () =>
+        transport.handleRequest(req, res, req.body),
+      );
+    } catch (error) {
+      log.error('Error handling MCP request:', error);
+      sendJsonRpcError(res, 500, -32603, 'Internal server error');
+    }
+  });
+
+  // GET opens the notification stream (resuming from `Last-Event-ID` when
+  // given) and DELETE ends the session. Both only exist in stateful mode.
+  const handleSessionRequest = async (req: Request, res: Response) => {
+    if (!sessions) {
+      sendJsonRpcError(res, 405, -32000, 'Method not allowed.');
+      return;
+    }
+    const sessionId = req.headers['mcp-session-id'] as string | undefined;
+    if (!sessionId) {
+      sendJsonRpcError(res, 400, -32000, 'Bad Request: Mcp-Session-Id header is required');
+      return;
+    }
+    await handleSessionMessage(sessions, sessionId, req, res);
+  };
+  app.get('/mcp', handleSessionRequest);
+  app.delete('/mcp', handleSessionRequest);
+
+  async function handleStatefulPost(sessions: SessionStore, req: Request, res: Response) {
+    const sessionId = req.headers['mcp-session-id'] as string | undefined;
+    if (sessionId) {
+      await handleSessionMessage(sessions, sessionId, req, res);
+      return;
+    }
+    if (!isInitializeRequest(req.body)) {
+      sendJsonRpcError(res, 400, -32000, 'Bad Request: No valid session ID provided');
+      return;
+    }
+
+    const resolved = await resolveContext(req, res);
+    if (!resolved) {
+      return;
+    }
+
+    const server = createServer();
+    const eventStore = new InMemoryEventStore(stateful?.maxEventsPerStream);
+    try {
+      const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        eventStore,
+        onsessioninitialized: (newSessionId) => {
+          sessions.add(newSessionId, { transport, server, eventStore });
+        },
+      });
+      transport.onclose = () => {
+        if (transport.sessionId) {
+          void sessions.close(transport.sessionId);
+        }
+      };
+      await server.connect(transport);
+      await asyncLocalStorage.run(resolved.context, () =>
+        transport.handleRequest(req, res, req.body),
+      );
+    } catch (error) {
+      log.error('Error initializing MCP session:', error);
+      sendJsonRpcError(res, 500, -32603, 'Internal server error');
+    }
+  }
+
+  async function handleSessionMessage(
+    sessions: SessionStore,
+    sessionId: string,
+    req: Request,
+    res: Response,
+  ) {
+    const transport = sessions.acquire(sessionId);
+    if (!transport) {
+      // 404 tells the client to start over with a new initialize request.
+      sendJsonRpcError(res, 404, -32001, 'Session not found');
+      return;
+    }
+    res.on('close', () => sessions.release(sessionId));
+
+    const resolved = await resolveContext(req, res);
+    if (!resolved) {
+      return;
+    }
+
+    try {
+      await asyncLocalStorage.run(resolved.context, () =>
+        transport.handleRequest(req, res, req.body),
+      );
+    } catch (error) {
+      log.error(`Error handling MCP request for session ${sessionId}:`, error);
+      sendJsonRpcError(res, 500, -32603, 'Internal server error');
+    }
+  }
+
+  //=============================================================================
+  // DEPRECATED HTTP+SSE TRANSPORT (PROTOCOL VERSION 2024-11-05)
+  //=============================================================================
+
+  app.get('/sse', async (_req: Request, res: Response) => {
+    const transport = new SSEServerTransport('/messages', res);
+    const server = createServer();
+
+    res.on('close', () => {
+      log.info(`SSE connection closed for transport: ${transport.sessionId}`);
+      sseTransports.delete(transport.sessionId);
+      server.close();
+    });
+
+    sseTransports.set(transport.sessionId, transport);
+    try {
+      await server.connect(transport);
+      log.info(`SSE connection established with transport: ${transport.sessionId}`);
+    } catch (error) {
+      log.error('Error establishing SSE connection:', error);
+      sseTransports.delete(transport.sessionId);
+    }
+  });
+
+  app.post('/messages', jsonBody, async (req: Request, res: Response) => {
+    const sessionId = req.query.sessionId as string | undefined;
+    const transport = sessionId ? sseTransports.get(sessionId) : undefined;
+    if (!transport) {
+      log.error(`Transport not found for session ID: ${sessionId}`);
+      res.status(404).send({ error: 'Transport not found' });
+      return;
+    }
+
+    const resolved = await resolveContext(req, res);
+    if (!resolved) {
+      return;
+    }
+
+    try {
+      await asyncLocalStorage.run(resolved.context, () =>
+        transport.handlePostMessage(req, res, req.body),
+      );
+    } catch (error) {
+      log.error('Error handling SSE message:', error);
+      sendJsonRpcError(res, 500, -32603, 'Internal server error');
+    }
+  });
+
+  return {
+    app,
+    drain() {
+      draining = true;
+    },
+    async close() {
+      const transports = [...sseTransports.values()];
+      sseTransports.clear();
+      await Promise.allSettled([
+        ...transports.map((transport) => transport.close()),
+        sessions?.closeAll(),
+      ]);
+    },
+  };
+}
@@ -0,0 +1,91 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { Readable } from 'node:stream';
+import { fetchPublicUrl, isPublicAddress, readLimited } from './download.js';
+import { ResponseTooLargeError } from './errors.js';
+
+describe('isPublicAddress', () => {
+  test('accepts public unicast addresses', () => {
+    for (const address of ['8.8.8.8', '104.16.0.1', '2606:4700::1111']) {
+      assert.equal(isPublicAddress(address), true, address);
+    }
+  });
+
+  test('refuses private, loopback, link-local and metadata addresses', () => {
+    for (const address of [
+      '0.0.0.0',
+      '10.1.2.3',
+      '100.64.0.1',
+      '127.0.0.1',
+      '169.254.169.254',
+      '172.16.5.4',
+      '192.168.1.1',
+      '224.0.0.1',
+      '::',
+      '::1',
+      '::ffff:127.0.0.1',
+      'fd00:ec2::254',
+      'fe80::1',
+      'not-an-address',
+    ]) {
+      assert.equal(isPublicAddress(address), false, address);
+    }
+  });
+});
+
+describe('fetchPublicUrl', () => {
+  test('refuses other protocols', async () => {
+    await assert.rejects(
+      fetchPublicUrl('file:///etc/passwd', { maxBytes: 10 }),
+      /Only http and https/,
+    );
+  });
+
+  test('never connects to local addresses, by IP or by name', async () => {
+    let requests = 0;
+    const server = createServer((_req, res) => {
+      requests++;
+      res.end('secret');
+    });
+    server.listen(0, '127.0.0.1');
+    await new Promise((resolve) => server.once('listening', resolve));
+    const { port } = server.address() as AddressInfo;
+    try {
+      for (const url of [
+        `http://127.0.0.1:${port}/`,
+        `http://localhost:${port}/`,
+        `http://[::ffff:127.0.0.1]:${port}/`,
+        'http://169.254.169.254/latest/meta-data/',
+      ]) {
+        await assert.rejects(fetchPublicUrl(url, { maxBytes: 10 }), /not a public address/, url);
+      }
+      assert.equal(requests, 0);
+    } finally {
+      server.close();
+    }
+  });
+});
+
+describe('readLimited', () => {
+  test('reads a body within the limit', async () => {
+    const body = Readable.from([Buffer.from('abc'), Buffer.from('def')]);
+    assert.equal((await readLimited(body, 6)).toString(), 'abcdef');
+  });
+
+  test('stops reading once the limit is passed', async () => {
+    let produced = 0;
+    const body = Readable.from(
+      (function* () {
+        for (;;) {
+          produced++;
+          yield Buffer.alloc(1024);
+        }
+      })(),
+    );
+    await assert.rejects(readLimited(body, 4096), ResponseTooLargeError);
+    assert.ok(produced < 10);
+    assert.equal(body.destroyed, true);
+  });
+});
@@ -0,0 +1,184 @@
+import { lookup as dnsLookup } from 'node:dns';
+import http, { type IncomingMessage } from 'node:http';
+import https from 'node:https';
+import { BlockList, isIP, type LookupFunction } from 'node:net';
+import { ResponseTooLargeError } from './errors.js';
+
+/**
+ * Addresses a client-supplied URL must never reach: "this" network, private
+ * networks, loopback, link-local (including cloud metadata endpoints),
+ * documentation, multicast and reserved ranges. IPv4-mapped IPv6 addresses
+ * are checked against the IPv4 ranges; NAT64 and 6to4 are refused as a whole.
+ */
+const BLOCKED_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.0.2.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['198.51.100.0', 24],
+  ['203.0.113.0', 24],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 127],
+  ['64:ff9b::', 96],
+  ['100::', 64],
+  ['2001:db8::', 32],
+  ['2002::', 16],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+const DEFAULT_MAX_REDIRECTS = 5;
+const DEFAULT_TIMEOUT_MS = 30_000;
+
+export interface FetchPublicUrlOptions {
+  /** Largest body accepted; the download is aborted as soon as it grows past this. */
+  maxBytes: number;
+  /** Redirects to follow, each checked like the original URL. Defaults to 5. */
+  maxRedirects?: number;
+  /** Time allowed for the whole download. Defaults to 30 seconds. */
+  timeoutMs?: number;
+  headers?: Record<string, string>;
+}
+
+export interface FetchedUrl {
+  /** The URL the body was read from, after redirects. */
+  url: URL;
+  contentType?: string;
+  data: Buffer;
+}
+
+/** Whether `address` is a public unicast IP address. */
+export function isPublicAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) {
+    return false;
+  }
+  return !BLOCKED_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+// dns.lookup that fails unless every address of the host is public. It runs
+// for the connection itself, so a host cannot pass a check and then resolve
+// to another address when connected to (DNS rebinding).
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  dnsLookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, '');
+      return;
+    }
+    const blocked = addresses.find(({ address }) => !isPublicAddress(address));
+    if (blocked || addresses.length === 0) {
+      callback(notPublic(hostname, blocked?.address), '');
+      return;
+    }
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+function notPublic(host: string, address?: string) {
+  return new Error(
+    `Refusing to fetch from ${host}${address && address !== host ? ` (${address})` : ''}: not a public address`,
+  );
+}
+
+function checkUrl(value: string | URL): URL {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    throw new Error(`Invalid URL "${value}"`);
+  }
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    throw new Error(`Only http and https URLs can be fetched: ${url}`);
+  }
+  // IP literals are connected to without a lookup, so they are checked here.
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  if (isIP(host) !== 0 && !isPublicAddress(host)) {
+    throw notPublic(host);
+  }
+  return url;
+}
+
+function get(url: URL, headers: Record<string, string>, signal: AbortSignal) {
+  return new Promise<IncomingMessage>((resolve, reject) => {
+    const client = url.protocol === 'https:' ? https : http;
+    client.get(url, { headers, signal, lookup: publicLookup }, resolve).on('error', reject);
+  });
+}
+
+/** Reads a stream into memory, failing as soon as it grows past `maxBytes`. */
+export async function readLimited(
+  stream: AsyncIterable<Buffer>,
+  maxBytes: number,
+): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  // Leaving the loop early destroys the stream, which ends the download.
+  for await (const chunk of stream) {
+    size += chunk.length;
+    if (size > maxBytes) {
+      throw new ResponseTooLargeError(maxBytes);
+    }
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks, size);
+}
+
+/**
+ * Downloads a URL given by a client, such as a file to attach. Only http and
+ * https URLs on public addresses are fetched, redirects included, and bodies
+ * larger than `maxBytes` fail with a `ResponseTooLargeError`.
+ */
+export async function fetchPublicUrl(
+  input: string | URL,
+  options: FetchPublicUrlOptions,
+): Promise<FetchedUrl> {
+  const signal = AbortSignal.timeout(options.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+  const maxRedirects = options.maxRedirects ?? DEFAULT_MAX_REDIRECTS;
+  let url = checkUrl(input);
+  for (let redirects = 0; ; redirects++) {
+    const response = await get(url, options.headers ?? {}, signal);
+    const status = response.statusCode ?? 0;
+    const location = response.headers.location;
+    if (status >= 300 && status < 400 && location) {
+      response.resume();
+      if (redirects === maxRedirects) {
+        throw new Error(`Too many redirects fetching ${input}`);
+      }
+      url = checkUrl(new URL(location, url));
+      continue;
+    }
+    if (status < 200 || status >= 300) {
+      response.resume();
+      throw new Error(`Fetching ${url} failed with HTTP ${status}`);
+    }
+    const declared = Number(response.headers['content-length']);
+    if (declared > options.maxBytes) {
+      response.destroy();
+      throw new ResponseTooLargeError(options.maxBytes, declared);
+    }
+    return {
+      url,
+      contentType: response.headers['content-type'],
+      data: await readLimited(response, options.maxBytes),
+    };
+  }
+}
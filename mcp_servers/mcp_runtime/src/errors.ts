@@ -0,0 +1,29 @@
+/**
+ * Thrown by a context extractor when the request does not carry usable
+ * credentials. The runtime answers such requests with HTTP 401.
+ */
+export class UnauthorizedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnauthorizedError';
+  }
+}
+
+export function isUnauthorizedError(error: unknown): error is UnauthorizedError {
+  return error instanceof UnauthorizedError;
+}
+
+/** Thrown when a downloaded response is larger than the caller allows. */
+export class ResponseTooLargeError extends Error {
+  constructor(
+    readonly limit: number,
+    readonly size?: number,
+  ) {
+    super(
+      size === undefined
+        ? `Response is larger than the limit of ${limit} bytes`
+        : `Response is ${size} bytes, more than the limit of ${limit} bytes`,
+    );
+    this.name = 'ResponseTooLargeError';
+  }
+}
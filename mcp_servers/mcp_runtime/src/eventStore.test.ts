@@ -0,0 +1,61 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+import { InMemoryEventStore } from './eventStore.js';
+
+function notification(n: number): JSONRPCMessage {
+  return { jsonrpc: '2.0', method: 'notifications/progress', params: { progress: n } };
+}
+
+async function replay(store: InMemoryEventStore, lastEventId: string) {
+  const sent: JSONRPCMessage[] = [];
+  const streamId = await store.replayEventsAfter(lastEventId, {
+    send: async (_eventId, message) => {
+      sent.push(message);
+    },
+  });
+  return { streamId, sent };
+}
+
+test('replays the events of the same stream after the last event ID', async () => {
+  const store = new InMemoryEventStore();
+  const first = await store.storeEvent('a', notification(1));
+  await store.storeEvent('b', notification(100));
+  await store.storeEvent('a', notification(2));
+  await store.storeEvent('a', notification(3));
+
+  const { streamId, sent } = await replay(store, first);
+  assert.equal(streamId, 'a');
+  assert.deepEqual(sent, [notification(2), notification(3)]);
+  assert.equal(await store.getStreamIdForEventId(first), 'a');
+});
+
+test('replays nothing after the latest event', async () => {
+  const store = new InMemoryEventStore();
+  const last = await store.storeEvent('a', notification(1));
+
+  const { streamId, sent } = await replay(store, last);
+  assert.equal(streamId, 'a');
+  assert.deepEqual(sent, []);
+});
+
+test('drops the oldest events once a stream is full', async () => {
+  const store = new InMemoryEventStore(2);
+  const first = await store.storeEvent('a', notification(1));
+  const second = await store.storeEvent('a', notification(2));
+  await store.storeEvent('a', notification(3));
+
+  assert.equal(await store.getStreamIdForEventId(first), undefined);
+  assert.deepEqual((await replay(store, first)).streamId, '');
+  assert.deepEqual((await replay(store, second)).sent, [notification(3)]);
+});
+
+test('forgets every event when cleared', async () => {
+  const store = new InMemoryEventStore();
+  const first = await store.storeEvent('a', notification(1));
+  await store.storeEvent('a', notification(2));
+  store.clear();
+
+  assert.equal(await store.getStreamIdForEventId(first), undefined);
+  assert.deepEqual(await replay(store, first), { streamId: '', sent: [] });
+});
@@ -0,0 +1,69 @@
+import type {
+  EventId,
+  EventStore,
+  StreamId,
+} from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import type { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+
+const DEFAULT_MAX_EVENTS_PER_STREAM = 1000;
+
+interface StoredEvent {
+  eventId: EventId;
+  message: JSONRPCMessage;
+}
+
+/**
+ * Keeps the most recent messages of every stream in memory so a client that
+ * reconnects with `Last-Event-ID` gets everything it missed. Streams are
+ * bounded; the oldest events are dropped first.
+ */
+export class InMemoryEventStore implements EventStore {
+  private streams = new Map<StreamId, StoredEvent[]>();
+  private eventStreams = new Map<EventId, StreamId>();
+  private counter = 0;
+
+  constructor(private readonly maxEventsPerStream = DEFAULT_MAX_EVENTS_PER_STREAM) {}
+
+  async storeEvent(streamId: StreamId, message: JSONRPCMessage): Promise<EventId> {
+    const eventId = `${streamId}_${Date.now()}_${++this.counter}`;
+    const events = this.streams.get(streamId) ?? [];
+    events.push({ eventId, message });
+    this.eventStreams.set(eventId, streamId);
+
+    while (events.length > this.maxEventsPerStream) {
+      const dropped = events.shift();
+      if (dropped) {
+        this.eventStreams.delete(dropped.eventId);
+      }
+    }
+    this.streams.set(streamId, events);
+    return eventId;
+  }
+
+  async getStreamIdForEventId(eventId: EventId): Promise<StreamId | undefined> {
+    return this.eventStreams.get(eventId);
+  }
+
+  async replayEventsAfter(
+    lastEventId: EventId,
+    { send }: { send: (eventId: EventId, message: JSONRPCMessage) => Promise<void> },
+  ): Promise<StreamId> {
+    const streamId = this.eventStreams.get(lastEventId);
+    if (!streamId) {
+      return '';
+    }
+
+    const events = this.streams.get(streamId) ?? [];
+    const index = events.findIndex((event) => event.eventId === lastEventId);
+    for (const event of events.slice(index + 1)) {
+      await send(event.eventId, event.message);
+    }
+    return streamId;
+  }
+
+  /** Drops every stored event. Called when the owning session closes. */
+  clear() {
+    this.streams.clear();
+    this.eventStreams.clear();
+  }
+}
@@ -0,0 +1,17 @@
+export { createMcpApp, sendJsonRpcError, type McpApp } from './app.js';
+export {
+  fetchPublicUrl,
+  isPublicAddress,
+  type FetchPublicUrlOptions,
+  type FetchedUrl,
+} from './download.js';
+export { ResponseTooLargeError, UnauthorizedError, isUnauthorizedError } from './errors.js';
+export { InMemoryEventStore } from './eventStore.js';
+export { createLogger, type Logger } from './logger.js';
+export { startMcpServer } from './server.js';
+export type {
+  ContextExtractor,
+  McpRuntimeOptions,
+  McpServerLike,
+  StatefulOptions,
+} from './types.js';
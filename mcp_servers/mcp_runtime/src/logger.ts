@@ -0,0 +1,18 @@
+export interface Logger {
+  info(...args: unknown[]): void;
+  warn(...args: unknown[]): void;
+  error(...args: unknown[]): void;
+}
+
+/**
+ * Prefixes every line with the server name. Everything goes to stderr so the
+ * output never interferes with a transport writing to stdout.
+ */
+export function createLogger(name: string): Logger {
+  const prefix = `[${name}]`;
+  return {
+    info: (...args) => console.error(prefix, ...args),
+    warn: (...args) => console.warn(prefix, ...args),
+    error: (...args) => console.error(prefix, ...args),
+  };
+}
@@ -0,0 +1,52 @@
+import type { Server as HttpServer } from 'node:http';
+import { createMcpApp } from './app.js';
+import { createLogger } from './logger.js';
+import type { McpRuntimeOptions } from './types.js';
+
+const DEFAULT_PORT = 5000;
+const DEFAULT_SHUTDOWN_TIMEOUT_MS = 10_000;
+
+/**
+ * Creates the MCP app, starts listening and installs SIGTERM/SIGINT handlers
+ * that drain traffic, close all transports and run `onShutdown` before exiting.
+ */
+export function startMcpServer<TContext>(options: McpRuntimeOptions<TContext>): HttpServer {
+  const log = createLogger(options.name);
+  const mcpApp = createMcpApp(options);
+  const port = options.port ?? (Number(process.env.PORT) || DEFAULT_PORT);
+
+  const httpServer = mcpApp.app.listen(port, () => {
+    log.info(`server running on port ${port}`);
+  });
+
+  let shuttingDown = false;
+  const shutdown = async (signal: NodeJS.Signals) => {
+    if (shuttingDown) {
+      return;
+    }
+    shuttingDown = true;
+    log.info(`Received ${signal}, shutting down`);
+
+    const forceExit = setTimeout(() => {
+      log.error('Graceful shutdown timed out, exiting');
+      process.exit(1);
+    }, options.shutdownTimeoutMs ?? DEFAULT_SHUTDOWN_TIMEOUT_MS);
+    forceExit.unref();
+
+    try {
+      mcpApp.drain();
+      await mcpApp.close();
+      await new Promise<void>((resolve) => httpServer.close(() => resolve()));
+      await options.onShutdown?.();
+      process.exit(0);
+    } catch (error) {
+      log.error('Error during shutdown:', error);
+      process.exit(1);
+    }
+  };
+
+  process.once('SIGTERM', (signal) => void shutdown(signal));
+  process.once('SIGINT', (signal) => void shutdown(signal));
+
+  return httpServer;
+}
@@ -0,0 +1,78 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { setTimeout as sleep } from 'node:timers/promises';
+import type { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { InMemoryEventStore } from './eventStore.js';
+import type { Logger } from './logger.js';
+import { SessionStore } from './sessions.js';
+
+const silent: Logger = { info() {}, warn() {}, error() {} };
+
+function fakeSession() {
+  const closed = { transport: false, server: false };
+  const transport = {
+    close: async () => {
+      closed.transport = true;
+    },
+  } as unknown as StreamableHTTPServerTransport;
+  const server = {
+    connect: async () => {},
+    close: async () => {
+      closed.server = true;
+    },
+  };
+  return { session: { transport, server, eventStore: new InMemoryEventStore() }, closed };
+}
+
+test('closes sessions that stay idle past the timeout', async () => {
+  const sessions = new SessionStore(20, silent);
+  const { session, closed } = fakeSession();
+  sessions.add('s1', session);
+
+  await sleep(100);
+  assert.equal(sessions.has('s1'), false);
+  assert.equal(sessions.acquire('s1'), undefined);
+  assert.deepEqual(closed, { transport: true, server: true });
+  await sessions.closeAll();
+});
+
+test('keeps sessions with an open request alive', async () => {
+  const sessions = new SessionStore(20, silent);
+  const { session, closed } = fakeSession();
+  sessions.add('s1', session);
+  assert.equal(sessions.acquire('s1'), session.transport);
+
+  await sleep(100);
+  assert.equal(sessions.has('s1'), true);
+  assert.deepEqual(closed, { transport: false, server: false });
+
+  sessions.release('s1');
+  await sleep(100);
+  assert.equal(sessions.has('s1'), false);
+  await sessions.closeAll();
+});
+
+test('clears the event store of a closed session', async () => {
+  const sessions = new SessionStore(60_000, silent);
+  const { session } = fakeSession();
+  const eventId = await session.eventStore.storeEvent('stream', { jsonrpc: '2.0', method: 'ping' });
+  sessions.add('s1', session);
+
+  await sessions.close('s1');
+  assert.equal(sessions.size, 0);
+  assert.equal(await session.eventStore.getStreamIdForEventId(eventId), undefined);
+  await sessions.closeAll();
+});
+
+test('closeAll closes every session', async () => {
+  const sessions = new SessionStore(60_000, silent);
+  const first = fakeSession();
+  const second = fakeSession();
+  sessions.add('s1', first.session);
+  sessions.add('s2', second.session);
+
+  await sessions.closeAll();
+  assert.equal(sessions.size, 0);
+  assert.equal(first.closed.server, true);
+  assert.equal(second.closed.server, true);
+});
@@ -0,0 +1,95 @@
+import type { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import type { InMemoryEventStore } from './eventStore.js';
+import type { Logger } from './logger.js';
+import type { McpServerLike } from './types.js';
+
+const MAX_SWEEP_INTERVAL_MS = 60_000;
+
+interface Session {
+  transport: StreamableHTTPServerTransport;
+  server: McpServerLike;
+  eventStore: InMemoryEventStore;
+  lastActivity: number;
+  openRequests: number;
+}
+
+/**
+ * Tracks stateful Streamable HTTP sessions by their `Mcp-Session-Id` and
+ * closes the ones that have been idle for longer than `idleTimeoutMs`. A
+ * session with an open request (including a `GET /mcp` notification stream)
+ * is never considered idle.
+ */
+export class SessionStore {
+  private sessions = new Map<string, Session>();
+  private sweeper: NodeJS.Timeout;
+
+  constructor(
+    private readonly idleTimeoutMs: number,
+    private readonly log: Logger,
+  ) {
+    this.sweeper = setInterval(() => this.sweep(), Math.min(idleTimeoutMs, MAX_SWEEP_INTERVAL_MS));
+    this.sweeper.unref();
+  }
+
+  get size() {
+    return this.sessions.size;
+  }
+
+  add(sessionId: string, session: Omit<Session, 'lastActivity' | 'openRequests'>) {
+    this.sessions.set(sessionId, { ...session, lastActivity: Date.now(), openRequests: 0 });
+    this.log.info(`Session initialized: ${sessionId}`);
+  }
+
+  has(sessionId: string) {
+    return this.sessions.has(sessionId);
+  }
+
+  /**
+   * Returns the session's transport and marks a request as open on it. Every
+   * successful call must be paired with `release` once the response closes.
+   */
+  acquire(sessionId: string): StreamableHTTPServerTransport | undefined {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return undefined;
+    }
+    session.openRequests++;
+    session.lastActivity = Date.now();
+    return session.transport;
+  }
+
+  release(sessionId: string) {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return;
+    }
+    session.openRequests = Math.max(0, session.openRequests - 1);
+    session.lastActivity = Date.now();
+  }
+
+  async close(sessionId: string) {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return;
+    }
+    this.sessions.delete(sessionId);
+    session.eventStore.clear();
+    await Promise.allSettled([session.transport.close(), session.server.close()]);
+    this.log.info(`Session closed: ${sessionId}`);
+  }
+
+  async closeAll() {
+    clearInterval(this.sweeper);
+    await Promise.allSettled([...this.sessions.keys()].map((sessionId) => this.close(sessionId)));
+  }
+
+  private sweep() {
+    const cutoff = Date.now() - this.idleTimeoutMs;
+    for (const [sessionId, session] of this.sessions) {
+      if (session.openRequests === 0 && session.lastActivity < cutoff) {
+        this.log.info(`Session expired after inactivity: ${sessionId}`);
+        void this.close(sessionId);
+      }
+    }
+  }
+}
@@ -0,0 +1,55 @@
+import type { AsyncLocalStorage } from 'node:async_hooks';
+import type { Express, Request } from 'express';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+
+/**
+ * Anything that can be attached to a transport. Both the low-level `Server` and
+ * the high-level `McpServer` from the SDK satisfy this.
+ */
+export interface McpServerLike {
+  connect(transport: Transport): Promise<void>;
+  close(): Promise<void>;
+}
+
+/**
+ * Builds the per-request context (usually credentials or an API client) from
+ * the incoming HTTP request. Throw an `UnauthorizedError` to reject the request.
+ */
+export type ContextExtractor<TContext> = (req: Request) => TContext | Promise<TContext>;
+
+export interface StatefulOptions {
+  /** Sessions without requests for this long are closed. Defaults to 30 minutes. */
+  sessionIdleTimeoutMs?: number;
+  /** Messages kept per stream for `Last-Event-ID` replay. Defaults to 1000. */
+  maxEventsPerStream?: number;
+}
+
+export interface McpRuntimeOptions<TContext> {
+  /** Server name, used in logs and reported by the health endpoint. */
+  name: string;
+  /** Creates a new MCP server instance with all handlers registered. */
+  createServer: () => McpServerLike;
+  /** The storage the server's tool handlers read their request context from. */
+  asyncLocalStorage: AsyncLocalStorage<TContext>;
+  /** Extracts the request context from the headers of an incoming request. */
+  extractContext: ContextExtractor<TContext>;
+  /**
+   * Enables stateful Streamable HTTP: sessions tracked by `Mcp-Session-Id`,
+   * `GET /mcp` notification streams, `DELETE /mcp` and `Last-Event-ID`
+   * resumability. Also enabled by `MCP_STATEFUL=true`. Defaults to stateless.
+   */
+  stateful?: boolean | StatefulOptions;
+  /** Maximum size of a JSON request body, in express `limit` notation. Defaults to `4mb`. */
+  bodyLimit?: string;
+  /**
+   * Registers additional HTTP routes, such as webhook receivers, on the app.
+   * They are added after the health endpoints and before the MCP transports.
+   */
+  routes?: (app: Express) => void;
+  /** Port to listen on. Defaults to `PORT` from the environment, then 5000. */
+  port?: number;
+  /** Called once during graceful shutdown, after all transports are closed. */
+  onShutdown?: () => void | Promise<void>;
+  /** How long to wait for in-flight requests before exiting anyway. Defaults to 10s. */
+  shutdownTimeoutMs?: number;
+}
@@ -2,14 +2,14 @@
 
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
-import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { startMcpServer, UnauthorizedError } from "@klavis-ai/mcp-runtime";
 import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
+  ProgressToken,
+  ServerNotification,
   Tool,
 } from "@modelcontextprotocol/sdk/types.js";
-import express, { Request, Response } from "express";
 import dotenv from "dotenv";
 import { AsyncLocalStorage } from "async_hooks";
 
@@ -23,6 +23,9 @@ const asyncLocalStorage = new AsyncLocalStorage<{
 // Retrieve the Perplexity API key from environment variables
 const PERPLEXITY_API_KEY = process.env.PERPLEXITY_API_KEY;
 
+// How often perplexity_research reports that it is still running
+const RESEARCH_PROGRESS_INTERVAL_MS = 10_000;
+
 /**
  * Definition of the Perplexity Ask Tool.
  * This tool accepts an array of messages and returns a chat completion response
@@ -138,13 +141,16 @@ const PERPLEXITY_REASON_TOOL: Tool = {
  *
  * @param {Array<{ role: string; content: string }>} messages - An array of message objects.
  * @param {string} model - The model to use for the completion.
+ * @param {string} apiKey - The Perplexity API key.
+ * @param {AbortSignal} [signal] - Cancels the request, e.g. when the client cancels the tool call.
  * @returns {Promise<string>} The chat completion result with appended citations.
  * @throws Will throw an error if the API request fails.
  */
 async function performChatCompletion(
   messages: Array<{ role: string; content: string }>,
   model: string = "sonar-pro",
-  apiKey: string
+  apiKey: string,
+  signal?: AbortSignal
 ): Promise<string> {
   // Construct the API endpoint URL and request body
   const url = new URL("https://api.perplexity.ai/chat/completions");
@@ -165,6 +171,7 @@ async function performChatCompletion(
         "Authorization": `Bearer ${apiKey}`,
       },
       body: JSON.stringify(body),
+      signal,
     });
   } catch (error) {
     throw new Error(`Network error while calling Perplexity API: ${error}`);
@@ -205,223 +212,144 @@ async function performChatCompletion(
   return messageContent;
 }
 
+/**
+ * Sends a progress notification right away and then every
+ * RESEARCH_PROGRESS_INTERVAL_MS until the returned function is called, so
+ * clients can tell a long research request from a stalled one. In stateful
+ * mode the notifications are stored for replay, so a client that reconnects
+ * with Last-Event-ID catches up on them and on the final result.
+ *
+ * @returns {() => void} Stops reporting progress.
+ */
+function reportResearchProgress(
+  progressToken: ProgressToken,
+  sendNotification: (notification: ServerNotification) => Promise<void>
+): () => void {
+  const startedAt = Date.now();
+  const send = () => {
+    const elapsedSeconds = Math.round((Date.now() - startedAt) / 1000);
+    sendNotification({
+      method: "notifications/progress",
+      params: {
+        progressToken,
+        progress: elapsedSeconds,
+        message: `Researching (${elapsedSeconds}s elapsed)`,
+      },
+    }).catch((error) => {
+      console.error(`Error sending research progress: ${error}`);
+    });
+  };
+
+  send();
+  const interval = setInterval(send, RESEARCH_PROGRESS_INTERVAL_MS);
+  return () => clearInterval(interval);
+}
+
 // Function to create a server instance
-function createPerplexityServer(apiKey: string) {
+function createPerplexityServer() {
   // Initialize the server with tool metadata and capabilities
-  const server = new Server({
-    id: "perplexity-mcp",
-    name: "Perplexity MCP Server",
-    version: "1.0.0",
-  });
-  
-  // Register tools with the server
-  server.registerToolProvider({
-    prefix: "perplexity",
-    listTools: async function listTools(request: any) {
-      if (request.kind !== "list_tools") {
-        throw new Error("Invalid request kind");
-      }
-
-      // Parse and validate the request
-      const parsedRequest = ListToolsRequestSchema.parse(request);
-      
-      // Return the list of tools
-      return {
-        tools: [
-          PERPLEXITY_ASK_TOOL,
-          PERPLEXITY_RESEARCH_TOOL,
-          PERPLEXITY_REASON_TOOL,
-        ],
-      };
+  const server = new Server(
+    {
+      name: "perplexity-mcp",
+      version: "1.0.0",
     },
-    callTool: async function callTool(request: any) {
-      if (request.kind !== "call_tool") {
-        throw new Error("Invalid request kind");
-      }
+    {
+      capabilities: {
+        tools: {},
+      },
+    }
+  );
 
-      // Parse and validate the request
-      const parsedRequest = CallToolRequestSchema.parse(request);
-      const { tool, arguments: args } = parsedRequest;
+  // Return the list of tools
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({
+    tools: [
+      PERPLEXITY_ASK_TOOL,
+      PERPLEXITY_RESEARCH_TOOL,
+      PERPLEXITY_REASON_TOOL,
+    ],
+  }));
 
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+    const { name, arguments: args } = request.params;
+    const progressToken = request.params._meta?.progressToken;
+
+    try {
       // Validate that messages are provided
-      if (!args.messages || !Array.isArray(args.messages)) {
+      if (!args || !Array.isArray(args.messages)) {
         throw new Error("Missing or invalid 'messages' in arguments");
       }
 
+      // Get the API key from the context
+      const apiKey = asyncLocalStorage.getStore()?.perplexityApiKey || PERPLEXITY_API_KEY;
+      if (!apiKey) {
+        throw new Error("Perplexity API key not found");
+      }
+
+      // Select the appropriate model based on the tool
+      let model: string;
+      if (name === "perplexity_ask" || name === "perplexity_research") {
+        model = "sonar-pro";
+      } else if (name === "perplexity_reason") {
+        model = "sonar-reasoning-pro";
+      } else {
+        throw new Error(`Unknown tool: ${name}`);
+      }
+
+      // Research can take minutes; report progress when the client asked for it
+      const stopProgress =
+        name === "perplexity_research" && progressToken !== undefined
+          ? reportResearchProgress(progressToken, extra.sendNotification)
+          : () => {};
+
+      // Perform the chat completion
+      let result: string;
       try {
-        // Get the API key from the context
-        const ctx = asyncLocalStorage.getStore();
-        const currentApiKey = ctx ? ctx.perplexityApiKey : apiKey;
-        
-        if (!currentApiKey) {
-          throw new Error("Perplexity API key not found");
-        }
-        
-        let model = "sonar-pro"; // Default model
-        
-        // Select the appropriate model based on the tool
-        if (tool === "perplexity_research") {
-          model = "sonar-pro";
-        } else if (tool === "perplexity_reason") {
-          model = "sonar-reasoning-pro";
-        }
-        
-        // Perform the chat completion
-        const result = await performChatCompletion(args.messages, model, currentApiKey);
-        
-        // Return the result
-        return {
-          result: {
-            content: result,
-          },
-        };
-      } catch (error: any) {
-        // Handle errors
-        const errorMessage = error.message || "Unknown error occurred";
-        console.error(`Error calling Perplexity API: ${errorMessage}`);
-        
-        return {
-          result: {
-            error: errorMessage,
-          },
-        };
+        result = await performChatCompletion(args.messages, model, apiKey, extra.signal);
+      } finally {
+        stopProgress();
       }
-    },
+      return {
+        content: [{ type: "text", text: result }],
+        isError: false,
+      };
+    } catch (error) {
+      // Handle errors
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error(`Error calling Perplexity API: ${errorMessage}`);
+      return {
+        content: [{ type: "text", text: `Error: ${errorMessage}` }],
+        isError: true,
+      };
+    }
   });
 
   return server;
 }
 
-// Initialize Express app
-const app = express();
-const port = process.env.PORT || 5000;
-
 // Get server type from command line arguments
 const serverType = process.argv[2] || "stdio";
 
 // For stdio mode, just create and serve a single instance
 if (serverType === "stdio") {
-  const stdioServer = createPerplexityServer(PERPLEXITY_API_KEY || "");
-  stdioServer.serve(new StdioServerTransport());
-} else {
-  // For HTTP and SSE modes, set up express endpoints
-  
-  // Map to store SSE transports by session ID
-  const transports = new Map<string, SSEServerTransport>();
-
-  //=============================================================================
-  // STREAMABLE HTTP TRANSPORT (PROTOCOL VERSION 2025-03-26)
-  //=============================================================================
-  
-  app.post('/mcp', async (req: Request, res: Response) => {
-    // Extract API key from environment or header
-    const apiKey = process.env.PERPLEXITY_API_KEY || 
-                  req.headers['x-auth-token'] as string || 
-                  req.headers['access_token'] as string;
-    
-    if (!apiKey) {
-      console.error('Error: Perplexity API key is missing. Provide it via PERPLEXITY_API_KEY env var, x-auth-token or access_token header.');
-      res.status(401).json({ error: 'API key is required' });
-      return;
-    }
-    
-    try {
-      // Create a new server instance for this request
-      const server = createPerplexityServer(apiKey);
-      const transport = new StreamableHTTPServerTransport({
-        sessionIdGenerator: undefined,
-      });
-      
-      await server.connect(transport);
-      
-      // Run within AsyncLocalStorage context
-      asyncLocalStorage.run({ perplexityApiKey: apiKey }, async () => {
-        await transport.handleRequest(req, res, req.body);
-      });
-      
-      res.on('close', () => {
-        console.log('Request closed');
-        transport.close();
-        server.close();
-      });
-    } catch (error) {
-      console.error('Error handling MCP request:', error);
-      if (!res.headersSent) {
-        res.status(500).json({
-          jsonrpc: '2.0',
-          error: {
-            code: -32603,
-            message: 'Internal server error',
-          },
-          id: null,
-        });
-      }
-    }
+  const stdioServer = createPerplexityServer();
+  stdioServer.connect(new StdioServerTransport()).catch((error) => {
+    console.error("Fatal error running server:", error);
+    process.exit(1);
   });
-  
-  app.get('/mcp', async (req: Request, res: Response) => {
-    console.log('Received GET MCP request');
-    res.status(405).json({
-      jsonrpc: "2.0",
-      error: {
-        code: -32000,
-        message: "Method not allowed."
-      },
-      id: null
-    });
-  });
-
-  //=============================================================================
-  // DEPRECATED HTTP+SSE TRANSPORT (PROTOCOL VERSION 2024-11-05)
-  //=============================================================================
-  
-  app.get("/sse", async (req: Request, res: Response) => {
-    const transport = new SSEServerTransport(`/messages`, res);
-    
-    // Set up cleanup when connection closes
-    res.on('close', async () => {
-      console.log(`SSE connection closed for transport: ${transport.sessionId}`);
-      transports.delete(transport.sessionId);
-    });
-    
-    transports.set(transport.sessionId, transport);
-    
-    // Create a new server for this SSE connection
-    const apiKey = process.env.PERPLEXITY_API_KEY || '';
-    const server = createPerplexityServer(apiKey);
-    await server.connect(transport);
-    
-    console.log(`SSE connection established with transport: ${transport.sessionId}`);
-  });
-  
-  app.post("/messages", async (req: Request, res: Response) => {
-    const sessionId = req.query.sessionId as string;
-    const transport = transports.get(sessionId);
-    
-    if (transport) {
+} else {
+  startMcpServer({
+    name: "perplexity-mcp-server",
+    createServer: createPerplexityServer,
+    asyncLocalStorage,
+    extractContext: (req) => {
       // Extract API key from environment or header
-      const apiKey = process.env.PERPLEXITY_API_KEY || 
-                    req.headers['x-auth-token'] as string || 
-                    req.headers['access_token'] as string;
-      
+      const apiKey = process.env.PERPLEXITY_API_KEY ||
+        req.headers['x-auth-token'] as string ||
+        req.headers['access_token'] as string;
       if (!apiKey) {
-        console.error('Error: Perplexity API key is missing. Provide it via PERPLEXITY_API_KEY env var, x-auth-token or access_token header.');
-        res.status(401).json({ error: 'API key is required' });
-        return;
+        throw new UnauthorizedError('Perplexity API key is missing. Provide it via PERPLEXITY_API_KEY env var, x-auth-token or access_token header.');
       }
-      
-      // Run within AsyncLocalStorage context
-      asyncLocalStorage.run({ perplexityApiKey: apiKey }, async () => {
-        await transport.handlePostMessage(req, res);
-      });
-    } else {
-      console.error(`Transport not found for session ID: ${sessionId}`);
-      res.status(404).send({ error: "Transport not found" });
-    }
-  });
-
-  // Start the server
-  app.listen(port, () => {
-    console.log(`Perplexity MCP server is running on port ${port}`);
+      return { perplexityApiKey: apiKey };
+    },
   });
 }
@@ -0,0 +1,260 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import type pg from 'pg';
+import {
+  classifyScript,
+  EXPLAINABLE_COMMANDS,
+  runSingleStatement,
+  type ClassifiedStatement,
+  type StatementKind,
+} from './sql.js';
+
+/**
+ * Which statements `execute` may commit:
+ * - `read-only`: none, writes can only be dry-run
+ * - `dml`: INSERT, UPDATE, DELETE, MERGE, COPY and CALL
+ * - `ddl`: DML plus schema changes (CREATE, ALTER, DROP, TRUNCATE, ...)
+ */
+export type WriteMode = 'read-only' | 'dml' | 'ddl';
+
+const ALLOWED_KINDS: Record<WriteMode, StatementKind[]> = {
+  'read-only': ['read'],
+  dml: ['read', 'dml'],
+  ddl: ['read', 'dml', 'ddl'],
+};
+
+const CONFIRMATION_TTL_MS = 10 * 60 * 1000;
+const SQL_PREVIEW_LENGTH = 200;
+
+// Without a configured secret, tokens stay valid only until the process restarts.
+const confirmationSecret =
+  process.env.POSTGRES_CONFIRMATION_SECRET || randomBytes(32).toString('hex');
+
+export function writeModeFromEnv(env: NodeJS.ProcessEnv = process.env): WriteMode {
+  const mode = env.POSTGRES_WRITE_MODE || 'read-only';
+  if (mode !== 'read-only' && mode !== 'dml' && mode !== 'ddl') {
+    throw new Error(`Invalid POSTGRES_WRITE_MODE "${mode}". Expected read-only, dml or ddl.`);
+  }
+  return mode;
+}
+
+export const executeTool: Tool = {
+  name: 'execute',
+  description:
+    'Run SQL that may modify data or the schema. Statements are classified as read, DML or DDL. ' +
+    'By default this is a dry run: the statements run inside a transaction that is rolled back, and the result reports ' +
+    'the affected row counts, EXPLAIN plans and a confirmation_token. Show the dry run to the user and only after they ' +
+    'approve, call execute again with the same sql, dry_run set to false and the confirmation_token to commit. ' +
+    'Which statement types may be committed is configured on the server.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      sql: {
+        type: 'string',
+        description:
+          'One or more SQL statements separated by semicolons. They run in a single transaction.',
+      },
+      dry_run: {
+        type: 'boolean',
+        description: 'Run the statements and roll them back instead of committing (default true)',
+        default: true,
+      },
+      confirmation_token: {
+        type: 'string',
+        description:
+          'Token returned by the dry run of exactly the same sql. Required to commit statements that modify data or the schema.',
+      },
+    },
+    required: ['sql'],
+  },
+};
+
+export interface ExecuteArgs {
+  sql: string;
+  dry_run?: boolean;
+  confirmation_token?: string;
+}
+
+interface StatementResult {
+  statement: number;
+  kind: StatementKind;
+  command: string;
+  sql: string;
+  row_count: number | null;
+  rows?: unknown[];
+  plan?: unknown;
+}
+
+function signConfirmation(databaseUrl: string, sql: string, issuedAt: number) {
+  return createHmac('sha256', confirmationSecret)
+    .update(JSON.stringify({ databaseUrl, sql, issuedAt }))
+    .digest('base64url');
+}
+
+export function createConfirmationToken(databaseUrl: string, sql: string, now = Date.now()) {
+  return `${now.toString(36)}.${signConfirmation(databaseUrl, sql, now)}`;
+}
+
+export function verifyConfirmationToken(
+  token: string | undefined,
+  databaseUrl: string,
+  sql: string,
+  now = Date.now(),
+) {
+  if (!token) {
+    throw new Error(
+      'A confirmation_token is required to commit statements that modify data or the schema. Run execute with dry_run first.',
+    );
+  }
+  const [issued, signature] = token.split('.');
+  const issuedAt = parseInt(issued, 36);
+  const expected = Buffer.from(signConfirmation(databaseUrl, sql, issuedAt));
+  const actual = Buffer.from(signature ?? '');
+  if (
+    Number.isNaN(issuedAt) ||
+    actual.length !== expected.length ||
+    !timingSafeEqual(actual, expected)
+  ) {
+    throw new Error(
+      'Confirmation token does not match this SQL. Run execute with dry_run again for the exact statements to commit.',
+    );
+  }
+  if (now - issuedAt > CONFIRMATION_TTL_MS) {
+    throw new Error('Confirmation token has expired. Run execute with dry_run again.');
+  }
+}
+
+function preview(sql: string) {
+  const compact = sql.replace(/\s+/g, ' ');
+  return compact.length > SQL_PREVIEW_LENGTH
+    ? `${compact.slice(0, SQL_PREVIEW_LENGTH)}...`
+    : compact;
+}
+
+async function runStatements(
+  client: pg.PoolClient,
+  statements: ClassifiedStatement[],
+  options: { readOnly: boolean; commit: boolean; explain: boolean; statementTimeoutMs: number },
+): Promise<StatementResult[]> {
+  const results: StatementResult[] = [];
+  await client.query(options.readOnly ? 'BEGIN TRANSACTION READ ONLY' : 'BEGIN');
+  try {
+    await client.query(`SET LOCAL statement_timeout = ${Math.floor(options.statementTimeoutMs)}`);
+    for (const [index, statement] of statements.entries()) {
+      try {
+        let plan: unknown;
+        if (options.explain && EXPLAINABLE_COMMANDS.has(statement.command)) {
+          const explained = await runSingleStatement(
+            client,
+            `EXPLAIN (FORMAT JSON) ${statement.sql}`,
+          );
+          plan = explained.rows[0]?.['QUERY PLAN'];
+        }
+        const result = await runSingleStatement(client, statement.sql);
+        results.push({
+          statement: index + 1,
+          kind: statement.kind,
+          command: statement.command,
+          sql: preview(statement.sql),
+          row_count: result.rowCount,
+          ...(result.fields?.length ? { rows: result.rows } : {}),
+          ...(plan ? { plan } : {}),
+        });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        throw new Error(`Statement ${index + 1} (${statement.command}) failed: ${message}`);
+      }
+    }
+    await client.query(options.commit ? 'COMMIT' : 'ROLLBACK');
+    return results;
+  } catch (error) {
+    await client
+      .query('ROLLBACK')
+      .catch((rollbackError) => console.warn('Could not roll back transaction:', rollbackError));
+    throw error;
+  }
+}
+
+/**
+ * Runs the `execute` tool: a dry run rolls everything back and issues a
+ * confirmation token for the exact SQL, which is required to commit writes.
+ */
+export async function runExecute(
+  client: pg.PoolClient,
+  args: ExecuteArgs,
+  context: { databaseUrl: string; writeMode: WriteMode; statementTimeoutMs: number },
+) {
+  if (typeof args.sql !== 'string' || !args.sql.trim()) {
+    throw new Error('Missing required argument: sql');
+  }
+  const statements = classifyScript(args.sql);
+  if (statements.length === 0) {
+    throw new Error('No SQL statements found');
+  }
+
+  const unsupported = statements.filter((statement) => statement.kind === 'other');
+  if (unsupported.length > 0) {
+    const commands = unsupported.map((statement) => statement.command || '(unknown)').join(', ');
+    throw new Error(
+      `Unsupported statement(s): ${commands}. Transaction control, session settings and maintenance commands cannot be run with execute.`,
+    );
+  }
+
+  const allowedKinds = ALLOWED_KINDS[context.writeMode];
+  const blocked = statements.filter((statement) => !allowedKinds.includes(statement.kind));
+  const writes = statements.some((statement) => statement.kind !== 'read');
+  const dryRun = args.dry_run !== false;
+
+  if (dryRun) {
+    const results = await runStatements(client, statements, {
+      readOnly: !writes,
+      commit: false,
+      explain: true,
+      statementTimeoutMs: context.statementTimeoutMs,
+    });
+    const base = {
+      dry_run: true,
+      committed: false,
+      write_mode: context.writeMode,
+      statements: results,
+    };
+    if (blocked.length > 0) {
+      return {
+        ...base,
+        message: `The server's write mode (${context.writeMode}) does not allow committing ${blocked
+          .map((statement) => statement.command)
+          .join(', ')}. All changes were rolled back.`,
+      };
+    }
+    if (!writes) {
+      return { ...base, message: 'All statements are read-only; nothing to confirm.' };
+    }
+    const issuedAt = Date.now();
+    return {
+      ...base,
+      confirmation_token: createConfirmationToken(context.databaseUrl, args.sql, issuedAt),
+      expires_at: new Date(issuedAt + CONFIRMATION_TTL_MS).toISOString(),
+      message:
+        'All changes were rolled back. Show these results to the user; to commit, call execute again with the same sql, dry_run false and this confirmation_token.',
+    };
+  }
+
+  if (blocked.length > 0) {
+    throw new Error(
+      `The server's write mode (${context.writeMode}) does not allow ${blocked
+        .map((statement) => `${statement.command} (${statement.kind.toUpperCase()})`)
+        .join(', ')}`,
+    );
+  }
+  if (writes) {
+    verifyConfirmationToken(args.confirmation_token, context.databaseUrl, args.sql);
+  }
+
+  const results = await runStatements(client, statements, {
+    readOnly: !writes,
+    commit: writes,
+    explain: false,
+    statementTimeoutMs: context.statementTimeoutMs,
+  });
+  return { dry_run: false, committed: writes, statements: results };
+}
@@ -1,21 +1,32 @@
 #!/usr/bin/env node
-import express, { Request, Response } from 'express';
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
-import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
-import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { startMcpServer } from "@klavis-ai/mcp-runtime";
 import {
   CallToolRequestSchema,
   ListResourcesRequestSchema,
   ListToolsRequestSchema,
   ReadResourceRequestSchema,
 } from "@modelcontextprotocol/sdk/types.js";
-import pg from "pg";
 import { AsyncLocalStorage } from 'async_hooks';
 import dotenv from 'dotenv';
+import { PoolCache, poolCacheOptionsFromEnv } from "./pool.js";
+import { introspectionTools, runIntrospectionTool } from "./introspection.js";
+import { ExecuteArgs, executeTool, runExecute, writeModeFromEnv } from "./execute.js";
+import { ExplainArgs, explainTool, runExplain } from "./plan.js";
+import { QueryArgs, queryPageContent, queryTool, resultLimitsFromEnv, runQuery } from "./results.js";
 
 // Load environment variables
 dotenv.config();
 
+// One pool per tenant database, shared across requests and sessions
+const poolCache = new PoolCache(poolCacheOptionsFromEnv());
+
+// Which statements the execute tool may commit; read-only unless configured
+const writeMode = writeModeFromEnv();
+
+// Statement timeout and the row/byte caps applied to every query result
+const resultLimits = resultLimitsFromEnv();
+
 const SCHEMA_PATH = "schema";
 
 const getPostgresMcpServer = () => {
@@ -84,14 +95,16 @@ const getPostgresMcpServer = () => {
   server.setRequestHandler(ListToolsRequestSchema, async () => {
     return {
       tools: [
+        queryTool,
+        executeTool,
+        explainTool,
+        ...introspectionTools,
         {
-          name: "query",
-          description: "Run a read-only SQL query",
+          name: "pool_stats",
+          description: "Show connection pool statistics for the current database and the server-wide pool cache. Useful for diagnosing connection limits or slow connection acquisition.",
           inputSchema: {
             type: "object",
-            properties: {
-              sql: { type: "string" },
-            },
+            properties: {},
           },
         },
       ],
@@ -99,29 +112,81 @@ const getPostgresMcpServer = () => {
   });
 
   server.setRequestHandler(CallToolRequestSchema, async (request) => {
-    if (request.params.name === "query") {
-      const sql = request.params.arguments?.sql as string;
-
+    if (request.params.name === queryTool.name) {
+      const args = request.params.arguments as unknown as QueryArgs;
       const client = await getPool().connect();
       try {
-        await client.query("BEGIN TRANSACTION READ ONLY");
-        const result = await client.query(sql);
+        const page = await runQuery(client, args, resultLimits);
         return {
-          content: [{ type: "text", text: JSON.stringify(result.rows, null, 2) }],
+          content: queryPageContent(page, args.format),
+          isError: false,
+        };
+      } finally {
+        client.release();
+      }
+    }
+    if (request.params.name === executeTool.name) {
+      const client = await getPool().connect();
+      try {
+        const result = await runExecute(
+          client,
+          request.params.arguments as unknown as ExecuteArgs,
+          {
+            databaseUrl: getDatabaseUrl(),
+            writeMode,
+            statementTimeoutMs: resultLimits.statementTimeoutMs,
+          },
+        );
+        return {
+          content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
           isError: false,
         };
-      } catch (error) {
-        throw error;
       } finally {
-        client
-          .query("ROLLBACK")
-          .catch((error) =>
-            console.warn("Could not roll back transaction:", error),
-          );
-
         client.release();
       }
     }
+    if (request.params.name === explainTool.name) {
+      const client = await getPool().connect();
+      try {
+        const result = await runExplain(
+          client,
+          request.params.arguments as unknown as ExplainArgs,
+          { statementTimeoutMs: resultLimits.statementTimeoutMs },
+        );
+        return {
+          content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+          isError: false,
+        };
+      } finally {
+        client.release();
+      }
+    }
+    if (introspectionTools.some((tool) => tool.name === request.params.name)) {
+      const client = await getPool().connect();
+      try {
+        const result = await runIntrospectionTool(
+          client,
+          request.params.name,
+          request.params.arguments,
+        );
+        return {
+          content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+          isError: false,
+        };
+      } finally {
+        client.release();
+      }
+    }
+    if (request.params.name === "pool_stats") {
+      const stats = {
+        pool: poolCache.stats(getDatabaseUrl()) ?? null,
+        cache: poolCache.summary(),
+      };
+      return {
+        content: [{ type: "text", text: JSON.stringify(stats, null, 2) }],
+        isError: false,
+      };
+    }
     throw new Error(`Unknown tool: ${request.params.name}`);
   });
 
@@ -133,137 +198,38 @@ const asyncLocalStorage = new AsyncLocalStorage<{
   databaseUrl: string;
 }>();
 
+function getDatabaseUrl() {
+  const databaseUrl = asyncLocalStorage.getStore()?.databaseUrl;
+  if (!databaseUrl) {
+    throw new Error("Database URL is missing from the request context");
+  }
+  return databaseUrl;
+}
+
 // Create resourceBaseUrl when needed
 function getResourceBaseUrl() {
-  const databaseUrl = asyncLocalStorage.getStore()!.databaseUrl;
+  const databaseUrl = getDatabaseUrl();
   const resourceBaseUrl = new URL(databaseUrl);
   resourceBaseUrl.protocol = "postgres:";
   resourceBaseUrl.password = "";
   return resourceBaseUrl;
 }
 
-// Create pool when needed
+// Reuse the cached pool for the current tenant, creating it on first use
 function getPool() {
-  const databaseUrl = asyncLocalStorage.getStore()!.databaseUrl;
-  return new pg.Pool({
-    connectionString: databaseUrl,
-  });
+  return poolCache.get(getDatabaseUrl());
 }
 
-const app = express();
-
-
-//=============================================================================
-// STREAMABLE HTTP TRANSPORT (PROTOCOL VERSION 2025-03-26)
-//=============================================================================
-
-app.post('/mcp', async (req: Request, res: Response) => {
-  const databaseUrl = process.env.DATABASE_URL || req.headers['x-auth-token'] as string;
-
-  if (!databaseUrl) {
-    console.error('Error: Postgres database URL is missing. Provide it via DATABASE_URL env var or x-auth-token header.');
-  }
-
-  const server = getPostgresMcpServer();
-  try {
-    const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
-      sessionIdGenerator: undefined,
-    });
-    await server.connect(transport);
-    asyncLocalStorage.run({ databaseUrl }, async () => {
-      await transport.handleRequest(req, res, req.body);
-    });
-    res.on('close', () => {
-      console.log('Request closed');
-      transport.close();
-      server.close();
-    });
-  } catch (error) {
-    console.error('Error handling MCP request:', error);
-    if (!res.headersSent) {
-      res.status(500).json({
-        jsonrpc: '2.0',
-        error: {
-          code: -32603,
-          message: 'Internal server error',
-        },
-        id: null,
-      });
-    }
-  }
-});
-
-app.get('/mcp', async (req: Request, res: Response) => {
-  console.log('Received GET MCP request');
-  res.writeHead(405).end(JSON.stringify({
-    jsonrpc: "2.0",
-    error: {
-      code: -32000,
-      message: "Method not allowed."
-    },
-    id: null
-  }));
-});
-
-app.delete('/mcp', async (req: Request, res: Response) => {
-  console.log('Received DELETE MCP request');
-  res.writeHead(405).end(JSON.stringify({
-    jsonrpc: "2.0",
-    error: {
-      code: -32000,
-      message: "Method not allowed."
-    },
-    id: null
-  }));
-});
-
-//=============================================================================
-// DEPRECATED HTTP+SSE TRANSPORT (PROTOCOL VERSION 2024-11-05)
-//=============================================================================
-const transports = new Map<string, SSEServerTransport>();
-
-app.get("/sse", async (req, res) => {
-  const transport = new SSEServerTransport(`/messages`, res);
-
-  // Set up cleanup when connection closes
-  res.on('close', async () => {
-    console.log(`SSE connection closed for transport: ${transport.sessionId}`);
-    try {
-      transports.delete(transport.sessionId);
-    } finally {
-    }
-  });
-
-  transports.set(transport.sessionId, transport);
-
-  const server = getPostgresMcpServer();
-  await server.connect(transport);
-
-  console.log(`SSE connection established with transport: ${transport.sessionId}`);
-});
-
-app.post("/messages", async (req, res) => {
-  const sessionId = req.query.sessionId as string;
-
-  let transport: SSEServerTransport | undefined;
-  transport = sessionId ? transports.get(sessionId) : undefined;
-  if (transport) {
-    // Use DATABASE_URL from environment if available, otherwise fall back to header
+startMcpServer({
+  name: "postgres-mcp-server",
+  createServer: getPostgresMcpServer,
+  asyncLocalStorage,
+  extractContext: (req) => {
     const databaseUrl = process.env.DATABASE_URL || req.headers['x-auth-token'] as string;
-
     if (!databaseUrl) {
       console.error('Error: Postgres database URL is missing. Provide it via DATABASE_URL env var or x-auth-token header.');
     }
-
-    asyncLocalStorage.run({ databaseUrl }, async () => {
-      await transport.handlePostMessage(req, res);
-    });
-  } else {
-    console.error(`Transport not found for session ID: ${sessionId}`);
-    res.status(404).send({ error: "Transport not found" });
-  }
-});
-
-app.listen(5000, () => {
-  console.log('server running on port 5000');
+    return { databaseUrl };
+  },
+  onShutdown: () => poolCache.closeAll(),
 });
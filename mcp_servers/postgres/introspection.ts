@@ -0,0 +1,400 @@
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import type pg from 'pg';
+
+// Matches every user schema when $1 is null, otherwise only the listed ones.
+// Names starting with `pg_` are reserved for the system (catalog, toast, temp).
+const SCHEMA_FILTER = `
+  case
+    when $1::text[] is null then n.nspname !~ '^pg_' and n.nspname <> 'information_schema'
+    else n.nspname = any($1::text[])
+  end
+`;
+
+const LIST_SCHEMAS_SQL = `
+  select
+    n.nspname as name,
+    pg_get_userbyid(n.nspowner) as owner,
+    obj_description(n.oid, 'pg_namespace') as comment
+  from pg_namespace n
+  where ${SCHEMA_FILTER}
+  order by n.nspname
+`;
+
+const LIST_TABLES_SQL = `
+  select
+    n.nspname as schema,
+    c.relname as name,
+    case c.relkind
+      when 'r' then 'table'
+      when 'p' then 'partitioned table'
+      when 'f' then 'foreign table'
+    end as type,
+    case when c.reltuples < 0 then null else c.reltuples::float8 end as row_estimate,
+    pg_size_pretty(pg_total_relation_size(c.oid)) as total_size,
+    c.relrowsecurity as rls_enabled,
+    obj_description(c.oid, 'pg_class') as comment
+  from pg_class c
+  join pg_namespace n on n.oid = c.relnamespace
+  where c.relkind in ('r', 'p', 'f')
+    and ${SCHEMA_FILTER}
+  order by n.nspname, c.relname
+`;
+
+const LIST_COLUMNS_SQL = `
+  select
+    a.attname as name,
+    format_type(a.atttypid, a.atttypmod) as data_type,
+    not a.attnotnull as is_nullable,
+    pg_get_expr(d.adbin, d.adrelid) as default_value,
+    a.attidentity <> '' as is_identity,
+    col_description(a.attrelid, a.attnum) as comment
+  from pg_attribute a
+  join pg_class c on c.oid = a.attrelid
+  join pg_namespace n on n.oid = c.relnamespace
+  left join pg_attrdef d on d.adrelid = a.attrelid and d.adnum = a.attnum
+  where n.nspname = $1
+    and c.relname = $2
+    and a.attnum > 0
+    and not a.attisdropped
+  order by a.attnum
+`;
+
+// Resolves an array of attribute numbers to column names, keeping key order.
+const columnNames = (keys: string, relation: string) => `
+  array(
+    select a.attname::text
+    from unnest(${keys}::int2[]) with ordinality k(attnum, ord)
+    join pg_attribute a on a.attrelid = ${relation} and a.attnum = k.attnum
+    order by k.ord
+  )
+`;
+
+const LIST_CONSTRAINTS_SQL = `
+  select
+    con.conname as name,
+    case con.contype
+      when 'p' then 'primary key'
+      when 'f' then 'foreign key'
+      when 'u' then 'unique'
+      when 'c' then 'check'
+      when 'x' then 'exclusion'
+    end as type,
+    ${columnNames('con.conkey', 'con.conrelid')} as columns,
+    fn.nspname as referenced_schema,
+    fc.relname as referenced_table,
+    case when con.contype = 'f' then ${columnNames('con.confkey', 'con.confrelid')} end
+      as referenced_columns,
+    pg_get_constraintdef(con.oid, true) as definition
+  from pg_constraint con
+  join pg_class c on c.oid = con.conrelid
+  join pg_namespace n on n.oid = c.relnamespace
+  left join pg_class fc on fc.oid = con.confrelid
+  left join pg_namespace fn on fn.oid = fc.relnamespace
+  where n.nspname = $1
+    and c.relname = $2
+    and con.contype in ('p', 'f', 'u', 'c', 'x')
+  order by con.contype, con.conname
+`;
+
+const FOREIGN_KEY_COLUMNS = `
+  con.conname as name,
+  n.nspname as schema,
+  c.relname as table,
+  ${columnNames('con.conkey', 'con.conrelid')} as columns,
+  fn.nspname as referenced_schema,
+  fc.relname as referenced_table,
+  ${columnNames('con.confkey', 'con.confrelid')} as referenced_columns,
+  pg_get_constraintdef(con.oid, true) as definition
+`;
+
+const FOREIGN_KEY_JOINS = `
+  from pg_constraint con
+  join pg_class c on c.oid = con.conrelid
+  join pg_namespace n on n.oid = c.relnamespace
+  join pg_class fc on fc.oid = con.confrelid
+  join pg_namespace fn on fn.oid = fc.relnamespace
+`;
+
+const LIST_FOREIGN_KEYS_SQL = `
+  select ${FOREIGN_KEY_COLUMNS}
+  ${FOREIGN_KEY_JOINS}
+  where con.contype = 'f'
+    and ${SCHEMA_FILTER}
+  order by n.nspname, c.relname, con.conname
+`;
+
+const LIST_REFERENCING_KEYS_SQL = `
+  select ${FOREIGN_KEY_COLUMNS}
+  ${FOREIGN_KEY_JOINS}
+  where con.contype = 'f' and fn.nspname = $1 and fc.relname = $2
+  order by n.nspname, c.relname, con.conname
+`;
+
+const INDEX_COLUMNS = `
+  n.nspname as schema,
+  t.relname as table,
+  i.relname as name,
+  array(
+    select pg_get_indexdef(ix.indexrelid, k.ord, true)
+    from generate_series(1, ix.indnkeyatts) k(ord)
+  ) as columns,
+  ix.indisunique as is_unique,
+  ix.indisprimary as is_primary,
+  am.amname as method,
+  pg_get_expr(ix.indpred, ix.indrelid) as predicate,
+  pg_size_pretty(pg_relation_size(i.oid)) as size,
+  pg_stat_get_numscans(i.oid)::float8 as scans,
+  pg_get_indexdef(ix.indexrelid) as definition
+`;
+
+const INDEX_JOINS = `
+  from pg_index ix
+  join pg_class i on i.oid = ix.indexrelid
+  join pg_class t on t.oid = ix.indrelid
+  join pg_namespace n on n.oid = t.relnamespace
+  join pg_am am on am.oid = i.relam
+`;
+
+const LIST_INDEXES_SQL = `
+  select ${INDEX_COLUMNS}
+  ${INDEX_JOINS}
+  where ${SCHEMA_FILTER}
+    and ($2::text is null or t.relname = $2)
+  order by n.nspname, t.relname, i.relname
+`;
+
+const LIST_VIEWS_SQL = `
+  select
+    n.nspname as schema,
+    c.relname as name,
+    case c.relkind when 'v' then 'view' else 'materialized view' end as type,
+    pg_get_viewdef(c.oid, true) as definition,
+    obj_description(c.oid, 'pg_class') as comment
+  from pg_class c
+  join pg_namespace n on n.oid = c.relnamespace
+  where c.relkind in ('v', 'm')
+    and ${SCHEMA_FILTER}
+  order by n.nspname, c.relname
+`;
+
+const LIST_ENUMS_SQL = `
+  select
+    n.nspname as schema,
+    t.typname as name,
+    array_agg(e.enumlabel::text order by e.enumsortorder) as values
+  from pg_type t
+  join pg_enum e on e.enumtypid = t.oid
+  join pg_namespace n on n.oid = t.typnamespace
+  where ${SCHEMA_FILTER}
+  group by n.nspname, t.typname
+  order by n.nspname, t.typname
+`;
+
+// Functions installed by extensions are skipped; they are rarely what an
+// agent is looking for and can number in the hundreds.
+const LIST_FUNCTIONS_SQL = `
+  select
+    n.nspname as schema,
+    p.proname as name,
+    case p.prokind
+      when 'f' then 'function'
+      when 'p' then 'procedure'
+      when 'a' then 'aggregate'
+      when 'w' then 'window'
+    end as kind,
+    pg_get_function_arguments(p.oid) as arguments,
+    pg_get_function_result(p.oid) as return_type,
+    l.lanname as language,
+    case p.provolatile
+      when 'i' then 'immutable'
+      when 's' then 'stable'
+      else 'volatile'
+    end as volatility,
+    obj_description(p.oid, 'pg_proc') as comment
+  from pg_proc p
+  join pg_namespace n on n.oid = p.pronamespace
+  join pg_language l on l.oid = p.prolang
+  where ${SCHEMA_FILTER}
+    and not exists (
+      select 1 from pg_depend d
+      where d.classid = 'pg_proc'::regclass and d.objid = p.oid and d.deptype = 'e'
+    )
+  order by n.nspname, p.proname
+`;
+
+const schemasProperty = {
+  type: 'array',
+  items: { type: 'string' },
+  description:
+    'Schemas to include. Defaults to all user schemas (everything except pg_catalog, information_schema and other system schemas).',
+};
+
+const tableProperties = {
+  schema: {
+    type: 'string',
+    description: "Schema containing the table (default 'public')",
+  },
+  table: {
+    type: 'string',
+    description: 'Table name',
+  },
+};
+
+export const introspectionTools: Tool[] = [
+  {
+    name: 'list_schemas',
+    description: 'List the user schemas in the database with their owners',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+    },
+  },
+  {
+    name: 'list_tables',
+    description:
+      'List tables with their type, estimated row count, total size, row level security status and comment',
+    inputSchema: {
+      type: 'object',
+      properties: { schemas: schemasProperty },
+    },
+  },
+  {
+    name: 'describe_table',
+    description:
+      'Describe a table: columns with data types, nullability and defaults, primary key, unique, check and foreign key constraints, indexes, and the foreign keys in other tables that reference it',
+    inputSchema: {
+      type: 'object',
+      properties: tableProperties,
+      required: ['table'],
+    },
+  },
+  {
+    name: 'list_foreign_keys',
+    description:
+      'List all foreign key relationships between tables. Use this to work out how tables can be joined.',
+    inputSchema: {
+      type: 'object',
+      properties: { schemas: schemasProperty },
+    },
+  },
+  {
+    name: 'list_indexes',
+    description:
+      'List indexes with their columns, uniqueness, access method, partial index predicate, size and scan count',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        schemas: schemasProperty,
+        table: {
+          type: 'string',
+          description: 'Only list the indexes of this table',
+        },
+      },
+    },
+  },
+  {
+    name: 'list_views',
+    description: 'List views and materialized views with their definitions',
+    inputSchema: {
+      type: 'object',
+      properties: { schemas: schemasProperty },
+    },
+  },
+  {
+    name: 'list_enums',
+    description: 'List enum types with their values in sort order',
+    inputSchema: {
+      type: 'object',
+      properties: { schemas: schemasProperty },
+    },
+  },
+  {
+    name: 'list_functions',
+    description:
+      'List user-defined functions and procedures with their arguments, return type, language and volatility',
+    inputSchema: {
+      type: 'object',
+      properties: { schemas: schemasProperty },
+    },
+  },
+];
+
+export interface TableDescription {
+  schema: string;
+  table: string;
+  columns: unknown[];
+  constraints: unknown[];
+  indexes: unknown[];
+  referenced_by: unknown[];
+}
+
+export async function describeTable(
+  client: pg.PoolClient,
+  schema: string,
+  table: string,
+): Promise<TableDescription> {
+  const columns = await client.query(LIST_COLUMNS_SQL, [schema, table]);
+  if (columns.rowCount === 0) {
+    throw new Error(`Table "${schema}"."${table}" does not exist or has no columns`);
+  }
+  const constraints = await client.query(LIST_CONSTRAINTS_SQL, [schema, table]);
+  const indexes = await client.query(LIST_INDEXES_SQL, [[schema], table]);
+  const referencedBy = await client.query(LIST_REFERENCING_KEYS_SQL, [schema, table]);
+  return {
+    schema,
+    table,
+    columns: columns.rows,
+    constraints: constraints.rows,
+    indexes: indexes.rows,
+    referenced_by: referencedBy.rows,
+  };
+}
+
+function schemasArgument(args: Record<string, unknown>) {
+  const schemas = args.schemas;
+  if (schemas === undefined || schemas === null) {
+    return null;
+  }
+  if (!Array.isArray(schemas) || schemas.some((schema) => typeof schema !== 'string')) {
+    throw new Error('schemas must be an array of schema names');
+  }
+  return schemas.length > 0 ? schemas : null;
+}
+
+/**
+ * Runs one of the introspection tools. Returns `undefined` when `name` is not
+ * an introspection tool so the caller can fall through to its other tools.
+ */
+export async function runIntrospectionTool(
+  client: pg.PoolClient,
+  name: string,
+  args: Record<string, unknown> = {},
+): Promise<unknown> {
+  switch (name) {
+    case 'list_schemas':
+      return (await client.query(LIST_SCHEMAS_SQL, [null])).rows;
+    case 'list_tables':
+      return (await client.query(LIST_TABLES_SQL, [schemasArgument(args)])).rows;
+    case 'describe_table': {
+      if (typeof args.table !== 'string' || !args.table) {
+        throw new Error('Missing required argument: table');
+      }
+      const schema = typeof args.schema === 'string' && args.schema ? args.schema : 'public';
+      return describeTable(client, schema, args.table);
+    }
+    case 'list_foreign_keys':
+      return (await client.query(LIST_FOREIGN_KEYS_SQL, [schemasArgument(args)])).rows;
+    case 'list_indexes': {
+      const table = typeof args.table === 'string' && args.table ? args.table : null;
+      return (await client.query(LIST_INDEXES_SQL, [schemasArgument(args), table])).rows;
+    }
+    case 'list_views':
+      return (await client.query(LIST_VIEWS_SQL, [schemasArgument(args)])).rows;
+    case 'list_enums':
+      return (await client.query(LIST_ENUMS_SQL, [schemasArgument(args)])).rows;
+    case 'list_functions':
+      return (await client.query(LIST_FUNCTIONS_SQL, [schemasArgument(args)])).rows;
+    default:
+      return undefined;
+  }
+}
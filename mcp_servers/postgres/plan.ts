@@ -0,0 +1,335 @@
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import type pg from 'pg';
+import { describeTable } from './introspection.js';
+import {
+  classifyStatement,
+  EXPLAINABLE_COMMANDS,
+  runSingleStatement,
+  splitStatements,
+} from './sql.js';
+
+const COSTLY_NODE_COUNT = 5;
+// Estimates off by this factor or more are reported as mismatches.
+const MISMATCH_RATIO = 10;
+// Sequential scans over smaller tables are cheap enough not to need an index.
+const MIN_ROWS_FOR_INDEX = 1000;
+
+// Column compared by a scan filter, e.g. `((status)::text = 'shipped'::text)`.
+const CONDITION_COLUMN =
+  /(?:\b([A-Za-z_][\w$]*)\.)?\b([A-Za-z_][\w$]*)\)?\s*(?:::[\w ]+?)?\s*(=|<>|!=|<=|>=|<|>|~~\*?|IS NOT NULL|IS NULL|= ANY)/g;
+const QUALIFIED_COLUMN = /\b([A-Za-z_][\w$]*)\.([A-Za-z_][\w$]*)\b/g;
+const RANGE_OPERATORS = new Set(['<', '>', '<=', '>=']);
+
+export const explainTool: Tool = {
+  name: 'explain_query',
+  description:
+    'Explain how PostgreSQL executes a query. Returns a summary of the plan: the most expensive nodes, sequential scans, ' +
+    'row estimates that are far off (with analyze) and candidate indexes based on the table definitions. ' +
+    'With analyze the query is actually run inside a read-only transaction that is rolled back.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      sql: { type: 'string', description: 'A single SQL statement to explain' },
+      analyze: {
+        type: 'boolean',
+        description:
+          'Run the query to collect actual row counts and timings (read-only queries only, default false)',
+        default: false,
+      },
+      include_plan: {
+        type: 'boolean',
+        description: 'Include the full JSON plan in the result (default false)',
+        default: false,
+      },
+    },
+    required: ['sql'],
+  },
+};
+
+export interface ExplainArgs {
+  sql: string;
+  analyze?: boolean;
+  include_plan?: boolean;
+}
+
+/** One node of an `EXPLAIN (FORMAT JSON)` plan; only the fields used here. */
+interface PlanNode {
+  'Node Type': string;
+  'Relation Name'?: string;
+  Schema?: string;
+  Alias?: string;
+  'Index Name'?: string;
+  'Total Cost': number;
+  'Plan Rows': number;
+  'Actual Rows'?: number;
+  'Actual Loops'?: number;
+  'Actual Total Time'?: number;
+  Filter?: string;
+  'Rows Removed by Filter'?: number;
+  'Join Filter'?: string;
+  Plans?: PlanNode[];
+}
+
+interface FlatNode {
+  node: PlanNode;
+  depth: number;
+  selfCost: number;
+}
+
+interface ColumnUse {
+  column: string;
+  range: boolean;
+}
+
+export interface IndexSuggestion {
+  table: string;
+  columns: string[];
+  reason: string;
+  sql: string;
+}
+
+function flatten(node: PlanNode, depth = 0, nodes: FlatNode[] = []) {
+  const children = node.Plans ?? [];
+  const childCost = children.reduce((sum, child) => sum + child['Total Cost'], 0);
+  nodes.push({ node, depth, selfCost: Math.max(0, node['Total Cost'] - childCost) });
+  for (const child of children) {
+    flatten(child, depth + 1, nodes);
+  }
+  return nodes;
+}
+
+function describeNode(node: PlanNode) {
+  const relation = node['Relation Name']
+    ? ` on ${node.Schema ? `${node.Schema}.` : ''}${node['Relation Name']}`
+    : '';
+  const alias = node.Alias && node.Alias !== node['Relation Name'] ? ` ${node.Alias}` : '';
+  const index = node['Index Name'] ? ` using ${node['Index Name']}` : '';
+  return `${node['Node Type']}${relation}${alias}${index}`;
+}
+
+function actualRows(node: PlanNode) {
+  return node['Actual Rows'] === undefined
+    ? undefined
+    : node['Actual Rows'] * (node['Actual Loops'] ?? 1);
+}
+
+function quoteIdent(name: string) {
+  return /^[a-z_][a-z0-9_$]*$/.test(name) ? name : `"${name.replace(/"/g, '""')}"`;
+}
+
+function filterColumns(filter: string | undefined): ColumnUse[] {
+  if (!filter) {
+    return [];
+  }
+  return [...filter.matchAll(CONDITION_COLUMN)].map(([, , column, operator]) => ({
+    column,
+    range: RANGE_OPERATORS.has(operator),
+  }));
+}
+
+// Join conditions name both sides, so only columns qualified with `alias` count.
+function joinColumns(condition: string, alias: string): ColumnUse[] {
+  return [...condition.matchAll(QUALIFIED_COLUMN)]
+    .filter(([, qualifier]) => qualifier === alias)
+    .map(([, , column]) => ({ column, range: false }));
+}
+
+async function tableRowEstimate(client: pg.PoolClient, schema: string, table: string) {
+  const result = await client.query<{ rows: number | null }>(
+    `SELECT c.reltuples::float8 AS rows
+     FROM pg_class c JOIN pg_namespace n ON n.oid = c.relnamespace
+     WHERE n.nspname = $1 AND c.relname = $2`,
+    [schema, table],
+  );
+  return result.rows[0]?.rows ?? null;
+}
+
+/**
+ * Suggests indexes for sequential scans that filter or join on columns when
+ * no existing index leads with the first of them. Columns compared for equality come first.
+ */
+async function suggestIndexes(client: pg.PoolClient, nodes: FlatNode[]) {
+  const suggestions: IndexSuggestion[] = [];
+  const joins = nodes.flatMap(({ node }) =>
+    // A nested loop re-runs its inner scan for every outer row; hash and
+    // merge joins read each side once, so their keys are left alone.
+    node['Join Filter'] ? [node['Join Filter']] : [],
+  );
+
+  for (const { node } of nodes) {
+    if (node['Node Type'] !== 'Seq Scan' || !node['Relation Name']) {
+      continue;
+    }
+    const schema = node.Schema ?? 'public';
+    const table = node['Relation Name'];
+    const alias = node.Alias ?? table;
+    const uses = [
+      ...filterColumns(node.Filter),
+      ...joins.flatMap((condition) => joinColumns(condition, alias)),
+    ];
+    if (uses.length === 0) {
+      continue;
+    }
+    const estimate = await tableRowEstimate(client, schema, table);
+    if (estimate !== null && estimate >= 0 && estimate < MIN_ROWS_FOR_INDEX) {
+      continue;
+    }
+
+    let description;
+    try {
+      description = await describeTable(client, schema, table);
+    } catch {
+      continue;
+    }
+    const existing = new Set(
+      (description.columns as { name: string }[]).map((column) => column.name),
+    );
+    const leading = new Set(
+      (description.indexes as { columns: string[]; predicate: string | null }[])
+        .filter((index) => !index.predicate)
+        .map((index) => index.columns[0]),
+    );
+
+    const columns = [
+      ...uses.filter((use) => !use.range).map((use) => use.column),
+      ...uses.filter((use) => use.range).map((use) => use.column),
+    ].filter((column, position, all) => existing.has(column) && all.indexOf(column) === position);
+    if (columns.length === 0 || leading.has(columns[0])) {
+      continue;
+    }
+
+    const removed = node['Rows Removed by Filter'];
+    suggestions.push({
+      table: `${schema}.${table}`,
+      columns,
+      reason: `Sequential scan on ${schema}.${table} (~${estimate ?? 'unknown'} rows) ${
+        node.Filter ? `filtering on ${node.Filter}` : 'joined'
+      }${removed !== undefined ? `, ${removed} rows removed by the filter` : ''}`,
+      sql: `CREATE INDEX ON ${quoteIdent(schema)}.${quoteIdent(table)} (${columns
+        .map(quoteIdent)
+        .join(', ')});`,
+    });
+  }
+  return suggestions;
+}
+
+function summarizePlan(root: PlanNode) {
+  const nodes = flatten(root);
+  // Under a LIMIT the root's cost is below its children's, so shares are of the summed node costs.
+  const totalCost = nodes.reduce((sum, { selfCost }) => sum + selfCost, 0) || 1;
+
+  const costlyNodes = [...nodes]
+    .sort((a, b) => b.selfCost - a.selfCost)
+    .slice(0, COSTLY_NODE_COUNT)
+    .map(({ node, depth, selfCost }) => ({
+      node: describeNode(node),
+      depth,
+      self_cost: Math.round(selfCost * 100) / 100,
+      cost_share: `${Math.round((selfCost / totalCost) * 100)}%`,
+      estimated_rows: node['Plan Rows'],
+      ...(node['Actual Rows'] !== undefined ? { actual_rows: actualRows(node) } : {}),
+      ...(node['Actual Total Time'] !== undefined
+        ? { actual_time_ms: node['Actual Total Time'] }
+        : {}),
+    }));
+
+  const seqScans = nodes
+    .filter(({ node }) => node['Node Type'] === 'Seq Scan')
+    .map(({ node }) => ({
+      table: `${node.Schema ?? 'public'}.${node['Relation Name']}`,
+      ...(node.Filter ? { filter: node.Filter } : {}),
+      estimated_rows: node['Plan Rows'],
+      ...(node['Actual Rows'] !== undefined ? { actual_rows: actualRows(node) } : {}),
+      ...(node['Rows Removed by Filter'] !== undefined
+        ? { rows_removed_by_filter: node['Rows Removed by Filter'] }
+        : {}),
+    }));
+
+  const estimateMismatches = nodes
+    .filter(({ node }) => node['Actual Rows'] !== undefined)
+    .map(({ node }) => {
+      const estimated = node['Plan Rows'] * (node['Actual Loops'] ?? 1);
+      const actual = actualRows(node) ?? 0;
+      const ratio = Math.max(estimated, 1) / Math.max(actual, 1);
+      return { node, estimated, actual, ratio: ratio >= 1 ? ratio : 1 / ratio };
+    })
+    .filter(({ ratio }) => ratio >= MISMATCH_RATIO)
+    .map(({ node, estimated, actual, ratio }) => ({
+      node: describeNode(node),
+      estimated_rows: estimated,
+      actual_rows: actual,
+      factor: Math.round(ratio),
+      direction: actual > estimated ? 'underestimated' : 'overestimated',
+    }));
+
+  return { nodes, costlyNodes, seqScans, estimateMismatches };
+}
+
+/**
+ * Runs the `explain_query` tool. The plan is always produced inside a
+ * read-only transaction that is rolled back, so ANALYZE cannot change data.
+ */
+export async function runExplain(
+  client: pg.PoolClient,
+  args: ExplainArgs,
+  options: { statementTimeoutMs: number },
+) {
+  if (typeof args.sql !== 'string' || !args.sql.trim()) {
+    throw new Error('Missing required argument: sql');
+  }
+  const statements = splitStatements(args.sql);
+  if (statements.length !== 1) {
+    throw new Error(
+      `explain_query explains exactly one statement, but ${statements.length} were given.`,
+    );
+  }
+  const [sql] = statements;
+  const statement = classifyStatement(sql);
+  if (!EXPLAINABLE_COMMANDS.has(statement.command)) {
+    throw new Error(`${statement.command || 'This statement'} cannot be explained.`);
+  }
+  const analyze = args.analyze === true;
+  // ANALYZE runs the statement, so it is limited to reads.
+  if (analyze && statement.kind !== 'read') {
+    throw new Error('analyze runs the query, so it is only available for read-only queries.');
+  }
+
+  await client.query('BEGIN TRANSACTION READ ONLY');
+  try {
+    await client.query(`SET LOCAL statement_timeout = ${Math.floor(options.statementTimeoutMs)}`);
+    // VERBOSE adds the schema of every scanned relation.
+    const explained = await runSingleStatement(
+      client,
+      `EXPLAIN (FORMAT JSON, VERBOSE${analyze ? ', ANALYZE, BUFFERS' : ''}) ${sql}`,
+    );
+    const [output] = explained.rows[0]['QUERY PLAN'] as {
+      Plan: PlanNode;
+      'Planning Time'?: number;
+      'Execution Time'?: number;
+    }[];
+    const { nodes, costlyNodes, seqScans, estimateMismatches } = summarizePlan(output.Plan);
+    const indexSuggestions = await suggestIndexes(client, nodes);
+
+    return {
+      analyzed: analyze,
+      total_cost: output.Plan['Total Cost'],
+      estimated_rows: output.Plan['Plan Rows'],
+      ...(output['Planning Time'] !== undefined
+        ? { planning_time_ms: output['Planning Time'] }
+        : {}),
+      ...(output['Execution Time'] !== undefined
+        ? { execution_time_ms: output['Execution Time'] }
+        : {}),
+      costly_nodes: costlyNodes,
+      seq_scans: seqScans,
+      ...(analyze ? { estimate_mismatches: estimateMismatches } : {}),
+      index_suggestions: indexSuggestions,
+      ...(args.include_plan ? { plan: output } : {}),
+    };
+  } finally {
+    // Also discards anything ANALYZE did; the client goes back to a shared pool.
+    await client
+      .query('ROLLBACK')
+      .catch((error) => console.warn('Could not roll back transaction:', error));
+  }
+}
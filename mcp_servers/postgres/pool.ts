@@ -0,0 +1,183 @@
+import pg from 'pg';
+
+export interface PoolCacheOptions {
+  /** Maximum number of tenant pools kept open at once. */
+  maxPools: number;
+  /** Maximum connections per tenant pool. */
+  maxConnections: number;
+  /** Pools with no checked-out clients for this long are closed. */
+  poolIdleTtlMs: number;
+  /** How long an unused connection stays open inside a pool. */
+  connectionIdleTimeoutMs: number;
+  /** How long to wait for a connection before giving up. */
+  connectionTimeoutMs: number;
+}
+
+export interface PoolStats {
+  /** Connection target without credentials, e.g. `db.example.com:5432/app`. */
+  target: string;
+  totalConnections: number;
+  idleConnections: number;
+  waitingClients: number;
+  createdAt: string;
+  lastUsedAt: string;
+}
+
+interface CachedPool {
+  pool: pg.Pool;
+  target: string;
+  createdAt: number;
+  lastUsedAt: number;
+}
+
+export function poolCacheOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): PoolCacheOptions {
+  const number = (value: string | undefined, fallback: number) => {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+  };
+  return {
+    maxPools: number(env.PG_MAX_POOLS, 20),
+    maxConnections: number(env.PG_POOL_MAX_CONNECTIONS, 5),
+    poolIdleTtlMs: number(env.PG_POOL_IDLE_TTL_MS, 5 * 60 * 1000),
+    connectionIdleTimeoutMs: number(env.PG_CONNECTION_IDLE_TIMEOUT_MS, 30 * 1000),
+    connectionTimeoutMs: number(env.PG_CONNECTION_TIMEOUT_MS, 10 * 1000),
+  };
+}
+
+// Clients checked out of the pool or waiting for one.
+function clientsInUse(pool: pg.Pool) {
+  return pool.totalCount - pool.idleCount + pool.waitingCount;
+}
+
+// Strips the credentials so the target can be logged and reported.
+function describeTarget(databaseUrl: string) {
+  try {
+    const url = new URL(databaseUrl);
+    return `${url.hostname}${url.port ? `:${url.port}` : ''}${url.pathname}`;
+  } catch {
+    return '<invalid connection string>';
+  }
+}
+
+/**
+ * Bounded LRU cache of `pg.Pool`s keyed by connection string, so every tenant
+ * reuses one pool instead of opening new connections on each call. Pools
+ * that have been idle for `poolIdleTtlMs` are ended by a background sweep.
+ */
+export class PoolCache {
+  // Map iteration order doubles as the LRU order: least recently used first.
+  private pools = new Map<string, CachedPool>();
+  private sweeper: NodeJS.Timeout;
+  private evictions = 0;
+
+  constructor(private readonly options: PoolCacheOptions) {
+    this.sweeper = setInterval(
+      () => {
+        this.evictIdle();
+        this.evictOverflow();
+      },
+      Math.min(options.poolIdleTtlMs, 60 * 1000),
+    );
+    this.sweeper.unref();
+  }
+
+  get(databaseUrl: string): pg.Pool {
+    const cached = this.pools.get(databaseUrl);
+    if (cached) {
+      cached.lastUsedAt = Date.now();
+      this.pools.delete(databaseUrl);
+      this.pools.set(databaseUrl, cached);
+      return cached.pool;
+    }
+
+    const target = describeTarget(databaseUrl);
+    const pool = new pg.Pool({
+      connectionString: databaseUrl,
+      max: this.options.maxConnections,
+      idleTimeoutMillis: this.options.connectionIdleTimeoutMs,
+      connectionTimeoutMillis: this.options.connectionTimeoutMs,
+    });
+    // An idle client losing its connection must not crash the process.
+    pool.on('error', (error) => {
+      console.error(`Idle client error in pool for ${target}:`, error.message);
+    });
+
+    const now = Date.now();
+    this.pools.set(databaseUrl, { pool, target, createdAt: now, lastUsedAt: now });
+    this.evictOverflow();
+    return pool;
+  }
+
+  stats(databaseUrl: string): PoolStats | undefined {
+    const cached = this.pools.get(databaseUrl);
+    if (!cached) {
+      return undefined;
+    }
+    return {
+      target: cached.target,
+      totalConnections: cached.pool.totalCount,
+      idleConnections: cached.pool.idleCount,
+      waitingClients: cached.pool.waitingCount,
+      createdAt: new Date(cached.createdAt).toISOString(),
+      lastUsedAt: new Date(cached.lastUsedAt).toISOString(),
+    };
+  }
+
+  summary() {
+    let totalConnections = 0;
+    for (const { pool } of this.pools.values()) {
+      totalConnections += pool.totalCount;
+    }
+    return {
+      openPools: this.pools.size,
+      maxPools: this.options.maxPools,
+      maxConnectionsPerPool: this.options.maxConnections,
+      totalConnections,
+      evictions: this.evictions,
+    };
+  }
+
+  async closeAll() {
+    clearInterval(this.sweeper);
+    const pools = [...this.pools.values()];
+    this.pools.clear();
+    await Promise.allSettled(pools.map(({ pool }) => pool.end()));
+  }
+
+  private evict(databaseUrl: string, reason: string) {
+    const cached = this.pools.get(databaseUrl);
+    if (!cached) {
+      return;
+    }
+    this.pools.delete(databaseUrl);
+    this.evictions++;
+    console.error(`Closing pool for ${cached.target} (${reason})`);
+    cached.pool.end().catch((error) => {
+      console.warn(`Could not close pool for ${cached.target}:`, error);
+    });
+  }
+
+  // Pools with clients in use are skipped, so the cache can briefly hold more
+  // than `maxPools`; the sweep trims it again once those queries finish. The
+  // most recently used pool is never evicted: `get()` is about to hand it out.
+  private evictOverflow() {
+    const newest = [...this.pools.keys()].at(-1);
+    for (const [databaseUrl, cached] of this.pools) {
+      if (this.pools.size <= this.options.maxPools) {
+        return;
+      }
+      if (databaseUrl !== newest && clientsInUse(cached.pool) === 0) {
+        this.evict(databaseUrl, 'pool limit reached');
+      }
+    }
+  }
+
+  private evictIdle() {
+    const cutoff = Date.now() - this.options.poolIdleTtlMs;
+    for (const [databaseUrl, cached] of this.pools) {
+      if (clientsInUse(cached.pool) === 0 && cached.lastUsedAt < cutoff) {
+        this.evict(databaseUrl, 'idle');
+      }
+    }
+  }
+}
@@ -0,0 +1,302 @@
+import { createHash } from 'node:crypto';
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import type pg from 'pg';
+import { classifyStatement, runSingleStatement, splitStatements } from './sql.js';
+
+export interface ResultLimits {
+  /** Statements running longer than this are cancelled by the server. */
+  statementTimeoutMs: number;
+  /** Maximum rows returned by one call; callers may ask for fewer. */
+  maxRows: number;
+  /** Maximum size of the rendered result in bytes. */
+  maxBytes: number;
+}
+
+export type OutputFormat = 'json' | 'csv' | 'markdown';
+
+export interface ColumnInfo {
+  name: string;
+  type: string;
+}
+
+export interface QueryArgs {
+  sql: string;
+  format?: OutputFormat;
+  max_rows?: number;
+  cursor?: string;
+}
+
+export interface QueryPage {
+  columns: ColumnInfo[];
+  rows: Record<string, unknown>[];
+  row_count: number;
+  offset: number;
+  truncated: boolean;
+  next_cursor?: string;
+  notice?: string;
+}
+
+// Commands that can back a cursor, so later pages are read on the server.
+const CURSOR_COMMANDS = new Set(['SELECT', 'WITH', 'VALUES', 'TABLE']);
+const CURSOR_NAME = 'mcp_query_cursor';
+
+export function resultLimitsFromEnv(env: NodeJS.ProcessEnv = process.env): ResultLimits {
+  const number = (value: string | undefined, fallback: number) => {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+  };
+  return {
+    statementTimeoutMs: number(env.PG_STATEMENT_TIMEOUT_MS, 30 * 1000),
+    maxRows: number(env.PG_MAX_ROWS, 500),
+    maxBytes: number(env.PG_MAX_RESULT_BYTES, 256 * 1024),
+  };
+}
+
+export const queryTool: Tool = {
+  name: 'query',
+  description:
+    'Run a read-only SQL query. Results include column names and types and are limited in rows and size; ' +
+    'when more rows are available the result contains a next_cursor to fetch the next page with the same sql. ' +
+    'Add an ORDER BY for stable pages.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      sql: { type: 'string', description: 'A single read-only SQL statement' },
+      format: {
+        type: 'string',
+        enum: ['json', 'csv', 'markdown'],
+        description: 'Output format for the rows (default json)',
+        default: 'json',
+      },
+      max_rows: {
+        type: 'number',
+        description: 'Maximum rows to return, up to the server limit',
+      },
+      cursor: {
+        type: 'string',
+        description: 'next_cursor from a previous call with the same sql, to fetch the next page',
+      },
+    },
+    required: ['sql'],
+  },
+};
+
+function fingerprint(sql: string) {
+  return createHash('sha256').update(sql).digest('base64url').slice(0, 16);
+}
+
+function encodeCursor(sql: string, offset: number) {
+  return Buffer.from(JSON.stringify({ offset, sql: fingerprint(sql) })).toString('base64url');
+}
+
+function decodeCursor(cursor: string, sql: string) {
+  let decoded: { offset?: unknown; sql?: unknown };
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw new Error('Invalid cursor. Pass the next_cursor returned by a previous query call.');
+  }
+  if (decoded.sql !== fingerprint(sql)) {
+    throw new Error('Cursor does not belong to this query. Pass the same sql that returned it.');
+  }
+  if (
+    typeof decoded.offset !== 'number' ||
+    !Number.isInteger(decoded.offset) ||
+    decoded.offset < 0
+  ) {
+    throw new Error('Invalid cursor. Pass the next_cursor returned by a previous query call.');
+  }
+  return decoded.offset;
+}
+
+// Resolves the OIDs in `result.fields` to type names such as `numeric(10,2)`.
+async function describeFields(client: pg.PoolClient, fields: pg.FieldDef[]): Promise<ColumnInfo[]> {
+  if (fields.length === 0) {
+    return [];
+  }
+  const types = await client.query<{ type: string }>(
+    `SELECT format_type(t.oid, NULLIF(t.mod, -1)) AS type
+     FROM unnest($1::oid[], $2::int[]) WITH ORDINALITY AS t(oid, mod, ord)
+     ORDER BY t.ord`,
+    [fields.map((field) => field.dataTypeID), fields.map((field) => field.dataTypeModifier)],
+  );
+  return fields.map((field, index) => ({ name: field.name, type: types.rows[index].type }));
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (Buffer.isBuffer(value)) {
+    return `\\x${value.toString('hex')}`;
+  }
+  if (typeof value === 'object') {
+    return JSON.stringify(value);
+  }
+  return String(value);
+}
+
+function csvCell(value: unknown) {
+  const text = formatValue(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function markdownCell(value: unknown) {
+  return formatValue(value).replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>');
+}
+
+export function renderRows(
+  columns: ColumnInfo[],
+  rows: Record<string, unknown>[],
+  format: OutputFormat,
+): string {
+  const names = columns.map((column) => column.name);
+  if (format === 'csv') {
+    return [names, ...rows.map((row) => names.map((name) => row[name]))]
+      .map((cells) => cells.map(csvCell).join(','))
+      .join('\n');
+  }
+  if (format === 'markdown') {
+    const line = (cells: string[]) => `| ${cells.join(' | ')} |`;
+    return [
+      line(names.map(markdownCell)),
+      line(names.map(() => '---')),
+      ...rows.map((row) => line(names.map((name) => markdownCell(row[name])))),
+    ].join('\n');
+  }
+  return JSON.stringify(rows, null, 2);
+}
+
+// Largest number of leading rows whose rendering fits in `maxBytes`.
+function rowsWithinBytes(
+  columns: ColumnInfo[],
+  rows: Record<string, unknown>[],
+  format: OutputFormat,
+  maxBytes: number,
+) {
+  const fits = (count: number) =>
+    Buffer.byteLength(renderRows(columns, rows.slice(0, count), format)) <= maxBytes;
+  if (fits(rows.length)) {
+    return rows.length;
+  }
+  let low = 0;
+  let high = rows.length - 1;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (fits(middle)) {
+      low = middle;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return low;
+}
+
+async function fetchPage(client: pg.PoolClient, sql: string, offset: number, limit: number) {
+  if (CURSOR_COMMANDS.has(classifyStatement(sql).command)) {
+    await runSingleStatement(client, `DECLARE ${CURSOR_NAME} NO SCROLL CURSOR FOR ${sql}`);
+    if (offset > 0) {
+      await client.query(`MOVE FORWARD ${offset} IN ${CURSOR_NAME}`);
+    }
+    return client.query(`FETCH FORWARD ${limit} FROM ${CURSOR_NAME}`);
+  }
+  // SHOW, EXPLAIN and friends cannot back a cursor; their output is small.
+  const result = await runSingleStatement(client, sql);
+  return { ...result, rows: result.rows.slice(offset, offset + limit) };
+}
+
+/**
+ * Runs the `query` tool: one read-only statement with a statement timeout,
+ * returning at most one page of rows that fits the row and byte limits.
+ */
+export async function runQuery(
+  client: pg.PoolClient,
+  args: QueryArgs,
+  limits: ResultLimits,
+): Promise<QueryPage> {
+  if (typeof args.sql !== 'string' || !args.sql.trim()) {
+    throw new Error('Missing required argument: sql');
+  }
+  const statements = splitStatements(args.sql);
+  if (statements.length !== 1) {
+    throw new Error(`query runs exactly one statement, but ${statements.length} were given.`);
+  }
+  const [sql] = statements;
+  const format = args.format ?? 'json';
+  if (!['json', 'csv', 'markdown'].includes(format)) {
+    throw new Error(`Unsupported format "${format}". Expected json, csv or markdown.`);
+  }
+  const maxRows = Math.max(
+    1,
+    Math.min(Math.floor(args.max_rows ?? limits.maxRows), limits.maxRows),
+  );
+  const offset = args.cursor ? decodeCursor(args.cursor, sql) : 0;
+
+  await client.query('BEGIN TRANSACTION READ ONLY');
+  try {
+    await client.query(`SET LOCAL statement_timeout = ${Math.floor(limits.statementTimeoutMs)}`);
+    // One extra row tells whether another page exists.
+    const result = await fetchPage(client, sql, offset, maxRows + 1);
+    const columns = await describeFields(client, result.fields ?? []);
+    const fetched = result.rows.slice(0, maxRows);
+    const count = rowsWithinBytes(columns, fetched, format, limits.maxBytes);
+    if (count === 0 && fetched.length > 0) {
+      throw new Error(
+        `A single row is larger than the ${limits.maxBytes} byte result limit. Select fewer or smaller columns.`,
+      );
+    }
+
+    const rows = fetched.slice(0, count);
+    const truncatedByBytes = count < fetched.length;
+    const hasMore = truncatedByBytes || result.rows.length > maxRows;
+    const notices: string[] = [];
+    if (truncatedByBytes) {
+      notices.push(`Result truncated to ${count} rows to stay under ${limits.maxBytes} bytes.`);
+    }
+    if (hasMore) {
+      notices.push(
+        `Showing rows ${offset + 1}-${offset + count}. More rows are available; call query again with the same sql and next_cursor.`,
+      );
+    }
+    return {
+      columns,
+      rows,
+      row_count: count,
+      offset,
+      truncated: hasMore,
+      ...(hasMore ? { next_cursor: encodeCursor(sql, offset + count) } : {}),
+      ...(notices.length > 0 ? { notice: notices.join(' ') } : {}),
+    };
+  } catch (error) {
+    if (error instanceof Error && /statement timeout/i.test(error.message)) {
+      throw new Error(
+        `Query cancelled after ${limits.statementTimeoutMs} ms (statement timeout). Narrow the query or add a LIMIT.`,
+      );
+    }
+    throw error;
+  } finally {
+    // The client goes back to a shared pool, so the transaction must be
+    // closed before the next caller can pick it up.
+    await client
+      .query('ROLLBACK')
+      .catch((error) => console.warn('Could not roll back transaction:', error));
+  }
+}
+
+/**
+ * Renders a page as tool content. JSON output is a single object; CSV and
+ * Markdown tables are followed by the page metadata as JSON.
+ */
+export function queryPageContent(page: QueryPage, format: OutputFormat = 'json') {
+  if (format === 'json') {
+    return [{ type: 'text' as const, text: JSON.stringify(page, null, 2) }];
+  }
+  const { rows, ...metadata } = page;
+  return [
+    { type: 'text' as const, text: renderRows(page.columns, rows, format) },
+    { type: 'text' as const, text: JSON.stringify(metadata, null, 2) },
+  ];
+}
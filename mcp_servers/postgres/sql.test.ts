@@ -0,0 +1,128 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { classifyScript, classifyStatement, maskLiterals, splitStatements } from './sql.js';
+
+const kinds = (sql: string) => classifyScript(sql).map(({ kind, command }) => `${kind}:${command}`);
+
+describe('splitStatements', () => {
+  it('should split on top-level semicolons and drop empty statements', () => {
+    assert.deepEqual(splitStatements('SELECT 1;\n  SELECT 2 ;; -- done\n'), [
+      'SELECT 1',
+      'SELECT 2',
+    ]);
+  });
+
+  it('should keep semicolons inside literals, identifiers and comments', () => {
+    assert.deepEqual(
+      splitStatements(
+        `SELECT 'a;''b' AS "x;y"; /* c; /* nested; */ d; */ SELECT 2 -- e; f\n; SELECT 3`,
+      ),
+      [`SELECT 'a;''b' AS "x;y"`, '/* c; /* nested; */ d; */ SELECT 2 -- e; f', 'SELECT 3'],
+    );
+  });
+
+  it('should keep dollar-quoted bodies intact', () => {
+    const fn =
+      'CREATE FUNCTION f() RETURNS int AS $body$ BEGIN RETURN 1; END; $body$ LANGUAGE plpgsql';
+    assert.deepEqual(splitStatements(`${fn}; SELECT $$;$$`), [fn, 'SELECT $$;$$']);
+  });
+
+  it('should not start a dollar quote inside an identifier', () => {
+    assert.deepEqual(splitStatements('SELECT 1 AS x$a$; COMMIT; DROP TABLE t; SELECT 1 AS y$a$'), [
+      'SELECT 1 AS x$a$',
+      'COMMIT',
+      'DROP TABLE t',
+      'SELECT 1 AS y$a$',
+    ]);
+    assert.deepEqual(splitStatements('SELECT a$$; DROP TABLE t; SELECT $$'), [
+      'SELECT a$$',
+      'DROP TABLE t',
+      'SELECT $$',
+    ]);
+  });
+
+  it('should treat an unterminated literal as running to the end', () => {
+    assert.deepEqual(splitStatements(`SELECT 'a; DROP TABLE t`), [`SELECT 'a; DROP TABLE t`]);
+  });
+});
+
+describe('maskLiterals', () => {
+  it('should empty literals and remove comments', () => {
+    assert.equal(
+      maskLiterals(`SELECT 'DELETE' /* UPDATE */, "INSERT", $x$ DROP $x$ -- MERGE`),
+      `SELECT ''  , "", ''`,
+    );
+  });
+
+  it('should keep dollar signs that are part of identifiers', () => {
+    assert.equal(maskLiterals('SELECT x$a$, y$a$ FROM t'), 'SELECT x$a$, y$a$ FROM t');
+  });
+});
+
+describe('classifyStatement', () => {
+  it('should classify reads, DML and DDL', () => {
+    assert.deepEqual(
+      kinds(
+        'SELECT 1; (SELECT 2); SHOW search_path; TABLE t; VALUES (1); INSERT INTO t VALUES (1); ' +
+          'UPDATE t SET a = 1; CALL p(); CREATE INDEX i ON t (a); CREATE OR REPLACE VIEW v AS SELECT 1; ' +
+          'DROP TABLE t; BEGIN; SET x = 1',
+      ),
+      [
+        'read:SELECT',
+        'read:SELECT',
+        'read:SHOW',
+        'read:TABLE',
+        'read:VALUES',
+        'dml:INSERT',
+        'dml:UPDATE',
+        'dml:CALL',
+        'ddl:CREATE INDEX',
+        'ddl:CREATE OR REPLACE VIEW',
+        'ddl:DROP TABLE',
+        'other:BEGIN',
+        'other:SET',
+      ],
+    );
+  });
+
+  it('should treat data-modifying CTEs as DML', () => {
+    assert.equal(classifyStatement('WITH x AS (SELECT 1) SELECT * FROM x').kind, 'read');
+    assert.equal(
+      classifyStatement('WITH d AS (DELETE FROM t RETURNING *) SELECT * FROM d').kind,
+      'dml',
+    );
+  });
+
+  it('should treat EXPLAIN ANALYZE of a write as DML', () => {
+    assert.deepEqual(kinds('EXPLAIN DELETE FROM t; EXPLAIN ANALYZE SELECT 1'), [
+      'read:EXPLAIN',
+      'read:EXPLAIN ANALYZE',
+    ]);
+    assert.deepEqual(
+      kinds('EXPLAIN ANALYZE DELETE FROM t; EXPLAIN (ANALYZE, BUFFERS) UPDATE t SET a = 1'),
+      ['dml:EXPLAIN ANALYZE', 'dml:EXPLAIN ANALYZE'],
+    );
+    assert.equal(classifyStatement('EXPLAIN (ANALYZE false) DELETE FROM t').kind, 'read');
+  });
+
+  it('should treat SELECT INTO as DDL', () => {
+    assert.equal(classifyStatement('SELECT * INTO copy FROM t').kind, 'ddl');
+    assert.equal(classifyStatement(`SELECT 'INTO' FROM t`).kind, 'read');
+  });
+
+  it('should ignore keywords inside literals and comments', () => {
+    assert.equal(
+      classifyStatement(`WITH x AS (SELECT 'DELETE' /* INSERT */) SELECT * FROM x`).kind,
+      'read',
+    );
+  });
+
+  it('should see every statement hidden behind identifiers containing dollar signs', () => {
+    assert.deepEqual(kinds('SELECT 1 AS x$a$; COMMIT; DROP TABLE t; SELECT 1 AS y$a$'), [
+      'read:SELECT',
+      'other:COMMIT',
+      'ddl:DROP TABLE',
+      'read:SELECT',
+    ]);
+  });
+});
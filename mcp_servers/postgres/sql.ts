@@ -0,0 +1,213 @@
+import type pg from 'pg';
+
+export type StatementKind = 'read' | 'dml' | 'ddl' | 'other';
+
+export interface ClassifiedStatement {
+  sql: string;
+  kind: StatementKind;
+  /** Leading keyword(s), upper-cased, e.g. `SELECT`, `INSERT`, `CREATE INDEX`. */
+  command: string;
+}
+
+const READ_COMMANDS = new Set(['SELECT', 'SHOW', 'VALUES', 'TABLE', 'EXPLAIN']);
+const DML_COMMANDS = new Set(['INSERT', 'UPDATE', 'DELETE', 'MERGE', 'COPY', 'CALL']);
+/** Commands EXPLAIN accepts, as reported in `ClassifiedStatement.command`. */
+export const EXPLAINABLE_COMMANDS = new Set([
+  'SELECT',
+  'WITH',
+  'VALUES',
+  'TABLE',
+  'INSERT',
+  'UPDATE',
+  'DELETE',
+  'MERGE',
+]);
+// Keywords that make a WITH or EXPLAIN ANALYZE statement modify data.
+const WRITE_KEYWORDS = new Set(['INSERT', 'UPDATE', 'DELETE', 'MERGE']);
+const DDL_COMMANDS = new Set([
+  'CREATE',
+  'ALTER',
+  'DROP',
+  'TRUNCATE',
+  'COMMENT',
+  'GRANT',
+  'REVOKE',
+  'REINDEX',
+  'SECURITY',
+]);
+
+/**
+ * Splits a script into statements on top-level semicolons. Quoted strings,
+ * quoted identifiers, dollar-quoted bodies and comments are kept intact.
+ */
+export function splitStatements(sql: string): string[] {
+  const statements: string[] = [];
+  let start = 0;
+  let i = 0;
+
+  while (i < sql.length) {
+    const char = sql[i];
+    const next = sql[i + 1];
+
+    if (char === "'" || char === '"') {
+      i = skipQuoted(sql, i, char);
+    } else if (char === '-' && next === '-') {
+      const end = sql.indexOf('\n', i);
+      i = end === -1 ? sql.length : end + 1;
+    } else if (char === '/' && next === '*') {
+      i = skipBlockComment(sql, i);
+    } else if (char === '$' && dollarTag(sql, i)) {
+      i = skipDollarQuoted(sql, i);
+    } else if (char === ';') {
+      statements.push(sql.slice(start, i));
+      start = ++i;
+    } else {
+      i++;
+    }
+  }
+  statements.push(sql.slice(start));
+
+  return statements
+    .map((statement) => statement.trim())
+    .filter((statement) => maskLiterals(statement));
+}
+
+// Returns the opening tag (`$$` or `$name$`) of a dollar-quoted string at `i`.
+// A `$` right after an identifier character belongs to the identifier, as in
+// `x$a$`, and does not start a dollar quote.
+function dollarTag(sql: string, i: number) {
+  if (i > 0 && /[\p{L}\p{N}_$]/u.test(sql[i - 1])) {
+    return undefined;
+  }
+  return /^\$(?:[A-Za-z_][A-Za-z0-9_]*)?\$/.exec(sql.slice(i, i + 64))?.[0];
+}
+
+function skipDollarQuoted(sql: string, i: number) {
+  const tag = dollarTag(sql, i) ?? '$$';
+  const end = sql.indexOf(tag, i + tag.length);
+  return end === -1 ? sql.length : end + tag.length;
+}
+
+function skipQuoted(sql: string, i: number, quote: string) {
+  i++;
+  while (i < sql.length) {
+    if (sql[i] === quote) {
+      // A doubled quote is an escaped quote, not the end of the literal.
+      if (sql[i + 1] === quote) {
+        i += 2;
+        continue;
+      }
+      return i + 1;
+    }
+    i++;
+  }
+  return i;
+}
+
+function skipBlockComment(sql: string, i: number) {
+  let depth = 0;
+  while (i < sql.length) {
+    if (sql[i] === '/' && sql[i + 1] === '*') {
+      depth++;
+      i += 2;
+    } else if (sql[i] === '*' && sql[i + 1] === '/') {
+      depth--;
+      i += 2;
+      if (depth === 0) {
+        return i;
+      }
+    } else {
+      i++;
+    }
+  }
+  return i;
+}
+
+/**
+ * Removes comments and empties string literals, quoted identifiers and
+ * dollar-quoted bodies so keyword checks only see the statement's structure.
+ */
+export function maskLiterals(sql: string): string {
+  let result = '';
+  let i = 0;
+  while (i < sql.length) {
+    const char = sql[i];
+    const next = sql[i + 1];
+    if (char === "'" || char === '"') {
+      const end = skipQuoted(sql, i, char);
+      result += `${char}${char}`;
+      i = end;
+    } else if (char === '-' && next === '-') {
+      const end = sql.indexOf('\n', i);
+      i = end === -1 ? sql.length : end + 1;
+      result += ' ';
+    } else if (char === '/' && next === '*') {
+      i = skipBlockComment(sql, i);
+      result += ' ';
+    } else if (char === '$' && dollarTag(sql, i)) {
+      i = skipDollarQuoted(sql, i);
+      result += "''";
+    } else {
+      result += char;
+      i++;
+    }
+  }
+  return result.trim();
+}
+
+export function classifyStatement(sql: string): ClassifiedStatement {
+  const structure = maskLiterals(sql).replace(/^\(+\s*/, '');
+  const words = structure.toUpperCase().match(/[A-Z_]+/g) ?? [];
+  const first = words[0] ?? '';
+
+  if (first === 'WITH') {
+    // A data-modifying CTE turns the whole statement into a write.
+    const writes = words.some((word) => WRITE_KEYWORDS.has(word));
+    return { sql, kind: writes ? 'dml' : 'read', command: 'WITH' };
+  }
+
+  if (first === 'EXPLAIN') {
+    // EXPLAIN ANALYZE executes the statement it explains.
+    const analyzed =
+      /^EXPLAIN\s*\([^)]*\bANALY[SZ]E\b(?!\s+(FALSE|OFF|0)\b)[^)]*\)/i.test(structure) ||
+      /^EXPLAIN\s+(VERBOSE\s+)?ANALY[SZ]E\b/i.test(structure);
+    const writes = words.some((word) => WRITE_KEYWORDS.has(word));
+    return {
+      sql,
+      kind: analyzed && writes ? 'dml' : 'read',
+      command: analyzed ? 'EXPLAIN ANALYZE' : 'EXPLAIN',
+    };
+  }
+
+  // SELECT ... INTO creates a new table.
+  if (first === 'SELECT' && /\bINTO\b/i.test(structure.split(/\bFROM\b/i)[0])) {
+    return { sql, kind: 'ddl', command: 'SELECT INTO' };
+  }
+
+  if (READ_COMMANDS.has(first)) {
+    return { sql, kind: 'read', command: first };
+  }
+  if (DML_COMMANDS.has(first)) {
+    return { sql, kind: 'dml', command: first };
+  }
+  if (DDL_COMMANDS.has(first)) {
+    const object = words[1] === 'OR' ? words.slice(1, 4).join(' ') : words[1];
+    return { sql, kind: 'ddl', command: object ? `${first} ${object}` : first };
+  }
+  return { sql, kind: 'other', command: first };
+}
+
+export function classifyScript(sql: string): ClassifiedStatement[] {
+  return splitStatements(sql).map(classifyStatement);
+}
+
+/**
+ * Runs one statement over the extended query protocol. The server rejects a
+ * string with more than one command there, so SQL whose statement boundaries
+ * `splitStatements` misreads fails instead of running unclassified statements.
+ */
+export function runSingleStatement(client: pg.ClientBase, sql: string) {
+  // pg supports `queryMode`, but @types/pg does not declare it yet.
+  const config = { text: sql, queryMode: 'extended' };
+  return client.query(config);
+}
@@ -1,9 +1,7 @@
 #!/usr/bin/env node
 
-import express, { Request, Response } from 'express';
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
-import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { startMcpServer } from "@klavis-ai/mcp-runtime";
 import { z } from 'zod';
 import { Resend } from "resend";
 import { AsyncLocalStorage } from 'async_hooks';
@@ -680,118 +678,15 @@ const getResendMcpServer = () => {
   return server;
 }
 
-const app = express();
-
-
-//=============================================================================
-// STREAMABLE HTTP TRANSPORT (PROTOCOL VERSION 2025-03-26)
-//=============================================================================
-
-app.post('/mcp', async (req: Request, res: Response) => {
-  const apiKey = process.env.RESEND_API_KEY || req.headers['x-auth-token'] as string;
-  if (!apiKey) {
-    console.error('Error: Resend API key is missing. Provide it via x-auth-token header.');
-  }
-
-  const server = getResendMcpServer();
-  try {
-    const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
-      sessionIdGenerator: undefined,
-    });
-    await server.connect(transport);
-    asyncLocalStorage.run({ apiKey }, async () => {
-      await transport.handleRequest(req, res, req.body);
-    });
-    res.on('close', () => {
-      console.log('Request closed');
-      transport.close();
-      server.close();
-    });
-  } catch (error) {
-    console.error('Error handling MCP request:', error);
-    if (!res.headersSent) {
-      res.status(500).json({
-        jsonrpc: '2.0',
-        error: {
-          code: -32603,
-          message: 'Internal server error',
-        },
-        id: null,
-      });
-    }
-  }
-});
-
-app.get('/mcp', async (req: Request, res: Response) => {
-  console.log('Received GET MCP request');
-  res.writeHead(405).end(JSON.stringify({
-    jsonrpc: "2.0",
-    error: {
-      code: -32000,
-      message: "Method not allowed."
-    },
-    id: null
-  }));
-});
-
-app.delete('/mcp', async (req: Request, res: Response) => {
-  console.log('Received DELETE MCP request');
-  res.writeHead(405).end(JSON.stringify({
-    jsonrpc: "2.0",
-    error: {
-      code: -32000,
-      message: "Method not allowed."
-    },
-    id: null
-  }));
-});
-
-//=============================================================================
-// DEPRECATED HTTP+SSE TRANSPORT (PROTOCOL VERSION 2024-11-05)
-//=============================================================================
-const transports = new Map<string, SSEServerTransport>();
-
-app.get("/sse", async (req, res) => {
-  const transport = new SSEServerTransport(`/messages`, res);
-
-  // Set up cleanup when connection closes
-  res.on('close', async () => {
-    console.log(`SSE connection closed for transport: ${transport.sessionId}`);
-    try {
-      transports.delete(transport.sessionId);
-    } finally {
-    }
-  });
-
-  transports.set(transport.sessionId, transport);
-
-  const server = getResendMcpServer();
-  await server.connect(transport);
-
-  console.log(`SSE connection established with transport: ${transport.sessionId}`);
-});
-
-app.post("/messages", async (req, res) => {
-  const sessionId = req.query.sessionId as string;
-
-  let transport: SSEServerTransport | undefined;
-  transport = sessionId ? transports.get(sessionId) : undefined;
-  if (transport) {
-    // Use environment variable for API key if available, otherwise use header
+startMcpServer({
+  name: "resend-mcp-server",
+  createServer: getResendMcpServer,
+  asyncLocalStorage,
+  extractContext: (req) => {
     const apiKey = process.env.RESEND_API_KEY || req.headers['x-auth-token'] as string;
     if (!apiKey) {
       console.error('Error: Resend API key is missing. Provide it via x-auth-token header.');
     }
-
-    asyncLocalStorage.run({ apiKey }, async () => {
-      await transport!.handlePostMessage(req, res);
-    });
-  } else {
-    console.error(`Transport not found for session ID: ${sessionId}`);
-    res.status(404).send({ error: "Transport not found" });
-  }
-});
-
-app.listen(5000, () => {
-  console.log('server running on port 5000');
+    return { apiKey };
+  },
 });
@@ -1,8 +1,6 @@
 #!/usr/bin/env node
-import express, { Request, Response as ExpressResponse } from 'express';
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
-import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
-import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { startMcpServer } from "@klavis-ai/mcp-runtime";
 import {
   CallToolRequest,
   CallToolRequestSchema,
@@ -434,119 +432,19 @@ function getShopifyCredentials(): ShopifyCredentials {
   };
 }
 
-const app = express();
-app.use(express.json());
-
-app.post('/mcp', async (req: Request, res: ExpressResponse) => {
-  const accessToken = req.headers['x-shopify-access-token'] as string;
-  const shopDomain = req.headers['x-shopify-shop-domain'] as string;
-
-  if (!accessToken || !shopDomain) {
-    console.error('Error: Shopify credentials are missing. Provide them via x-shopify-access-token and x-shopify-shop-domain headers.');
-  }
-
-  const server = getShopifyMcpServer();
-  try {
-    const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
-      sessionIdGenerator: undefined,
-    });
-    await server.connect(transport);
-    asyncLocalStorage.run({ 
-      shopify_access_token: accessToken, 
-      shopify_shop_domain: shopDomain 
-    }, async () => {
-      await transport.handleRequest(req, res, req.body);
-    });
-    res.on('close', () => {
-      console.log('Request closed');
-      transport.close();
-      server.close();
-    });
-  } catch (error) {
-    console.error('Error handling MCP request:', error);
-    if (!res.headersSent) {
-      res.status(500).json({
-        jsonrpc: '2.0',
-        error: {
-          code: -32603,
-          message: 'Internal server error',
-        },
-        id: null,
-      });
-    }
-  }
-});
-
-app.get('/mcp', async (req: Request, res: ExpressResponse) => {
-  console.log('Received GET MCP request');
-  res.writeHead(405).end(JSON.stringify({
-    jsonrpc: "2.0",
-    error: {
-      code: -32000,
-      message: "Method not allowed."
-    },
-    id: null
-  }));
-});
-
-app.delete('/mcp', async (req: Request, res: ExpressResponse) => {
-  console.log('Received DELETE MCP request');
-  res.writeHead(405).end(JSON.stringify({
-    jsonrpc: "2.0",
-    error: {
-      code: -32000,
-      message: "Method not allowed."
-    },
-    id: null
-  }));
-});
-
-const transports = new Map<string, SSEServerTransport>();
-
-app.get("/sse", async (req, res) => {
-  const transport = new SSEServerTransport(`/messages`, res);
-
-  res.on('close', async () => {
-    console.log(`SSE connection closed for transport: ${transport.sessionId}`);
-    try {
-      transports.delete(transport.sessionId);
-    } finally {
-    }
-  });
-
-  transports.set(transport.sessionId, transport);
-
-  const server = getShopifyMcpServer();
-  await server.connect(transport);
-
-  console.log(`SSE connection established with transport: ${transport.sessionId}`);
-});
-
-app.post("/messages", async (req, res) => {
-  const sessionId = req.query.sessionId as string;
-
-  let transport: SSEServerTransport | undefined;
-  transport = sessionId ? transports.get(sessionId) : undefined;
-  if (transport) {
+startMcpServer({
+  name: "shopify-mcp-server",
+  createServer: getShopifyMcpServer,
+  asyncLocalStorage,
+  extractContext: (req) => {
     const accessToken = req.headers['x-shopify-access-token'] as string;
     const shopDomain = req.headers['x-shopify-shop-domain'] as string;
-
     if (!accessToken || !shopDomain) {
       console.error('Error: Shopify credentials are missing. Provide them via x-shopify-access-token and x-shopify-shop-domain headers.');
     }
-
-    asyncLocalStorage.run({ 
-      shopify_access_token: accessToken, 
-      shopify_shop_domain: shopDomain 
-    }, async () => {
-      await transport.handlePostMessage(req, res);
-    });
-  } else {
-    console.error(`Transport not found for session ID: ${sessionId}`);
-    res.status(404).send({ error: "Transport not found" });
-  }
+    return {
+      shopify_access_token: accessToken,
+      shopify_shop_domain: shopDomain,
+    };
+  },
 });
-
-app.listen(process.env.PORT || 5000, () => {
-  console.log(`server running on port ${process.env.PORT || 5000}`);
-});
\ No newline at end of file
@@ -0,0 +1,133 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import { SlackApi } from './api.js';
+import { SlackRateLimitError } from './errors.js';
+
+const options = {
+  maxRetries: 2,
+  maxRetryWaitMs: 10 * 1000,
+  directoryTtlMs: 60 * 1000,
+  directoryMaxEntries: 100,
+};
+
+// Lets pending promise chains run up to their next timer.
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+const json = (body: unknown, init: ResponseInit = {}) =>
+  new Response(JSON.stringify(body), { status: 200, ...init });
+
+const rateLimited = (retryAfter: string) =>
+  json(
+    { ok: false, error: 'ratelimited' },
+    { status: 429, headers: { 'Retry-After': retryAfter } },
+  );
+
+describe('SlackApi', () => {
+  let responses: Response[];
+  let requests: URL[];
+
+  beforeEach(() => {
+    mock.timers.enable({ apis: ['setTimeout', 'Date'] });
+    responses = [];
+    requests = [];
+    mock.method(globalThis, 'fetch', async (url: URL) => {
+      requests.push(url);
+      return responses.shift() ?? json({ ok: true });
+    });
+  });
+
+  afterEach(() => {
+    mock.timers.reset();
+    mock.restoreAll();
+  });
+
+  it('should pass pagination cursors through and leave out unset parameters', async () => {
+    const api = new SlackApi(options);
+    await api.call('xoxb-1', 'conversations.list', {
+      query: { limit: 100, cursor: 'dXNlcjpVMDYx' },
+    });
+    await api.call('xoxb-1', 'conversations.list', { query: { limit: 100, cursor: undefined } });
+    assert.equal(requests[0].searchParams.get('cursor'), 'dXNlcjpVMDYx');
+    assert.equal(requests[1].searchParams.has('cursor'), false);
+    assert.equal(requests[1].searchParams.get('limit'), '100');
+  });
+
+  it('should retry a rate-limited call after Retry-After', async () => {
+    const api = new SlackApi(options);
+    responses.push(rateLimited('2'), json({ ok: true, channels: [] }));
+
+    const call = api.call('xoxb-1', 'conversations.list');
+    await flush();
+    assert.equal(requests.length, 1);
+    mock.timers.tick(1999);
+    await flush();
+    assert.equal(requests.length, 1);
+    mock.timers.tick(1);
+    assert.deepEqual(await call, { ok: true, channels: [] });
+    assert.equal(requests.length, 2);
+  });
+
+  it('should raise SlackRateLimitError once retries are exhausted', async () => {
+    const api = new SlackApi({ ...options, maxRetries: 0 });
+    responses.push(rateLimited('5'));
+    await assert.rejects(api.call('xoxb-1', 'chat.update'), SlackRateLimitError);
+
+    // Waits longer than maxRetryWaitMs are not retried either
+    responses.push(rateLimited('60'));
+    await assert.rejects(
+      new SlackApi(options).call('xoxb-1', 'chat.update'),
+      (error: SlackRateLimitError) =>
+        error instanceof SlackRateLimitError && error.resetAt.getTime() === Date.now() + 60 * 1000,
+    );
+    assert.equal(requests.length, 2);
+  });
+
+  it('should space out calls beyond the burst of the method tier', async () => {
+    const api = new SlackApi(options);
+    // conversations.list is tier 2: bursts of 5, then 20 per minute
+    const calls = Array.from({ length: 6 }, () => api.call('xoxb-1', 'conversations.list'));
+    await Promise.all(calls.slice(0, 5));
+    await flush();
+    assert.equal(requests.length, 5);
+
+    mock.timers.tick(3000);
+    await calls[5];
+    assert.equal(requests.length, 6);
+
+    // Other workspaces have buckets of their own
+    await api.call('xoxb-2', 'conversations.list');
+    assert.equal(requests.length, 7);
+  });
+
+  it('should drop rate limit buckets once they are idle', async () => {
+    const api = new SlackApi(options);
+    const buckets = (api as unknown as { buckets: Map<string, unknown> }).buckets;
+    await api.call('xoxb-1', 'users.info');
+    await api.call('xoxb-2', 'users.info');
+    assert.equal(buckets.size, 2);
+
+    mock.timers.tick(60 * 1000);
+    await api.call('xoxb-3', 'users.info');
+    assert.equal(buckets.size, 1);
+  });
+
+  it('should cache directory lookups until they expire', async () => {
+    const api = new SlackApi(options);
+    responses.push(
+      json({ ok: true, user: { id: 'U1', name: 'jane' } }),
+      json({ ok: true, user: { id: 'U1', name: 'jane.doe' } }),
+    );
+
+    const [first, concurrent] = await Promise.all([
+      api.getUser('xoxb-1', 'U1'),
+      api.getUser('xoxb-1', 'U1'),
+    ]);
+    assert.equal(first, concurrent);
+    assert.deepEqual(await api.getUser('xoxb-1', 'U1'), { id: 'U1', name: 'jane' });
+    assert.equal(requests.length, 1);
+
+    mock.timers.tick(60 * 1000);
+    assert.deepEqual(await api.getUser('xoxb-1', 'U1'), { id: 'U1', name: 'jane.doe' });
+    assert.equal(requests.length, 2);
+  });
+});
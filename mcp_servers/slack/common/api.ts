@@ -0,0 +1,387 @@
+import { createHash } from 'node:crypto';
+import { SlackError, slackErrorFromResponse } from './errors.js';
+
+/** A Slack Web API response. Every method returns `ok` and, on failure, `error`. */
+export interface SlackResponse {
+  ok: boolean;
+  error?: string;
+  [key: string]: unknown;
+}
+
+type RateTier = 1 | 2 | 3 | 4 | 'post';
+
+// Requests per minute and burst size for each rate limit tier,
+// see https://api.slack.com/apis/rate-limits
+const TIER_LIMITS: Record<RateTier, { perMinute: number; burst: number }> = {
+  1: { perMinute: 1, burst: 1 },
+  2: { perMinute: 20, burst: 5 },
+  3: { perMinute: 50, burst: 10 },
+  4: { perMinute: 100, burst: 20 },
+  // chat.postMessage allows about one message per second per channel.
+  post: { perMinute: 60, burst: 3 },
+};
+
+const METHOD_TIERS: Record<string, RateTier> = {
+  'auth.test': 4,
+  'chat.postMessage': 'post',
+  'chat.update': 3,
+  'chat.delete': 3,
+  'chat.scheduleMessage': 3,
+  'conversations.history': 3,
+  'conversations.replies': 3,
+  'conversations.info': 3,
+  'conversations.list': 2,
+  'files.getUploadURLExternal': 4,
+  'files.completeUploadExternal': 4,
+  'pins.add': 2,
+  'reactions.add': 3,
+  'search.messages': 2,
+  'users.info': 4,
+  'users.list': 2,
+  'users.profile.get': 4,
+};
+
+export interface SlackApiOptions {
+  /** How often a rate-limited call is retried before giving up. */
+  maxRetries: number;
+  /** Calls whose `Retry-After` is longer than this fail instead of waiting. */
+  maxRetryWaitMs: number;
+  /** How long looked-up users, profiles and channels are cached. */
+  directoryTtlMs: number;
+  /** Maximum cached users, profiles or channels. */
+  directoryMaxEntries: number;
+}
+
+export interface SlackCallOptions {
+  /** Query string parameters; the call is a GET unless `json` or `form` is given. */
+  query?: Record<string, string | number | boolean | undefined>;
+  /** JSON body, sent with POST. */
+  json?: Record<string, unknown>;
+  /** Form body, for methods that do not accept JSON. */
+  form?: Record<string, string | undefined>;
+  /** Channel of a method that is also limited per channel, such as chat.postMessage. */
+  channel?: string;
+}
+
+export function slackApiOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): SlackApiOptions {
+  const number = (value: string | undefined, fallback: number) => {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+  };
+  return {
+    maxRetries: number(env.SLACK_MAX_RETRIES, 3),
+    maxRetryWaitMs: number(env.SLACK_MAX_RETRY_WAIT_MS, 30 * 1000),
+    directoryTtlMs: number(env.SLACK_DIRECTORY_TTL_MS, 10 * 60 * 1000),
+    directoryMaxEntries: number(env.SLACK_DIRECTORY_MAX_ENTRIES, 5000),
+  };
+}
+
+// How often idle rate limit buckets are dropped.
+const BUCKET_PRUNE_INTERVAL_MS = 60 * 1000;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Token bucket for one method. Callers queue up in order; a 429 pauses the
+ * whole bucket so queued calls do not hit the limit again.
+ */
+class TokenBucket {
+  private tokens: number;
+  private updatedAt = Date.now();
+  private pausedUntil = 0;
+  private waiting = 0;
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly perMinute: number,
+    private readonly burst: number,
+  ) {
+    this.tokens = burst;
+  }
+
+  take(): Promise<void> {
+    this.waiting++;
+    const turn = this.queue.then(() => this.wait()).finally(() => this.waiting--);
+    this.queue = turn;
+    return turn;
+  }
+
+  /**
+   * Whether nobody is waiting and the bucket has refilled completely, so
+   * dropping it and creating a new one later behaves exactly the same.
+   */
+  isIdle(now: number) {
+    const refillMs = ((this.burst - this.tokens) * 60000) / this.perMinute;
+    return this.waiting === 0 && now >= this.pausedUntil && now - this.updatedAt >= refillMs;
+  }
+
+  pause(ms: number) {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+  }
+
+  private async wait() {
+    for (;;) {
+      const now = Date.now();
+      if (now < this.pausedUntil) {
+        await sleep(this.pausedUntil - now);
+        continue;
+      }
+      this.tokens = Math.min(
+        this.burst,
+        this.tokens + ((now - this.updatedAt) * this.perMinute) / 60000,
+      );
+      this.updatedAt = now;
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        return;
+      }
+      await sleep(((1 - this.tokens) * 60000) / this.perMinute);
+    }
+  }
+}
+
+/** Bounded cache whose entries expire after a fixed time. */
+class TtlCache<V> {
+  private entries = new Map<string, { value: V; expiresAt: number }>();
+
+  constructor(
+    private readonly ttlMs: number,
+    private readonly maxEntries: number,
+  ) {}
+
+  get(key: string): V | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry.value;
+  }
+
+  set(key: string, value: V) {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + this.ttlMs });
+    // Map order is insertion order, so the first entry is the oldest.
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) {
+        break;
+      }
+      this.entries.delete(oldest);
+    }
+  }
+}
+
+// Rate limits and caches are per workspace; the token identifies it without
+// being kept as a key itself.
+function workspaceKey(token: string) {
+  return createHash('sha256').update(token).digest('base64url').slice(0, 16);
+}
+
+/**
+ * Slack Web API client shared by all requests. It spaces out calls per
+ * method according to Slack's rate limit tiers, retries calls rejected with
+ * HTTP 429 after `Retry-After`, and keeps a short-lived directory of users,
+ * profiles and channels so repeated lookups are answered locally.
+ */
+export class SlackApi {
+  private buckets = new Map<string, TokenBucket>();
+  private bucketsPrunedAt = Date.now();
+  private inflight = new Map<string, Promise<unknown>>();
+  private users: TtlCache<Record<string, unknown>>;
+  private profiles: TtlCache<Record<string, unknown>>;
+  private channels: TtlCache<Record<string, unknown>>;
+  private teams: TtlCache<string>;
+
+  constructor(private readonly options: SlackApiOptions) {
+    this.users = new TtlCache(options.directoryTtlMs, options.directoryMaxEntries);
+    this.profiles = new TtlCache(options.directoryTtlMs, options.directoryMaxEntries);
+    this.channels = new TtlCache(options.directoryTtlMs, options.directoryMaxEntries);
+    this.teams = new TtlCache(options.directoryTtlMs, options.directoryMaxEntries);
+  }
+
+  async call<T extends SlackResponse = SlackResponse>(
+    token: string,
+    method: string,
+    options: SlackCallOptions = {},
+  ): Promise<T> {
+    const bucket = this.bucket(token, method, options.channel);
+    for (let attempt = 0; ; attempt++) {
+      await bucket.take();
+      const response = await this.send(token, method, options);
+      const data = (await response.json().catch(() => ({
+        ok: false,
+        error: response.status === 429 ? 'ratelimited' : `http_${response.status}`,
+      }))) as T;
+
+      if (response.status === 429 || data.error === 'ratelimited') {
+        const retryAfter = response.headers.get('retry-after');
+        const waitMs = (Number(retryAfter) || 1) * 1000;
+        if (attempt < this.options.maxRetries && waitMs <= this.options.maxRetryWaitMs) {
+          bucket.pause(waitMs);
+          console.warn(`Slack rate limit on ${method}, retrying in ${waitMs} ms`);
+          continue;
+        }
+        throw slackErrorFromResponse(method, { error: 'ratelimited' }, retryAfter);
+      }
+      if (!data.ok) {
+        throw slackErrorFromResponse(method, data, response.headers.get('retry-after'));
+      }
+      return data;
+    }
+  }
+
+  /** users.info, cached and shared between concurrent lookups of the same user. */
+  async getUser(token: string, userId: string): Promise<Record<string, unknown>> {
+    const key = `${workspaceKey(token)}:${userId}`;
+    const cached = this.users.get(key);
+    if (cached) {
+      return cached;
+    }
+    return this.coalesce(`users.info:${key}`, async () => {
+      const data = await this.call(token, 'users.info', { query: { user: userId } });
+      const user = data.user as Record<string, unknown>;
+      this.users.set(key, user);
+      return user;
+    });
+  }
+
+  /** users.profile.get with labels, cached like `getUser`. */
+  async getUserProfile(token: string, userId: string): Promise<Record<string, unknown>> {
+    const key = `${workspaceKey(token)}:${userId}`;
+    const cached = this.profiles.get(key);
+    if (cached) {
+      return cached;
+    }
+    return this.coalesce(`users.profile.get:${key}`, async () => {
+      const data = await this.call(token, 'users.profile.get', {
+        query: { user: userId, include_labels: true },
+      });
+      const profile = data.profile as Record<string, unknown>;
+      this.profiles.set(key, profile);
+      return profile;
+    });
+  }
+
+  /** conversations.info, cached like `getUser`. */
+  async getChannel(token: string, channelId: string): Promise<Record<string, unknown>> {
+    const key = `${workspaceKey(token)}:${channelId}`;
+    const cached = this.channels.get(key);
+    if (cached) {
+      return cached;
+    }
+    return this.coalesce(`conversations.info:${key}`, async () => {
+      const data = await this.call(token, 'conversations.info', { query: { channel: channelId } });
+      const channel = data.channel as Record<string, unknown>;
+      this.channels.set(key, channel);
+      return channel;
+    });
+  }
+
+  /** The workspace the token belongs to, from auth.test. */
+  async getTeamId(token: string): Promise<string> {
+    const key = workspaceKey(token);
+    const cached = this.teams.get(key);
+    if (cached) {
+      return cached;
+    }
+    return this.coalesce(`auth.test:${key}`, async () => {
+      const data = await this.call(token, 'auth.test');
+      const teamId = String(data.team_id);
+      this.teams.set(key, teamId);
+      return teamId;
+    });
+  }
+
+  /** Adds users from a users.list page to the directory. */
+  rememberUsers(token: string, users: unknown) {
+    const workspace = workspaceKey(token);
+    for (const user of Array.isArray(users) ? users : []) {
+      if (typeof user?.id === 'string') {
+        this.users.set(`${workspace}:${user.id}`, user);
+      }
+    }
+  }
+
+  /** Adds channels from a conversations.list page to the directory. */
+  rememberChannels(token: string, channels: unknown) {
+    const workspace = workspaceKey(token);
+    for (const channel of Array.isArray(channels) ? channels : []) {
+      if (typeof channel?.id === 'string') {
+        this.channels.set(`${workspace}:${channel.id}`, channel);
+      }
+    }
+  }
+
+  private bucket(token: string, method: string, channel?: string) {
+    this.pruneBuckets();
+    const tier = METHOD_TIERS[method] ?? 3;
+    const key = `${workspaceKey(token)}:${method}${tier === 'post' && channel ? `:${channel}` : ''}`;
+    let bucket = this.buckets.get(key);
+    if (!bucket) {
+      const { perMinute, burst } = TIER_LIMITS[tier];
+      bucket = new TokenBucket(perMinute, burst);
+      this.buckets.set(key, bucket);
+    }
+    return bucket;
+  }
+
+  // Buckets exist per workspace, method and channel, so they are dropped once
+  // idle instead of accumulating for every workspace and channel ever seen.
+  private pruneBuckets() {
+    const now = Date.now();
+    if (now - this.bucketsPrunedAt < BUCKET_PRUNE_INTERVAL_MS) {
+      return;
+    }
+    this.bucketsPrunedAt = now;
+    for (const [key, bucket] of this.buckets) {
+      if (bucket.isIdle(now)) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+
+  private coalesce<T>(key: string, load: () => Promise<T>): Promise<T> {
+    const pending = this.inflight.get(key);
+    if (pending) {
+      return pending as Promise<T>;
+    }
+    const promise = load().finally(() => this.inflight.delete(key));
+    this.inflight.set(key, promise);
+    return promise;
+  }
+
+  private async send(token: string, method: string, options: SlackCallOptions) {
+    const url = new URL(`https://slack.com/api/${method}`);
+    for (const [name, value] of Object.entries(options.query ?? {})) {
+      if (value !== undefined) {
+        url.searchParams.append(name, String(value));
+      }
+    }
+
+    const headers: Record<string, string> = { Authorization: `Bearer ${token}` };
+    let body: string | undefined;
+    if (options.json) {
+      headers['Content-Type'] = 'application/json; charset=utf-8';
+      body = JSON.stringify(options.json);
+    } else if (options.form) {
+      headers['Content-Type'] = 'application/x-www-form-urlencoded';
+      const form = new URLSearchParams();
+      for (const [name, value] of Object.entries(options.form)) {
+        if (value !== undefined) {
+          form.append(name, value);
+        }
+      }
+      body = form.toString();
+    }
+
+    try {
+      return await fetch(url, { method: body === undefined ? 'GET' : 'POST', headers, body });
+    } catch (error) {
+      throw new SlackError(`${method} failed: ${(error as Error).message}`);
+    }
+  }
+}
@@ -0,0 +1,91 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { MAX_BLOCKS, parseJsonArgument, validateMessage } from './blockKit.js';
+import { SlackValidationError } from './errors.js';
+
+// The issue paths reported for an invalid message.
+function issuePaths(message: Parameters<typeof validateMessage>[0]): string[] {
+  try {
+    validateMessage(message);
+  } catch (error) {
+    assert.ok(error instanceof SlackValidationError);
+    return (error.response as { path: string }[]).map((issue) => issue.path);
+  }
+  return [];
+}
+
+describe('validateMessage', () => {
+  it('should accept common blocks and attachments', () => {
+    validateMessage({
+      text: 'fallback',
+      blocks: [
+        { type: 'header', text: { type: 'plain_text', text: 'Deploy' } },
+        { type: 'section', text: { type: 'mrkdwn', text: '*done*' } },
+        { type: 'divider' },
+        {
+          type: 'actions',
+          elements: [
+            {
+              type: 'button',
+              text: { type: 'plain_text', text: 'Open' },
+              url: 'https://example.com',
+            },
+          ],
+        },
+      ],
+      attachments: [{ color: '#36a64f', text: 'details' }],
+    });
+  });
+
+  it('should require some content', () => {
+    assert.deepEqual(issuePaths({}), ['text']);
+  });
+
+  it('should report the path of every invalid field', () => {
+    assert.deepEqual(
+      issuePaths({
+        blocks: [
+          { type: 'section', text: { type: 'mrkdwn', text: 'ok' } },
+          { type: 'header', text: { type: 'mrkdwn', text: 'Header' } },
+          { type: 'image', alt_text: 'chart' },
+          { type: 'carousel' },
+        ],
+      }),
+      ['blocks[1].text.type', 'blocks[2]', 'blocks[3].type'],
+    );
+  });
+
+  it('should check blocks inside attachments', () => {
+    assert.deepEqual(issuePaths({ text: 'hi', attachments: [{ blocks: [{ type: 'section' }] }] }), [
+      'attachments[0].blocks[0]',
+    ]);
+  });
+
+  it('should enforce the block and text limits', () => {
+    const blocks = Array(MAX_BLOCKS + 1).fill({ type: 'divider' });
+    assert.deepEqual(issuePaths({ blocks }), ['blocks']);
+    assert.deepEqual(issuePaths({ text: 'x'.repeat(40001) }), ['text']);
+    assert.deepEqual(
+      issuePaths({
+        blocks: [{ type: 'section', text: { type: 'mrkdwn', text: 'x'.repeat(3001) } }],
+      }),
+      ['blocks[0].text.text'],
+    );
+  });
+});
+
+describe('parseJsonArgument', () => {
+  it('should parse JSON strings and pass other values through', () => {
+    assert.deepEqual(parseJsonArgument('[{"type":"divider"}]', 'blocks'), [{ type: 'divider' }]);
+    const blocks = [{ type: 'divider' }];
+    assert.equal(parseJsonArgument(blocks, 'blocks'), blocks);
+    assert.equal(parseJsonArgument(undefined, 'blocks'), undefined);
+  });
+
+  it('should name the argument when the JSON is invalid', () => {
+    assert.throws(
+      () => parseJsonArgument('[{', 'attachments'),
+      /^SlackValidationError: attachments is not valid JSON/,
+    );
+  });
+});
@@ -0,0 +1,355 @@
+import { z } from 'zod';
+import { SlackValidationError } from './errors.js';
+
+// Limits from https://api.slack.com/reference/block-kit
+export const MAX_BLOCKS = 50;
+export const MAX_ATTACHMENTS = 100;
+export const MAX_TEXT_LENGTH = 40000;
+export const MAX_SECTION_TEXT_LENGTH = 3000;
+export const MAX_HEADER_TEXT_LENGTH = 150;
+
+const plainText = (max: number) =>
+  z.object({
+    type: z.literal('plain_text'),
+    text: z.string().min(1).max(max),
+    emoji: z.boolean().optional(),
+  });
+
+const mrkdwnText = (max: number) =>
+  z.object({
+    type: z.literal('mrkdwn'),
+    text: z.string().min(1).max(max),
+    verbatim: z.boolean().optional(),
+  });
+
+const textObject = (max: number) => z.discriminatedUnion('type', [plainText(max), mrkdwnText(max)]);
+
+const url = z.string().url().max(3000);
+const actionId = z.string().max(255).optional();
+const blockId = z.string().max(255).optional();
+
+const option = z.object({
+  text: textObject(75),
+  value: z.string().max(150),
+  description: textObject(75).optional(),
+  url: url.optional(),
+});
+
+const optionGroup = z.object({
+  label: plainText(75),
+  options: z.array(option).max(100),
+});
+
+const confirm = z.object({
+  title: plainText(100),
+  text: textObject(300),
+  confirm: plainText(30),
+  deny: plainText(30),
+  style: z.enum(['primary', 'danger']).optional(),
+});
+
+const imageElement = z
+  .object({
+    type: z.literal('image'),
+    alt_text: z.string().min(1).max(2000),
+    image_url: url.optional(),
+    slack_file: z.object({ id: z.string().optional(), url: z.string().optional() }).optional(),
+  })
+  .refine((image) => image.image_url || image.slack_file, {
+    message: 'Either image_url or slack_file is required',
+  });
+
+const button = z.object({
+  type: z.literal('button'),
+  text: plainText(75),
+  action_id: actionId,
+  url: url.optional(),
+  value: z.string().max(2000).optional(),
+  style: z.enum(['primary', 'danger']).optional(),
+  confirm: confirm.optional(),
+  accessibility_label: z.string().max(75).optional(),
+});
+
+const selectBase = {
+  action_id: actionId,
+  placeholder: plainText(150).optional(),
+  confirm: confirm.optional(),
+  focus_on_load: z.boolean().optional(),
+};
+
+const staticSelect = z.object({
+  type: z.enum(['static_select', 'multi_static_select']),
+  ...selectBase,
+  options: z.array(option).max(100).optional(),
+  option_groups: z.array(optionGroup).max(100).optional(),
+  initial_option: option.optional(),
+  initial_options: z.array(option).optional(),
+  max_selected_items: z.number().int().min(1).optional(),
+});
+
+const dynamicSelect = z
+  .object({
+    type: z.enum([
+      'external_select',
+      'multi_external_select',
+      'users_select',
+      'multi_users_select',
+      'conversations_select',
+      'multi_conversations_select',
+      'channels_select',
+      'multi_channels_select',
+    ]),
+    ...selectBase,
+  })
+  .passthrough();
+
+const overflow = z.object({
+  type: z.literal('overflow'),
+  action_id: actionId,
+  options: z.array(option).min(1).max(5),
+  confirm: confirm.optional(),
+});
+
+const choices = z.object({
+  type: z.enum(['checkboxes', 'radio_buttons']),
+  action_id: actionId,
+  options: z.array(option).min(1).max(10),
+  initial_options: z.array(option).optional(),
+  initial_option: option.optional(),
+  confirm: confirm.optional(),
+  focus_on_load: z.boolean().optional(),
+});
+
+const picker = z
+  .object({
+    type: z.enum(['datepicker', 'timepicker', 'datetimepicker']),
+    action_id: actionId,
+    placeholder: plainText(150).optional(),
+    confirm: confirm.optional(),
+  })
+  .passthrough();
+
+const interactiveElement = z.union([
+  button,
+  staticSelect,
+  dynamicSelect,
+  overflow,
+  choices,
+  picker,
+]);
+
+const accessory = z.union([interactiveElement, imageElement]);
+
+const section = z
+  .object({
+    type: z.literal('section'),
+    block_id: blockId,
+    text: textObject(MAX_SECTION_TEXT_LENGTH).optional(),
+    fields: z.array(textObject(2000)).max(10).optional(),
+    accessory: accessory.optional(),
+    expand: z.boolean().optional(),
+  })
+  .refine((block) => block.text || block.fields?.length, {
+    message: 'A section needs text or fields',
+  });
+
+const header = z.object({
+  type: z.literal('header'),
+  block_id: blockId,
+  text: plainText(MAX_HEADER_TEXT_LENGTH),
+});
+
+const divider = z.object({ type: z.literal('divider'), block_id: blockId });
+
+const image = z
+  .object({
+    type: z.literal('image'),
+    block_id: blockId,
+    alt_text: z.string().min(1).max(2000),
+    image_url: url.optional(),
+    slack_file: z.object({ id: z.string().optional(), url: z.string().optional() }).optional(),
+    title: plainText(2000).optional(),
+  })
+  .refine((block) => block.image_url || block.slack_file, {
+    message: 'Either image_url or slack_file is required',
+  });
+
+const context = z.object({
+  type: z.literal('context'),
+  block_id: blockId,
+  elements: z
+    .array(z.union([textObject(MAX_SECTION_TEXT_LENGTH), imageElement]))
+    .min(1)
+    .max(10),
+});
+
+const actions = z.object({
+  type: z.literal('actions'),
+  block_id: blockId,
+  elements: z.array(interactiveElement).min(1).max(25),
+});
+
+const markdown = z.object({
+  type: z.literal('markdown'),
+  block_id: blockId,
+  text: z.string().min(1).max(12000),
+});
+
+// Rich text, video and file blocks have deep structures; only their shell is checked.
+const opaqueBlock = z
+  .object({
+    type: z.enum(['rich_text', 'video', 'file', 'input']),
+    block_id: blockId,
+  })
+  .passthrough();
+
+const BLOCK_SCHEMAS: Record<string, z.ZodTypeAny> = {
+  section,
+  header,
+  divider,
+  image,
+  context,
+  actions,
+  markdown,
+  rich_text: opaqueBlock,
+  video: opaqueBlock,
+  file: opaqueBlock,
+  input: opaqueBlock,
+};
+
+const attachment = z
+  .object({
+    color: z.string().optional(),
+    fallback: z.string().optional(),
+    pretext: z.string().optional(),
+    author_name: z.string().optional(),
+    author_link: url.optional(),
+    author_icon: url.optional(),
+    title: z.string().optional(),
+    title_link: url.optional(),
+    text: z.string().optional(),
+    fields: z
+      .array(z.object({ title: z.string(), value: z.string(), short: z.boolean().optional() }))
+      .optional(),
+    image_url: url.optional(),
+    thumb_url: url.optional(),
+    footer: z.string().max(300).optional(),
+    footer_icon: url.optional(),
+    ts: z.union([z.string(), z.number()]).optional(),
+    mrkdwn_in: z.array(z.string()).optional(),
+    blocks: z.array(z.unknown()).optional(),
+  })
+  .passthrough();
+
+export interface BlockKitIssue {
+  path: string;
+  message: string;
+}
+
+function formatPath(path: (string | number)[]): string {
+  return path.reduce<string>(
+    (result, part) => (typeof part === 'number' ? `${result}[${part}]` : `${result}.${part}`),
+    '',
+  );
+}
+
+function blockIssues(blocks: unknown, prefix: string): BlockKitIssue[] {
+  if (!Array.isArray(blocks)) {
+    return [{ path: prefix, message: 'Expected an array of blocks' }];
+  }
+  const issues: BlockKitIssue[] = [];
+  if (blocks.length > MAX_BLOCKS) {
+    issues.push({
+      path: prefix,
+      message: `At most ${MAX_BLOCKS} blocks are allowed, got ${blocks.length}`,
+    });
+  }
+  blocks.forEach((block, index) => {
+    const path = `${prefix}[${index}]`;
+    const type = (block as { type?: unknown } | null)?.type;
+    const schema = typeof type === 'string' ? BLOCK_SCHEMAS[type] : undefined;
+    if (!schema) {
+      issues.push({
+        path: `${path}.type`,
+        message: `Unknown block type ${JSON.stringify(type)}. Expected one of ${Object.keys(BLOCK_SCHEMAS).join(', ')}`,
+      });
+      return;
+    }
+    const result = schema.safeParse(block);
+    if (!result.success) {
+      for (const issue of result.error.issues) {
+        issues.push({ path: `${path}${formatPath(issue.path)}`, message: issue.message });
+      }
+    }
+  });
+  return issues;
+}
+
+/**
+ * Parses `blocks` or `attachments` given either as an array or as a JSON
+ * string, which some clients send instead of structured arguments.
+ */
+export function parseJsonArgument(value: unknown, name: string): unknown {
+  if (typeof value !== 'string') {
+    return value;
+  }
+  try {
+    return JSON.parse(value);
+  } catch (error) {
+    throw new SlackValidationError(`${name} is not valid JSON: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Checks a message payload against the Block Kit limits before it is sent,
+ * so mistakes are reported with the exact path instead of Slack's generic
+ * `invalid_blocks` error.
+ */
+export function validateMessage(message: {
+  text?: string;
+  blocks?: unknown;
+  attachments?: unknown;
+}): void {
+  const issues: BlockKitIssue[] = [];
+
+  if (!message.text && message.blocks === undefined && message.attachments === undefined) {
+    issues.push({ path: 'text', message: 'Provide text, blocks or attachments' });
+  }
+  if (message.text && message.text.length > MAX_TEXT_LENGTH) {
+    issues.push({ path: 'text', message: `Text must be at most ${MAX_TEXT_LENGTH} characters` });
+  }
+  if (message.blocks !== undefined) {
+    issues.push(...blockIssues(message.blocks, 'blocks'));
+  }
+  if (message.attachments !== undefined) {
+    if (!Array.isArray(message.attachments)) {
+      issues.push({ path: 'attachments', message: 'Expected an array of attachments' });
+    } else {
+      if (message.attachments.length > MAX_ATTACHMENTS) {
+        issues.push({
+          path: 'attachments',
+          message: `At most ${MAX_ATTACHMENTS} attachments are allowed, got ${message.attachments.length}`,
+        });
+      }
+      message.attachments.forEach((item, index) => {
+        const path = `attachments[${index}]`;
+        const result = attachment.safeParse(item);
+        if (!result.success) {
+          for (const issue of result.error.issues) {
+            issues.push({ path: `${path}${formatPath(issue.path)}`, message: issue.message });
+          }
+        } else if (result.data.blocks) {
+          issues.push(...blockIssues(result.data.blocks, `${path}.blocks`));
+        }
+      });
+    }
+  }
+
+  if (issues.length > 0) {
+    const summary = issues
+      .slice(0, 20)
+      .map((issue) => `${issue.path}: ${issue.message}`)
+      .join('; ');
+    throw new SlackValidationError(`Invalid message: ${summary}`, issues);
+  }
+}
@@ -69,4 +69,82 @@ export function formatSlackError(error: SlackError): string {
   }
 
   return message;
-} 
\ No newline at end of file
+} 
+
+const AUTHENTICATION_ERRORS = new Set([
+  'not_authed',
+  'invalid_auth',
+  'account_inactive',
+  'token_revoked',
+  'token_expired',
+]);
+
+const PERMISSION_ERRORS = new Set([
+  'missing_scope',
+  'not_in_channel',
+  'is_archived',
+  'restricted_action',
+  'not_allowed_token_type',
+  'cant_update_message',
+  'cant_delete_message',
+  'cant_delete_file',
+  'edit_window_closed',
+  'ekm_access_denied',
+]);
+
+const NOT_FOUND_ERRORS = new Set([
+  'channel_not_found',
+  'message_not_found',
+  'thread_not_found',
+  'user_not_found',
+  'users_not_found',
+  'file_not_found',
+  'not_pinned',
+]);
+
+const VALIDATION_ERRORS = new Set([
+  'invalid_arguments',
+  'invalid_arg_name',
+  'invalid_blocks',
+  'invalid_blocks_format',
+  'invalid_time',
+  'time_in_past',
+  'time_too_far',
+  'msg_too_long',
+  'no_text',
+  'too_many_attachments',
+  'already_pinned',
+  'already_reacted',
+  'invalid_name',
+]);
+
+/**
+ * Maps a failed Slack Web API response (`ok: false`) to the matching error
+ * class. `retryAfter` is the `Retry-After` header of a rate-limited call.
+ */
+export function slackErrorFromResponse(
+  method: string,
+  data: { error?: string; needed?: string; response_metadata?: { messages?: string[] } },
+  retryAfter?: string | null,
+): SlackError {
+  const code = data.error ?? 'unknown_error';
+  const message = `${method} failed: ${code}`;
+
+  if (AUTHENTICATION_ERRORS.has(code)) {
+    return new SlackAuthenticationError(message);
+  }
+  if (PERMISSION_ERRORS.has(code)) {
+    return new SlackPermissionError(data.needed ? `${message} (needs ${data.needed})` : message);
+  }
+  if (NOT_FOUND_ERRORS.has(code)) {
+    return new SlackResourceNotFoundError(message);
+  }
+  if (code === 'ratelimited') {
+    const seconds = Number(retryAfter) || 60;
+    return new SlackRateLimitError(message, new Date(Date.now() + seconds * 1000));
+  }
+  if (VALIDATION_ERRORS.has(code)) {
+    return new SlackValidationError(message, data.response_metadata?.messages);
+  }
+  return new SlackError(message);
+}
@@ -0,0 +1,94 @@
+import assert from 'node:assert/strict';
+import { createHmac } from 'node:crypto';
+import { describe, it } from 'node:test';
+import { EventBuffer, handleEventsRequest, readBody } from './events.js';
+
+const SECRET = 'signing-secret';
+
+function sign(body: string, timestamp = String(Math.floor(Date.now() / 1000))) {
+  const digest = createHmac('sha256', SECRET).update(`v0:${timestamp}:${body}`).digest('hex');
+  return { timestamp, signature: `v0=${digest}` };
+}
+
+async function* chunks(...parts: string[]) {
+  yield* parts.map((part) => Buffer.from(part));
+}
+
+describe('readBody', () => {
+  it('should join the chunks of a body within the limit', async () => {
+    assert.equal(await readBody(chunks('{"a":', '1}'), 7), '{"a":1}');
+  });
+
+  it('should give up on bodies past the limit', async () => {
+    assert.equal(await readBody(chunks('1234', '5678', '9'), 8), undefined);
+  });
+});
+
+describe('handleEventsRequest', () => {
+  const callback = JSON.stringify({
+    type: 'event_callback',
+    team_id: 'T1',
+    event_id: 'Ev1',
+    event: { type: 'message', channel: 'C1', user: 'U1', text: 'hi', ts: '1.1', event_ts: '1.1' },
+  });
+
+  it('should reject bad and stale signatures', () => {
+    const buffer = new EventBuffer(10);
+    const tampered = handleEventsRequest(buffer, SECRET, sign('{}'), callback);
+    assert.equal(tampered.status, 401);
+    const stale = handleEventsRequest(buffer, SECRET, sign(callback, '1000'), callback);
+    assert.equal(stale.status, 401);
+    assert.deepEqual(buffer.read(0, {}, 10).events, []);
+  });
+
+  it('should answer URL verification challenges', () => {
+    const body = JSON.stringify({ type: 'url_verification', challenge: 'abc' });
+    assert.deepEqual(handleEventsRequest(new EventBuffer(10), SECRET, sign(body), body), {
+      status: 200,
+      body: { challenge: 'abc' },
+    });
+  });
+
+  it('should buffer each event once', () => {
+    const buffer = new EventBuffer(10);
+    handleEventsRequest(buffer, SECRET, sign(callback), callback);
+    handleEventsRequest(buffer, SECRET, sign(callback), callback);
+    const { events } = buffer.read(0, { team_id: 'T1' }, 10);
+    assert.equal(events.length, 1);
+    assert.equal(events[0].channel_id, 'C1');
+  });
+});
+
+describe('EventBuffer', () => {
+  const envelope = (n: number) => ({
+    type: 'event_callback',
+    team_id: 'T1',
+    event_id: `Ev${n}`,
+    event: {
+      type: 'message',
+      channel: n % 2 ? 'C1' : 'C2',
+      user: 'U1',
+      text: `message ${n}`,
+      ts: `${n}.1`,
+      event_ts: `${n}.1`,
+    },
+  });
+
+  it('should return the newest matching events, oldest first', () => {
+    const buffer = new EventBuffer(1000);
+    for (let n = 1; n <= 500; n++) {
+      buffer.add(envelope(n));
+    }
+    const page = buffer.latest({ channel_id: 'C1' }, 200);
+    assert.equal(page.events.length, 200);
+    assert.equal(page.events[0].text, 'message 101');
+    assert.equal(page.events[199].text, 'message 499');
+    assert.equal(page.next_cursor, '500');
+
+    buffer.add(envelope(501));
+    assert.deepEqual(
+      buffer.read(Number(page.next_cursor), {}, 10).events.map(({ text }) => text),
+      ['message 501'],
+    );
+  });
+});
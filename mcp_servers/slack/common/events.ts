@@ -0,0 +1,318 @@
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import { SlackValidationError } from './errors.js';
+
+export const SLACK_EVENT_TYPES = [
+  'message',
+  'app_mention',
+  'reaction_added',
+  'reaction_removed',
+] as const;
+
+export type SlackEventType = (typeof SLACK_EVENT_TYPES)[number];
+
+/** Requests signed longer ago than this are rejected as possible replays. */
+const MAX_SIGNATURE_AGE_SECONDS = 5 * 60;
+
+/** Largest events request body accepted; Slack's payloads are far smaller. */
+export const MAX_EVENT_BODY_BYTES = 1024 * 1024;
+
+/** Longest time `slack_poll_events` may wait for new events. */
+export const MAX_POLL_WAIT_SECONDS = 30;
+
+/** An event from the Events API, reduced to the fields agents need. */
+export interface BufferedEvent {
+  /** Position in the buffer; pass it back as the poll cursor. */
+  sequence: number;
+  event_id: string;
+  team_id: string;
+  type: SlackEventType;
+  subtype?: string;
+  channel_id?: string;
+  user_id?: string;
+  bot_id?: string;
+  text?: string;
+  ts?: string;
+  thread_ts?: string;
+  reaction?: string;
+  item_ts?: string;
+  event_ts: string;
+  received_at: string;
+}
+
+export interface EventFilter {
+  team_id?: string;
+  types?: string[];
+  channel_id?: string;
+  thread_ts?: string;
+}
+
+export interface EventPage {
+  events: BufferedEvent[];
+  next_cursor: string;
+  /** Set when older events after the cursor were dropped because the buffer was full. */
+  events_dropped?: boolean;
+}
+
+/** The outer envelope of an Events API request. */
+interface EventEnvelope {
+  type?: string;
+  challenge?: string;
+  team_id?: string;
+  event_id?: string;
+  event?: Record<string, unknown>;
+}
+
+/**
+ * Checks the `X-Slack-Signature` header against the raw request body, see
+ * https://api.slack.com/authentication/verifying-requests-from-slack
+ */
+export function verifySlackSignature(
+  signingSecret: string,
+  timestamp: string | undefined,
+  signature: string | undefined,
+  rawBody: string,
+  now = Date.now(),
+): boolean {
+  if (!timestamp || !signature || !/^\d+$/.test(timestamp)) {
+    return false;
+  }
+  if (Math.abs(now / 1000 - Number(timestamp)) > MAX_SIGNATURE_AGE_SECONDS) {
+    return false;
+  }
+  const expected = `v0=${createHmac('sha256', signingSecret)
+    .update(`v0:${timestamp}:${rawBody}`)
+    .digest('hex')}`;
+  const given = Buffer.from(signature);
+  return given.length === expected.length && timingSafeEqual(given, Buffer.from(expected));
+}
+
+const string = (value: unknown) => (typeof value === 'string' ? value : undefined);
+
+function toBufferedEvent(envelope: EventEnvelope, sequence: number): BufferedEvent | undefined {
+  const event = envelope.event;
+  const type = string(event?.type);
+  if (!event || !type || !(SLACK_EVENT_TYPES as readonly string[]).includes(type)) {
+    return undefined;
+  }
+  // Edits and deletions carry the affected message in a nested object.
+  const message = (event.message ?? event.previous_message ?? event) as Record<string, unknown>;
+  const item = event.item as Record<string, unknown> | undefined;
+  const fields: Partial<BufferedEvent> = {
+    subtype: string(event.subtype),
+    channel_id: string(event.channel) ?? string(item?.channel),
+    user_id: string(event.user) ?? string(message.user),
+    bot_id: string(event.bot_id) ?? string(message.bot_id),
+    text: string(message.text),
+    ts: string(event.ts) ?? string(message.ts),
+    thread_ts: string(message.thread_ts),
+    reaction: string(event.reaction),
+    item_ts: string(item?.ts),
+  };
+  return {
+    sequence,
+    event_id: envelope.event_id ?? `${type}:${string(event.event_ts)}`,
+    team_id: envelope.team_id ?? '',
+    type: type as SlackEventType,
+    ...(Object.fromEntries(
+      Object.entries(fields).filter(([, value]) => value !== undefined),
+    ) as Partial<BufferedEvent>),
+    event_ts: string(event.event_ts) ?? string(event.ts) ?? '',
+    received_at: new Date().toISOString(),
+  };
+}
+
+export function matchesFilter(event: BufferedEvent, filter: EventFilter): boolean {
+  return (
+    (!filter.team_id || event.team_id === filter.team_id) &&
+    (!filter.types?.length || filter.types.includes(event.type)) &&
+    (!filter.channel_id || event.channel_id === filter.channel_id) &&
+    (!filter.thread_ts || event.thread_ts === filter.thread_ts || event.ts === filter.thread_ts)
+  );
+}
+
+export function parseEventCursor(cursor: string | undefined): number {
+  if (cursor === undefined || cursor === '') {
+    return 0;
+  }
+  const sequence = Number(cursor);
+  if (!Number.isInteger(sequence) || sequence < 0) {
+    throw new SlackValidationError(`Invalid cursor "${cursor}"`);
+  }
+  return sequence;
+}
+
+/**
+ * In-memory ring buffer of received events. Slack retries deliveries it does
+ * not see acknowledged in time, so events are de-duplicated by `event_id`.
+ */
+export class EventBuffer {
+  private events: BufferedEvent[] = [];
+  private seen = new Set<string>();
+  private sequence = 0;
+  private listeners = new Set<(event: BufferedEvent) => void>();
+
+  constructor(private readonly capacity: number) {}
+
+  /** Adds the event of an `event_callback` envelope, if it is a supported type. */
+  add(envelope: EventEnvelope): BufferedEvent | undefined {
+    if (envelope.event_id && this.seen.has(envelope.event_id)) {
+      return undefined;
+    }
+    const event = toBufferedEvent(envelope, this.sequence + 1);
+    if (!event) {
+      return undefined;
+    }
+    this.sequence = event.sequence;
+    this.events.push(event);
+    this.seen.add(event.event_id);
+    while (this.events.length > this.capacity) {
+      const dropped = this.events.shift();
+      if (dropped) {
+        this.seen.delete(dropped.event_id);
+      }
+    }
+    for (const listener of this.listeners) {
+      listener(event);
+    }
+    return event;
+  }
+
+  /** Calls `listener` for every new event; returns a function that removes it. */
+  subscribe(listener: (event: BufferedEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /** Events after `cursor` matching the filter, oldest first. */
+  read(cursor: number, filter: EventFilter, limit: number): EventPage {
+    const events: BufferedEvent[] = [];
+    let last = cursor;
+    for (const event of this.events) {
+      if (event.sequence <= cursor) {
+        continue;
+      }
+      if (matchesFilter(event, filter)) {
+        if (events.length === limit) {
+          break;
+        }
+        events.push(event);
+      }
+      last = event.sequence;
+    }
+    // Without matches the cursor still moves past the events that were scanned.
+    const oldest = this.events[0]?.sequence;
+    return {
+      events,
+      next_cursor: String(events.length === limit ? events[events.length - 1].sequence : last),
+      ...(cursor > 0 && oldest !== undefined && oldest > cursor + 1
+        ? { events_dropped: true }
+        : {}),
+    };
+  }
+
+  /**
+   * The newest `limit` events matching the filter, oldest first. The cursor
+   * points past the newest buffered event, so `read` continues from there.
+   */
+  latest(filter: EventFilter, limit: number): EventPage {
+    const events: BufferedEvent[] = [];
+    for (let i = this.events.length - 1; i >= 0 && events.length < limit; i--) {
+      if (matchesFilter(this.events[i], filter)) {
+        events.push(this.events[i]);
+      }
+    }
+    return { events: events.reverse(), next_cursor: String(this.sequence) };
+  }
+
+  /** Like `read`, but waits up to `waitMs` for a matching event if there is none yet. */
+  async poll(cursor: number, filter: EventFilter, limit: number, waitMs: number) {
+    const page = this.read(cursor, filter, limit);
+    if (page.events.length > 0 || waitMs <= 0) {
+      return page;
+    }
+    await new Promise<void>((resolve) => {
+      const timer = setTimeout(done, waitMs);
+      const unsubscribe = this.subscribe((event) => {
+        if (event.sequence > cursor && matchesFilter(event, filter)) {
+          done();
+        }
+      });
+      function done() {
+        clearTimeout(timer);
+        unsubscribe();
+        resolve();
+      }
+    });
+    return this.read(cursor, filter, limit);
+  }
+}
+
+/** Resource URI for the events of a workspace, optionally narrowed to one channel. */
+export function eventsResourceUri(channelId?: string) {
+  return channelId ? `slack://events/${channelId}` : 'slack://events';
+}
+
+export function parseEventsResourceUri(uri: string): { channel_id?: string } | undefined {
+  const match = /^slack:\/\/events(?:\/([A-Z0-9]+))?$/.exec(uri);
+  if (!match) {
+    return undefined;
+  }
+  return match[1] ? { channel_id: match[1] } : {};
+}
+
+/**
+ * Reads a request body as text. Returns undefined once it grows past
+ * `maxBytes`; the rest of the body is drained without being kept.
+ */
+export async function readBody(
+  body: AsyncIterable<Buffer | string>,
+  maxBytes: number,
+): Promise<string | undefined> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of body) {
+    if (size > maxBytes) {
+      continue;
+    }
+    const bytes = typeof chunk === 'string' ? Buffer.from(chunk) : chunk;
+    size += bytes.length;
+    if (size <= maxBytes) {
+      chunks.push(bytes);
+    } else {
+      chunks.length = 0;
+    }
+  }
+  return size > maxBytes ? undefined : Buffer.concat(chunks).toString('utf8');
+}
+
+export type EventsRequestResult =
+  | { status: 200; body: { challenge: string } | { ok: true } }
+  | { status: 400 | 401; body: { error: string } };
+
+/**
+ * Handles one request to the events endpoint: verifies the signature,
+ * answers URL verification challenges and buffers event callbacks.
+ */
+export function handleEventsRequest(
+  buffer: EventBuffer,
+  signingSecret: string,
+  headers: { timestamp?: string; signature?: string },
+  rawBody: string,
+): EventsRequestResult {
+  if (!verifySlackSignature(signingSecret, headers.timestamp, headers.signature, rawBody)) {
+    return { status: 401, body: { error: 'invalid_signature' } };
+  }
+  let envelope: EventEnvelope;
+  try {
+    envelope = JSON.parse(rawBody);
+  } catch {
+    return { status: 400, body: { error: 'invalid_json' } };
+  }
+  if (envelope.type === 'url_verification' && typeof envelope.challenge === 'string') {
+    return { status: 200, body: { challenge: envelope.challenge } };
+  }
+  if (envelope.type === 'event_callback') {
+    buffer.add(envelope);
+  }
+  return { status: 200, body: { ok: true } };
+}
@@ -0,0 +1,109 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { MAX_BLOCKS, MAX_SECTION_TEXT_LENGTH, validateMessage } from './blockKit.js';
+import { markdownToBlocks, markdownToMrkdwn } from './markdown.js';
+
+const section = (text: string) => ({ type: 'section', text: { type: 'mrkdwn', text } });
+const header = (text: string) => ({
+  type: 'header',
+  text: { type: 'plain_text', text, emoji: true },
+});
+const mrkdwn = (block: Record<string, unknown>) => (block.text as { text: string }).text;
+
+describe('markdownToMrkdwn', () => {
+  it('should convert inline formatting', () => {
+    assert.equal(
+      markdownToMrkdwn('**bold**, *italic*, __also bold__, ~~gone~~ and `a < b`'),
+      '*bold*, _italic_, *also bold*, ~gone~ and `a &lt; b`',
+    );
+  });
+
+  it('should convert links and images', () => {
+    assert.equal(
+      markdownToMrkdwn(
+        'See [the docs](https://example.com/docs) and ![chart](https://example.com/c.png)',
+      ),
+      'See <https://example.com/docs|the docs> and <https://example.com/c.png|chart>',
+    );
+  });
+
+  it('should keep Slack mentions and escape other markup', () => {
+    assert.equal(
+      markdownToMrkdwn('Ping <@U123> in <#C456>: 1 < 2 & 3 > 2'),
+      'Ping <@U123> in <#C456>: 1 &lt; 2 &amp; 3 &gt; 2',
+    );
+  });
+
+  it('should convert lists, task lists and block quotes', () => {
+    assert.equal(
+      markdownToMrkdwn('- one\n  * nested\n- [ ] todo\n- [x] done\n> quoted'),
+      '• one\n  • nested\n☐ todo\n☑ done\n> quoted',
+    );
+  });
+
+  it('should render headings bold and code verbatim', () => {
+    assert.equal(
+      markdownToMrkdwn('# Title *here*\n\n```ts\nconst a = 1 < 2;\n```'),
+      '*Title _here_*\n\n```\nconst a = 1 &lt; 2;\n```',
+    );
+  });
+});
+
+describe('markdownToBlocks', () => {
+  it('should map headings, rules, images and text to blocks', () => {
+    assert.deepEqual(
+      markdownToBlocks(
+        '# Release\n\nShipped **today**.\n\n---\n\n### Details\n\n![chart](https://example.com/c.png)',
+      ),
+      [
+        header('Release'),
+        section('Shipped *today*.'),
+        { type: 'divider' },
+        section('*Details*'),
+        { type: 'image', image_url: 'https://example.com/c.png', alt_text: 'chart' },
+      ],
+    );
+  });
+
+  it('should render tables as aligned code blocks', () => {
+    assert.deepEqual(markdownToBlocks('| Name | Qty |\n| --- | --- |\n| apple | 3 |'), [
+      section('```\nName  | Qty\n------+----\napple | 3\n```'),
+    ]);
+  });
+
+  it('should split long text into sections within the size limit', () => {
+    const paragraph = 'word '.repeat(200).trim();
+    const blocks = markdownToBlocks(Array(5).fill(paragraph).join('\n'));
+    assert.equal(blocks.length, 2);
+    validateMessage({ blocks });
+  });
+
+  it('should merge neighbouring sections when a document needs too many blocks', () => {
+    const code = Array.from({ length: 60 }, (_, index) => `\`\`\`\nstep ${index}\n\`\`\``);
+    const blocks = markdownToBlocks(`# Report\n\n${code.join('\n\n')}`);
+    assert.deepEqual(blocks[0], header('Report'));
+    assert.equal(blocks.length, 2);
+    assert.ok(mrkdwn(blocks[1]).startsWith('```\nstep 0\n```\n\n```\nstep 1\n```'));
+  });
+
+  it('should fold headings into sections when merging is not enough', () => {
+    const markdown = Array.from(
+      { length: 60 },
+      (_, index) => `## Heading ${index}\n\nBody ${index}`,
+    ).join('\n\n');
+    const blocks = markdownToBlocks(markdown);
+    assert.equal(blocks.length, 1);
+    assert.ok(mrkdwn(blocks[0]).startsWith('*Heading 0*\n\nBody 0\n\n*Heading 1*\n\nBody 1'));
+    validateMessage({ blocks });
+  });
+
+  it('should leave documents that cannot fit to the caller', () => {
+    const paragraph = 'x'.repeat(MAX_SECTION_TEXT_LENGTH - 1000);
+    const blocks = markdownToBlocks(
+      Array(MAX_BLOCKS + 5)
+        .fill(paragraph)
+        .join('\n\n'),
+    );
+    assert.ok(blocks.length > MAX_BLOCKS);
+  });
+});
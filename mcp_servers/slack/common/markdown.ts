@@ -0,0 +1,292 @@
+import { MAX_BLOCKS, MAX_HEADER_TEXT_LENGTH, MAX_SECTION_TEXT_LENGTH } from './blockKit.js';
+
+type Block = Record<string, unknown>;
+
+type Segment =
+  | { kind: 'text'; lines: string[] }
+  | { kind: 'code'; code: string }
+  | { kind: 'table'; lines: string[] }
+  | { kind: 'heading'; level: number; text: string }
+  | { kind: 'image'; alt: string; url: string }
+  | { kind: 'divider' };
+
+const FENCE = /^\s*(```|~~~)/;
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const RULE = /^\s*([-*_])(\s*\1){2,}\s*$/;
+const IMAGE_LINE = /^\s*!\[([^\]]*)\]\(([^)\s]+)(?:\s+"[^"]*")?\)\s*$/;
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?\s*$/;
+// Slack markup that must survive escaping: mentions, channels, special
+// mentions and links already written in Slack syntax.
+const SLACK_TOKEN = /<(?:[@#!][^>\s]+|(?:https?|mailto):[^>\s]+)>/g;
+
+// Slack reads `&`, `<` and `>` as markup everywhere, including inside code.
+function escapeText(text: string) {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function isTableStart(lines: string[], index: number) {
+  return lines[index].includes('|') && TABLE_SEPARATOR.test(lines[index + 1] ?? '');
+}
+
+function segment(markdown: string): Segment[] {
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+  const segments: Segment[] = [];
+  let text: string[] = [];
+  const flush = () => {
+    if (text.some((line) => line.trim())) {
+      segments.push({ kind: 'text', lines: text });
+    }
+    text = [];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const fence = FENCE.exec(line);
+    if (fence) {
+      flush();
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith(fence[1])) {
+        code.push(lines[i]);
+        i++;
+      }
+      segments.push({ kind: 'code', code: code.join('\n') });
+      continue;
+    }
+    const heading = HEADING.exec(line);
+    if (heading) {
+      flush();
+      segments.push({ kind: 'heading', level: heading[1].length, text: heading[2] });
+      continue;
+    }
+    if (RULE.test(line)) {
+      flush();
+      segments.push({ kind: 'divider' });
+      continue;
+    }
+    const image = IMAGE_LINE.exec(line);
+    if (image) {
+      flush();
+      segments.push({ kind: 'image', alt: image[1], url: image[2] });
+      continue;
+    }
+    if (isTableStart(lines, i)) {
+      flush();
+      const table: string[] = [];
+      while (i < lines.length && lines[i].includes('|')) {
+        table.push(lines[i]);
+        i++;
+      }
+      i--;
+      segments.push({ kind: 'table', lines: table });
+      continue;
+    }
+    text.push(line);
+  }
+  flush();
+  return segments;
+}
+
+// Lines up the cells of a Markdown table so it reads well in a code block.
+function renderTable(lines: string[]) {
+  const rows = lines
+    .filter((line) => !TABLE_SEPARATOR.test(line))
+    .map((line) =>
+      line
+        .trim()
+        .replace(/^\||\|$/g, '')
+        .split('|')
+        .map((cell) => cell.trim()),
+    );
+  const widths = rows[0].map((_, column) =>
+    Math.max(...rows.map((row) => (row[column] ?? '').length)),
+  );
+  const format = (row: string[]) =>
+    widths
+      .map((width, column) => (row[column] ?? '').padEnd(width))
+      .join(' | ')
+      .trimEnd();
+  return [
+    format(rows[0]),
+    widths.map((width) => '-'.repeat(width)).join('-+-'),
+    ...rows.slice(1).map(format),
+  ].join('\n');
+}
+
+/** Converts inline Markdown and list syntax in code-free text to mrkdwn. */
+function inlineToMrkdwn(text: string): string {
+  const protectedParts: string[] = [];
+  const protect = (value: string) => `\uE000${protectedParts.push(value) - 1}\uE000`;
+
+  let result = text
+    .replace(/`[^`\n]+`/g, (code) => protect(escapeText(code)))
+    .replace(SLACK_TOKEN, protect)
+    .replace(/!\[([^\]]*)\]\(([^)\s]+)(?:\s+"[^"]*")?\)/g, (_, alt, url) =>
+      protect(`<${url}|${alt || url}>`),
+    )
+    .replace(/\[([^\]]+)\]\(([^)\s]+)(?:\s+"[^"]*")?\)/g, (_, label, url) =>
+      protect(`<${url}|${label}>`),
+    )
+    .replace(/<(https?:\/\/[^>\s]+)>/g, (_, url) => protect(`<${url}>`))
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, (match, offset, whole) =>
+      // A leading `>` is a block quote, which mrkdwn supports as is.
+      /(^|\n)\s*$/.test(whole.slice(0, offset)) ? match : '&gt;',
+    );
+
+  result = result
+    .replace(
+      /^(\s*)[-*+]\s+\[( |x|X)\]\s+/gm,
+      (_, indent, checked) => `${indent}${checked === ' ' ? '☐' : '☑'} `,
+    )
+    .replace(/^(\s*)[-*+]\s+/gm, '$1• ')
+    // Bold is marked first so its asterisks are not read as italics.
+    .replace(
+      /\*\*(?=\S)([\s\S]*?\S)\*\*|__(?=\S)([\s\S]*?\S)__/g,
+      (_, a, b) => `\uE001${a ?? b}\uE001`,
+    )
+    .replace(/(^|[^\w*])\*(?=\S)([^*\n]*?\S)\*(?!\w)/g, '$1_$2_')
+    .replace(/~~(?=\S)([\s\S]*?\S)~~/g, '~$1~')
+    .replace(/\uE001/g, '*');
+
+  return result.replace(/\uE000(\d+)\uE000/g, (_, index) => protectedParts[Number(index)]);
+}
+
+function codeBlock(escapedCode: string) {
+  return `\`\`\`\n${escapedCode}\n\`\`\``;
+}
+
+/** Converts ordinary Markdown to Slack's mrkdwn text format. */
+export function markdownToMrkdwn(markdown: string): string {
+  return segment(markdown)
+    .map((part) => {
+      switch (part.kind) {
+        case 'code':
+          return codeBlock(escapeText(part.code));
+        case 'table':
+          return codeBlock(escapeText(renderTable(part.lines)));
+        case 'heading':
+          return `*${inlineToMrkdwn(part.text).replace(/\*/g, '')}*`;
+        case 'image':
+          return `<${part.url}|${part.alt || part.url}>`;
+        case 'divider':
+          return '───';
+        case 'text':
+          return inlineToMrkdwn(part.lines.join('\n').replace(/^\n+|\n+$/g, ''));
+      }
+    })
+    .join('\n\n');
+}
+
+/** Strips Markdown formatting for plain_text fields such as headers. */
+function toPlainText(markdown: string) {
+  return markdown
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/(\*\*|__|~~|`|\*|_)(?=\S)([^]*?\S)\1/g, '$2')
+    .trim();
+}
+
+// Splits text into chunks of at most `max` characters, preferring line breaks.
+function chunk(text: string, max: number): string[] {
+  const chunks: string[] = [];
+  let rest = text;
+  while (rest.length > max) {
+    let cut = rest.lastIndexOf('\n', max);
+    if (cut <= 0) {
+      cut = max;
+    }
+    chunks.push(rest.slice(0, cut));
+    rest = rest.slice(cut).replace(/^\n/, '');
+  }
+  if (rest) {
+    chunks.push(rest);
+  }
+  return chunks;
+}
+
+function section(text: string): Block {
+  return { type: 'section', text: { type: 'mrkdwn', text } };
+}
+
+function sections(text: string): Block[] {
+  return chunk(text, MAX_SECTION_TEXT_LENGTH).map(section);
+}
+
+function codeSections(code: string): Block[] {
+  // Leave room for the fences around each chunk.
+  return chunk(escapeText(code), MAX_SECTION_TEXT_LENGTH - 8).map((part) =>
+    section(codeBlock(part)),
+  );
+}
+
+// With `compact`, headings and rules become section text so they can be
+// merged with their neighbours.
+function toBlocks(part: Segment, compact: boolean): Block[] {
+  switch (part.kind) {
+    case 'code':
+      return codeSections(part.code);
+    case 'table':
+      return codeSections(renderTable(part.lines));
+    case 'heading':
+      if (part.level <= 2 && !compact) {
+        const text = toPlainText(part.text).slice(0, MAX_HEADER_TEXT_LENGTH);
+        return text ? [{ type: 'header', text: { type: 'plain_text', text, emoji: true } }] : [];
+      }
+      return sections(`*${inlineToMrkdwn(part.text).replace(/\*/g, '')}*`);
+    case 'image':
+      return [{ type: 'image', image_url: part.url, alt_text: part.alt || 'image' }];
+    case 'divider':
+      return compact ? sections('───') : [{ type: 'divider' }];
+    case 'text':
+      return sections(inlineToMrkdwn(part.lines.join('\n').replace(/^\n+|\n+$/g, '')));
+  }
+}
+
+// The text of a mrkdwn section, or undefined for any other block.
+function mrkdwnText(block: Block | undefined): string | undefined {
+  const text = block?.text as { type?: string; text?: string } | undefined;
+  return block?.type === 'section' && text?.type === 'mrkdwn' ? text.text : undefined;
+}
+
+// Joins neighbouring mrkdwn sections as long as the result fits in one section.
+function mergeSections(blocks: Block[]): Block[] {
+  const merged: Block[] = [];
+  for (const block of blocks) {
+    const previous = mrkdwnText(merged[merged.length - 1]);
+    const text = mrkdwnText(block);
+    if (
+      previous !== undefined &&
+      text !== undefined &&
+      previous.length + text.length + 2 <= MAX_SECTION_TEXT_LENGTH
+    ) {
+      merged[merged.length - 1] = section(`${previous}\n\n${text}`);
+    } else {
+      merged.push(block);
+    }
+  }
+  return merged;
+}
+
+/**
+ * Converts Markdown to Block Kit blocks: top-level headings become header
+ * blocks, rules become dividers, standalone images become image blocks and
+ * everything else becomes mrkdwn sections within Slack's size limits.
+ *
+ * Documents that need more than `MAX_BLOCKS` blocks are packed tighter:
+ * first neighbouring sections are merged, then headings and rules are folded
+ * into the sections as well. The result can still exceed the limit for very
+ * long documents, which callers must check.
+ */
+export function markdownToBlocks(markdown: string): Block[] {
+  const parts = segment(markdown);
+  const blocks = parts.flatMap((part) => toBlocks(part, false));
+  if (blocks.length <= MAX_BLOCKS) {
+    return blocks;
+  }
+  const merged = mergeSections(blocks);
+  if (merged.length <= MAX_BLOCKS) {
+    return merged;
+  }
+  return mergeSections(parts.flatMap((part) => toBlocks(part, true)));
+}
@@ -0,0 +1,91 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { SlackValidationError } from './errors.js';
+import {
+  SearchHasFilter,
+  buildSearchQuery,
+  normalizeMatch,
+  threadTsFromPermalink,
+} from './search.js';
+
+describe('buildSearchQuery', () => {
+  it('should append modifiers for each filter', () => {
+    assert.equal(
+      buildSearchQuery(' deploy ', {
+        in: ['C0123ABCD', '#general', ' '],
+        from: ['U0456EFGH', '@jane', 'bob'],
+        after: '2024-05-01',
+        before: '2024-05-31T23:00:00-02:00',
+        has: ['link', 'reaction'],
+        is_thread: true,
+      }),
+      'deploy in:<#C0123ABCD> in:#general from:<@U0456EFGH> from:@jane from:@bob ' +
+        'after:2024-05-01 before:2024-06-01 has:link has:reaction is:thread',
+    );
+  });
+
+  it('should build a query from filters alone', () => {
+    assert.equal(buildSearchQuery(undefined, { on: '2024-05-01' }), 'on:2024-05-01');
+    assert.equal(buildSearchQuery('', { in: ['random'] }), 'in:#random');
+  });
+
+  it('should reject invalid dates, has filters and empty queries', () => {
+    assert.throws(() => buildSearchQuery('x', { after: 'yesterday' }), /Invalid after date/);
+    assert.throws(
+      () => buildSearchQuery('x', { has: ['star' as SearchHasFilter] }),
+      /Invalid has filter "star"/,
+    );
+    assert.throws(() => buildSearchQuery('  ', { in: [''] }), SlackValidationError);
+  });
+});
+
+describe('normalizeMatch', () => {
+  const userNames = new Map([
+    ['U1', 'jane'],
+    ['U2', 'bob'],
+  ]);
+
+  it('should resolve names, highlights and the thread of a reply', () => {
+    const permalink = 'https://acme.slack.com/archives/C1/p1700000001?thread_ts=1700000000.000100';
+    assert.deepEqual(
+      normalizeMatch(
+        {
+          ts: '1700000001.000200',
+          text: 'ask <@U2> about \uE000deploy\uE001',
+          user: 'U1',
+          permalink,
+          channel: { id: 'D1', name: 'U2', is_im: true },
+        },
+        userNames,
+        { ts: '1700000000.000100', user: 'U2', text: 'when do we deploy?' },
+      ),
+      {
+        ts: '1700000001.000200',
+        datetime: '2023-11-14T22:13:21.000Z',
+        channel_id: 'D1',
+        channel_name: '@bob',
+        user_id: 'U1',
+        user_name: 'jane',
+        text: 'ask @bob about **deploy**',
+        permalink,
+        thread_ts: '1700000000.000100',
+        is_reply: true,
+        thread_parent: { ts: '1700000000.000100', user_name: 'bob', text: 'when do we deploy?' },
+      },
+    );
+  });
+
+  it('should not treat thread parents as replies', () => {
+    assert.equal(threadTsFromPermalink('not a url'), undefined);
+    const match = normalizeMatch(
+      {
+        ts: '1700000000.000100',
+        username: 'deploybot',
+        permalink: 'https://acme.slack.com/archives/C1/p1700000000?thread_ts=1700000000.000100',
+      },
+      userNames,
+    );
+    assert.equal(match.is_reply, false);
+    assert.equal(match.user_name, 'deploybot');
+  });
+});
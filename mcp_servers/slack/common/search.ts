@@ -0,0 +1,189 @@
+import { SlackValidationError } from './errors.js';
+import { resolveMarkup, slackTsToIso } from './transcript.js';
+
+export type SearchHasFilter = 'link' | 'file' | 'pin' | 'reaction';
+
+/** Structured filters that compile into Slack search modifiers. */
+export interface SearchFilters {
+  /** Channel IDs (`C0123`) or names (`general`, `#general`). */
+  in?: string[];
+  /** User IDs (`U0123`) or user names (`jane`, `@jane`). */
+  from?: string[];
+  /** Only messages after this date (exclusive), `YYYY-MM-DD` or ISO 8601. */
+  after?: string;
+  /** Only messages before this date (exclusive). */
+  before?: string;
+  /** Only messages on this date. */
+  on?: string;
+  has?: SearchHasFilter[];
+  /** Only messages that are part of a thread. */
+  is_thread?: boolean;
+}
+
+/** A message match as returned by search.messages. */
+export interface SearchMatch {
+  iid?: string;
+  ts: string;
+  text?: string;
+  user?: string;
+  username?: string;
+  permalink?: string;
+  channel?: { id: string; name?: string; is_im?: boolean; is_mpim?: boolean; is_private?: boolean };
+  files?: { name?: string; title?: string }[];
+}
+
+export interface SearchResultMessage {
+  ts: string;
+  datetime: string;
+  channel_id?: string;
+  channel_name?: string;
+  user_id?: string;
+  user_name: string;
+  text: string;
+  permalink?: string;
+  thread_ts?: string;
+  is_reply: boolean;
+  thread_parent?: { ts: string; user_name: string; text: string };
+  files?: string[];
+}
+
+export interface SearchResult {
+  query: string;
+  total: number;
+  page: number;
+  page_count: number;
+  messages: SearchResultMessage[];
+  next_cursor?: string;
+}
+
+const HAS_FILTERS: SearchHasFilter[] = ['link', 'file', 'pin', 'reaction'];
+const CHANNEL_ID = /^[CGD][A-Z0-9]{6,}$/;
+const USER_ID = /^[UW][A-Z0-9]{6,}$/;
+
+// Slack's date modifiers take calendar dates.
+function toSearchDate(value: string, name: string): string {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return value;
+  }
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) {
+    throw new SlackValidationError(
+      `Invalid ${name} date "${value}". Use YYYY-MM-DD or an ISO 8601 timestamp.`,
+    );
+  }
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+function channelModifier(channel: string) {
+  const value = channel.trim();
+  return CHANNEL_ID.test(value) ? `in:<#${value}>` : `in:#${value.replace(/^#/, '')}`;
+}
+
+function userModifier(user: string) {
+  const value = user.trim();
+  return USER_ID.test(value) ? `from:<@${value}>` : `from:@${value.replace(/^@/, '')}`;
+}
+
+/**
+ * Combines free text with structured filters into Slack search syntax,
+ * e.g. `deploy in:<#C0123> from:@jane after:2024-05-01 has:link is:thread`.
+ */
+export function buildSearchQuery(text: string | undefined, filters: SearchFilters): string {
+  const parts = text?.trim() ? [text.trim()] : [];
+
+  parts.push(...(filters.in ?? []).filter((channel) => channel.trim()).map(channelModifier));
+  parts.push(...(filters.from ?? []).filter((user) => user.trim()).map(userModifier));
+  if (filters.after) {
+    parts.push(`after:${toSearchDate(filters.after, 'after')}`);
+  }
+  if (filters.before) {
+    parts.push(`before:${toSearchDate(filters.before, 'before')}`);
+  }
+  if (filters.on) {
+    parts.push(`on:${toSearchDate(filters.on, 'on')}`);
+  }
+  for (const has of filters.has ?? []) {
+    if (!HAS_FILTERS.includes(has)) {
+      throw new SlackValidationError(
+        `Invalid has filter "${has}". Expected one of ${HAS_FILTERS.join(', ')}.`,
+      );
+    }
+    parts.push(`has:${has}`);
+  }
+  if (filters.is_thread) {
+    parts.push('is:thread');
+  }
+
+  if (parts.length === 0) {
+    throw new SlackValidationError('Provide a query or at least one filter.');
+  }
+  return parts.join(' ');
+}
+
+/** The parent timestamp of a thread reply, which Slack only exposes in the permalink. */
+export function threadTsFromPermalink(permalink: string | undefined): string | undefined {
+  if (!permalink) {
+    return undefined;
+  }
+  try {
+    return new URL(permalink).searchParams.get('thread_ts') ?? undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// Slack marks highlighted terms with private-use characters.
+function renderHighlights(text: string) {
+  return text.replace(/[\uE000\uE001]/g, '**');
+}
+
+function channelName(match: SearchMatch, userNames: Map<string, string>) {
+  const channel = match.channel;
+  if (!channel) {
+    return undefined;
+  }
+  // Direct messages are named after the other user's ID.
+  if (channel.is_im && channel.name) {
+    return `@${userNames.get(channel.name) ?? channel.name}`;
+  }
+  return channel.name;
+}
+
+export function normalizeMatch(
+  match: SearchMatch,
+  userNames: Map<string, string>,
+  parent?: { ts: string; user?: string; username?: string; text?: string },
+): SearchResultMessage {
+  const threadTs = threadTsFromPermalink(match.permalink);
+  const isReply = Boolean(threadTs && threadTs !== match.ts);
+  const name = channelName(match, userNames);
+  return {
+    ts: match.ts,
+    datetime: slackTsToIso(match.ts),
+    ...(match.channel?.id ? { channel_id: match.channel.id } : {}),
+    ...(name ? { channel_name: name } : {}),
+    ...(match.user ? { user_id: match.user } : {}),
+    user_name:
+      (match.user && userNames.get(match.user)) || match.username || match.user || 'unknown',
+    text: renderHighlights(resolveMarkup(match.text ?? '', userNames)),
+    ...(match.permalink ? { permalink: match.permalink } : {}),
+    ...(threadTs ? { thread_ts: threadTs } : {}),
+    is_reply: isReply,
+    ...(isReply && parent
+      ? {
+          thread_parent: {
+            ts: parent.ts,
+            user_name:
+              (parent.user && userNames.get(parent.user)) ||
+              parent.username ||
+              parent.user ||
+              'unknown',
+            text: resolveMarkup(parent.text ?? '', userNames),
+          },
+        }
+      : {}),
+    ...(match.files?.length
+      ? { files: match.files.map((file) => file.name ?? file.title ?? 'file') }
+      : {}),
+  };
+}
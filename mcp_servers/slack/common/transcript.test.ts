@@ -0,0 +1,162 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  MessagePage,
+  SlackMessage,
+  collectConversation,
+  renderTranscript,
+  toSlackTs,
+  transcriptMessages,
+} from './transcript.js';
+
+const message = (ts: string, fields: Partial<SlackMessage> = {}): SlackMessage => ({
+  ts,
+  user: 'U1',
+  text: `message ${ts}`,
+  ...fields,
+});
+
+// Serves pages keyed by the cursor they are requested with.
+function pages(byCursor: Record<string, MessagePage>, requested: (string | undefined)[]) {
+  return async (cursor: string | undefined) => {
+    requested.push(cursor);
+    return byCursor[cursor ?? ''];
+  };
+}
+
+describe('collectConversation', () => {
+  it('should follow history cursors and read threads oldest first', async () => {
+    const historyCursors: (string | undefined)[] = [];
+    const replyCursors: (string | undefined)[] = [];
+    const history = pages(
+      {
+        '': {
+          messages: [message('3'), message('2', { thread_ts: '2', reply_count: 2 })],
+          response_metadata: { next_cursor: 'page2' },
+        },
+        page2: { messages: [message('1')], response_metadata: { next_cursor: '' } },
+      },
+      historyCursors,
+    );
+    const thread = pages(
+      {
+        '': {
+          messages: [message('2'), message('2.1')],
+          response_metadata: { next_cursor: 'more' },
+        },
+        more: { messages: [message('2'), message('2.2')] },
+      },
+      replyCursors,
+    );
+
+    const conversation = await collectConversation(
+      { history, replies: (_threadTs, cursor) => thread(cursor) },
+      100,
+      true,
+    );
+    assert.deepEqual(historyCursors, [undefined, 'page2']);
+    assert.deepEqual(replyCursors, [undefined, 'more']);
+    assert.deepEqual(
+      conversation.parents.map(({ ts }) => ts),
+      ['1', '2', '3'],
+    );
+    assert.deepEqual(
+      conversation.replies.get('2')?.map(({ ts }) => ts),
+      ['2.1', '2.2'],
+    );
+    assert.equal(conversation.total, 5);
+    assert.equal(conversation.truncated, false);
+  });
+
+  it('should stop at maxMessages and report truncation', async () => {
+    const history = async () => ({
+      messages: [message('3'), message('2'), message('1', { thread_ts: '1', reply_count: 5 })],
+      response_metadata: { next_cursor: 'next' },
+    });
+    const replies = async () => ({
+      messages: [message('1'), message('1.1'), message('1.2'), message('1.3')],
+    });
+
+    const parentsOnly = await collectConversation({ history, replies }, 2, true);
+    assert.deepEqual(
+      parentsOnly.parents.map(({ ts }) => ts),
+      ['2', '3'],
+    );
+    assert.equal(parentsOnly.truncated, true);
+
+    const withReplies = await collectConversation(
+      {
+        history: async () => ({ messages: (await history()).messages }),
+        replies,
+      },
+      5,
+      true,
+    );
+    assert.deepEqual(
+      withReplies.replies.get('1')?.map(({ ts }) => ts),
+      ['1.1', '1.2'],
+    );
+    assert.equal(withReplies.total, 5);
+    assert.equal(withReplies.truncated, true);
+
+    const withoutThreads = await collectConversation(
+      { history: async () => ({ messages: (await history()).messages }), replies },
+      5,
+      false,
+    );
+    assert.equal(withoutThreads.replies.size, 0);
+    assert.equal(withoutThreads.truncated, false);
+  });
+});
+
+describe('transcripts', () => {
+  it('should nest replies and render them as Markdown', () => {
+    const userNames = new Map([['U1', 'jane']]);
+    const messages = transcriptMessages(
+      {
+        parents: [
+          message('1714521600.000100', { text: 'Deploy today? <@U1>', edited: { ts: '1' } }),
+          message('1714521660.000100', { username: 'deploybot', user: undefined }),
+        ],
+        replies: new Map([
+          [
+            '1714521600.000100',
+            [message('1714521630.000100', { text: 'yes', reactions: [{ name: '+1', count: 2 }] })],
+          ],
+        ]),
+      },
+      userNames,
+    );
+    assert.equal(messages[0].replies?.[0].text, 'yes');
+    assert.equal(messages[1].user_name, 'deploybot');
+
+    assert.equal(
+      renderTranscript(
+        {
+          channel_id: 'C1',
+          channel_name: 'ops',
+          oldest: toSlackTs('2024-05-01'),
+          message_count: 3,
+          truncated: false,
+          messages,
+        },
+        'markdown',
+      ),
+      [
+        '# #ops',
+        '',
+        '3 messages from 2024-05-01T00:00:00.000Z',
+        '',
+        '**jane** · 2024-05-01 00:00 UTC (edited)',
+        'Deploy today? @jane',
+        '>',
+        '> **jane** · 2024-05-01 00:00 UTC',
+        '> yes',
+        '> _Reactions: :+1: 2_',
+        '',
+        '**deploybot** · 2024-05-01 00:01 UTC',
+        'message 1714521660.000100',
+      ].join('\n'),
+    );
+  });
+});
@@ -0,0 +1,264 @@
+export type TranscriptFormat = 'markdown' | 'json';
+
+/** The fields of a Slack message object used in transcripts. */
+export interface SlackMessage {
+  ts: string;
+  user?: string;
+  username?: string;
+  bot_profile?: { name?: string };
+  text?: string;
+  thread_ts?: string;
+  reply_count?: number;
+  files?: { id?: string; name?: string; title?: string }[];
+  reactions?: { name: string; count: number }[];
+  edited?: unknown;
+}
+
+export interface TranscriptMessage {
+  ts: string;
+  datetime: string;
+  user_id?: string;
+  user_name: string;
+  text: string;
+  files?: string[];
+  reactions?: { name: string; count: number }[];
+  edited?: boolean;
+  replies?: TranscriptMessage[];
+}
+
+export interface Transcript {
+  channel_id: string;
+  channel_name?: string;
+  oldest?: string;
+  latest?: string;
+  message_count: number;
+  truncated: boolean;
+  messages: TranscriptMessage[];
+}
+
+/**
+ * Converts a date (`2024-05-01`, an ISO timestamp) or a Slack timestamp
+ * (`1714521600.000100`) into the Slack timestamp format the API expects.
+ */
+export function toSlackTs(value: string): string {
+  if (/^\d+(\.\d+)?$/.test(value)) {
+    return value;
+  }
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) {
+    throw new Error(
+      `Invalid date "${value}". Use YYYY-MM-DD, an ISO 8601 timestamp or a Slack ts.`,
+    );
+  }
+  return (time / 1000).toFixed(6);
+}
+
+export function slackTsToIso(ts: string): string {
+  return new Date(parseFloat(ts) * 1000).toISOString();
+}
+
+/** User IDs of message authors and of users mentioned in message text. */
+export function collectUserIds(messages: SlackMessage[]): Set<string> {
+  const ids = new Set<string>();
+  for (const message of messages) {
+    if (message.user) {
+      ids.add(message.user);
+    }
+    for (const match of (message.text ?? '').matchAll(/<@([UW][A-Z0-9]+)(?:\|[^>]*)?>/g)) {
+      ids.add(match[1]);
+    }
+  }
+  return ids;
+}
+
+/**
+ * Replaces Slack's mention and link markup (`<@U123>`, `<#C123|general>`,
+ * `<https://example.com|label>`) with readable text.
+ */
+export function resolveMarkup(text: string, userNames: Map<string, string>): string {
+  return text
+    .replace(
+      /<@([UW][A-Z0-9]+)(?:\|([^>]*))?>/g,
+      (_, id, label) => `@${userNames.get(id) ?? label ?? id}`,
+    )
+    .replace(/<#([CG][A-Z0-9]+)(?:\|([^>]*))?>/g, (_, id, name) => `#${name || id}`)
+    .replace(/<!(here|channel|everyone)(?:\|[^>]*)?>/g, '@$1')
+    .replace(/<!subteam\^[A-Z0-9]+\|([^>]*)>/g, '$1')
+    .replace(/<(https?:\/\/[^|>]+)\|([^>]+)>/g, '[$2]($1)')
+    .replace(/<(https?:\/\/[^>]+)>/g, '$1')
+    .replace(/<mailto:([^|>]+)\|[^>]+>/g, '$1')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+}
+
+function authorName(message: SlackMessage, userNames: Map<string, string>): string {
+  if (message.user) {
+    return userNames.get(message.user) ?? message.user;
+  }
+  return message.username ?? message.bot_profile?.name ?? 'unknown';
+}
+
+export function normalizeMessage(
+  message: SlackMessage,
+  userNames: Map<string, string>,
+): TranscriptMessage {
+  return {
+    ts: message.ts,
+    datetime: slackTsToIso(message.ts),
+    ...(message.user ? { user_id: message.user } : {}),
+    user_name: authorName(message, userNames),
+    text: resolveMarkup(message.text ?? '', userNames),
+    ...(message.files?.length
+      ? { files: message.files.map((file) => file.name ?? file.title ?? file.id ?? 'file') }
+      : {}),
+    ...(message.reactions?.length
+      ? {
+          reactions: message.reactions.map((reaction) => ({
+            name: reaction.name,
+            count: reaction.count,
+          })),
+        }
+      : {}),
+    ...(message.edited ? { edited: true } : {}),
+  };
+}
+
+/** One page of conversations.history or conversations.replies. */
+export interface MessagePage {
+  messages: SlackMessage[];
+  response_metadata?: { next_cursor?: string };
+}
+
+export interface ConversationLoaders {
+  /** A page of the channel history, newest first. */
+  history(cursor: string | undefined): Promise<MessagePage>;
+  /** A page of the replies to a thread. Every page repeats the parent message first. */
+  replies(threadTs: string, cursor: string | undefined): Promise<MessagePage>;
+}
+
+export interface CollectedConversation {
+  /** Top-level messages, oldest first. */
+  parents: SlackMessage[];
+  /** Replies by the `ts` of their parent, oldest first. */
+  replies: Map<string, SlackMessage[]>;
+  /** Messages collected, replies included. */
+  total: number;
+  truncated: boolean;
+}
+
+/**
+ * Walks every page of the channel history, then every thread started in it,
+ * until `maxMessages` messages, replies included, are collected.
+ */
+export async function collectConversation(
+  load: ConversationLoaders,
+  maxMessages: number,
+  includeThreads: boolean,
+): Promise<CollectedConversation> {
+  const parents: SlackMessage[] = [];
+  let cursor: string | undefined;
+  let truncated = false;
+  do {
+    const page = await load.history(cursor);
+    parents.push(...page.messages);
+    cursor = page.response_metadata?.next_cursor || undefined;
+    if (parents.length >= maxMessages) {
+      truncated = Boolean(cursor) || parents.length > maxMessages;
+      parents.splice(maxMessages);
+      break;
+    }
+  } while (cursor);
+  // History is newest first; transcripts read oldest first.
+  parents.reverse();
+
+  const replies = new Map<string, SlackMessage[]>();
+  let total = parents.length;
+  if (includeThreads) {
+    for (const [index, parent] of parents.entries()) {
+      if (!parent.reply_count || parent.thread_ts !== parent.ts) {
+        continue;
+      }
+      const thread: SlackMessage[] = [];
+      let replyCursor: string | undefined;
+      do {
+        const page = await load.replies(parent.ts, replyCursor);
+        thread.push(...page.messages.filter((message) => message.ts !== parent.ts));
+        replyCursor = page.response_metadata?.next_cursor || undefined;
+      } while (replyCursor && total + thread.length < maxMessages);
+      if (total + thread.length > maxMessages || replyCursor) {
+        truncated = true;
+        thread.splice(Math.max(0, maxMessages - total));
+      }
+      replies.set(parent.ts, thread);
+      total += thread.length;
+      if (total >= maxMessages) {
+        truncated ||= parents.slice(index + 1).some((message) => message.reply_count);
+        break;
+      }
+    }
+  }
+  return { parents, replies, total, truncated };
+}
+
+/** The messages of a transcript, with replies nested under their parents. */
+export function transcriptMessages(
+  { parents, replies }: Pick<CollectedConversation, 'parents' | 'replies'>,
+  userNames: Map<string, string>,
+): TranscriptMessage[] {
+  return parents.map((parent) => {
+    const thread = replies.get(parent.ts);
+    return {
+      ...normalizeMessage(parent, userNames),
+      ...(thread?.length
+        ? { replies: thread.map((reply) => normalizeMessage(reply, userNames)) }
+        : {}),
+    };
+  });
+}
+
+function renderMessage(message: TranscriptMessage, indent: string): string[] {
+  const time = message.datetime.replace('T', ' ').replace(/:\d\d\.\d+Z$/, ' UTC');
+  const lines = [`${indent}**${message.user_name}** · ${time}${message.edited ? ' (edited)' : ''}`];
+  for (const line of message.text.split('\n')) {
+    lines.push(`${indent}${line}`);
+  }
+  if (message.files?.length) {
+    lines.push(`${indent}_Files: ${message.files.join(', ')}_`);
+  }
+  if (message.reactions?.length) {
+    lines.push(
+      `${indent}_Reactions: ${message.reactions.map((reaction) => `:${reaction.name}: ${reaction.count}`).join(', ')}_`,
+    );
+  }
+  return lines;
+}
+
+export function renderTranscript(transcript: Transcript, format: TranscriptFormat): string {
+  if (format === 'json') {
+    return JSON.stringify(transcript, null, 2);
+  }
+
+  const channel = transcript.channel_name ? `#${transcript.channel_name}` : transcript.channel_id;
+  const range = [
+    transcript.oldest ? `from ${slackTsToIso(transcript.oldest)}` : '',
+    transcript.latest ? `until ${slackTsToIso(transcript.latest)}` : '',
+  ]
+    .filter(Boolean)
+    .join(' ');
+  const lines = [
+    `# ${channel}`,
+    '',
+    `${transcript.message_count} messages${range ? ` ${range}` : ''}${
+      transcript.truncated ? ' (truncated, narrow the date range to see everything)' : ''
+    }`,
+  ];
+
+  for (const message of transcript.messages) {
+    lines.push('', ...renderMessage(message, ''));
+    for (const reply of message.replies ?? []) {
+      lines.push('>', ...renderMessage(reply, '> '));
+    }
+  }
+  return lines.join('\n');
+}
@@ -1,16 +1,61 @@
 #!/usr/bin/env node
-import express, { Request, Response } from 'express';
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
-import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
-import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { startMcpServer } from "@klavis-ai/mcp-runtime";
 import {
   CallToolRequest,
   CallToolRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ListResourcesRequestSchema,
   ListToolsRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
   Tool,
+  UnsubscribeRequestSchema,
 } from "@modelcontextprotocol/sdk/types.js";
 import { z } from 'zod';
-import { isSlackError, formatSlackError } from "./common/errors.js";
+import {
+  SlackError,
+  SlackPermissionError,
+  SlackResourceNotFoundError,
+  SlackValidationError,
+  formatSlackError,
+  isSlackError,
+} from "./common/errors.js";
+import { SlackApi, SlackCallOptions, SlackResponse, slackApiOptionsFromEnv } from "./common/api.js";
+import {
+  BufferedEvent,
+  EventBuffer,
+  EventPage,
+  MAX_EVENT_BODY_BYTES,
+  MAX_POLL_WAIT_SECONDS,
+  SLACK_EVENT_TYPES,
+  eventsResourceUri,
+  handleEventsRequest,
+  matchesFilter,
+  parseEventCursor,
+  parseEventsResourceUri,
+  readBody,
+} from "./common/events.js";
+import { MAX_BLOCKS, parseJsonArgument, validateMessage } from "./common/blockKit.js";
+import { markdownToBlocks, markdownToMrkdwn } from "./common/markdown.js";
+import {
+  SearchFilters,
+  SearchMatch,
+  SearchResult,
+  buildSearchQuery,
+  normalizeMatch,
+  threadTsFromPermalink,
+} from "./common/search.js";
+import {
+  SlackMessage,
+  Transcript,
+  TranscriptFormat,
+  collectConversation,
+  collectUserIds,
+  renderTranscript,
+  toSlackTs,
+  transcriptMessages,
+} from "./common/transcript.js";
 import { AsyncLocalStorage } from "async_hooks";
 
 
@@ -21,15 +66,21 @@ interface ListChannelsArgs {
   types?: string;
 }
 
-interface PostMessageArgs {
+// Message content accepted by the posting tools
+interface MessageContentArgs {
+  text?: string;
+  markdown?: string;
+  blocks?: unknown;
+  attachments?: unknown;
+}
+
+interface PostMessageArgs extends MessageContentArgs {
   channel_id: string;
-  text: string;
 }
 
-interface ReplyToThreadArgs {
+interface ReplyToThreadArgs extends MessageContentArgs {
   channel_id: string;
   thread_ts: string;
-  text: string;
 }
 
 interface AddReactionArgs {
@@ -38,14 +89,53 @@ interface AddReactionArgs {
   reaction: string;
 }
 
+interface UploadFileArgs {
+  channel_id: string;
+  filename: string;
+  content?: string;
+  content_base64?: string;
+  title?: string;
+  initial_comment?: string;
+  thread_ts?: string;
+  alt_text?: string;
+}
+
+interface UpdateMessageArgs {
+  channel_id: string;
+  ts: string;
+  text: string;
+}
+
+interface DeleteMessageArgs {
+  channel_id: string;
+  ts: string;
+}
+
+interface PinMessageArgs {
+  channel_id: string;
+  timestamp: string;
+}
+
+interface ScheduleMessageArgs {
+  channel_id: string;
+  text: string;
+  post_at: string;
+  thread_ts?: string;
+}
+
 interface GetChannelHistoryArgs {
   channel_id: string;
   limit?: number;
+  cursor?: string;
+  oldest?: string;
+  latest?: string;
 }
 
 interface GetThreadRepliesArgs {
   channel_id: string;
   thread_ts: string;
+  limit?: number;
+  cursor?: string;
 }
 
 interface GetUsersArgs {
@@ -57,20 +147,167 @@ interface GetUserProfileArgs {
   user_id: string;
 }
 
-interface SearchMessagesArgs {
-  query: string;
+interface ExportConversationArgs {
+  channel_id: string;
+  oldest?: string;
+  latest?: string;
+  include_threads?: boolean;
+  format?: TranscriptFormat;
+  max_messages?: number;
+}
+
+interface SearchMessagesArgs extends SearchFilters {
+  query?: string;
   channel_ids?: string[];
   sort?: "score" | "timestamp";
   sort_dir?: "asc" | "desc";
   count?: number;
   cursor?: string;
   highlight?: boolean;
+  include_thread_parents?: boolean;
+}
+
+interface PollEventsArgs {
+  cursor?: string;
+  types?: string[];
+  channel_id?: string;
+  thread_ts?: string;
+  wait_seconds?: number;
+  limit?: number;
+}
+
+// Slack Web API responses, with the fields the tools read
+interface SlackUser {
+  id: string;
+  name?: string;
+  real_name?: string;
+  profile?: { display_name?: string; real_name?: string };
+  [key: string]: unknown;
+}
+
+interface SlackChannel {
+  id: string;
+  name?: string;
+  [key: string]: unknown;
+}
+
+interface PaginatedResponse extends SlackResponse {
+  response_metadata?: { next_cursor?: string };
+}
+
+interface MessagesResponse extends PaginatedResponse {
+  messages: SlackMessage[];
+  has_more?: boolean;
+}
+
+interface ChannelsResponse extends PaginatedResponse {
+  channels: SlackChannel[];
+}
+
+interface UsersResponse extends PaginatedResponse {
+  members: SlackUser[];
+}
+
+interface UserProfileResponse extends SlackResponse {
+  profile: Record<string, unknown>;
+}
+
+interface UserInfoResponse extends SlackResponse {
+  user: SlackUser;
+}
+
+interface ChannelInfoResponse extends SlackResponse {
+  channel: SlackChannel;
+}
+
+interface MessageResponse extends SlackResponse {
+  channel: string;
+  ts: string;
+  message?: SlackMessage;
+}
+
+interface ScheduleMessageResponse extends SlackResponse {
+  channel: string;
+  scheduled_message_id: string;
+  post_at: number;
+}
+
+interface SearchResponse extends SlackResponse {
+  messages?: { matches?: SearchMatch[]; total?: number; paging?: { pages?: number } };
+}
+
+interface UploadUrlResponse extends SlackResponse {
+  upload_url: string;
+  file_id: string;
+}
+
+interface CompleteUploadResponse extends SlackResponse {
+  files: { id: string; title?: string }[];
+}
+
+// Upper bound for slack_export_conversation, to keep transcripts a usable size
+const MAX_EXPORT_MESSAGES = 5000;
+
+// Shared by all sessions, so rate limits and cached lookups apply process-wide
+const slackApi = new SlackApi(slackApiOptionsFromEnv());
+
+// The events endpoint is only served when a signing secret is configured
+const signingSecret = process.env.SLACK_SIGNING_SECRET;
+const eventBuffer = new EventBuffer(Number(process.env.SLACK_EVENTS_BUFFER_SIZE) || 1000);
+
+// The buffer holds the events of whole workspaces, private channels and DMs
+// included. A token only sees the events of channels that conversations.info
+// returns for it; events without a channel are visible to the workspace.
+async function canSeeChannel(token: string, channelId: string | undefined): Promise<boolean> {
+  if (!channelId) {
+    return true;
+  }
+  try {
+    await slackApi.getChannel(token, channelId);
+    return true;
+  } catch (error) {
+    if (error instanceof SlackResourceNotFoundError || error instanceof SlackPermissionError) {
+      return false;
+    }
+    throw error;
+  }
 }
 
+async function visibleEvents(token: string, events: BufferedEvent[]): Promise<BufferedEvent[]> {
+  const access = new Map<string | undefined, Promise<boolean>>();
+  const visible = await Promise.all(
+    events.map((event) => {
+      if (!access.has(event.channel_id)) {
+        access.set(event.channel_id, canSeeChannel(token, event.channel_id));
+      }
+      return access.get(event.channel_id);
+    }),
+  );
+  return events.filter((_, index) => visible[index]);
+}
+
+// Message content properties shared by slack_post_message and slack_reply_to_thread
+const messageContentProperties = {
+  markdown: {
+    type: "string",
+    description: "Message written in ordinary Markdown. It is converted to Block Kit blocks (headings, lists, code, tables, images) and to mrkdwn for the notification text. Ignored for blocks when blocks are given.",
+  },
+  blocks: {
+    type: "array",
+    items: { type: "object" },
+    description: "Block Kit blocks (https://api.slack.com/block-kit), e.g. [{\"type\": \"section\", \"text\": {\"type\": \"mrkdwn\", \"text\": \"*Deploy finished*\"}}]. Validated before sending; at most 50 blocks.",
+  },
+  attachments: {
+    type: "array",
+    items: { type: "object" },
+    description: "Legacy secondary attachments, e.g. [{\"color\": \"#36a64f\", \"text\": \"All checks passed\"}]. May contain blocks.",
+  },
+};
+
 // Tool definitions
 const listChannelsTool: Tool = {
   name: "slack_list_channels",
-  description: "List channels in the workspace with pagination",
+  description: "List channels in the workspace with pagination. Pass response_metadata.next_cursor from the response as cursor to get the next page.",
   inputSchema: {
     type: "object",
     properties: {
@@ -82,7 +319,7 @@ const listChannelsTool: Tool = {
       },
       cursor: {
         type: "string",
-        description: "Pagination cursor for next page of results",
+        description: "Pagination cursor for next page of results (response_metadata.next_cursor of the previous page)",
       },
       types: {
         type: "string",
@@ -95,7 +332,7 @@ const listChannelsTool: Tool = {
 
 const postMessageTool: Tool = {
   name: "slack_post_message",
-  description: "Post a new message to a Slack channel",
+  description: "Post a new message to a Slack channel. Provide text (Slack mrkdwn), markdown, blocks or attachments; with blocks, text is used for notifications.",
   inputSchema: {
     type: "object",
     properties: {
@@ -105,16 +342,17 @@ const postMessageTool: Tool = {
       },
       text: {
         type: "string",
-        description: "The message text to post",
+        description: "The message text to post, in Slack mrkdwn",
       },
+      ...messageContentProperties,
     },
-    required: ["channel_id", "text"],
+    required: ["channel_id"],
   },
 };
 
 const replyToThreadTool: Tool = {
   name: "slack_reply_to_thread",
-  description: "Reply to a specific message thread in Slack",
+  description: "Reply to a specific message thread in Slack. Provide text (Slack mrkdwn), markdown, blocks or attachments; with blocks, text is used for notifications.",
   inputSchema: {
     type: "object",
     properties: {
@@ -128,10 +366,11 @@ const replyToThreadTool: Tool = {
       },
       text: {
         type: "string",
-        description: "The reply text",
+        description: "The reply text, in Slack mrkdwn",
       },
+      ...messageContentProperties,
     },
-    required: ["channel_id", "thread_ts", "text"],
+    required: ["channel_id", "thread_ts"],
   },
 };
 
@@ -158,9 +397,140 @@ const addReactionTool: Tool = {
   },
 };
 
+const uploadFileTool: Tool = {
+  name: "slack_upload_file",
+  description: "Upload a file to a channel or thread, e.g. logs or reports. Provide the file as text in content or as base64 in content_base64.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      channel_id: {
+        type: "string",
+        description: "The ID of the channel to share the file in",
+      },
+      filename: {
+        type: "string",
+        description: "Name of the file including its extension, e.g. 'incident.log'",
+      },
+      content: {
+        type: "string",
+        description: "File content as text",
+      },
+      content_base64: {
+        type: "string",
+        description: "File content encoded as base64, for binary files",
+      },
+      title: {
+        type: "string",
+        description: "Title of the file (defaults to the filename)",
+      },
+      initial_comment: {
+        type: "string",
+        description: "Message text posted together with the file",
+      },
+      thread_ts: {
+        type: "string",
+        description: "Timestamp of a parent message to share the file in its thread",
+      },
+      alt_text: {
+        type: "string",
+        description: "Description of an image for screen readers",
+      },
+    },
+    required: ["channel_id", "filename"],
+  },
+};
+
+const updateMessageTool: Tool = {
+  name: "slack_update_message",
+  description: "Edit the text of a message previously posted by the bot",
+  inputSchema: {
+    type: "object",
+    properties: {
+      channel_id: {
+        type: "string",
+        description: "The ID of the channel containing the message",
+      },
+      ts: {
+        type: "string",
+        description: "The timestamp of the message to update",
+      },
+      text: {
+        type: "string",
+        description: "The new message text",
+      },
+    },
+    required: ["channel_id", "ts", "text"],
+  },
+};
+
+const deleteMessageTool: Tool = {
+  name: "slack_delete_message",
+  description: "Delete a message previously posted by the bot",
+  inputSchema: {
+    type: "object",
+    properties: {
+      channel_id: {
+        type: "string",
+        description: "The ID of the channel containing the message",
+      },
+      ts: {
+        type: "string",
+        description: "The timestamp of the message to delete",
+      },
+    },
+    required: ["channel_id", "ts"],
+  },
+};
+
+const pinMessageTool: Tool = {
+  name: "slack_pin_message",
+  description: "Pin a message to a channel",
+  inputSchema: {
+    type: "object",
+    properties: {
+      channel_id: {
+        type: "string",
+        description: "The ID of the channel containing the message",
+      },
+      timestamp: {
+        type: "string",
+        description: "The timestamp of the message to pin",
+      },
+    },
+    required: ["channel_id", "timestamp"],
+  },
+};
+
+const scheduleMessageTool: Tool = {
+  name: "slack_schedule_message",
+  description: "Schedule a message to be posted to a channel or thread at a future time (up to 120 days ahead)",
+  inputSchema: {
+    type: "object",
+    properties: {
+      channel_id: {
+        type: "string",
+        description: "The ID of the channel to post to",
+      },
+      text: {
+        type: "string",
+        description: "The message text to post",
+      },
+      post_at: {
+        type: "string",
+        description: "When to post: an ISO 8601 timestamp such as '2025-06-01T09:00:00Z' or a Unix timestamp in seconds",
+      },
+      thread_ts: {
+        type: "string",
+        description: "Timestamp of a parent message to post the message as a reply",
+      },
+    },
+    required: ["channel_id", "text", "post_at"],
+  },
+};
+
 const getChannelHistoryTool: Tool = {
   name: "slack_get_channel_history",
-  description: "Get recent messages from a channel",
+  description: "Get recent messages from a channel, newest first. Pass response_metadata.next_cursor from the response as cursor to get older messages.",
   inputSchema: {
     type: "object",
     properties: {
@@ -170,9 +540,21 @@ const getChannelHistoryTool: Tool = {
       },
       limit: {
         type: "number",
-        description: "Number of messages to retrieve (default 10)",
+        description: "Number of messages to retrieve (default 10, max 999)",
         default: 10,
       },
+      cursor: {
+        type: "string",
+        description: "Pagination cursor for next page of results (response_metadata.next_cursor of the previous page)",
+      },
+      oldest: {
+        type: "string",
+        description: "Only messages after this time: a date (YYYY-MM-DD), an ISO 8601 timestamp or a Slack ts",
+      },
+      latest: {
+        type: "string",
+        description: "Only messages before this time: a date (YYYY-MM-DD), an ISO 8601 timestamp or a Slack ts",
+      },
     },
     required: ["channel_id"],
   },
@@ -180,7 +562,7 @@ const getChannelHistoryTool: Tool = {
 
 const getThreadRepliesTool: Tool = {
   name: "slack_get_thread_replies",
-  description: "Get all replies in a message thread",
+  description: "Get replies in a message thread, oldest first. Pass response_metadata.next_cursor from the response as cursor to get more replies.",
   inputSchema: {
     type: "object",
     properties: {
@@ -192,6 +574,15 @@ const getThreadRepliesTool: Tool = {
         type: "string",
         description: "The timestamp of the parent message in the format '1234567890.123456'. Timestamps in the format without the period can be converted by adding the period such that 6 numbers come after it.",
       },
+      limit: {
+        type: "number",
+        description: "Maximum number of messages to return (default 200, max 1000)",
+        default: 200,
+      },
+      cursor: {
+        type: "string",
+        description: "Pagination cursor for next page of results (response_metadata.next_cursor of the previous page)",
+      },
     },
     required: ["channel_id", "thread_ts"],
   },
@@ -200,13 +591,13 @@ const getThreadRepliesTool: Tool = {
 const getUsersTool: Tool = {
   name: "slack_get_users",
   description:
-    "Get a list of all users in the workspace with their basic profile information",
+    "Get a list of all users in the workspace with their basic profile information. Pass response_metadata.next_cursor from the response as cursor to get the next page.",
   inputSchema: {
     type: "object",
     properties: {
       cursor: {
         type: "string",
-        description: "Pagination cursor for next page of results",
+        description: "Pagination cursor for next page of results (response_metadata.next_cursor of the previous page)",
       },
       limit: {
         type: "number",
@@ -232,22 +623,94 @@ const getUserProfileTool: Tool = {
   },
 };
 
+const exportConversationTool: Tool = {
+  name: "slack_export_conversation",
+  description: "Export a channel's messages and all their thread replies within a date range as a transcript with user names resolved. Walks every page of history, so prefer narrow date ranges for busy channels.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      channel_id: {
+        type: "string",
+        description: "The ID of the channel to export",
+      },
+      oldest: {
+        type: "string",
+        description: "Start of the range: a date (YYYY-MM-DD), an ISO 8601 timestamp or a Slack ts. Defaults to the beginning of the channel.",
+      },
+      latest: {
+        type: "string",
+        description: "End of the range: a date (YYYY-MM-DD), an ISO 8601 timestamp or a Slack ts. Defaults to now.",
+      },
+      include_threads: {
+        type: "boolean",
+        description: "Include the replies of threads started in the range (default true)",
+        default: true,
+      },
+      format: {
+        type: "string",
+        enum: ["markdown", "json"],
+        description: "Transcript format (default markdown)",
+        default: "markdown",
+      },
+      max_messages: {
+        type: "number",
+        description: `Maximum number of messages, including replies, to export (default 1000, max ${MAX_EXPORT_MESSAGES})`,
+        default: 1000,
+      },
+    },
+    required: ["channel_id"],
+  },
+};
+
 const searchMessagesTool: Tool = {
   name: "slack_search_messages",
-  description: "Search for messages in the workspace based on a query",
+  description:
+    "Search for messages in the workspace. Combine free text with structured filters for channel, author, date range, links, files and threads. " +
+    "Results include the channel name, permalink, author display name and, for thread replies, the thread parent.",
   inputSchema: {
     type: "object",
     properties: {
       query: {
         type: "string",
-        description: "The search query string. You can use Slack's search operators like 'in:#channel', 'from:@user', 'before:YYYY-MM-DD', 'after:YYYY-MM-DD', etc.",
+        description: "Free text to search for. Slack's search operators like 'in:#channel' or 'from:@user' still work, but the filter arguments are preferred.",
+      },
+      in: {
+        type: "array",
+        items: { type: "string" },
+        description: "Only messages in these channels, given as channel IDs or names (e.g. 'C0123ABCD' or 'general')",
+      },
+      from: {
+        type: "array",
+        items: { type: "string" },
+        description: "Only messages from these users, given as user IDs or user names (e.g. 'U0123ABCD' or 'jane')",
+      },
+      after: {
+        type: "string",
+        description: "Only messages after this date, not including it (YYYY-MM-DD or ISO 8601)",
+      },
+      before: {
+        type: "string",
+        description: "Only messages before this date, not including it (YYYY-MM-DD or ISO 8601)",
+      },
+      on: {
+        type: "string",
+        description: "Only messages on this date (YYYY-MM-DD or ISO 8601)",
+      },
+      has: {
+        type: "array",
+        items: { type: "string", enum: ["link", "file", "pin", "reaction"] },
+        description: "Only messages that have all of these: a link, a file, a pin or a reaction",
+      },
+      is_thread: {
+        type: "boolean",
+        description: "Only messages that are part of a thread",
       },
       channel_ids: {
         type: "array",
         items: {
           type: "string",
         },
-        description: "Optional list of channel IDs to search within. If not provided, searches across all accessible channels.",
+        description: "Deprecated, use 'in'. Channel IDs to search within.",
       },
       sort: {
         type: "string",
@@ -267,268 +730,495 @@ const searchMessagesTool: Tool = {
         default: 20,
       },
       cursor: {
-        type: "string", 
-        description: "Pagination cursor for next page of results",
+        type: "string",
+        description: "Pagination cursor for the next page of results, taken from next_cursor of the previous response",
       },
       highlight: {
         type: "boolean",
-        description: "Whether to include highlighting of matched terms",
+        description: "Whether to mark matched terms in bold",
+        default: false,
+      },
+      include_thread_parents: {
+        type: "boolean",
+        description: "Include the parent message of thread replies (default true)",
         default: true,
       },
     },
-    required: ["query"],
   },
 };
 
+const pollEventsTool: Tool = {
+  name: "slack_poll_events",
+  description:
+    "Get events received from Slack (messages, app mentions and reactions), oldest first. " +
+    "Pass next_cursor from the previous call to only get newer events, and wait_seconds to wait for the next matching event, e.g. a reply in a thread. " +
+    "Requires the server's Slack events endpoint to be configured.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      cursor: {
+        type: "string",
+        description: "Only return events after this cursor (next_cursor of the previous call). Omit to get all buffered events.",
+      },
+      types: {
+        type: "array",
+        items: { type: "string", enum: [...SLACK_EVENT_TYPES] },
+        description: "Only return events of these types",
+      },
+      channel_id: {
+        type: "string",
+        description: "Only return events in this channel",
+      },
+      thread_ts: {
+        type: "string",
+        description: "Only return events in the thread with this parent timestamp",
+      },
+      wait_seconds: {
+        type: "number",
+        description: `If no matching event is buffered yet, wait up to this many seconds for one (max ${MAX_POLL_WAIT_SECONDS}, default 0)`,
+        default: 0,
+      },
+      limit: {
+        type: "number",
+        description: "Maximum number of events to return (default 50, max 200)",
+        default: 50,
+      },
+    },
+  },
+};
+
+interface SlackMessageContent {
+  text?: string;
+  blocks?: unknown;
+  attachments?: unknown;
+}
+
+// Turns the tool arguments into a chat.postMessage payload. Markdown is
+// converted to blocks plus mrkdwn fallback text, and the result is validated
+// locally so Block Kit mistakes are reported with their exact path.
+function composeMessage(args: MessageContentArgs): SlackMessageContent {
+  let text = args.text;
+  let blocks = parseJsonArgument(args.blocks, "blocks");
+  const attachments = parseJsonArgument(args.attachments, "attachments");
+
+  if (args.markdown) {
+    // Documents too long for Block Kit are sent as mrkdwn text only.
+    if (blocks === undefined) {
+      const converted = markdownToBlocks(args.markdown);
+      blocks = converted.length <= MAX_BLOCKS ? converted : undefined;
+    }
+    text ??= markdownToMrkdwn(args.markdown);
+  }
+
+  validateMessage({ text, blocks, attachments });
+  return { text, blocks, attachments };
+}
+
 class SlackClient {
-  private botHeaders: { Authorization: string; "Content-Type": string };
+  private token: string;
 
   constructor(botToken: string) {
-    this.botHeaders = {
-      Authorization: `Bearer ${botToken}`,
-      "Content-Type": "application/json; charset=utf-8",
-    };
+    this.token = botToken;
   }
 
   // Update token if needed
   refreshToken() {
     const token = getSlackToken();
     if (token) {
-      this.botHeaders.Authorization = `Bearer ${token}`;
+      this.token = token;
       return true;
     }
     return false;
   }
 
-  // Update existing methods to call refreshToken before making API calls
-  async getChannels(limit: number = 100, cursor?: string, types: string = "public_channel"): Promise<any> {
+  // Every Web API call goes through the shared client so rate limits,
+  // retries and the user/channel directory are shared across requests.
+  private call<T extends SlackResponse = SlackResponse>(
+    method: string,
+    options?: SlackCallOptions,
+  ): Promise<T> {
     this.refreshToken();
-    const params = new URLSearchParams({
-      types: types,
-      exclude_archived: "true",
-      limit: Math.min(limit, 200).toString(),
-      team_id: process.env.SLACK_TEAM_ID!,
-    });
-
-    if (cursor) {
-      params.append("cursor", cursor);
-    }
-
-    const response = await fetch(
-      `https://slack.com/api/conversations.list?${params}`,
-      { headers: this.botHeaders },
-    );
-
-    const data = await response.json();
-
-    if (!data.ok) {
-      throw new Error(`Slack API error: ${data.error}`);
-    }
-
-    return data;
+    return slackApi.call<T>(this.token, method, options);
   }
 
-  async postMessage(channel_id: string, text: string): Promise<any> {
-    this.refreshToken();
-    const response = await fetch("https://slack.com/api/chat.postMessage", {
-      method: "POST",
-      headers: this.botHeaders,
-      body: JSON.stringify({
-        channel: channel_id,
-        text: text,
-      }),
+  async getChannels(limit: number = 100, cursor?: string, types: string = "public_channel"): Promise<ChannelsResponse> {
+    const data = await this.call<ChannelsResponse>("conversations.list", {
+      query: {
+        types: types,
+        exclude_archived: true,
+        limit: Math.min(limit, 200),
+        team_id: process.env.SLACK_TEAM_ID,
+        cursor,
+      },
     });
-
-    const data = await response.json();
-
-    if (!data.ok) {
-      throw new Error(`Slack API error: ${data.error}`);
-    }
-
+    slackApi.rememberChannels(this.token, data.channels);
     return data;
   }
 
+  async postMessage(channel_id: string, message: SlackMessageContent): Promise<MessageResponse> {
+    return this.call("chat.postMessage", {
+      channel: channel_id,
+      json: {
+        channel: channel_id,
+        ...message,
+      },
+    });
+  }
+
   async postReply(
     channel_id: string,
     thread_ts: string,
-    text: string,
-  ): Promise<any> {
-    this.refreshToken();
-    const response = await fetch("https://slack.com/api/chat.postMessage", {
-      method: "POST",
-      headers: this.botHeaders,
-      body: JSON.stringify({
+    message: SlackMessageContent,
+  ): Promise<MessageResponse> {
+    return this.call("chat.postMessage", {
+      channel: channel_id,
+      json: {
         channel: channel_id,
         thread_ts: thread_ts,
-        text: text,
-      }),
+        ...message,
+      },
     });
-
-    const data = await response.json();
-
-    if (!data.ok) {
-      throw new Error(`Slack API error: ${data.error}`);
-    }
-
-    return data;
   }
 
   async addReaction(
     channel_id: string,
     timestamp: string,
     reaction: string,
-  ): Promise<any> {
-    this.refreshToken();
-    const response = await fetch("https://slack.com/api/reactions.add", {
-      method: "POST",
-      headers: this.botHeaders,
-      body: JSON.stringify({
+  ): Promise<SlackResponse> {
+    return this.call("reactions.add", {
+      json: {
         channel: channel_id,
         timestamp: timestamp,
         name: reaction,
-      }),
+      },
     });
+  }
+
+  // Files are uploaded in three steps: reserve an upload URL, send the bytes
+  // to it, then complete the upload to share the file in the channel.
+  async uploadFile(args: UploadFileArgs): Promise<CompleteUploadResponse> {
+    const content = args.content_base64 !== undefined
+      ? Buffer.from(args.content_base64, "base64")
+      : Buffer.from(args.content ?? "", "utf8");
+    if (content.length === 0) {
+      throw new SlackValidationError("The file is empty. Provide content or content_base64.");
+    }
 
-    const data = await response.json();
+    const upload: UploadUrlResponse = await this.call("files.getUploadURLExternal", {
+      form: {
+        filename: args.filename,
+        length: content.length.toString(),
+        alt_txt: args.alt_text || undefined,
+      },
+    });
 
-    if (!data.ok) {
-      throw new Error(`Slack API error: ${data.error}`);
+    const uploadResponse = await fetch(upload.upload_url, {
+      method: "POST",
+      headers: { "Content-Type": "application/octet-stream" },
+      body: content,
+    });
+    if (!uploadResponse.ok) {
+      throw new SlackError(`File upload failed with HTTP ${uploadResponse.status}`);
     }
 
-    return data;
+    return this.call("files.completeUploadExternal", {
+      json: {
+        files: [{ id: upload.file_id, title: args.title ?? args.filename }],
+        channel_id: args.channel_id,
+        initial_comment: args.initial_comment,
+        thread_ts: args.thread_ts,
+      },
+    });
   }
 
-  async getChannelHistory(
-    channel_id: string,
-    limit: number = 10,
-  ): Promise<any> {
-    this.refreshToken();
-    const params = new URLSearchParams({
-      channel: channel_id,
-      limit: limit.toString(),
+  async updateMessage(channel_id: string, ts: string, text: string): Promise<MessageResponse> {
+    return this.call("chat.update", {
+      json: {
+        channel: channel_id,
+        ts: ts,
+        text: text,
+      },
     });
+  }
 
-    const response = await fetch(
-      `https://slack.com/api/conversations.history?${params}`,
-      { headers: this.botHeaders },
-    );
+  async deleteMessage(channel_id: string, ts: string): Promise<MessageResponse> {
+    return this.call("chat.delete", {
+      json: {
+        channel: channel_id,
+        ts: ts,
+      },
+    });
+  }
 
-    const data = await response.json();
+  async pinMessage(channel_id: string, timestamp: string): Promise<SlackResponse> {
+    return this.call("pins.add", {
+      json: {
+        channel: channel_id,
+        timestamp: timestamp,
+      },
+    });
+  }
 
-    if (!data.ok) {
-      throw new Error(`Slack API error: ${data.error}`);
+  async scheduleMessage(args: ScheduleMessageArgs): Promise<ScheduleMessageResponse> {
+    const postAt = /^\d+$/.test(args.post_at)
+      ? Number(args.post_at)
+      : Math.floor(Date.parse(args.post_at) / 1000);
+    if (Number.isNaN(postAt)) {
+      throw new SlackValidationError(
+        `Invalid post_at "${args.post_at}". Use an ISO 8601 timestamp or a Unix timestamp in seconds.`,
+      );
     }
 
-    return data;
+    return this.call("chat.scheduleMessage", {
+      json: {
+        channel: args.channel_id,
+        text: args.text,
+        post_at: postAt,
+        thread_ts: args.thread_ts,
+      },
+    });
   }
 
-  async getThreadReplies(channel_id: string, thread_ts: string): Promise<any> {
-    this.refreshToken();
-    const params = new URLSearchParams({
-      channel: channel_id,
-      ts: thread_ts,
+  async getChannelHistory(
+    channel_id: string,
+    limit: number = 10,
+    cursor?: string,
+    oldest?: string,
+    latest?: string,
+  ): Promise<MessagesResponse> {
+    return this.call("conversations.history", {
+      query: {
+        channel: channel_id,
+        limit: Math.min(limit, 999),
+        cursor,
+        oldest: oldest ? toSlackTs(oldest) : undefined,
+        latest: latest ? toSlackTs(latest) : undefined,
+      },
     });
+  }
 
-    const response = await fetch(
-      `https://slack.com/api/conversations.replies?${params}`,
-      { headers: this.botHeaders },
-    );
-
-    const data = await response.json();
-
-    if (!data.ok) {
-      throw new Error(`Slack API error: ${data.error}`);
-    }
+  async getThreadReplies(
+    channel_id: string,
+    thread_ts: string,
+    limit: number = 200,
+    cursor?: string,
+  ): Promise<MessagesResponse> {
+    return this.call("conversations.replies", {
+      query: {
+        channel: channel_id,
+        ts: thread_ts,
+        limit: Math.min(limit, 1000),
+        cursor,
+      },
+    });
+  }
 
+  async getUsers(limit: number = 100, cursor?: string): Promise<UsersResponse> {
+    const data = await this.call<UsersResponse>("users.list", {
+      query: {
+        limit: Math.min(limit, 200),
+        team_id: process.env.SLACK_TEAM_ID,
+        cursor,
+      },
+    });
+    slackApi.rememberUsers(this.token, data.members);
     return data;
   }
 
-  async getUsers(limit: number = 100, cursor?: string): Promise<any> {
+  // Profiles, users and channels are looked up through the cached directory.
+  async getUserProfile(user_id: string): Promise<UserProfileResponse> {
     this.refreshToken();
-    const params = new URLSearchParams({
-      limit: Math.min(limit, 200).toString(),
-      team_id: process.env.SLACK_TEAM_ID!,
-    });
+    return { ok: true, profile: await slackApi.getUserProfile(this.token, user_id) };
+  }
 
-    if (cursor) {
-      params.append("cursor", cursor);
-    }
+  async getChannelInfo(channel_id: string): Promise<ChannelInfoResponse> {
+    this.refreshToken();
+    const channel = (await slackApi.getChannel(this.token, channel_id)) as SlackChannel;
+    return { ok: true, channel };
+  }
 
-    const response = await fetch(`https://slack.com/api/users.list?${params}`, {
-      headers: this.botHeaders,
-    });
+  async getUserInfo(user_id: string): Promise<UserInfoResponse> {
+    this.refreshToken();
+    const user = (await slackApi.getUser(this.token, user_id)) as SlackUser;
+    return { ok: true, user };
+  }
 
-    const data = await response.json();
+  // Events from every workspace share one buffer; only the caller's are returned.
+  async getTeamId(): Promise<string> {
+    this.refreshToken();
+    return slackApi.getTeamId(this.token);
+  }
 
-    if (!data.ok) {
-      throw new Error(`Slack API error: ${data.error}`);
+  private async eventFilter(args: Pick<PollEventsArgs, "types" | "channel_id" | "thread_ts">) {
+    if (!signingSecret) {
+      throw new SlackValidationError(
+        "Slack events are not enabled on this server. Set SLACK_SIGNING_SECRET and point the Slack app's Event Subscriptions at /slack/events.",
+      );
+    }
+    this.refreshToken();
+    if (!(await canSeeChannel(this.token, args.channel_id))) {
+      throw new SlackResourceNotFoundError(`Channel ${args.channel_id} not found or not accessible`);
     }
+    return {
+      team_id: await this.getTeamId(),
+      types: args.types,
+      channel_id: args.channel_id,
+      thread_ts: args.thread_ts,
+    };
+  }
 
-    return data;
+  async pollEvents(args: PollEventsArgs): Promise<EventPage> {
+    const filter = await this.eventFilter(args);
+    const limit = Math.min(Math.max(args.limit ?? 50, 1), 200);
+    const waitSeconds = Math.min(Math.max(args.wait_seconds ?? 0, 0), MAX_POLL_WAIT_SECONDS);
+    const deadline = Date.now() + waitSeconds * 1000;
+    let cursor = parseEventCursor(args.cursor);
+    let eventsDropped = false;
+    // Events the token cannot see are skipped; keep waiting for visible ones.
+    for (;;) {
+      const page = await eventBuffer.poll(cursor, filter, limit, deadline - Date.now());
+      eventsDropped ||= Boolean(page.events_dropped);
+      const events = await visibleEvents(this.token, page.events);
+      if (events.length > 0 || page.events.length === 0 || Date.now() >= deadline) {
+        return { ...page, events, ...(eventsDropped ? { events_dropped: true } : {}) };
+      }
+      cursor = parseEventCursor(page.next_cursor);
+    }
   }
 
-  async getUserProfile(user_id: string): Promise<any> {
-    this.refreshToken();
-    const params = new URLSearchParams({
-      user: user_id,
-      include_labels: "true",
-    });
+  // The newest visible events, for the events resources. Polling from the
+  // returned cursor picks up what arrives next.
+  async latestEvents(channel_id: string | undefined, limit: number): Promise<EventPage> {
+    const page = eventBuffer.latest(await this.eventFilter({ channel_id }), Infinity);
+    const events = await visibleEvents(this.token, page.events);
+    return { ...page, events: events.slice(-limit) };
+  }
 
-    const response = await fetch(
-      `https://slack.com/api/users.profile.get?${params}`,
-      { headers: this.botHeaders },
+  // Walks every page of the channel history in the range, then every thread
+  // started in it, and resolves the authors and mentioned users to names.
+  async exportConversation(args: ExportConversationArgs): Promise<Transcript> {
+    const maxMessages = Math.min(args.max_messages ?? 1000, MAX_EXPORT_MESSAGES);
+    const oldest = args.oldest ? toSlackTs(args.oldest) : undefined;
+    const latest = args.latest ? toSlackTs(args.latest) : undefined;
+
+    const conversation = await collectConversation(
+      {
+        history: (cursor) => this.getChannelHistory(args.channel_id, 200, cursor, oldest, latest),
+        replies: (threadTs, cursor) => this.getThreadReplies(args.channel_id, threadTs, 1000, cursor),
+      },
+      maxMessages,
+      args.include_threads !== false,
     );
 
-    const data = await response.json();
+    const allMessages = [...conversation.parents, ...[...conversation.replies.values()].flat()];
+    const userNames = await this.resolveUserNames(collectUserIds(allMessages));
 
-    if (!data.ok) {
-      throw new Error(`Slack API error: ${data.error}`);
+    let channelName: string | undefined;
+    try {
+      channelName = (await this.getChannelInfo(args.channel_id)).channel?.name;
+    } catch (error) {
+      console.warn(`Could not resolve Slack channel ${args.channel_id}:`, error);
     }
 
-    return data;
+    return {
+      channel_id: args.channel_id,
+      ...(channelName ? { channel_name: channelName } : {}),
+      ...(oldest ? { oldest } : {}),
+      ...(latest ? { latest } : {}),
+      message_count: conversation.total,
+      truncated: conversation.truncated,
+      messages: transcriptMessages(conversation, userNames),
+    };
   }
 
-  async searchMessages(args: SearchMessagesArgs): Promise<any> {
-    this.refreshToken();
-    const params = new URLSearchParams({
-      query: args.query,
-      count: args.count ? Math.min(args.count, 100).toString() : "20",
-      highlight: args.highlight ? "1" : "0",
-      team_id: process.env.SLACK_TEAM_ID!,
-    });
-
-    if (args.sort) {
-      params.append("sort", args.sort);
-    }
-
-    if (args.sort_dir) {
-      params.append("sort_dir", args.sort_dir);
+  // Display names for user IDs, looked up through the cached directory.
+  private async resolveUserNames(userIds: Iterable<string>): Promise<Map<string, string>> {
+    const userNames = new Map<string, string>();
+    for (const userId of userIds) {
+      try {
+        const { user } = await this.getUserInfo(userId);
+        userNames.set(
+          userId,
+          user.profile?.display_name || user.profile?.real_name || user.real_name || user.name || userId,
+        );
+      } catch (error) {
+        // Deleted or external users cannot always be looked up; keep the ID.
+        console.warn(`Could not resolve Slack user ${userId}:`, error);
+      }
     }
+    return userNames;
+  }
 
-    if (args.cursor) {
-      params.append("cursor", args.cursor);
+  // Compiles the filters into Slack search syntax and enriches every match
+  // with names, its permalink and, for thread replies, the thread parent.
+  async searchMessages(args: SearchMessagesArgs): Promise<SearchResult> {
+    const query = buildSearchQuery(args.query, {
+      ...args,
+      in: [...(args.in ?? []), ...(args.channel_ids ?? [])],
+    });
+    const page = args.cursor ? Number(args.cursor) : 1;
+    if (!Number.isInteger(page) || page < 1) {
+      throw new SlackValidationError(`Invalid cursor "${args.cursor}"`);
     }
 
-    // If channel_ids are provided, construct a channel filter for the query
-    if (args.channel_ids && args.channel_ids.length > 0) {
-      // We need to modify the query to include channel filters
-      // This is better than using the channel parameter which is deprecated
-      const channelsFilter = args.channel_ids.map(id => `in:${id}`).join(" ");
-      params.set("query", `${args.query} ${channelsFilter}`);
+    const data = await this.call<SearchResponse>("search.messages", {
+      query: {
+        query,
+        count: args.count ? Math.min(args.count, 100) : 20,
+        page,
+        highlight: args.highlight ? 1 : 0,
+        team_id: process.env.SLACK_TEAM_ID,
+        sort: args.sort,
+        sort_dir: args.sort_dir,
+      },
+    });
+    const matches: SearchMatch[] = data.messages?.matches ?? [];
+
+    // Thread parents are fetched once per thread, even if several replies match.
+    const parents = new Map<string, SlackMessage>();
+    if (args.include_thread_parents !== false) {
+      for (const match of matches) {
+        const threadTs = threadTsFromPermalink(match.permalink);
+        const key = `${match.channel?.id}:${threadTs}`;
+        if (!match.channel?.id || !threadTs || threadTs === match.ts || parents.has(key)) {
+          continue;
+        }
+        try {
+          const replies = await this.getThreadReplies(match.channel.id, threadTs, 1);
+          if (replies.messages?.[0]) {
+            parents.set(key, replies.messages[0]);
+          }
+        } catch (error) {
+          console.warn(`Could not load thread ${threadTs} in ${match.channel.id}:`, error);
+        }
+      }
     }
 
-    const response = await fetch(
-      `https://slack.com/api/search.messages?${params}`,
-      { headers: this.botHeaders },
-    );
-
-    const data = await response.json();
-
-    if (!data.ok) {
-      throw new Error(`Slack API error: ${data.error}`);
+    const userIds = collectUserIds([...matches, ...parents.values()]);
+    for (const match of matches) {
+      if (match.channel?.is_im && match.channel.name) {
+        userIds.add(match.channel.name);
+      }
     }
-
-    return data;
+    const userNames = await this.resolveUserNames(userIds);
+
+    const paging = data.messages?.paging ?? {};
+    const pageCount = paging.pages ?? 1;
+    return {
+      query,
+      total: data.messages?.total ?? matches.length,
+      page,
+      page_count: pageCount,
+      messages: matches.map((match) =>
+        normalizeMatch(
+          match,
+          userNames,
+          parents.get(`${match.channel?.id}:${threadTsFromPermalink(match.permalink)}`),
+        ),
+      ),
+      // Slack serves at most 100 pages of search results.
+      ...(page < Math.min(pageCount, 100) ? { next_cursor: String(page + 1) } : {}),
+    };
   }
 }
 
@@ -541,9 +1231,97 @@ const getSlackMcpServer = () => {
     {
       capabilities: {
         tools: {},
+        resources: { subscribe: true },
       },
     }
   );
+
+  // Subscribed event resource URIs and the token and workspace each
+  // subscription was made with. The buffer listener is only attached while
+  // there are any.
+  const subscriptions = new Map<string, { token: string; team_id: string }>();
+  let stopListening: (() => void) | undefined;
+  server.onclose = () => stopListening?.();
+
+  server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+    resources: signingSecret
+      ? [
+          {
+            uri: eventsResourceUri(),
+            name: "Slack events",
+            description: "Recent messages, app mentions and reactions received from Slack",
+            mimeType: "application/json",
+          },
+        ]
+      : [],
+  }));
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+    resourceTemplates: signingSecret
+      ? [
+          {
+            uriTemplate: "slack://events/{channel_id}",
+            name: "Slack channel events",
+            description: "Recent events received from Slack in one channel",
+            mimeType: "application/json",
+          },
+        ]
+      : [],
+  }));
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    const target = parseEventsResourceUri(request.params.uri);
+    if (!target || !signingSecret) {
+      throw new Error(`Unknown resource: ${request.params.uri}`);
+    }
+    const slackClient = new SlackClient(getSlackToken());
+    const page = await slackClient.latestEvents(target.channel_id, 200);
+    return {
+      contents: [
+        {
+          uri: request.params.uri,
+          mimeType: "application/json",
+          text: JSON.stringify(page, null, 2),
+        },
+      ],
+    };
+  });
+
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    const target = parseEventsResourceUri(request.params.uri);
+    if (!target || !signingSecret) {
+      throw new Error(`Unknown resource: ${request.params.uri}`);
+    }
+    const token = getSlackToken();
+    if (!(await canSeeChannel(token, target.channel_id))) {
+      throw new Error(`Unknown resource: ${request.params.uri}`);
+    }
+    const team_id = await new SlackClient(token).getTeamId();
+    subscriptions.set(request.params.uri, { token, team_id });
+    stopListening ??= eventBuffer.subscribe((event) => {
+      for (const [uri, subscriber] of subscriptions) {
+        if (!matchesFilter(event, { team_id: subscriber.team_id, ...parseEventsResourceUri(uri) })) {
+          continue;
+        }
+        canSeeChannel(subscriber.token, event.channel_id)
+          .then((visible) => (visible ? server.sendResourceUpdated({ uri }) : undefined))
+          .catch((error) => {
+            console.warn(`Could not notify subscriber of ${uri}:`, error);
+          });
+      }
+    });
+    return {};
+  });
+
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(request.params.uri);
+    if (subscriptions.size === 0) {
+      stopListening?.();
+      stopListening = undefined;
+    }
+    return {};
+  });
+
   server.setRequestHandler(
     ListToolsRequestSchema,
     async () => {
@@ -553,11 +1331,18 @@ const getSlackMcpServer = () => {
           postMessageTool,
           replyToThreadTool,
           addReactionTool,
+          uploadFileTool,
+          updateMessageTool,
+          deleteMessageTool,
+          pinMessageTool,
+          scheduleMessageTool,
           getChannelHistoryTool,
           getThreadRepliesTool,
           getUsersTool,
           getUserProfileTool,
           searchMessagesTool,
+          exportConversationTool,
+          pollEventsTool,
         ],
       };
     }
@@ -595,14 +1380,12 @@ const getSlackMcpServer = () => {
 
           case "slack_post_message": {
             const args = request.params.arguments as unknown as PostMessageArgs;
-            if (!args.channel_id || !args.text) {
-              throw new Error(
-                "Missing required arguments: channel_id and text",
-              );
+            if (!args.channel_id) {
+              throw new Error("Missing required argument: channel_id");
             }
             const response = await slackClient.postMessage(
               args.channel_id,
-              args.text,
+              composeMessage(args),
             );
             return {
               content: [{ type: "text", text: JSON.stringify(response) }],
@@ -611,15 +1394,15 @@ const getSlackMcpServer = () => {
 
           case "slack_reply_to_thread": {
             const args = request.params.arguments as unknown as ReplyToThreadArgs;
-            if (!args.channel_id || !args.thread_ts || !args.text) {
+            if (!args.channel_id || !args.thread_ts) {
               throw new Error(
-                "Missing required arguments: channel_id, thread_ts, and text",
+                "Missing required arguments: channel_id and thread_ts",
               );
             }
             const response = await slackClient.postReply(
               args.channel_id,
               args.thread_ts,
-              args.text,
+              composeMessage(args),
             );
             return {
               content: [{ type: "text", text: JSON.stringify(response) }],
@@ -643,6 +1426,86 @@ const getSlackMcpServer = () => {
             };
           }
 
+          case "slack_upload_file": {
+            const args = request.params.arguments as unknown as UploadFileArgs;
+            if (!args.channel_id || !args.filename) {
+              throw new Error(
+                "Missing required arguments: channel_id and filename",
+              );
+            }
+            if (args.content === undefined && args.content_base64 === undefined) {
+              throw new Error(
+                "Missing file content: provide content or content_base64",
+              );
+            }
+            const response = await slackClient.uploadFile(args);
+            return {
+              content: [{ type: "text", text: JSON.stringify(response) }],
+            };
+          }
+
+          case "slack_update_message": {
+            const args = request.params.arguments as unknown as UpdateMessageArgs;
+            if (!args.channel_id || !args.ts || !args.text) {
+              throw new Error(
+                "Missing required arguments: channel_id, ts, and text",
+              );
+            }
+            const response = await slackClient.updateMessage(
+              args.channel_id,
+              args.ts,
+              args.text,
+            );
+            return {
+              content: [{ type: "text", text: JSON.stringify(response) }],
+            };
+          }
+
+          case "slack_delete_message": {
+            const args = request.params.arguments as unknown as DeleteMessageArgs;
+            if (!args.channel_id || !args.ts) {
+              throw new Error(
+                "Missing required arguments: channel_id and ts",
+              );
+            }
+            const response = await slackClient.deleteMessage(
+              args.channel_id,
+              args.ts,
+            );
+            return {
+              content: [{ type: "text", text: JSON.stringify(response) }],
+            };
+          }
+
+          case "slack_pin_message": {
+            const args = request.params.arguments as unknown as PinMessageArgs;
+            if (!args.channel_id || !args.timestamp) {
+              throw new Error(
+                "Missing required arguments: channel_id and timestamp",
+              );
+            }
+            const response = await slackClient.pinMessage(
+              args.channel_id,
+              args.timestamp,
+            );
+            return {
+              content: [{ type: "text", text: JSON.stringify(response) }],
+            };
+          }
+
+          case "slack_schedule_message": {
+            const args = request.params.arguments as unknown as ScheduleMessageArgs;
+            if (!args.channel_id || !args.text || !args.post_at) {
+              throw new Error(
+                "Missing required arguments: channel_id, text, and post_at",
+              );
+            }
+            const response = await slackClient.scheduleMessage(args);
+            return {
+              content: [{ type: "text", text: JSON.stringify(response) }],
+            };
+          }
+
           case "slack_get_channel_history": {
             const args = request.params.arguments as unknown as GetChannelHistoryArgs;
             if (!args.channel_id) {
@@ -651,6 +1514,9 @@ const getSlackMcpServer = () => {
             const response = await slackClient.getChannelHistory(
               args.channel_id,
               args.limit,
+              args.cursor,
+              args.oldest,
+              args.latest,
             );
             return {
               content: [{ type: "text", text: JSON.stringify(response) }],
@@ -667,6 +1533,8 @@ const getSlackMcpServer = () => {
             const response = await slackClient.getThreadReplies(
               args.channel_id,
               args.thread_ts,
+              args.limit,
+              args.cursor,
             );
             return {
               content: [{ type: "text", text: JSON.stringify(response) }],
@@ -697,15 +1565,36 @@ const getSlackMcpServer = () => {
 
           case "slack_search_messages": {
             const args = request.params.arguments as unknown as SearchMessagesArgs;
-            if (!args.query) {
-              throw new Error("Missing required argument: query");
-            }
             const response = await slackClient.searchMessages(args);
             return {
               content: [{ type: "text", text: JSON.stringify(response) }],
             };
           }
 
+          case "slack_export_conversation": {
+            const args = request.params.arguments as unknown as ExportConversationArgs;
+            if (!args.channel_id) {
+              throw new Error("Missing required argument: channel_id");
+            }
+            const transcript = await slackClient.exportConversation(args);
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: renderTranscript(transcript, args.format ?? "markdown"),
+                },
+              ],
+            };
+          }
+
+          case "slack_poll_events": {
+            const args = request.params.arguments as unknown as PollEventsArgs;
+            const response = await slackClient.pollEvents(args);
+            return {
+              content: [{ type: "text", text: JSON.stringify(response) }],
+            };
+          }
+
           default:
             throw new Error(`Unknown tool: ${request.params.name}`);
         }
@@ -742,119 +1631,50 @@ function getSlackToken() {
   return asyncLocalStorage.getStore()!.slack_token;
 }
 
-const app = express();
-
-
-//=============================================================================
-// STREAMABLE HTTP TRANSPORT (PROTOCOL VERSION 2025-03-26)
-//=============================================================================
-
-app.post('/mcp', async (req: Request, res: Response) => {
-  const slack_token = req.headers['x-auth-token'] as string;
-
-  if (!slack_token) {
-    console.error('Error: Slack token is missing. Provide it via x-auth-token header.');
-  }
-
-    const server = getSlackMcpServer();
-    try {
-        const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
-            sessionIdGenerator: undefined,
-        });
-        await server.connect(transport);
-        asyncLocalStorage.run({ slack_token }, async () => {
-            await transport.handleRequest(req, res, req.body);
-        });
-        res.on('close', () => {
-            console.log('Request closed');
-            transport.close();
-            server.close();
-        });
-    } catch (error) {
-        console.error('Error handling MCP request:', error);
-        if (!res.headersSent) {
-            res.status(500).json({
-                jsonrpc: '2.0',
-                error: {
-                    code: -32603,
-                    message: 'Internal server error',
-                },
-                id: null,
-            });
-        }
-    }
-});
-
-app.get('/mcp', async (req: Request, res: Response) => {
-    console.log('Received GET MCP request');
-    res.writeHead(405).end(JSON.stringify({
-        jsonrpc: "2.0",
-        error: {
-            code: -32000,
-            message: "Method not allowed."
-        },
-        id: null
-    }));
-});
-
-app.delete('/mcp', async (req: Request, res: Response) => {
-    console.log('Received DELETE MCP request');
-    res.writeHead(405).end(JSON.stringify({
-        jsonrpc: "2.0",
-        error: {
-            code: -32000,
-            message: "Method not allowed."
-        },
-        id: null
-    }));
-});
-
-//=============================================================================
-// DEPRECATED HTTP+SSE TRANSPORT (PROTOCOL VERSION 2024-11-05)
-//=============================================================================
-const transports = new Map<string, SSEServerTransport>();
-
-app.get("/sse", async (req, res) => {
-  const transport = new SSEServerTransport(`/messages`, res);
-
-  // Set up cleanup when connection closes
-  res.on('close', async () => {
-    console.log(`SSE connection closed for transport: ${transport.sessionId}`);
-    try {
-      transports.delete(transport.sessionId);
-    } finally {
-    }
-  });
-
-  transports.set(transport.sessionId, transport);
-
-  const server = getSlackMcpServer();
-  await server.connect(transport);
-
-  console.log(`SSE connection established with transport: ${transport.sessionId}`);
-});
-
-app.post("/messages", async (req, res) => {
-  const sessionId = req.query.sessionId as string;
-
-  let transport: SSEServerTransport | undefined;
-  transport = sessionId ? transports.get(sessionId) : undefined;
-  if (transport) {
+startMcpServer({
+  name: "slack-mcp-server",
+  createServer: getSlackMcpServer,
+  asyncLocalStorage,
+  extractContext: (req) => {
     const slack_token = req.headers['x-auth-token'] as string;
-
     if (!slack_token) {
       console.error('Error: Slack token is missing. Provide it via x-auth-token header.');
     }
-
-    asyncLocalStorage.run({ slack_token }, async () => {
-      await transport.handlePostMessage(req, res);
+    return { slack_token };
+  },
+  routes: (app) => {
+    if (!signingSecret) {
+      return;
+    }
+    // Slack signs the exact bytes it sends, so the body is read unparsed.
+    app.post("/slack/events", async (req, res) => {
+      const tooLarge = () => {
+        console.warn("Rejected Slack events request: payload_too_large");
+        res.status(413).json({ error: "payload_too_large" });
+      };
+      if (Number(req.headers["content-length"]) > MAX_EVENT_BODY_BYTES) {
+        res.set("Connection", "close");
+        tooLarge();
+        return;
+      }
+      const rawBody = await readBody(req, MAX_EVENT_BODY_BYTES);
+      if (rawBody === undefined) {
+        tooLarge();
+        return;
+      }
+      const result = handleEventsRequest(
+        eventBuffer,
+        signingSecret,
+        {
+          timestamp: req.headers["x-slack-request-timestamp"] as string | undefined,
+          signature: req.headers["x-slack-signature"] as string | undefined,
+        },
+        rawBody,
+      );
+      if (result.status !== 200) {
+        console.warn(`Rejected Slack events request: ${result.body.error}`);
+      }
+      res.status(result.status).json(result.body);
     });
-  } else {
-    console.error(`Transport not found for session ID: ${sessionId}`);
-    res.status(404).send({ error: "Transport not found" });
-  }
+  },
 });
-
-app.listen(5000, () => {
-  console.log('server running on port 5000');
-});
\ No newline at end of file
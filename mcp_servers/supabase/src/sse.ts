@@ -1,125 +1,28 @@
 #!/usr/bin/env node
 
-import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
-import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
-import { createSupabaseMcpServer, asyncLocalStorage } from './server.js';
-import express from 'express';
+import { startMcpServer, UnauthorizedError } from '@klavis-ai/mcp-runtime';
 import * as dotenv from 'dotenv';
+import { asyncLocalStorage, createSupabaseMcpServer } from './server.js';
 
 // Load environment variables
 dotenv.config();
 
-const getSupabaseMcpServer = () => {
-  const server = createSupabaseMcpServer({
-    platform: {},
-    readOnly: true,
-  });
-  return server;
-}
-
-const app = express();
-
-
-//=============================================================================
-// STREAMABLE HTTP TRANSPORT (PROTOCOL VERSION 2025-03-26)
-//=============================================================================
-
-app.post('/mcp', async (req, res) => {
-  const accessToken = req.headers['x-auth-token'] as string;
-  if (!accessToken) {
-    console.error('Error: Supabase Access Token is missing. Provide it via x-auth-token header.');
-  }
-
-  const server = getSupabaseMcpServer();
-  try {
-    const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
-      sessionIdGenerator: undefined,
-    });
-    await server.connect(transport);
-    asyncLocalStorage.run({ accessToken }, async () => {
-      await transport.handleRequest(req, res, req.body);
-    });
-    res.on('close', () => {
-      console.log('Request closed');
-      transport.close();
-      server.close();
-    });
-  } catch (error) {
-    console.error('Error handling MCP request:', error);
-    if (!res.headersSent) {
-      res.status(500).json({
-        jsonrpc: '2.0',
-        error: {
-          code: -32603,
-          message: 'Internal server error',
-        },
-        id: null,
-      });
-    }
-  }
-});
-
-app.get('/mcp', async (req, res) => {
-  console.log('Received GET MCP request');
-  res.writeHead(405).end(JSON.stringify({
-    jsonrpc: "2.0",
-    error: {
-      code: -32000,
-      message: "Method not allowed."
-    },
-    id: null
-  }));
-});
-
-app.delete('/mcp', async (req, res) => {
-  console.log('Received DELETE MCP request');
-  res.writeHead(405).end(JSON.stringify({
-    jsonrpc: "2.0",
-    error: {
-      code: -32000,
-      message: "Method not allowed."
-    },
-    id: null
-  }));
-});
-
-//=============================================================================
-// DEPRECATED HTTP+SSE TRANSPORT (PROTOCOL VERSION 2024-11-05)
-//=============================================================================
-
-// to support multiple simultaneous connections we have a lookup object from
-// sessionId to transport
-const transports: { [sessionId: string]: SSEServerTransport } = {};
-
-app.get("/sse", async (req, res) => {
-  const transport = new SSEServerTransport('/messages', res);
-  transports[transport.sessionId] = transport;
-  res.on("close", () => {
-    delete transports[transport.sessionId];
-  });
-  const server = getSupabaseMcpServer();
-  await server.connect(transport);
-});
-
-app.post("/messages", async (req, res) => {
-  const sessionId = req.query.sessionId as string;
-  const transport = transports[sessionId];
-  if (transport) {
+startMcpServer({
+  name: 'supabase-mcp-server',
+  createServer: () =>
+    createSupabaseMcpServer({
+      platform: {},
+      readOnly: true,
+    }),
+  asyncLocalStorage,
+  extractContext: (req) => {
     // Use environment variable for auth token if set, otherwise use header
-    const envAuthToken = process.env.SUPABASE_AUTH_TOKEN;
-    const accessToken = envAuthToken || req.headers['x-auth-token'] as string;
+    const accessToken = process.env.SUPABASE_AUTH_TOKEN || (req.headers['x-auth-token'] as string);
     if (!accessToken) {
-      console.error('Error: Supabase Access Token is missing. Provide it via x-auth-token header.');
+      throw new UnauthorizedError(
+        'Supabase access token is missing. Provide it via the x-auth-token header.',
+      );
     }
-    asyncLocalStorage.run({ accessToken }, async () => {
-      await transport.handlePostMessage(req, res);
-    });
-  } else {
-    res.status(400).send('No transport found for sessionId');
-  }
+    return { accessToken };
+  },
 });
-
-const PORT = 5001;
-app.listen(PORT, () => {
-  console.log(`Supabase MCP Server running on port ${PORT}`);
-}); 